@@ -0,0 +1,110 @@
+import { readFile } from "node:fs/promises"
+import { join } from "node:path"
+import { type NextRequest, NextResponse } from "next/server"
+import { createTranslator } from "@/lib/i18n"
+import {
+  CATALOG_EVENT_LIMIT,
+  type CatalogProvider,
+  type CatalogQuery,
+  getProvider,
+  parseCatalogParams,
+  toCatalogParams,
+} from "@/lib/providers"
+import { cached } from "@/lib/server-cache"
+import { UpstreamError } from "@/lib/usgs"
+import type { ApiErrorBody, CatalogResponse } from "@/lib/types"
+
+export const dynamic = "force-dynamic"
+
+// API errors are always in English
+const translate = createTranslator("en")
+
+// Other agencies revise their catalogs less often than USGS regenerates its feeds
+const TTL_MS = 5 * 60 * 1000
+
+// CATALOG_FIXTURES=1 answers from the sample responses, so every provider can be tried offline
+const useFixtures = () => process.env.CATALOG_FIXTURES === "1"
+
+async function readBody(provider: CatalogProvider, query: CatalogQuery) {
+  if (useFixtures()) {
+    const source = `fixtures/catalogs/${provider.fixture}`
+    return { source, body: await readFile(join(process.cwd(), source), "utf8") }
+  }
+
+  const source = provider.getUrl!(query)
+  let response: Response
+  try {
+    response = await fetch(source, { cache: "no-store" })
+  } catch (error) {
+    throw new UpstreamError(
+      `Could not reach ${provider.label}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+  // FDSN services answer 204 No Content when nothing matches
+  if (response.status === 204) return { source, body: null }
+  if (!response.ok) throw new UpstreamError(`${provider.label} responded with HTTP ${response.status}`, response.status)
+  return { source, body: await response.text() }
+}
+
+async function loadCatalog(provider: CatalogProvider, query: CatalogQuery): Promise<CatalogResponse> {
+  const { source, body } = await readBody(provider, query)
+  if (body === null) return { provider: provider.id, source, earthquakes: [], skipped: 0, truncated: false }
+
+  const { earthquakes, issues } = provider.parse(body)
+  // Nothing readable at all usually means an error page or a format change rather than bad records
+  if (earthquakes.length === 0 && issues.length > 0) {
+    const [problem] = issues[0].problems
+    const detail = translate(problem.key, problem.params)
+    throw new UpstreamError(`${provider.label} returned an unreadable response: ${detail}`)
+  }
+
+  return {
+    provider: provider.id,
+    source,
+    earthquakes,
+    skipped: issues.length,
+    truncated: earthquakes.length + issues.length >= CATALOG_EVENT_LIMIT,
+  }
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider: id } = await params
+  const provider = getProvider(id)
+
+  // Local files are parsed in the browser, so only their fixture can be served from here
+  if (!provider || (!provider.getUrl && !useFixtures())) {
+    return NextResponse.json<ApiErrorBody>(
+      { error: `Unknown catalog provider "${id}"`, code: "INVALID_REQUEST" },
+      { status: 400 },
+    )
+  }
+
+  const { query, error } = parseCatalogParams(request.nextUrl.searchParams)
+  if (!query) {
+    return NextResponse.json<ApiErrorBody>(
+      { error: error ?? "Invalid window", code: "INVALID_REQUEST" },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const { value, status } = await cached(
+      `catalog:${provider.id}:${toCatalogParams(query)}`,
+      () => loadCatalog(provider, query),
+      { ttlMs: TTL_MS, staleMs: TTL_MS },
+    )
+
+    return NextResponse.json<CatalogResponse>(value, {
+      headers: { "Cache-Control": `public, s-maxage=${TTL_MS / 1000}`, "X-Cache": status },
+    })
+  } catch (error) {
+    console.error(`Error loading the ${provider.label} catalog:`, error)
+
+    const body: ApiErrorBody =
+      error instanceof UpstreamError
+        ? { error: error.message, code: "UPSTREAM_ERROR", upstreamStatus: error.status }
+        : { error: `Unexpected error while loading the ${provider.label} catalog`, code: "UPSTREAM_ERROR" }
+
+    return NextResponse.json<ApiErrorBody>(body, { status: 502, headers: { "Cache-Control": "no-store" } })
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DETAIL_TTL_MS, EVENT_ID_PATTERN, UpstreamError, getEventDetail } from "@/lib/usgs"
+import type { ApiErrorBody, EventDetail } from "@/lib/types"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  // Only ids go upstream, never arbitrary URLs, so the route can't be used as an open proxy
+  if (!EVENT_ID_PATTERN.test(id)) {
+    return NextResponse.json<ApiErrorBody>({ error: `Invalid event id "${id}"`, code: "INVALID_REQUEST" }, { status: 400 })
+  }
+
+  try {
+    const { value, status } = await getEventDetail(id)
+
+    return NextResponse.json<EventDetail>(value, {
+      headers: { "Cache-Control": `public, s-maxage=${DETAIL_TTL_MS / 1000}`, "X-Cache": status },
+    })
+  } catch (error) {
+    if (error instanceof UpstreamError && (error.status === 404 || error.status === 409)) {
+      return NextResponse.json<ApiErrorBody>({ error: error.message, code: "NOT_FOUND" }, { status: 404 })
+    }
+
+    console.error("Error fetching USGS event detail:", error)
+
+    const body: ApiErrorBody =
+      error instanceof UpstreamError
+        ? { error: error.message, code: "UPSTREAM_ERROR", upstreamStatus: error.status }
+        : { error: "Unexpected error while loading the event", code: "UPSTREAM_ERROR" }
+
+    return NextResponse.json<ApiErrorBody>(body, { status: 502, headers: { "Cache-Control": "no-store" } })
+  }
+}
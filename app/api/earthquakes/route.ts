@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DEFAULT_FEED, parseFeedId } from "@/lib/feeds"
+import { FEED_STALE_MS, FEED_TTL_MS, UpstreamError, getFeed } from "@/lib/usgs"
+import type { ApiErrorBody, EarthquakeData } from "@/lib/types"
+
+export const dynamic = "force-dynamic"
+
+export async function GET(request: NextRequest) {
+  const feedParam = request.nextUrl.searchParams.get("feed")
+  const feed = feedParam ? parseFeedId(feedParam) : DEFAULT_FEED
+
+  if (!feed) {
+    return NextResponse.json<ApiErrorBody>(
+      { error: `Unknown feed "${feedParam}"`, code: "INVALID_REQUEST" },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const { value, status, storedAt } = await getFeed(feed)
+
+    return NextResponse.json<EarthquakeData>(value, {
+      headers: {
+        "Cache-Control": `public, s-maxage=${FEED_TTL_MS / 1000}, stale-while-revalidate=${FEED_STALE_MS / 1000}`,
+        "X-Cache": status,
+        "X-Fetched-At": new Date(storedAt).toISOString(),
+      },
+    })
+  } catch (error) {
+    console.error("Error fetching USGS feed:", error)
+
+    const body: ApiErrorBody =
+      error instanceof UpstreamError
+        ? { error: error.message, code: "UPSTREAM_ERROR", upstreamStatus: error.status }
+        : { error: "Unexpected error while loading earthquake data", code: "UPSTREAM_ERROR" }
+
+    return NextResponse.json<ApiErrorBody>(body, { status: 502, headers: { "Cache-Control": "no-store" } })
+  }
+}
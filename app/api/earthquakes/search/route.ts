@@ -0,0 +1,129 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  FDSN_QUERY_LIMIT,
+  type HistoricalSearch,
+  SearchLimitError,
+  parseFdsnTime,
+  parseSearchParams,
+  splitByTime,
+  toFdsnQuery,
+  toSearchParams,
+} from "@/lib/fdsn"
+import { createTranslator } from "@/lib/i18n"
+import { cached } from "@/lib/server-cache"
+import { UpstreamError, fetchUsgsCount, fetchUsgsGeoJson, getFdsnUrl } from "@/lib/usgs"
+import type { ApiErrorBody, Earthquake, SearchResponse } from "@/lib/types"
+
+export const dynamic = "force-dynamic"
+
+// API errors are always in English
+const translate = createTranslator("en")
+
+// Past events rarely change, so searches can be reused for a while
+const TTL_MS = 10 * 60 * 1000
+
+// Upper bound for split searches so one request can't exhaust server memory
+const MAX_SPLIT_EVENTS = 100000
+
+function countEvents(search: HistoricalSearch) {
+  const params = toFdsnQuery({ ...search, limit: undefined, offset: undefined })
+  params.delete("orderby")
+  return fetchUsgsCount(getFdsnUrl("count", params))
+}
+
+const comparators: Record<HistoricalSearch["orderBy"], (a: Earthquake, b: Earthquake) => number> = {
+  time: (a, b) => b.properties.time - a.properties.time,
+  "time-asc": (a, b) => a.properties.time - b.properties.time,
+  magnitude: (a, b) => b.properties.mag - a.properties.mag,
+  "magnitude-asc": (a, b) => a.properties.mag - b.properties.mag,
+}
+
+async function runSearch(search: HistoricalSearch): Promise<SearchResponse> {
+  const total = await countEvents(search)
+  const offset = search.offset ?? 1
+
+  if (search.limit !== undefined || total <= FDSN_QUERY_LIMIT) {
+    const data = await fetchUsgsGeoJson(getFdsnUrl("query", toFdsnQuery(search)))
+    return { data, total, offset, limit: search.limit ?? null, chunks: 1 }
+  }
+
+  if (!search.split) throw new SearchLimitError(total, FDSN_QUERY_LIMIT)
+  if (total > MAX_SPLIT_EVENTS) throw new SearchLimitError(total, MAX_SPLIT_EVENTS)
+
+  const ranges = await splitByTime(parseFdsnTime(search.startTime), parseFdsnTime(search.endTime), (startMs, endMs) =>
+    countEvents({ ...search, startTime: new Date(startMs).toISOString(), endTime: new Date(endMs).toISOString() }),
+  )
+
+  // Range boundaries are inclusive on both sides, so dedupe by id while merging
+  const merged = new Map<string, Earthquake>()
+  let metadata: SearchResponse["data"]["metadata"] | null = null
+  for (const [startMs, endMs] of ranges) {
+    const chunk = await fetchUsgsGeoJson(
+      getFdsnUrl(
+        "query",
+        toFdsnQuery({ ...search, startTime: new Date(startMs).toISOString(), endTime: new Date(endMs).toISOString() }),
+      ),
+    )
+    metadata ??= chunk.metadata
+    for (const earthquake of chunk.features) merged.set(earthquake.id, earthquake)
+  }
+
+  const features = [...merged.values()].sort(comparators[search.orderBy])
+  return {
+    data: {
+      type: "FeatureCollection",
+      metadata: {
+        generated: Date.now(),
+        url: getFdsnUrl("query", toFdsnQuery(search)),
+        title: metadata?.title ?? "USGS Earthquakes",
+        status: 200,
+        api: metadata?.api ?? "",
+        count: features.length,
+      },
+      features,
+    },
+    total: features.length,
+    offset: 1,
+    limit: null,
+    chunks: ranges.length,
+  }
+}
+
+export async function GET(request: NextRequest) {
+  const { search, errors } = parseSearchParams(request.nextUrl.searchParams)
+
+  if (!search) {
+    const details = errors.map(({ key, params }) => translate(key, params))
+    return NextResponse.json<ApiErrorBody>(
+      { error: details[0] ?? "Invalid search", code: "INVALID_REQUEST", details },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const { value, status } = await cached(`search:${toSearchParams(search)}`, () => runSearch(search), {
+      ttlMs: TTL_MS,
+      staleMs: 0,
+    })
+
+    return NextResponse.json<SearchResponse>(value, {
+      headers: { "Cache-Control": `public, s-maxage=${TTL_MS / 1000}`, "X-Cache": status },
+    })
+  } catch (error) {
+    if (error instanceof SearchLimitError) {
+      return NextResponse.json<ApiErrorBody>(
+        { error: error.message, code: "SEARCH_LIMIT_EXCEEDED", count: error.count },
+        { status: 400 },
+      )
+    }
+
+    console.error("Error running historical search:", error)
+
+    const body: ApiErrorBody =
+      error instanceof UpstreamError
+        ? { error: error.message, code: "UPSTREAM_ERROR", upstreamStatus: error.status }
+        : { error: error instanceof Error ? error.message : "Unexpected error while searching", code: "UPSTREAM_ERROR" }
+
+    return NextResponse.json<ApiErrorBody>(body, { status: 502, headers: { "Cache-Control": "no-store" } })
+  }
+}
@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DEFAULT_FEED, parseFeedId } from "@/lib/feeds"
+import { getFeed } from "@/lib/usgs"
+import type { ApiErrorBody, StreamUpdate } from "@/lib/types"
+
+export const dynamic = "force-dynamic"
+
+// Polls go through the shared feed cache, so extra subscribers don't add upstream load
+const POLL_MS = 30 * 1000
+// Comment lines keep proxies from closing an idle connection
+const KEEPALIVE_MS = 15 * 1000
+
+export async function GET(request: NextRequest) {
+  const feedParam = request.nextUrl.searchParams.get("feed")
+  const feed = feedParam ? parseFeedId(feedParam) : DEFAULT_FEED
+
+  if (!feed) {
+    return NextResponse.json<ApiErrorBody>(
+      { error: `Unknown feed "${feedParam}"`, code: "INVALID_REQUEST" },
+      { status: 400 },
+    )
+  }
+
+  const encoder = new TextEncoder()
+  // Last `updated` timestamp sent to this subscriber, by event id
+  const sent = new Map<string, number>()
+  let pollTimer: ReturnType<typeof setInterval> | undefined
+  let keepaliveTimer: ReturnType<typeof setInterval> | undefined
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk))
+      }
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearInterval(pollTimer)
+        clearInterval(keepaliveTimer)
+        controller.close()
+      }
+
+      const poll = async () => {
+        try {
+          const { value } = await getFeed(feed)
+          const first = sent.size === 0
+          const changed = value.features.filter((earthquake) => sent.get(earthquake.id) !== earthquake.properties.updated)
+          for (const earthquake of changed) sent.set(earthquake.id, earthquake.properties.updated)
+
+          if (first || changed.length > 0) {
+            send("update", { generated: value.metadata.generated, features: changed } satisfies StreamUpdate)
+          }
+        } catch (error) {
+          console.error("Error polling USGS feed for stream:", error)
+          send("upstream-error", {
+            error: error instanceof Error ? error.message : "Unexpected error while polling USGS",
+            code: "UPSTREAM_ERROR",
+          } satisfies ApiErrorBody)
+        }
+      }
+
+      write(`retry: ${POLL_MS}\n\n`)
+      poll()
+      pollTimer = setInterval(poll, POLL_MS)
+      keepaliveTimer = setInterval(() => write(": keepalive\n\n"), KEEPALIVE_MS)
+      request.signal.addEventListener("abort", close)
+    },
+    cancel() {
+      closed = true
+      clearInterval(pollTimer)
+      clearInterval(keepaliveTimer)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,82 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { PresetStoreFullError, getWorkspacePresets, setWorkspacePresets } from "@/lib/preset-store"
+import { WORKSPACE_ID_PATTERN, parsePresetCollection } from "@/lib/presets"
+import type { ApiErrorBody } from "@/lib/types"
+
+export const dynamic = "force-dynamic"
+
+// Far more than MAX_PRESETS presets need, so oversized bodies are turned away before parsing
+const MAX_BODY_BYTES = 512 * 1024
+
+const invalid = (error: string) =>
+  NextResponse.json<ApiErrorBody>({ error, code: "INVALID_REQUEST" }, { status: 400 })
+
+const storageError = (error: unknown) => {
+  console.error("Error accessing the preset store:", error)
+  return NextResponse.json<ApiErrorBody>(
+    { error: "The preset store could not be read or written", code: "STORAGE_ERROR" },
+    { status: 500, headers: { "Cache-Control": "no-store" } },
+  )
+}
+
+const tooLarge = () =>
+  NextResponse.json<ApiErrorBody>({ error: "Too many presets to store", code: "INVALID_REQUEST" }, { status: 413 })
+
+// Reads at most limit bytes, so an oversized body is never buffered whole; null when there is more
+async function readBody(request: NextRequest, limit: number) {
+  if (!request.body) return ""
+  const reader = request.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel()
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks).toString("utf8")
+}
+
+// Anyone who knows a workspace id can read and replace its presets; the id is a shared secret, not an account
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ workspace: string }> }) {
+  const { workspace } = await params
+  if (!WORKSPACE_ID_PATTERN.test(workspace)) return invalid("Invalid workspace id")
+
+  try {
+    return NextResponse.json(await getWorkspacePresets(workspace), { headers: { "Cache-Control": "no-store" } })
+  } catch (error) {
+    return storageError(error)
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ workspace: string }> }) {
+  const { workspace } = await params
+  if (!WORKSPACE_ID_PATTERN.test(workspace)) return invalid("Invalid workspace id")
+
+  // The declared length turns most oversized bodies away unread; the capped read covers a missing or wrong one
+  if (Number(request.headers.get("content-length")) > MAX_BODY_BYTES) return tooLarge()
+  const text = await readBody(request, MAX_BODY_BYTES)
+  if (text === null) return tooLarge()
+
+  let collection
+  try {
+    collection = parsePresetCollection(JSON.parse(text))
+  } catch (error) {
+    return invalid(error instanceof SyntaxError ? "The body is not valid JSON" : (error as Error).message)
+  }
+
+  try {
+    return NextResponse.json(await setWorkspacePresets(workspace, collection), {
+      headers: { "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    if (error instanceof PresetStoreFullError) {
+      return NextResponse.json<ApiErrorBody>({ error: error.message, code: "STORAGE_ERROR" }, { status: 507 })
+    }
+    return storageError(error)
+  }
+}
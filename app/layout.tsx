@@ -1,6 +1,8 @@
 import type React from "react"
 import type { Metadata } from "next"
 import { Inter } from "next/font/google"
+import PreferencesProvider from "@/components/preferences-provider"
+import ServiceWorker from "@/components/service-worker"
 import "./globals.css"
 
 const inter = Inter({
@@ -12,6 +14,7 @@ export const metadata: Metadata = {
   title: "Earthquake Visualizer",
   description: "Interactive earthquake data visualization for geography students",
   generator: "v0.app",
+  icons: { icon: "/icon.svg" },
 }
 
 export default function RootLayout({
@@ -21,7 +24,10 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body className={`font-sans ${inter.variable} antialiased`}>{children}</body>
+      <body className={`font-sans ${inter.variable} antialiased`}>
+        <PreferencesProvider>{children}</PreferencesProvider>
+        <ServiceWorker />
+      </body>
     </html>
   )
 }
@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next"
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "Earthquake Visualizer",
+    short_name: "Earthquakes",
+    description: "Interactive earthquake data visualization for geography students",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: "#0f766e",
+    icons: [{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" }],
+  }
+}
@@ -1,9 +1,12 @@
 import EarthquakeVisualizer from "@/components/earthquake-visualizer"
+import { type RawSearchParams, parseViewState, toUrlSearchParams } from "@/lib/url-state"
+
+export default async function Home({ searchParams }: { searchParams: Promise<RawSearchParams> }) {
+  const initialState = parseViewState(toUrlSearchParams(await searchParams))
 
-export default function Home() {
   return (
     <main className="min-h-screen bg-background">
-      <EarthquakeVisualizer />
+      <EarthquakeVisualizer initialState={initialState} />
     </main>
   )
 }
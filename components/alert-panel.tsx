@@ -0,0 +1,409 @@
+"use client"
+
+import { useRef, useState, type FormEvent, type ReactNode } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bell, BellOff, Download, Plus, Trash2, Upload, X } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  type AlertEntry,
+  type AlertRule,
+  PAGER_LEVELS,
+  type PagerLevel,
+  describeAlertRule,
+  exportAlertRules,
+  parseAlertRules,
+} from "@/lib/alerts"
+import { KM_PER_MILE } from "@/lib/preferences"
+import { type SavedRegion, encodeRegionShape } from "@/lib/regions"
+
+// Select values that aren't region keys
+const ANYWHERE = "anywhere"
+const CUSTOM_CIRCLE = "custom-circle"
+const ANY_LEVEL = "any"
+
+// Depth and radius are typed in the chosen distance unit
+interface RuleDraft {
+  name: string
+  minMagnitude: string
+  maxDepth: string
+  region: string
+  latitude: string
+  longitude: string
+  radius: string
+  minAlertLevel: string
+  tsunami: boolean
+}
+
+const emptyDraft = (): RuleDraft => ({
+  name: "",
+  minMagnitude: "5",
+  maxDepth: "",
+  region: ANYWHERE,
+  latitude: "",
+  longitude: "",
+  radius: "250",
+  minAlertLevel: ANY_LEVEL,
+  tsunami: false,
+})
+
+// Blank means no limit
+const parseOptional = (value: string) => (value.trim() === "" ? null : Number(value))
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  )
+}
+
+interface AlertPanelProps {
+  rules: AlertRule[]
+  onRulesChange: (rules: AlertRule[]) => void
+  // Newest first
+  log: AlertEntry[]
+  onClearLog: () => void
+  onSelectEvent: (id: string) => void
+  // Drawn regions can be used as a rule's area; named ones can't
+  regions: SavedRegion[]
+  permission: NotificationPermission | "unsupported"
+  onRequestPermission: () => void
+  onClose: () => void
+}
+
+export default function AlertPanel({
+  rules,
+  onRulesChange,
+  log,
+  onClearLog,
+  onSelectEvent,
+  regions,
+  permission,
+  onRequestPermission,
+  onClose,
+}: AlertPanelProps) {
+  const { t, format } = usePreferences()
+  const [draft, setDraft] = useState<RuleDraft | null>(null)
+  const [formError, setFormError] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const drawnRegions = regions.filter((region) => region.shape.kind !== "named")
+
+  const toKm = (value: number) => (format.lengthUnit === "mi" ? value * KM_PER_MILE : value)
+
+  const update = <K extends keyof RuleDraft>(key: K, value: RuleDraft[K]) =>
+    setDraft((current) => (current ? { ...current, [key]: value } : current))
+
+  const addRule = (event: FormEvent) => {
+    event.preventDefault()
+    if (!draft) return
+
+    const minMagnitude = parseOptional(draft.minMagnitude)
+    const maxDepth = parseOptional(draft.maxDepth)
+    if (minMagnitude !== null && !Number.isFinite(minMagnitude)) return setFormError(t("alerts.invalidMagnitude"))
+    if (maxDepth !== null && !Number.isFinite(maxDepth)) return setFormError(t("alerts.invalidDepth"))
+
+    let region: string | null = null
+    if (draft.region === CUSTOM_CIRCLE) {
+      const lat = Number(draft.latitude)
+      const lng = Number(draft.longitude)
+      const radius = Number(draft.radius)
+      if (!draft.latitude.trim() || !draft.longitude.trim() || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+        return setFormError(t("alerts.invalidPosition"))
+      }
+      if (!(radius > 0)) return setFormError(t("alerts.invalidRadius", { unit: format.lengthUnit }))
+      region = encodeRegionShape({ kind: "circle", lat, lng, radiusKm: toKm(radius) })
+    } else if (draft.region !== ANYWHERE) {
+      region = draft.region
+    }
+
+    const rule: AlertRule = {
+      id: crypto.randomUUID(),
+      name: draft.name.trim() || t("alerts.defaultName", { number: rules.length + 1 }),
+      enabled: true,
+      minMagnitude,
+      maxDepthKm: maxDepth === null ? null : toKm(maxDepth),
+      region,
+      minAlertLevel: draft.minAlertLevel === ANY_LEVEL ? null : (draft.minAlertLevel as PagerLevel),
+      tsunami: draft.tsunami,
+    }
+    onRulesChange([...rules, rule])
+    setDraft(null)
+    setFormError(null)
+  }
+
+  const downloadRules = () => {
+    const url = URL.createObjectURL(new Blob([exportAlertRules(rules)], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "earthquake-alert-rules.json"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Imported rules replace those with the same id and are added after the rest
+  const importRules = async (file: File) => {
+    try {
+      const imported = parseAlertRules(await file.text())
+      const importedIds = new Set(imported.map((rule) => rule.id))
+      onRulesChange([...rules.filter((rule) => !importedIds.has(rule.id)), ...imported])
+      setImportError(null)
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : t("alerts.unreadable"))
+    }
+  }
+
+  return (
+    <Card className="hover-lift animate-slide-up">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <Bell className="h-5 w-5 text-primary" />
+              <span>{t("alerts.title")}</span>
+            </CardTitle>
+            <CardDescription>{t("alerts.description")}</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("alerts.close")}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {permission === "unsupported" ? (
+          <p className="text-xs text-muted-foreground">{t("alerts.unsupported")}</p>
+        ) : permission === "granted" ? (
+          <p className="text-xs text-muted-foreground">{t("alerts.granted")}</p>
+        ) : permission === "denied" ? (
+          <p className="text-xs text-muted-foreground">
+            <BellOff className="inline h-3 w-3 mr-1" />
+            {t("alerts.denied")}
+          </p>
+        ) : (
+          <Button variant="outline" size="sm" className="w-full" onClick={onRequestPermission}>
+            <Bell className="h-4 w-4 mr-2" />
+            {t("alerts.enable")}
+          </Button>
+        )}
+
+        {rules.length > 0 && (
+          <ul className="space-y-1">
+            {rules.map((rule) => (
+              <li key={rule.id} className="flex items-center gap-2 rounded-lg p-2 hover:bg-muted/20">
+                <input
+                  type="checkbox"
+                  className="accent-primary"
+                  checked={rule.enabled}
+                  onChange={(event) =>
+                    onRulesChange(
+                      rules.map((candidate) =>
+                        candidate.id === rule.id ? { ...candidate, enabled: event.target.checked } : candidate,
+                      ),
+                    )
+                  }
+                  aria-label={t("alerts.enableRule", { name: rule.name })}
+                />
+                <div className="flex-1">
+                  <span className={`block text-sm ${rule.enabled ? "" : "text-muted-foreground"}`}>{rule.name}</span>
+                  <span className="block text-xs text-muted-foreground">{describeAlertRule(rule, t, format)}</span>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRulesChange(rules.filter((candidate) => candidate.id !== rule.id))}
+                  aria-label={t("alerts.removeRule", { name: rule.name })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {draft ? (
+          <form onSubmit={addRule} className="space-y-3 rounded-lg border border-border p-3">
+            <Field label={t("alerts.name")}>
+              <Input
+                value={draft.name}
+                placeholder={t("alerts.defaultName", { number: rules.length + 1 })}
+                onChange={(event) => update("name", event.target.value)}
+              />
+            </Field>
+            <div className="grid grid-cols-2 gap-2">
+              <Field label={t("alerts.minMagnitude")}>
+                <Input
+                  type="number"
+                  step="0.1"
+                  placeholder={t("alerts.any")}
+                  value={draft.minMagnitude}
+                  onChange={(event) => update("minMagnitude", event.target.value)}
+                />
+              </Field>
+              <Field label={t("alerts.maxDepth", { unit: format.lengthUnit })}>
+                <Input
+                  type="number"
+                  step="1"
+                  placeholder={t("alerts.any")}
+                  value={draft.maxDepth}
+                  onChange={(event) => update("maxDepth", event.target.value)}
+                />
+              </Field>
+            </div>
+            <Field label={t("alerts.area")}>
+              <Select value={draft.region} onValueChange={(value) => update("region", value)}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANYWHERE}>{t("alerts.anywhere")}</SelectItem>
+                  {drawnRegions.map((region) => (
+                    <SelectItem key={region.key} value={region.key}>
+                      {region.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM_CIRCLE}>{t("alerts.customCircle")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </Field>
+            {draft.region === CUSTOM_CIRCLE && (
+              <div className="grid grid-cols-3 gap-2">
+                <Field label={t("alerts.latitude")}>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={draft.latitude}
+                    onChange={(event) => update("latitude", event.target.value)}
+                  />
+                </Field>
+                <Field label={t("alerts.longitude")}>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={draft.longitude}
+                    onChange={(event) => update("longitude", event.target.value)}
+                  />
+                </Field>
+                <Field label={t("alerts.radius", { unit: format.lengthUnit })}>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={draft.radius}
+                    onChange={(event) => update("radius", event.target.value)}
+                  />
+                </Field>
+              </div>
+            )}
+            <Field label={t("alerts.pager")}>
+              <Select value={draft.minAlertLevel} onValueChange={(value) => update("minAlertLevel", value)}>
+                <SelectTrigger size="sm" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_LEVEL}>{t("alerts.anyLevel")}</SelectItem>
+                  {PAGER_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      <span className="capitalize">{level}</span>
+                      {level !== "red" && ` ${t("alerts.orHigher")}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </Field>
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                className="accent-primary"
+                checked={draft.tsunami}
+                onChange={(event) => update("tsunami", event.target.checked)}
+              />
+              <span>{t("alerts.tsunamiOnly")}</span>
+            </label>
+            {formError && <p className="text-xs text-destructive">{formError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setDraft(null)
+                  setFormError(null)
+                }}
+              >
+                {t("alerts.cancel")}
+              </Button>
+              <Button type="submit" size="sm">
+                {t("alerts.add")}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => setDraft(emptyDraft())}>
+              <Plus className="h-4 w-4 mr-1" />
+              {t("alerts.new")}
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-1" />
+              {t("alerts.import")}
+            </Button>
+            <Button variant="outline" size="sm" onClick={downloadRules} disabled={rules.length === 0}>
+              <Download className="h-4 w-4 mr-1" />
+              {t("alerts.export")}
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0]
+                if (file) importRules(file)
+                event.target.value = ""
+              }}
+            />
+          </div>
+        )}
+        {importError && <p className="text-xs text-destructive">{importError}</p>}
+
+        <div className="space-y-2 border-t border-border pt-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{t("alerts.log")}</span>
+            {log.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={onClearLog}>
+                {t("alerts.clearLog")}
+              </Button>
+            )}
+          </div>
+          {log.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t("alerts.noAlerts")}</p>
+          ) : (
+            <ul className="max-h-64 space-y-1 overflow-y-auto">
+              {log.map((entry) => (
+                <li key={entry.eventId}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectEvent(entry.eventId)}
+                    className="w-full rounded-lg p-2 text-left transition-colors hover:bg-muted/20"
+                  >
+                    <span className="flex items-center gap-2 text-sm">
+                      <Badge variant="outline">M{entry.magnitude.toFixed(1)}</Badge>
+                      <span className="truncate">{entry.place}</span>
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {format.time(entry.time)} · {entry.rules.join(", ")}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
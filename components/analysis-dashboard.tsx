@@ -0,0 +1,349 @@
+"use client"
+
+import { useMemo } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { BarChart3, X } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  MIN_EVENTS_FOR_B_VALUE,
+  type MagnitudeBin,
+  fitGutenbergRichter,
+  getBreakdown,
+  getCompletenessMagnitude,
+  getDepthHistogram,
+  getEventRate,
+  getMagnitudeHistogram,
+  getRateBucket,
+} from "@/lib/stats"
+import type { Earthquake } from "@/lib/types"
+
+const WIDTH = 400
+const HEIGHT = 200
+const MARGIN = { top: 10, right: 10, bottom: 30, left: 40 }
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom
+
+const DEPTH_BIN_KM = 10
+
+// At most this many labels along the x axis, evenly spaced over the bars
+const MAX_X_LABELS = 6
+
+interface Bar {
+  label: string
+  value: number
+  title: string
+}
+
+function BarChart({ bars, xLabel, yLabel, color }: { bars: Bar[]; xLabel: string; yLabel: string; color: string }) {
+  const { t } = usePreferences()
+  const max = Math.max(1, ...bars.map((bar) => bar.value))
+  const barWidth = PLOT_WIDTH / Math.max(bars.length, 1)
+  const labelEvery = Math.ceil(bars.length / MAX_X_LABELS)
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={t("analysis.chart", { x: xLabel, y: yLabel })}
+    >
+      <line
+        x1={MARGIN.left}
+        x2={WIDTH - MARGIN.right}
+        y1={MARGIN.top + PLOT_HEIGHT}
+        y2={MARGIN.top + PLOT_HEIGHT}
+        className="stroke-border"
+      />
+      <text x={MARGIN.left - 6} y={MARGIN.top} textAnchor="end" dominantBaseline="hanging" className="fill-muted-foreground text-[10px]">
+        {max}
+      </text>
+      <text x={MARGIN.left - 6} y={MARGIN.top + PLOT_HEIGHT} textAnchor="end" className="fill-muted-foreground text-[10px]">
+        0
+      </text>
+      <text
+        transform={`translate(10 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+        textAnchor="middle"
+        className="fill-muted-foreground text-[10px]"
+      >
+        {yLabel}
+      </text>
+      {bars.map((bar, index) => {
+        const height = (bar.value / max) * PLOT_HEIGHT
+        return (
+          <g key={index}>
+            <rect
+              x={MARGIN.left + index * barWidth + barWidth * 0.1}
+              y={MARGIN.top + PLOT_HEIGHT - height}
+              width={barWidth * 0.8}
+              height={height}
+              fill={color}
+            >
+              <title>{bar.title}</title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text
+                x={MARGIN.left + (index + 0.5) * barWidth}
+                y={HEIGHT - MARGIN.bottom + 12}
+                textAnchor="middle"
+                className="fill-muted-foreground text-[10px]"
+              >
+                {bar.label}
+              </text>
+            )}
+          </g>
+        )
+      })}
+      <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 2} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+        {xLabel}
+      </text>
+    </svg>
+  )
+}
+
+function GutenbergRichterPlot({
+  bins,
+  fit,
+  completeness,
+}: {
+  bins: MagnitudeBin[]
+  fit: ReturnType<typeof fitGutenbergRichter>
+  completeness: number | null
+}) {
+  const { t, format } = usePreferences()
+  const minMag = bins[0].magnitude
+  const maxMag = Math.max(bins[bins.length - 1].magnitude, minMag + 1)
+  const maxLog = Math.max(1, Math.ceil(Math.log10(bins[0].cumulative)))
+
+  const x = (magnitude: number) => MARGIN.left + ((magnitude - minMag) / (maxMag - minMag)) * PLOT_WIDTH
+  const y = (count: number) => MARGIN.top + PLOT_HEIGHT - (Math.log10(count) / maxLog) * PLOT_HEIGHT
+  const decades = Array.from({ length: maxLog + 1 }, (_, power) => 10 ** power)
+  const magnitudeTicks = Array.from(
+    { length: Math.floor(maxMag) - Math.ceil(minMag) + 1 },
+    (_, index) => Math.ceil(minMag) + index,
+  )
+
+  // The fitted line only makes sense from completeness upwards, and is clipped at N = 1
+  const fitEnd = fit ? Math.min(maxMag, fit.aValue / fit.bValue) : 0
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="w-full h-auto"
+      role="img"
+      aria-label={t("analysis.gutenbergRichterPlot")}
+    >
+      {decades.map((count) => (
+        <g key={count}>
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(count)} y2={y(count)} className="stroke-border" />
+          <text x={MARGIN.left - 6} y={y(count)} textAnchor="end" dominantBaseline="middle" className="fill-muted-foreground text-[10px]">
+            {format.number(count)}
+          </text>
+        </g>
+      ))}
+      {magnitudeTicks.map((tick) => (
+        <text key={tick} x={x(tick)} y={HEIGHT - MARGIN.bottom + 12} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+          {tick}
+        </text>
+      ))}
+      <text x={MARGIN.left + PLOT_WIDTH / 2} y={HEIGHT - 2} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+        {t("analysis.magnitude")}
+      </text>
+      <text
+        transform={`translate(10 ${MARGIN.top + PLOT_HEIGHT / 2}) rotate(-90)`}
+        textAnchor="middle"
+        className="fill-muted-foreground text-[10px]"
+      >
+        {t("analysis.eventCount")}
+      </text>
+
+      {completeness !== null && (
+        <line
+          x1={x(completeness)}
+          x2={x(completeness)}
+          y1={MARGIN.top}
+          y2={MARGIN.top + PLOT_HEIGHT}
+          stroke="#f97316"
+          strokeDasharray="4 3"
+        >
+          <title>{t("analysis.completeness", { magnitude: completeness.toFixed(1) })}</title>
+        </line>
+      )}
+      {fit && fitEnd > fit.completeness && (
+        <line
+          x1={x(fit.completeness)}
+          x2={x(fitEnd)}
+          y1={y(10 ** (fit.aValue - fit.bValue * fit.completeness))}
+          y2={y(10 ** (fit.aValue - fit.bValue * fitEnd))}
+          stroke="#dc2626"
+          strokeWidth={1.5}
+        />
+      )}
+
+      {bins.map((bin) => (
+        <g key={bin.magnitude}>
+          {bin.count > 0 && (
+            <circle cx={x(bin.magnitude)} cy={y(bin.count)} r={2.5} fill="none" stroke="#3b82f6">
+              <title>{t("analysis.binEvents", { bin: `M${bin.magnitude.toFixed(1)}`, count: bin.count })}</title>
+            </circle>
+          )}
+          <circle cx={x(bin.magnitude)} cy={y(bin.cumulative)} r={2.5} fill="#0f172a">
+            <title>{t("analysis.binEvents", { bin: `M≥${bin.magnitude.toFixed(1)}`, count: bin.cumulative })}</title>
+          </circle>
+        </g>
+      ))}
+    </svg>
+  )
+}
+
+function Breakdown({ title, rows, total }: { title: string; rows: { label: string; count: number }[]; total: number }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <div className="space-y-1">
+        {rows.map((row) => (
+          <div key={row.label} className="flex items-center gap-2 text-xs">
+            <span className="w-12 shrink-0 font-mono">{row.label}</span>
+            <div className="h-2 flex-1 rounded bg-muted">
+              <div className="h-2 rounded bg-primary" style={{ width: `${(row.count / total) * 100}%` }} />
+            </div>
+            <span className="w-20 shrink-0 text-right tabular-nums text-muted-foreground">
+              {row.count.toLocaleString()} ({((row.count / total) * 100).toFixed(0)}%)
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+interface AnalysisDashboardProps {
+  earthquakes: Earthquake[]
+  onClose: () => void
+}
+
+export default function AnalysisDashboard({ earthquakes, onClose }: AnalysisDashboardProps) {
+  const { preferences, t, format } = usePreferences()
+  const analysis = useMemo(() => {
+    const bins = getMagnitudeHistogram(earthquakes)
+    const completeness = getCompletenessMagnitude(bins)
+    const bucket = getRateBucket(earthquakes)
+    return {
+      bins,
+      completeness,
+      fit: completeness === null ? null : fitGutenbergRichter(earthquakes, completeness),
+      bucket,
+      rate: getEventRate(earthquakes, bucket),
+      depths: getDepthHistogram(earthquakes, DEPTH_BIN_KM),
+      magTypes: getBreakdown(earthquakes, "magType"),
+      networks: getBreakdown(earthquakes, "net"),
+    }
+  }, [earthquakes])
+
+  const { bins, completeness, fit, bucket, rate, depths, magTypes, networks } = analysis
+  const formatBucket = (start: number) =>
+    bucket === "day"
+      ? new Date(start).toLocaleDateString(preferences.locale, { month: "short", day: "numeric", timeZone: "UTC" })
+      : new Date(start).toLocaleTimeString(preferences.locale, { hour: "2-digit", minute: "2-digit", timeZone: "UTC" })
+
+  return (
+    <Card className="hover-lift animate-slide-up">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <BarChart3 className="h-5 w-5 text-primary" />
+              <span>{t("analysis.title")}</span>
+            </CardTitle>
+            <CardDescription>{t("analysis.summary", { count: earthquakes.length })}</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("analysis.close")}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {earthquakes.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("analysis.empty")}</p>
+        ) : (
+          <div className="grid grid-cols-1 gap-8 md:grid-cols-2">
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t("analysis.magnitudeFrequency")}</h3>
+              <BarChart
+                bars={bins.map((bin) => ({
+                  label: bin.magnitude.toFixed(1),
+                  value: bin.count,
+                  title: t("analysis.binEvents", { bin: `M${bin.magnitude.toFixed(1)}`, count: bin.count }),
+                }))}
+                xLabel={t("analysis.magnitude")}
+                yLabel={t("analysis.events")}
+                color="#3b82f6"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t("analysis.gutenbergRichter")}</h3>
+              <GutenbergRichterPlot bins={bins} fit={fit} completeness={completeness} />
+              <p className="text-xs text-muted-foreground">
+                {fit
+                  ? t("analysis.fit", {
+                      b: format.number(fit.bValue, 2),
+                      bUncertainty: format.number(fit.bUncertainty, 2),
+                      a: format.number(fit.aValue, 2),
+                      mc: format.number(fit.completeness, 1),
+                      count: fit.count,
+                    })
+                  : t("analysis.noFit", {
+                      mc: completeness === null ? "—" : format.number(completeness, 1),
+                      count: MIN_EVENTS_FOR_B_VALUE,
+                    })}{" "}
+                {t("analysis.points")}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{bucket === "day" ? t("analysis.perDay") : t("analysis.perHour")}</h3>
+              <BarChart
+                bars={rate.map((entry) => ({
+                  label: formatBucket(entry.start),
+                  value: entry.count,
+                  title: t("analysis.binEvents", {
+                    bin: new Date(entry.start).toISOString().slice(0, bucket === "day" ? 10 : 13),
+                    count: entry.count,
+                  }),
+                }))}
+                xLabel={bucket === "day" ? t("analysis.dayAxis") : t("analysis.hourAxis")}
+                yLabel={t("analysis.events")}
+                color="#f97316"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium">{t("analysis.depthDistribution")}</h3>
+              <BarChart
+                bars={depths.map((bin) => ({
+                  label: format.lengthValue(bin.depth),
+                  value: bin.count,
+                  title: t("analysis.binEvents", {
+                    bin: t("legend.depthRange", {
+                      from: format.lengthValue(bin.depth),
+                      to: format.lengthValue(bin.depth + DEPTH_BIN_KM),
+                      unit: format.lengthUnit,
+                    }),
+                    count: bin.count,
+                  }),
+                }))}
+                xLabel={t("analysis.depthAxis", { unit: format.lengthUnit })}
+                yLabel={t("analysis.events")}
+                color="#7c3aed"
+              />
+            </div>
+
+            <Breakdown title={t("analysis.magTypes")} rows={magTypes} total={earthquakes.length} />
+            <Breakdown title={t("analysis.networks")} rows={networks} total={earthquakes.length} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { usePreferences } from "./preferences-provider"
+import { createPolarityTest } from "@/lib/beachball"
+import type { NodalPlane } from "@/lib/types"
+
+interface BeachballProps {
+  plane: NodalPlane
+  size?: number
+  color?: string
+}
+
+export default function Beachball({ plane, size = 120, color = "#dc2626" }: BeachballProps) {
+  const { t } = usePreferences()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext("2d")
+    if (!canvas || !context) return
+
+    // Draw at device resolution so the nodal lines stay crisp
+    const scale = window.devicePixelRatio || 1
+    const pixels = Math.round(size * scale)
+    canvas.width = pixels
+    canvas.height = pixels
+
+    const isCompressional = createPolarityTest(plane)
+    const image = context.createImageData(pixels, pixels)
+    const [red, green, blue] = [1, 3, 5].map((offset) => parseInt(color.slice(offset, offset + 2), 16))
+    const radius = pixels / 2
+
+    for (let row = 0; row < pixels; row++) {
+      for (let column = 0; column < pixels; column++) {
+        const polarity = isCompressional((column + 0.5 - radius) / radius, (radius - row - 0.5) / radius)
+        if (polarity === null) continue
+        const index = (row * pixels + column) * 4
+        image.data.set(polarity ? [red, green, blue, 255] : [255, 255, 255, 255], index)
+      }
+    }
+    context.putImageData(image, 0, 0)
+
+    context.beginPath()
+    context.arc(radius, radius, radius - scale, 0, 2 * Math.PI)
+    context.lineWidth = 1.5 * scale
+    context.strokeStyle = "#0f172a"
+    context.stroke()
+  }, [plane, size, color])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      style={{ width: size, height: size }}
+      role="img"
+      aria-label={t("detail.mechanismLabel", { strike: plane.strike, dip: plane.dip, rake: plane.rake })}
+    />
+  )
+}
@@ -0,0 +1,262 @@
+"use client"
+
+import { useRef } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GitCompare, Loader2, X } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import { IMPORT_ACCEPT } from "@/lib/catalog-import"
+import {
+  type CatalogMatch,
+  MATCH_TOLERANCES,
+  type MatchTolerance,
+  type ProviderComparison,
+  summarizeComparison,
+} from "@/lib/catalog-matching"
+import { CATALOG_PROVIDERS, type CatalogProvider, getProviderLabel } from "@/lib/providers"
+import type { CatalogResponse } from "@/lib/types"
+
+export type CatalogState =
+  | { status: "loading" }
+  | { status: "error"; error: string }
+  | { status: "loaded"; response: CatalogResponse }
+
+// How many matches with the largest magnitude differences are listed per catalog
+const LISTED_MATCHES = 5
+
+// Differences are the other catalog minus the loaded events, so positive ones are signed too
+const signed = (value: number, text: string) => (value > 0 ? `+${text}` : text)
+
+const summarize = (value: number | null, formatValue: (value: number) => string) =>
+  value === null ? "—" : formatValue(value)
+
+interface CatalogComparisonProps {
+  selected: string[]
+  onSelectedChange: (ids: string[]) => void
+  tolerance: MatchTolerance
+  onToleranceChange: (tolerance: MatchTolerance) => void
+  catalogs: Map<string, CatalogState>
+  comparisons: ProviderComparison[]
+  // False until events are loaded, since the window to ask for comes from them
+  ready: boolean
+  // For the local-file provider, whose file is picked here and read in the browser
+  onCompareFile: (provider: CatalogProvider, file: File) => void
+  onSelectEvent: (id: string) => void
+  onClose: () => void
+}
+
+export default function CatalogComparison({
+  selected,
+  onSelectedChange,
+  tolerance,
+  onToleranceChange,
+  catalogs,
+  comparisons,
+  ready,
+  onCompareFile,
+  onSelectEvent,
+  onClose,
+}: CatalogComparisonProps) {
+  const { t, format } = usePreferences()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const fileProvider = CATALOG_PROVIDERS.find((provider) => !provider.getUrl)
+
+  const toggleProvider = (id: string) =>
+    onSelectedChange(selected.includes(id) ? selected.filter((other) => other !== id) : [...selected, id])
+
+  const describeMatch = (provider: CatalogProvider, match: CatalogMatch) =>
+    t("catalogs.match", {
+      primary: format.number(match.primary.properties.mag, 1),
+      catalog: getProviderLabel(provider, t),
+      other: `${format.number(match.other.properties.mag, 1)} ${match.other.properties.magType}`,
+    })
+
+  return (
+    <Card className="hover-lift animate-slide-up">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <GitCompare className="h-5 w-5 text-primary" />
+              <span>{t("catalogs.title")}</span>
+            </CardTitle>
+            <CardDescription>{t("catalogs.description")}</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("catalogs.close")}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {CATALOG_PROVIDERS.map((provider) => {
+            const active = selected.includes(provider.id)
+            return (
+              <Button
+                key={provider.id}
+                variant={active ? "default" : "outline"}
+                size="sm"
+                aria-pressed={active}
+                title={provider.getUrl ? undefined : t("catalogs.chooseFile")}
+                onClick={() =>
+                  provider.getUrl || active ? toggleProvider(provider.id) : fileInputRef.current?.click()
+                }
+              >
+                <span className="mr-2 h-2.5 w-2.5 rounded-full" style={{ background: provider.color }} />
+                {getProviderLabel(provider, t)}
+              </Button>
+            )
+          })}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file && fileProvider) onCompareFile(fileProvider, file)
+              // Picking the same file again should compare it again
+              event.target.value = ""
+            }}
+          />
+        </div>
+
+        <label className="flex flex-col space-y-1">
+          <span className="text-xs font-medium text-muted-foreground">{t("catalogs.tolerance")}</span>
+          <Select
+            value={String(MATCH_TOLERANCES.indexOf(tolerance))}
+            onValueChange={(value) => onToleranceChange(MATCH_TOLERANCES[Number(value)])}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MATCH_TOLERANCES.map((option, index) => (
+                <SelectItem key={index} value={String(index)}>
+                  {t("catalogs.toleranceValue", { seconds: option.seconds, distance: format.length(option.km) })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+
+        {!ready && <p className="text-xs text-muted-foreground">{t("catalogs.noEvents")}</p>}
+
+        {ready &&
+          selected.map((id) => {
+            const provider = CATALOG_PROVIDERS.find((candidate) => candidate.id === id)
+            const state = catalogs.get(id)
+            if (!provider || !state) return null
+            const result = comparisons.find((comparison) => comparison.provider.id === id)
+
+            return (
+              <div key={id} className="space-y-2 border-t border-border pt-4">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ background: provider.color }} />
+                  <span>{getProviderLabel(provider, t)}</span>
+                  {!provider.getUrl && state.status === "loaded" && (
+                    <span className="truncate text-xs font-normal text-muted-foreground">{state.response.source}</span>
+                  )}
+                  {state.status === "loading" && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+                </div>
+
+                {state.status === "error" && (
+                  <p className="text-xs text-destructive">{t("catalogs.error", { error: state.error })}</p>
+                )}
+
+                {state.status === "loaded" && result && (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      {t("catalogs.summary", {
+                        matched: result.comparison.matches.length,
+                        unmatched: result.comparison.unmatched.length,
+                        missing: result.comparison.missing,
+                      })}
+                      {state.response.truncated &&
+                        ` ${t("catalogs.truncated", { count: state.response.earthquakes.length })}`}
+                    </p>
+                    {result.comparison.matches.length > 0 && (
+                      <ComparisonDetails
+                        provider={provider}
+                        result={result}
+                        describeMatch={describeMatch}
+                        onSelectEvent={onSelectEvent}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            )
+          })}
+      </CardContent>
+    </Card>
+  )
+}
+
+function ComparisonDetails({
+  provider,
+  result,
+  describeMatch,
+  onSelectEvent,
+}: {
+  provider: CatalogProvider
+  result: ProviderComparison
+  describeMatch: (provider: CatalogProvider, match: CatalogMatch) => string
+  onSelectEvent: (id: string) => void
+}) {
+  const { t, format } = usePreferences()
+  const seconds = (value: number) => `${format.number(value, 1)} s`
+  const summary = summarizeComparison(result.comparison)
+  const largest = [...result.comparison.matches]
+    .sort((a, b) => Math.abs(b.magnitudeDifference) - Math.abs(a.magnitudeDifference))
+    .slice(0, LISTED_MATCHES)
+
+  const medians = [
+    [t("catalogs.magnitude"), summarize(summary.magnitudeDifference, (value) => signed(value, format.number(value, 2)))],
+    [t("catalogs.epicenter"), summarize(summary.distanceKm, (value) => format.length(value, 1))],
+    [t("catalogs.depth"), summarize(summary.depthDifferenceKm, (value) => signed(value, format.length(value, 1)))],
+    [t("catalogs.originTime"), summarize(summary.timeDifferenceS, (value) => signed(value, seconds(value)))],
+  ]
+
+  return (
+    <>
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-muted-foreground">
+          {t("catalogs.medians", { catalog: getProviderLabel(provider, t) })}
+        </span>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+          {medians.map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-2">
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd className="tabular-nums">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </div>
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-muted-foreground">{t("catalogs.largest")}</span>
+        <ul className="space-y-1">
+          {largest.map((match) => (
+            <li key={match.primary.id}>
+              <button
+                type="button"
+                onClick={() => onSelectEvent(match.primary.id)}
+                className="w-full rounded-lg p-2 text-left transition-colors hover:bg-muted/20"
+              >
+                <span className="block truncate text-sm">{describeMatch(provider, match)}</span>
+                <span className="block truncate text-xs text-muted-foreground">
+                  {match.primary.properties.place} ·{" "}
+                  {t("catalogs.offset", {
+                    distance: format.length(match.distanceKm, 1),
+                    time: signed(match.timeDifferenceS, seconds(match.timeDifferenceS)),
+                  })}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,160 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Eye, EyeOff, FileUp, Loader2, Trash2, Upload } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import { IMPORT_ACCEPT, IMPORT_FORMAT_LABELS, type ImportedCatalog, parseCatalog } from "@/lib/catalog-import"
+
+// Longer issue lists are summarized rather than listed in full
+const MAX_LISTED_ISSUES = 50
+
+interface CatalogImportProps {
+  catalog: ImportedCatalog | null
+  onImport: (catalog: ImportedCatalog) => void
+  onClear: () => void
+  showCatalog: boolean
+  onShowCatalogChange: (show: boolean) => void
+  showFeed: boolean
+  onShowFeedChange: (show: boolean) => void
+  // The layer the import is shown alongside, e.g. "Live feed"
+  feedLabel: string
+}
+
+export default function CatalogImport({
+  catalog,
+  onImport,
+  onClear,
+  showCatalog,
+  onShowCatalogChange,
+  showFeed,
+  onShowFeedChange,
+  feedLabel,
+}: CatalogImportProps) {
+  const { t } = usePreferences()
+  const [dragging, setDragging] = useState(false)
+  const [reading, setReading] = useState(false)
+  const [readError, setReadError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const importFile = async (file: File) => {
+    setReading(true)
+    setReadError(null)
+    try {
+      onImport(parseCatalog(file.name, await file.text()))
+    } catch (err) {
+      console.error("Error importing catalog:", err)
+      setReadError(err instanceof Error ? err.message : t("import.unreadable"))
+    } finally {
+      setReading(false)
+    }
+  }
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault()
+    setDragging(false)
+    const file = event.dataTransfer.files[0]
+    if (file) importFile(file)
+  }
+
+  return (
+    <Card className="animate-slide-up">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileUp className="h-5 w-5 text-primary" />
+          <span>{t("import.title")}</span>
+        </CardTitle>
+        <CardDescription>{t("import.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div
+          onDragOver={(event) => {
+            event.preventDefault()
+            setDragging(true)
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={handleDrop}
+          className={`flex flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-6 text-center transition-colors ${
+            dragging ? "border-primary bg-primary/5" : "border-border"
+          }`}
+        >
+          {reading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          ) : (
+            <Upload className="h-6 w-6 text-muted-foreground" />
+          )}
+          <p className="text-sm text-muted-foreground">{t("import.drop")}</p>
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={reading}>
+            {t("import.choose")}
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept={IMPORT_ACCEPT}
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              if (file) importFile(file)
+              // Picking the same file again should import it again
+              event.target.value = ""
+            }}
+          />
+        </div>
+
+        {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+        {catalog && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium">{catalog.name}</span>
+                <Badge variant="secondary">{IMPORT_FORMAT_LABELS[catalog.format]}</Badge>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button variant="outline" size="sm" onClick={() => onShowCatalogChange(!showCatalog)}>
+                  {showCatalog ? <Eye className="h-4 w-4 mr-2" /> : <EyeOff className="h-4 w-4 mr-2" />}
+                  {t("import.layer")}
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => onShowFeedChange(!showFeed)}>
+                  {showFeed ? <Eye className="h-4 w-4 mr-2" /> : <EyeOff className="h-4 w-4 mr-2" />}
+                  {feedLabel}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={onClear} aria-label={t("import.remove")}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              {t("import.summary", { count: catalog.earthquakes.length })}
+              {catalog.issues.length > 0 && ` ${t("import.skipped", { count: catalog.issues.length })}`}{" "}
+              {t("import.outlined")}
+            </p>
+
+            {catalog.issues.length > 0 && (
+              <ul className="max-h-48 space-y-1 overflow-y-auto rounded-lg border border-border p-3 text-xs">
+                {catalog.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                  <li key={index}>
+                    <span className="font-medium text-destructive">
+                      {t(issue.location.key, issue.location.params)}:
+                    </span>{" "}
+                    <span className="text-muted-foreground">
+                      {issue.problems.map((problem) => t(problem.key, problem.params)).join("; ")}
+                    </span>
+                  </li>
+                ))}
+                {catalog.issues.length > MAX_LISTED_ISSUES && (
+                  <li className="text-muted-foreground">
+                    {t("import.more", { count: catalog.issues.length - MAX_LISTED_ISSUES })}
+                  </li>
+                )}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { usePreferences } from "./preferences-provider"
+import {
+  COLOR_MODES,
+  COLOR_PALETTES,
+  type ColorMode,
+  type ColorPalette,
+  type LegendEntry,
+  type MarkerShape,
+  getLegend,
+  getShapeCorners,
+} from "@/lib/color-scales"
+import type { TranslationKey } from "@/lib/i18n"
+
+const SWATCH_SIZE = 16
+
+function Swatch({ color, shape }: { color: string; shape: MarkerShape }) {
+  const center = SWATCH_SIZE / 2
+  return (
+    <svg width={SWATCH_SIZE} height={SWATCH_SIZE} className="shrink-0" aria-hidden>
+      {shape === "circle" ? (
+        <circle cx={center} cy={center} r={center - 1} fill={color} />
+      ) : (
+        <polygon
+          points={getShapeCorners(shape, 5)
+            .map(([x, y]) => `${center + x},${center + y}`)
+            .join(" ")}
+          fill={color}
+        />
+      )}
+    </svg>
+  )
+}
+
+interface StepText {
+  label: TranslationKey
+  // A range that reads the same in every language; depth ranges are formatted in the chosen unit instead
+  range?: string
+  rangeKey?: TranslationKey
+  description?: TranslationKey
+}
+
+// In the order of each scale's steps in lib/color-scales
+const STEP_TEXT: Record<Exclude<ColorMode, "boundary">, StepText[]> = {
+  magnitude: [
+    { label: "magnitudeClass.micro", range: "<1.0", description: "legend.magnitude.micro" },
+    { label: "magnitudeClass.minor", range: "1.0–2.9", description: "legend.magnitude.minor" },
+    { label: "magnitudeClass.light", range: "3.0–4.9", description: "legend.magnitude.light" },
+    { label: "magnitudeClass.moderate", range: "5.0–6.9", description: "legend.magnitude.moderate" },
+    { label: "magnitudeClass.major", range: "7.0+", description: "legend.magnitude.major" },
+  ],
+  depth: [
+    { label: "legend.depth.shallow", description: "legend.depth.crustal" },
+    { label: "legend.depth.shallow", description: "legend.depth.upperMantle" },
+    { label: "legend.depth.intermediate", description: "legend.depth.slab" },
+    { label: "legend.depth.intermediate" },
+    { label: "legend.depth.deep" },
+    { label: "legend.depth.deep", description: "legend.depth.deepest" },
+  ],
+  age: [
+    { label: "legend.age.hour", rangeKey: "legend.age.hourRange" },
+    { label: "legend.age.day", rangeKey: "legend.age.dayRange" },
+    { label: "legend.age.week", rangeKey: "legend.age.weekRange" },
+    { label: "legend.age.month", rangeKey: "legend.age.monthRange" },
+    { label: "legend.age.older", rangeKey: "legend.age.olderRange" },
+  ],
+}
+
+interface ColorLegendProps {
+  mode: ColorMode
+  onModeChange: (mode: ColorMode) => void
+  palette: ColorPalette
+  onPaletteChange: (palette: ColorPalette) => void
+  // Markers vary in shape as well as color, and the legend shows the shapes
+  shapes: boolean
+  onShapesChange: (shapes: boolean) => void
+}
+
+export default function ColorLegend({
+  mode,
+  onModeChange,
+  palette,
+  onPaletteChange,
+  shapes,
+  onShapesChange,
+}: ColorLegendProps) {
+  const { t, format } = usePreferences()
+  const entries = getLegend(mode, palette)
+
+  const describe = (entry: LegendEntry, index: number) => {
+    if (entry.boundary) {
+      return { label: t(`boundary.${entry.boundary}`), range: "", description: t("legend.boundary.description") }
+    }
+    const text = STEP_TEXT[mode as Exclude<ColorMode, "boundary">][index]
+    let range = text.rangeKey ? t(text.rangeKey) : (text.range ?? "")
+    if (entry.kmRange) {
+      const [from, to] = entry.kmRange
+      const unit = format.lengthUnit
+      range =
+        to === null
+          ? t("legend.depthFrom", { from: format.lengthValue(from), unit })
+          : t("legend.depthRange", { from: format.lengthValue(from), to: format.lengthValue(to), unit })
+    }
+    return { label: t(text.label), range, description: text.description ? t(text.description) : null }
+  }
+
+  return (
+    <Card className="hover-lift">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between gap-2">
+          <span className="flex items-center space-x-2">
+            <div
+              className="h-5 w-5 rounded-full"
+              style={{ background: `linear-gradient(to right, ${entries[0].color}, ${entries[entries.length - 1].color})` }}
+            ></div>
+            <span>{t("legend.title", { mode: t(`colorMode.${mode}`) })}</span>
+          </span>
+          <Select value={mode} onValueChange={(value) => onModeChange(value as ColorMode)}>
+            <SelectTrigger size="sm" className="w-36" aria-label={t("legend.colorBy")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLOR_MODES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t("legend.byMode", { mode: t(`colorMode.${option}`) })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={palette} onValueChange={(value) => onPaletteChange(value as ColorPalette)}>
+            <SelectTrigger size="sm" className="flex-1" aria-label={t("legend.palette")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLOR_PALETTES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t(`palette.${option}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={shapes}
+              onChange={(event) => onShapesChange(event.target.checked)}
+              className="accent-primary"
+            />
+            {t("legend.shapes")}
+          </label>
+        </div>
+        {entries.map((entry, index) => {
+          const item = describe(entry, index)
+          return (
+            <div
+              key={`${mode}-${index}`}
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-muted/20 transition-colors animate-fade-in"
+              style={{ animationDelay: `${index * 0.1}s` }}
+            >
+              {shapes ? (
+                <Swatch color={entry.color} shape={entry.shape} />
+              ) : (
+                <div className="w-4 h-4 rounded-full animate-pulse-glow" style={{ background: entry.color }}></div>
+              )}
+              <div className="flex-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{item.label}</span>
+                  <span className="text-xs text-muted-foreground">{item.range}</span>
+                </div>
+                {item.description && <p className="text-xs text-muted-foreground">{item.description}</p>}
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,132 @@
+"use client"
+
+import { usePreferences } from "./preferences-provider"
+import { type ColorMode, type ColorPalette, getEventHex, getEventShape, getShapeCorners } from "@/lib/color-scales"
+import type { CrossSectionPoint } from "@/lib/cross-section"
+import { KM_PER_MILE } from "@/lib/preferences"
+
+interface CrossSectionChartProps {
+  points: CrossSectionPoint[]
+  lengthKm: number
+  colorMode: ColorMode
+  palette?: ColorPalette
+  // Draw points in the shape of their step on the color scale, as on the map
+  shapes?: boolean
+}
+
+const WIDTH = 800
+const HEIGHT = 320
+const MARGIN = { top: 16, right: 16, bottom: 36, left: 52 }
+
+// A round step that gives roughly `count` ticks over [0, max]
+function getTicks(max: number, count: number) {
+  const raw = max / count
+  const magnitude = 10 ** Math.floor(Math.log10(raw))
+  const step = [1, 2, 5, 10].map((factor) => factor * magnitude).find((candidate) => candidate >= raw) ?? raw
+  const ticks: number[] = []
+  for (let value = 0; value <= max + step / 1000; value += step) ticks.push(value)
+  return ticks
+}
+
+export default function CrossSectionChart({
+  points,
+  lengthKm,
+  colorMode,
+  palette = "default",
+  shapes = false,
+}: CrossSectionChartProps) {
+  const { t, format } = usePreferences()
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+  // Always show at least the crust and upper mantle so shallow sections aren't stretched
+  const maxDepth = Math.max(100, ...points.map((point) => point.depthKm))
+  // Ticks fall on round numbers of the chosen unit
+  const kmPerUnit = format.lengthUnit === "mi" ? KM_PER_MILE : 1
+  const depthTicks = getTicks(maxDepth / kmPerUnit, 5)
+  const depthExtent = depthTicks[depthTicks.length - 1] * kmPerUnit
+  const distanceTicks = getTicks(Math.max(lengthKm, 1) / kmPerUnit, 8).filter((tick) => tick * kmPerUnit <= lengthKm)
+
+  const x = (distanceKm: number) => MARGIN.left + (distanceKm / Math.max(lengthKm, 1)) * plotWidth
+  // Depth increases downwards, as in a geological section
+  const y = (depthKm: number) => MARGIN.top + (Math.max(depthKm, 0) / depthExtent) * plotHeight
+  // The y axis already encodes depth, and boundary types aren't known here, so those modes fall back to magnitude
+  const pointMode = colorMode === "depth" || colorMode === "boundary" ? "magnitude" : colorMode
+  const now = Date.now()
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t("section.chart")}>
+      {depthTicks.map((tick) => {
+        const tickY = y(tick * kmPerUnit)
+        return (
+          <g key={`depth-${tick}`}>
+            <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={tickY} y2={tickY} className="stroke-border" />
+            <text x={MARGIN.left - 6} y={tickY} textAnchor="end" dominantBaseline="middle" className="fill-muted-foreground text-[11px]">
+              {tick}
+            </text>
+          </g>
+        )
+      })}
+      {distanceTicks.map((tick) => (
+        <text
+          key={`distance-${tick}`}
+          x={x(tick * kmPerUnit)}
+          y={HEIGHT - MARGIN.bottom + 16}
+          textAnchor="middle"
+          className="fill-muted-foreground text-[11px]"
+        >
+          {tick}
+        </text>
+      ))}
+      <text x={MARGIN.left - 6} y={HEIGHT - 4} textAnchor="start" className="fill-foreground text-[11px] font-medium">
+        A
+      </text>
+      <text x={WIDTH - MARGIN.right} y={HEIGHT - 4} textAnchor="end" className="fill-foreground text-[11px] font-medium">
+        B
+      </text>
+      <text x={MARGIN.left + plotWidth / 2} y={HEIGHT - 4} textAnchor="middle" className="fill-muted-foreground text-[11px]">
+        {t("section.distanceAxis", { unit: format.lengthUnit })}
+      </text>
+      <text
+        transform={`translate(12 ${MARGIN.top + plotHeight / 2}) rotate(-90)`}
+        textAnchor="middle"
+        className="fill-muted-foreground text-[11px]"
+      >
+        {t("section.depthAxis", { unit: format.lengthUnit })}
+      </text>
+
+      {points.map(({ earthquake, distanceKm, depthKm }) => {
+        const cx = x(distanceKm)
+        const cy = y(depthKm)
+        const radius = Math.max(2, 1.5 * earthquake.properties.mag)
+        const shape = shapes ? getEventShape(pointMode, earthquake, now) : "circle"
+        const style = {
+          fill: getEventHex(pointMode, earthquake, now, palette),
+          fillOpacity: 0.7,
+          stroke: "#ffffff",
+          strokeWidth: 0.5,
+        }
+        return (
+          <g key={earthquake.id}>
+            {shape === "circle" ? (
+              <circle cx={cx} cy={cy} r={radius} {...style} />
+            ) : (
+              <polygon
+                points={getShapeCorners(shape, radius)
+                  .map(([dx, dy]) => `${cx + dx},${cy + dy}`)
+                  .join(" ")}
+                {...style}
+              />
+            )}
+            <title>
+              {t("section.point", {
+                event: `M${earthquake.properties.mag.toFixed(1)} ${earthquake.properties.place}`,
+                depth: format.length(depthKm, 1),
+                distance: format.length(distanceKm),
+              })}
+            </title>
+          </g>
+        )
+      })}
+    </svg>
+  )
+}
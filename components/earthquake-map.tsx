@@ -1,85 +1,418 @@
 "use client"
 
 import { useEffect, useRef, useState } from "react"
+import L from "leaflet"
+import "leaflet/dist/leaflet.css"
+import { COASTLINES_URL, NO_BASEMAP_ID, getBasemapLabel, getBasemaps, getDefaultBasemapId } from "@/lib/basemaps"
+import type { ProviderComparison } from "@/lib/catalog-matching"
+import { type Cluster, clusterPoints } from "@/lib/clustering"
+import {
+  type ColorMode,
+  type ColorPalette,
+  type MarkerShape,
+  getBoundaryHex,
+  getBoundaryShape,
+  getEventHex,
+  getEventShape,
+  getMagnitudeHex,
+} from "@/lib/color-scales"
+import { type CrossSectionLine, getSectionCorridor } from "@/lib/cross-section"
+import type { Sequence } from "@/lib/declustering"
+import { destinationPoint } from "@/lib/geo"
+import { HOME_RING_DISTANCES_KM, type HomeLocation } from "@/lib/home"
+import type { Translate, TranslationKey } from "@/lib/i18n"
+import {
+  type BoundaryProperties,
+  type BoundaryType,
+  type MapLayers,
+  OVERLAY_IDS,
+  type OverlayId,
+  loadOverlay,
+  nearestBoundary,
+} from "@/lib/overlays"
+import { getPlaybackOpacity } from "@/lib/playback"
+import { getQualityIssues, isLowQuality } from "@/lib/quality"
+import type { Formatters } from "@/lib/preferences"
+import { getProviderLabel } from "@/lib/providers"
+import type { RegionGeometry } from "@/lib/regions"
+import type { Earthquake } from "@/lib/types"
+import { DEFAULT_MAP_VIEW, type MapView, roundMapView } from "@/lib/url-state"
+import { type DrawKind, REGION_PANE, type RegionDisplay, createRegionLayer, startRegionDrawing } from "./map-drawing"
+import { createLazyGeoJson, createOverlayLayers } from "./map-overlays"
+import { ShapeMarker } from "./map-shapes"
+import { usePreferences } from "./preferences-provider"
 
-interface Earthquake {
+// Sequence links sit just above regions and below the markers
+const SEQUENCE_PANE = "sequences"
+
+// Zoom the map flies to when focusing on a single event
+const FOCUS_ZOOM = 7
+
+// Above this many events markers are clustered and single events drawn on a canvas
+const CLUSTER_THRESHOLD = 2000
+
+interface RenderedLayer {
+  layer: L.Layer
+  // Changes whenever the layer has to be redrawn
+  signature: string
+}
+
+// Size always follows magnitude; the fill, and the shape when shapes are on, depend on the color mode
+function getMarkerRadius(magnitude: number) {
+  if (magnitude >= 7) return 15
+  if (magnitude >= 5) return 12
+  if (magnitude >= 3) return 9
+  if (magnitude >= 1) return 7
+  return 5
+}
+
+// Leaflet sets tooltip content as innerHTML, and places come from imported files as well as USGS
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+function getTooltipHtml(earthquake: Earthquake, t: Translate, format: Formatters) {
+  const title = t("tooltip.title", { magnitude: format.number(earthquake.properties.mag, 1) })
+  const depth = format.length(Math.abs(earthquake.geometry.coordinates[2]), 1)
+  const issues = getQualityIssues(earthquake)
+  const quality = issues.length
+    ? `<p class="text-xs text-amber-700">${escapeHtml(
+        t("tooltip.lowQuality", { issues: issues.map((issue) => t(`quality.issue.${issue}`)).join(", ") }),
+      )}</p>`
+    : ""
+  return `
+    <div class="p-2">
+      <h3 class="font-bold text-sm mb-1">${escapeHtml(title)}</h3>
+      <p class="text-sm mb-1">${escapeHtml(earthquake.properties.place)}</p>
+      <p class="text-xs text-gray-600">${escapeHtml(format.eventTime(earthquake))}</p>
+      <p class="text-xs text-gray-600">${escapeHtml(t("tooltip.depth", { depth }))}</p>
+      ${quality}
+      <p class="text-xs text-gray-500 mt-1">${escapeHtml(t("tooltip.details"))}</p>
+    </div>
+  `
+}
+
+// An event from a compared catalog, with how far it sits from the loaded event it matched, if any
+function getCatalogTooltipHtml(
+  earthquake: Earthquake,
+  label: string,
+  offset: { distanceKm: number; timeDifferenceS: number } | null,
+  t: Translate,
+  format: Formatters,
+) {
+  const title = t("tooltip.catalog", {
+    catalog: label,
+    magnitude: `${format.number(earthquake.properties.mag, 1)} ${earthquake.properties.magType}`,
+  })
+  const match = offset
+    ? t("tooltip.catalogOffset", {
+        distance: format.length(offset.distanceKm, 1),
+        time: `${format.number(offset.timeDifferenceS, 1)} s`,
+      })
+    : t("tooltip.catalogUnmatched")
+  const depth = format.length(Math.abs(earthquake.geometry.coordinates[2]), 1)
+  // Every value here comes from another agency's service
+  return `
+    <div class="p-2">
+      <h3 class="font-bold text-sm mb-1">${escapeHtml(title)}</h3>
+      <p class="text-sm mb-1">${escapeHtml(earthquake.properties.place)}</p>
+      <p class="text-xs text-gray-600">${escapeHtml(format.eventTime(earthquake))}</p>
+      <p class="text-xs text-gray-600">${escapeHtml(t("tooltip.depth", { depth }))}</p>
+      <p class="text-xs text-gray-500 mt-1">${escapeHtml(match)}</p>
+    </div>
+  `
+}
+
+interface EventMarkerStyle {
+  color: string
+  shape: MarkerShape
+  highlighted: boolean
+  selected: boolean
+  // From an imported catalog rather than the feed
+  imported: boolean
+  // Poorly constrained location, drawn faint with a dashed outline so it reads as less certain
+  lowQuality: boolean
+  // Below 1 while the event is fading out during playback
+  opacity: number
+}
+
+// Kept out of the marker signature and applied in place, so playback doesn't rebuild every marker on each tick
+const getMarkerOpacity = ({ highlighted, lowQuality, opacity }: EventMarkerStyle) => ({
+  opacity,
+  fillOpacity: (lowQuality && !highlighted ? 0.25 : 0.7) * opacity,
+})
+
+function createEventMarker(
+  earthquake: Earthquake,
+  style: EventMarkerStyle,
+  tooltipHtml: string,
+  onSelect: (id: string) => void,
+  renderer?: L.Renderer,
+) {
+  const { color, shape, highlighted, selected, imported, lowQuality } = style
+  const [lng, lat] = earthquake.geometry.coordinates
+
+  const marker = new ShapeMarker([lat, lng], shape, {
+    radius: getMarkerRadius(earthquake.properties.mag),
+    renderer,
+    fillColor: color,
+    color: highlighted ? color : "#ffffff",
+    // CSS animations only apply to SVG paths; canvas markers get a heavier outline instead
+    className: highlighted && !renderer ? "earthquake-marker-new" : undefined,
+    weight: highlighted && renderer ? 4 : 1,
+    ...getMarkerOpacity(style),
+  })
+
+  if (lowQuality && !highlighted) marker.setStyle({ color, weight: 1.5, dashArray: "2 3" })
+  if (imported) marker.setStyle({ color: "#0f172a", weight: 1.5, dashArray: "3 2" })
+  if (selected) marker.setStyle({ color: "#0f172a", weight: 3, dashArray: undefined })
+  marker.bindTooltip(tooltipHtml)
+  marker.on("click", () => onSelect(earthquake.id))
+  return marker
+}
+
+function createClusterMarker(map: L.Map, cluster: Cluster, palette: ColorPalette, tooltip: string) {
+  const color = getMagnitudeHex(cluster.maxMag, palette)
+  const size = Math.round(Math.min(Math.max(24 + cluster.maxMag * 5, 28), 64))
+
+  const marker = L.marker([cluster.lat, cluster.lng], {
+    icon: L.divIcon({
+      html: `<div class="earthquake-cluster" style="width:${size}px;height:${size}px;background:${color}">${cluster.count}</div>`,
+      className: "",
+      iconSize: [size, size],
+    }),
+  })
+
+  marker.bindTooltip(tooltip)
+  marker.on("click", () => {
+    const [[south, west], [north, east]] = cluster.bounds
+    if (south === north && west === east) {
+      map.setView([cluster.lat, cluster.lng], map.getZoom() + 2)
+    } else {
+      map.fitBounds(cluster.bounds, { padding: [40, 40] })
+    }
+  })
+  return marker
+}
+
+// By basemap id
+function createBasemapLayers() {
+  const layers = new Map<string, L.Layer>()
+
+  getBasemaps().forEach((basemap) => {
+    if (basemap.url) {
+      layers.set(basemap.id, L.tileLayer(basemap.url, {
+        attribution: basemap.attribution,
+        maxZoom: basemap.maxZoom ?? 19,
+        subdomains: basemap.subdomains ?? "abc",
+        crossOrigin: basemap.cors ? "anonymous" : undefined,
+      }))
+      return
+    }
+
+    layers.set(
+      basemap.id,
+      createLazyGeoJson(
+        () => fetch(COASTLINES_URL).then((response) => response.json()),
+        { style: { color: "#64748b", weight: 1, opacity: 0.8 }, attribution: basemap.attribution },
+        "coastlines",
+      ),
+    )
+  })
+
+  return layers
+}
+
+export interface FocusRequest {
   id: string
-  properties: {
-    mag: number
-    place: string
-    time: number
-    title: string
-  }
-  geometry: {
-    coordinates: [number, number, number]
-  }
 }
 
 interface EarthquakeMapProps {
   earthquakes: Earthquake[]
   loading: boolean
+  // Events to draw attention to, e.g. ones that arrived since the user last looked
+  highlightedIds?: Set<string>
+  // Events from an imported catalog, drawn with a dashed dark outline
+  importedIds?: Set<string>
+  colorMode: ColorMode
+  palette?: ColorPalette
+  // Vary marker shapes with the color scale as well as colors
+  shapes?: boolean
+  // While true, the next two clicks on the map set the ends of a new cross-section line
+  drawingCrossSection?: boolean
+  crossSection?: CrossSectionLine | null
+  crossSectionWidthKm?: number
+  onCrossSectionChange?: (line: CrossSectionLine) => void
+  // During time-lapse playback, the moment being shown; events fade over playbackWindowMs before it
+  playbackTime?: number | null
+  playbackWindowMs?: number
+  selectedId?: string | null
+  onSelectEvent?: (id: string) => void
+  // Flies to the event and opens its tooltip; a new object repeats the flight for the same event
+  focusRequest?: FocusRequest | null
+  // Controlled center and zoom; null shows the default world view
+  view?: MapView | null
+  onViewChange?: (view: MapView) => void
+  // Saved regions to outline, with the one filtering the events highlighted
+  regions?: RegionDisplay[]
+  drawingRegion?: DrawKind | null
+  onRegionDrawn?: (geometry: RegionGeometry) => void
+  // Aftershock sequences, drawn as lines from each mainshock to its foreshocks and aftershocks
+  sequences?: Sequence[]
+  activeSequenceId?: string | null
+  // Drawn with distance rings; while pickingHome is set the next click on the map moves it
+  home?: HomeLocation | null
+  pickingHome?: boolean
+  onHomePicked?: (lat: number, lng: number) => void
+  // Controlled basemap and overlays; null keeps the defaults until the layer control is used
+  layers?: MapLayers | null
+  onLayersChange?: (layers: MapLayers) => void
+  // Other agencies' events, drawn hollow in each catalog's color and linked to the loaded events they matched
+  catalogComparisons?: ProviderComparison[]
 }
 
-export default function EarthquakeMap({ earthquakes, loading }: EarthquakeMapProps) {
-  const mapRef = useRef<HTMLDivElement>(null)
-  const mapInstanceRef = useRef<any>(null)
-  const markersRef = useRef<any>(null)
-  const [leafletLoaded, setLeafletLoaded] = useState(false)
-  const [mapError, setMapError] = useState<string | null>(null)
-
-  useEffect(() => {
-    const loadLeaflet = async () => {
-      if (typeof window === "undefined") return
-
-      try {
-        // Load Leaflet CSS
-        if (!document.querySelector('link[href*="leaflet"]')) {
-          const link = document.createElement("link")
-          link.rel = "stylesheet"
-          link.href = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.css"
-          document.head.appendChild(link)
-        }
+const getMapView = (map: L.Map) => {
+  const center = map.getCenter().wrap()
+  return roundMapView({ lat: center.lat, lng: center.lng, zoom: map.getZoom() })
+}
 
-        // Load Leaflet JS
-        if (!(window as any).L) {
-          const script = document.createElement("script")
-          script.src = "https://unpkg.com/leaflet@1.9.4/dist/leaflet.js"
-          script.onload = () => {
-            setLeafletLoaded(true)
-          }
-          script.onerror = () => {
-            setMapError("Failed to load map library")
-          }
-          document.head.appendChild(script)
-        } else {
-          setLeafletLoaded(true)
-        }
-      } catch (error) {
-        setMapError("Error loading map components")
-      }
-    }
+const sameView = (a: MapView, b: MapView) => a.lat === b.lat && a.lng === b.lng && a.zoom === b.zoom
+
+const getMapLayers = (
+  map: L.Map,
+  basemaps: Map<string, L.Layer>,
+  overlays: Record<OverlayId, L.Layer>,
+): MapLayers => ({
+  basemap: [...basemaps].find(([, layer]) => map.hasLayer(layer))?.[0] ?? getDefaultBasemapId(),
+  overlays: OVERLAY_IDS.filter((id) => map.hasLayer(overlays[id])),
+})
 
-    loadLeaflet()
-  }, [])
+export default function EarthquakeMap({
+  earthquakes,
+  loading,
+  highlightedIds,
+  importedIds,
+  colorMode,
+  palette = "default",
+  shapes = false,
+  drawingCrossSection,
+  crossSection,
+  crossSectionWidthKm = 0,
+  onCrossSectionChange,
+  playbackTime = null,
+  playbackWindowMs = 0,
+  selectedId = null,
+  onSelectEvent,
+  focusRequest = null,
+  view = null,
+  onViewChange,
+  regions,
+  drawingRegion = null,
+  onRegionDrawn,
+  sequences,
+  activeSequenceId = null,
+  home = null,
+  pickingHome = false,
+  onHomePicked,
+  layers = null,
+  onLayersChange,
+  catalogComparisons,
+}: EarthquakeMapProps) {
+  const { preferences, t, format } = usePreferences()
+  const mapRef = useRef<HTMLDivElement>(null)
+  const mapInstanceRef = useRef<L.Map | null>(null)
+  const markersRef = useRef<L.LayerGroup | null>(null)
+  const canvasRendererRef = useRef<L.Canvas | null>(null)
+  const sectionLayerRef = useRef<L.LayerGroup | null>(null)
+  const regionLayerRef = useRef<L.LayerGroup | null>(null)
+  const sequenceLayerRef = useRef<L.LayerGroup | null>(null)
+  const homeLayerRef = useRef<L.LayerGroup | null>(null)
+  const catalogLayerRef = useRef<L.LayerGroup | null>(null)
+  // The layer control's layers by basemap and overlay id, so they can be reported and switched from outside
+  const basemapLayersRef = useRef<Map<string, L.Layer>>(new Map())
+  const overlayLayersRef = useRef<Record<OverlayId, L.Layer> | null>(null)
+  // Markers call through a ref so a new callback doesn't force every marker to be rebuilt
+  const onSelectRef = useRef(onSelectEvent)
+  const onViewChangeRef = useRef(onViewChange)
+  const onLayersChangeRef = useRef(onLayersChange)
+  // Overlay tooltips are built when shown and read the language from here
+  const tRef = useRef(t)
+  // Read when a focus request arrives, so refreshed events alone never move the map
+  const earthquakesRef = useRef(earthquakes)
+  // Read once when the map is created; later changes go through the view effect below
+  const initialViewRef = useRef(view)
+  const initialLayersRef = useRef(layers)
+  const layersRef = useRef<Map<string, RenderedLayer>>(new Map())
+  // Event whose tooltip should open once its marker has been drawn at the end of a flight
+  const pendingTooltipRef = useRef<string | null>(null)
+  // Bumped on pan/zoom so clusters are recomputed for the new view
+  const [viewVersion, setViewVersion] = useState(0)
+  const [clusterMode, setClusterMode] = useState(false)
+  const [mapError, setMapError] = useState<TranslationKey | null>(null)
+  const [boundaryTypes, setBoundaryTypes] = useState<Map<string, BoundaryType> | null>(null)
 
   useEffect(() => {
-    if (!mapRef.current || !leafletLoaded || !(window as any).L || mapError) return
+    onSelectRef.current = onSelectEvent
+    onViewChangeRef.current = onViewChange
+    onLayersChangeRef.current = onLayersChange
+    earthquakesRef.current = earthquakes
+    tRef.current = t
+  }, [onSelectEvent, onViewChange, onLayersChange, earthquakes, t])
 
-    const L = (window as any).L
+  useEffect(() => {
+    if (!mapRef.current || mapError) return
 
     try {
       // Initialize map
       if (!mapInstanceRef.current) {
-        mapInstanceRef.current = L.map(mapRef.current).setView([20, 0], 2)
+        const { lat, lng, zoom } = initialViewRef.current ?? DEFAULT_MAP_VIEW
+        const map = L.map(mapRef.current).setView([lat, lng], zoom)
+        mapInstanceRef.current = map
+
+        const basemaps = getBasemaps()
+        const baseLayers = createBasemapLayers()
+        basemapLayersRef.current = baseLayers
+        const initialLayers = initialLayersRef.current
+        const initial =
+          basemaps.find((basemap) => basemap.id === initialLayers?.basemap) ??
+          basemaps.find((basemap) => basemap.id === getDefaultBasemapId()) ??
+          basemaps[0]
+        baseLayers.get(initial.id)!.addTo(map)
+        const overlays = createOverlayLayers(tRef)
+        overlayLayersRef.current = overlays
+        initialLayers?.overlays.forEach((id) => overlays[id].addTo(map))
 
-        L.tileLayer("https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png", {
-          attribution: "© OpenStreetMap contributors",
-        }).addTo(mapInstanceRef.current)
+        // Without tiles the container background stands in for the ocean
+        map.getContainer().classList.toggle("map-no-basemap", initial.id === NO_BASEMAP_ID)
+        map.on("baselayerchange", (event: L.LayersControlEvent) => {
+          map.getContainer().classList.toggle("map-no-basemap", event.layer === baseLayers.get(NO_BASEMAP_ID))
+        })
+        map.on("baselayerchange overlayadd overlayremove", () => {
+          onLayersChangeRef.current?.(getMapLayers(map, basemapLayersRef.current, overlays))
+        })
 
-        markersRef.current = L.layerGroup().addTo(mapInstanceRef.current)
+        // Regions sit in their own pane below the markers so they never cover events
+        map.createPane(REGION_PANE).style.zIndex = "350"
+        map.createPane(SEQUENCE_PANE).style.zIndex = "360"
+        regionLayerRef.current = L.layerGroup().addTo(map)
+        sequenceLayerRef.current = L.layerGroup().addTo(map)
+        homeLayerRef.current = L.layerGroup().addTo(map)
+        catalogLayerRef.current = L.layerGroup().addTo(map)
+        markersRef.current = L.layerGroup().addTo(map)
+        sectionLayerRef.current = L.layerGroup().addTo(map)
+        canvasRendererRef.current = L.canvas({ padding: 0.5 })
+        map.on("moveend", () => {
+          setViewVersion((version) => version + 1)
+          onViewChangeRef.current?.(getMapView(map))
+        })
       }
     } catch (error) {
-      setMapError("Failed to initialize map")
+      setMapError("map.initFailed")
     }
 
     return () => {
@@ -87,102 +420,464 @@ export default function EarthquakeMap({ earthquakes, loading }: EarthquakeMapPro
         try {
           mapInstanceRef.current.remove()
           mapInstanceRef.current = null
+          layersRef.current.clear()
         } catch (error) {
           // Ignore cleanup errors
         }
       }
     }
-  }, [leafletLoaded, mapError])
+  }, [mapError])
+
+  // The layer control lists layers by name, so it's rebuilt in the new language
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    const overlays = overlayLayersRef.current
+    if (!map || !overlays) return
+
+    const baseLayers = Object.fromEntries(
+      getBasemaps().map((basemap) => [getBasemapLabel(basemap, t), basemapLayersRef.current.get(basemap.id)!]),
+    )
+    const overlayLayers = Object.fromEntries(OVERLAY_IDS.map((id) => [t(`overlay.${id}`), overlays[id]]))
+    const control = L.control.layers(baseLayers, overlayLayers, { position: "topright" }).addTo(map)
+    return () => {
+      // Nothing to do when the map itself has gone
+      if (mapInstanceRef.current === map) control.remove()
+    }
+  }, [t, mapError])
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map) return
+    // Only move when the requested view differs, e.g. after back/forward navigation
+    const target = view ?? DEFAULT_MAP_VIEW
+    if (!sameView(getMapView(map), roundMapView(target))) {
+      map.setView([target.lat, target.lng], target.zoom)
+    }
+  }, [view])
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    const overlays = overlayLayersRef.current
+    if (!map || !overlays || !layers) return
+
+    const basemap = basemapLayersRef.current.get(layers.basemap)
+    if (basemap && !map.hasLayer(basemap)) {
+      // Added before the old one goes, so the last change the layer control reports is the final state
+      basemap.addTo(map)
+      basemapLayersRef.current.forEach((layer) => {
+        if (layer !== basemap && map.hasLayer(layer)) map.removeLayer(layer)
+      })
+    }
+    OVERLAY_IDS.forEach((id) => {
+      const shown = layers.overlays.includes(id)
+      if (shown && !map.hasLayer(overlays[id])) overlays[id].addTo(map)
+      if (!shown && map.hasLayer(overlays[id])) map.removeLayer(overlays[id])
+    })
+  }, [layers])
 
   useEffect(() => {
-    if (!mapInstanceRef.current || !markersRef.current || loading || !leafletLoaded || !(window as any).L || mapError)
+    if (colorMode !== "boundary") {
+      setBoundaryTypes(null)
       return
+    }
 
-    const L = (window as any).L
+    let cancelled = false
+    loadOverlay<BoundaryProperties>("plates")
+      .then((boundaries) => {
+        if (cancelled) return
+        const types = new Map<string, BoundaryType>()
+        earthquakes.forEach((earthquake) => {
+          const [lng, lat] = earthquake.geometry.coordinates
+          const nearest = nearestBoundary(lat, lng, boundaries)
+          if (nearest) types.set(earthquake.id, nearest.boundary.type)
+        })
+        setBoundaryTypes(types)
+      })
+      .catch((error) => console.error("Failed to load plate boundaries:", error))
 
-    try {
-      // Clear existing markers
-      markersRef.current.clearLayers()
+    return () => {
+      cancelled = true
+    }
+  }, [earthquakes, colorMode])
 
-      // Add earthquake markers
-      earthquakes.forEach((earthquake) => {
-        const [lng, lat] = earthquake.geometry.coordinates
-        const magnitude = earthquake.properties.mag
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    const markers = markersRef.current
+    if (!map || !markers || loading || mapError) return
 
+    try {
+      const valid = earthquakes.filter((earthquake) => {
+        const [lng, lat] = earthquake.geometry.coordinates
         // Skip invalid coordinates
-        if (!lat || !lng || isNaN(lat) || isNaN(lng)) return
-
-        // Determine marker color and size based on magnitude
-        let color = "#22c55e" // green for micro
-        let radius = 5
-
-        if (magnitude >= 7) {
-          color = "#dc2626" // red for major
-          radius = 15
-        } else if (magnitude >= 5) {
-          color = "#f97316" // orange for moderate
-          radius = 12
-        } else if (magnitude >= 3) {
-          color = "#eab308" // yellow for light
-          radius = 9
-        } else if (magnitude >= 1) {
-          color = "#3b82f6" // blue for minor
-          radius = 7
+        return !isNaN(lat) && !isNaN(lng)
+      })
+      const clustered = valid.length > CLUSTER_THRESHOLD
+      const next = new Map<string, { signature: string; create: () => L.Layer; restyle?: (layer: L.Layer) => void }>()
+
+      // Tooltips are written out in the chosen language, time zone and units, so markers redraw when those change
+      const textKey = Object.values(preferences).join(",")
+      // Ages are measured from the playback clock while it's running
+      const now = playbackTime ?? Date.now()
+      const getColor = (earthquake: Earthquake) => {
+        if (colorMode !== "boundary") return getEventHex(colorMode, earthquake, now, palette)
+        const boundaryType = boundaryTypes?.get(earthquake.id)
+        // Grey until the boundaries have loaded, or when none is close enough to matter
+        return boundaryType ? getBoundaryHex(boundaryType, palette) : "#9ca3af"
+      }
+      const getShape = (earthquake: Earthquake): MarkerShape => {
+        if (!shapes) return "circle"
+        if (colorMode !== "boundary") return getEventShape(colorMode, earthquake, now)
+        const boundaryType = boundaryTypes?.get(earthquake.id)
+        return boundaryType ? getBoundaryShape(boundaryType) : "circle"
+      }
+
+      const addEvent = (earthquake: Earthquake, renderer?: L.Renderer) => {
+        const highlighted = highlightedIds?.has(earthquake.id) ?? false
+        const style: EventMarkerStyle = {
+          color: getColor(earthquake),
+          shape: getShape(earthquake),
+          highlighted,
+          selected: earthquake.id === selectedId,
+          imported: importedIds?.has(earthquake.id) ?? false,
+          lowQuality: isLowQuality(earthquake),
+          opacity:
+            playbackTime === null ? 1 : getPlaybackOpacity(playbackTime - earthquake.properties.time, playbackWindowMs),
         }
+        next.set(earthquake.id, {
+          signature: `${earthquake.properties.updated}:${renderer ? "canvas" : "svg"}:${style.color}:${style.shape}:${style.highlighted}:${style.selected}:${style.imported}:${style.lowQuality}:${textKey}`,
+          create: () =>
+            createEventMarker(
+              earthquake,
+              style,
+              getTooltipHtml(earthquake, t, format),
+              (id) => onSelectRef.current?.(id),
+              renderer,
+            ),
+          restyle: (layer) => (layer as L.Path).setStyle(getMarkerOpacity(style)),
+        })
+      }
 
-        const marker = L.circleMarker([lat, lng], {
-          radius,
-          fillColor: color,
-          color: "#ffffff",
-          weight: 1,
-          opacity: 1,
-          fillOpacity: 0.7,
+      if (!clustered) {
+        valid.forEach((earthquake) => addEvent(earthquake))
+      } else {
+        // Only cluster what's on screen, with a margin so small pans don't pop markers in
+        const bounds = map.getBounds().pad(0.25)
+        const visible = valid.filter((earthquake) => {
+          const [lng, lat] = earthquake.geometry.coordinates
+          return bounds.contains([lat, lng])
         })
+        const byId = new Map(visible.map((earthquake) => [earthquake.id, earthquake]))
+        const clusters = clusterPoints(
+          visible.map((earthquake) => ({
+            id: earthquake.id,
+            lat: earthquake.geometry.coordinates[1],
+            lng: earthquake.geometry.coordinates[0],
+            mag: earthquake.properties.mag,
+          })),
+          map.getZoom(),
+        )
+
+        clusters.forEach((cluster) => {
+          if (cluster.count === 1) {
+            addEvent(byId.get(cluster.ids[0])!, canvasRendererRef.current ?? undefined)
+          } else {
+            next.set(cluster.key, {
+              signature: `${cluster.count}:${cluster.maxMag}:${cluster.lat}:${cluster.lng}:${palette}:${textKey}`,
+              create: () =>
+                createClusterMarker(
+                  map,
+                  cluster,
+                  palette,
+                  t("tooltip.cluster", { count: cluster.count, magnitude: format.number(cluster.maxMag, 1) }),
+                ),
+            })
+          }
+        })
+      }
 
-        // Add popup with earthquake details
-        marker.bindPopup(`
-          <div class="p-2">
-            <h3 class="font-bold text-sm mb-1">M${magnitude.toFixed(1)} Earthquake</h3>
-            <p class="text-sm mb-1">${earthquake.properties.place}</p>
-            <p class="text-xs text-gray-600">${new Date(earthquake.properties.time).toLocaleString()}</p>
-            <p class="text-xs text-gray-600">Depth: ${Math.abs(earthquake.geometry.coordinates[2])} km</p>
-          </div>
-        `)
-
-        markersRef.current?.addLayer(marker)
+      // Diff against what's already drawn instead of rebuilding every marker
+      layersRef.current.forEach((rendered, key) => {
+        if (next.get(key)?.signature !== rendered.signature) {
+          markers.removeLayer(rendered.layer)
+          layersRef.current.delete(key)
+        }
+      })
+      next.forEach(({ signature, create, restyle }, key) => {
+        const rendered = layersRef.current.get(key)
+        if (rendered) {
+          restyle?.(rendered.layer)
+          return
+        }
+        const layer = create()
+        markers.addLayer(layer)
+        layersRef.current.set(key, { layer, signature })
       })
+
+      const pendingId = pendingTooltipRef.current
+      const pending = pendingId ? layersRef.current.get(pendingId)?.layer : undefined
+      if (pending instanceof L.CircleMarker) {
+        pending.openTooltip()
+        pendingTooltipRef.current = null
+      }
+
+      setClusterMode(clustered)
     } catch (error) {
-      setMapError("Error adding earthquake markers")
+      setMapError("map.markersFailed")
     }
-  }, [earthquakes, loading, leafletLoaded, mapError])
+  }, [
+    earthquakes,
+    loading,
+    mapError,
+    highlightedIds,
+    importedIds,
+    viewVersion,
+    boundaryTypes,
+    colorMode,
+    palette,
+    shapes,
+    playbackTime,
+    playbackWindowMs,
+    selectedId,
+    preferences,
+    t,
+    format,
+  ])
 
-  if (mapError) {
-    return (
-      <div className="h-[600px] w-full rounded-lg border border-border flex items-center justify-center bg-muted">
-        <div className="text-center">
-          <p className="text-sm text-destructive mb-2">Map Error</p>
-          <p className="text-xs text-muted-foreground">{mapError}</p>
-        </div>
-      </div>
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    const earthquake = focusRequest && earthquakesRef.current.find((candidate) => candidate.id === focusRequest.id)
+    if (!map || !earthquake) return
+
+    const [lng, lat] = earthquake.geometry.coordinates
+    // Close enough that the event is out of any cluster
+    map.flyTo([lat, lng], Math.max(map.getZoom(), FOCUS_ZOOM), { duration: 1 })
+    pendingTooltipRef.current = earthquake.id
+    // Events in the default view's markers are already drawn and won't be redrawn if the map barely moves
+    const layer = layersRef.current.get(earthquake.id)?.layer
+    if (layer instanceof L.CircleMarker) layer.openTooltip()
+  }, [focusRequest])
+
+  useEffect(() => {
+    const sectionLayer = sectionLayerRef.current
+    if (!sectionLayer) return
+
+    sectionLayer.clearLayers()
+    if (!crossSection) return
+
+    L.polygon(getSectionCorridor(crossSection, crossSectionWidthKm), {
+      color: "#0f172a",
+      weight: 1,
+      dashArray: "4 4",
+      fillOpacity: 0.08,
+      interactive: false,
+    }).addTo(sectionLayer)
+    L.polyline([crossSection.start, crossSection.end], { color: "#0f172a", weight: 3, interactive: false }).addTo(
+      sectionLayer,
     )
-  }
+    ;(["A", "B"] as const).forEach((label, index) => {
+      const position = index === 0 ? crossSection.start : crossSection.end
+      L.marker(position, {
+        icon: L.divIcon({ html: label, className: "cross-section-endpoint", iconSize: [20, 20] }),
+        interactive: false,
+      }).addTo(sectionLayer)
+    })
+  }, [crossSection, crossSectionWidthKm, mapError])
+
+  useEffect(() => {
+    const sequenceLayer = sequenceLayerRef.current
+    if (!sequenceLayer) return
+
+    sequenceLayer.clearLayers()
+    sequences?.forEach((sequence) => {
+      const [lng, lat] = sequence.mainshock.geometry.coordinates
+      const active = sequence.id === activeSequenceId
+      const links = [...sequence.foreshocks, ...sequence.aftershocks].map((member): L.LatLngExpression[] => {
+        const [memberLng, memberLat] = member.geometry.coordinates
+        // Take the short way round when a sequence straddles the antimeridian
+        const offset = memberLng - lng
+        const unwrapped = offset > 180 ? memberLng - 360 : offset < -180 ? memberLng + 360 : memberLng
+        return [
+          [lat, lng],
+          [memberLat, unwrapped],
+        ]
+      })
+      L.polyline(links, {
+        pane: SEQUENCE_PANE,
+        color: getMagnitudeHex(sequence.mainshock.properties.mag, palette),
+        weight: active ? 2 : 1,
+        opacity: active ? 0.9 : 0.4,
+        interactive: false,
+      }).addTo(sequenceLayer)
+    })
+  }, [sequences, activeSequenceId, palette, mapError])
+
+  useEffect(() => {
+    const homeLayer = homeLayerRef.current
+    if (!homeLayer) return
+
+    homeLayer.clearLayers()
+    if (!home) return
+
+    HOME_RING_DISTANCES_KM.forEach((distanceKm) => {
+      L.circle([home.lat, home.lng], {
+        pane: REGION_PANE,
+        radius: distanceKm * 1000,
+        color: "#7c3aed",
+        weight: 1,
+        dashArray: "2 6",
+        fill: false,
+        interactive: false,
+      }).addTo(homeLayer)
+      // Label each ring where it crosses north of home
+      L.marker(destinationPoint(home.lat, home.lng, 0, distanceKm), {
+        icon: L.divIcon({
+          html: format.length(distanceKm),
+          className: "text-[10px] text-violet-700",
+          iconSize: [48, 12],
+        }),
+        interactive: false,
+      }).addTo(homeLayer)
+    })
+    L.marker([home.lat, home.lng], {
+      icon: L.divIcon({ html: "⌂", className: "home-marker", iconSize: [22, 22] }),
+      title: t("home.marker"),
+      keyboard: false,
+    }).addTo(homeLayer)
+  }, [home, t, format, mapError])
+
+  useEffect(() => {
+    const catalogLayer = catalogLayerRef.current
+    if (!catalogLayer) return
+
+    catalogLayer.clearLayers()
+    catalogComparisons?.forEach(({ provider, comparison }) => {
+      const links = comparison.matches.map((match): L.LatLngExpression[] => {
+        const [lng, lat] = match.primary.geometry.coordinates
+        const [otherLng, otherLat] = match.other.geometry.coordinates
+        // Take the short way round, as for sequences
+        const offset = otherLng - lng
+        const unwrapped = offset > 180 ? otherLng - 360 : offset < -180 ? otherLng + 360 : otherLng
+        return [
+          [lat, lng],
+          [otherLat, unwrapped],
+        ]
+      })
+      L.polyline(links, {
+        pane: SEQUENCE_PANE,
+        color: provider.color,
+        weight: 1,
+        opacity: 0.8,
+        interactive: false,
+      }).addTo(catalogLayer)
+
+      const events = [
+        ...comparison.matches.map((match) => ({ earthquake: match.other, offset: match })),
+        ...comparison.unmatched.map((earthquake) => ({ earthquake, offset: null })),
+      ]
+      events.forEach(({ earthquake, offset }) => {
+        const [lng, lat] = earthquake.geometry.coordinates
+        L.circleMarker([lat, lng], {
+          renderer: canvasRendererRef.current ?? undefined,
+          radius: getMarkerRadius(earthquake.properties.mag),
+          color: provider.color,
+          weight: 2,
+          fill: false,
+          // Matched events are dashed so the ones only this catalog has stand out
+          dashArray: offset ? "3 3" : undefined,
+        })
+          .bindTooltip(getCatalogTooltipHtml(earthquake, getProviderLabel(provider, t), offset, t, format))
+          .addTo(catalogLayer)
+      })
+    })
+  }, [catalogComparisons, t, format, mapError])
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !pickingHome || !onHomePicked) return
+
+    map.getContainer().classList.add("map-drawing")
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      const point = event.latlng.wrap()
+      onHomePicked(point.lat, point.lng)
+    }
+    map.on("click", handleClick)
+    return () => {
+      map.off("click", handleClick)
+      map.getContainer().classList.remove("map-drawing")
+    }
+  }, [pickingHome, onHomePicked])
+
+  useEffect(() => {
+    const regionLayer = regionLayerRef.current
+    if (!regionLayer) return
+
+    regionLayer.clearLayers()
+    regions?.forEach((region) => regionLayer.addLayer(createRegionLayer(region)))
+  }, [regions, mapError])
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !drawingRegion || !onRegionDrawn) return
+    return startRegionDrawing(map, drawingRegion, onRegionDrawn)
+  }, [drawingRegion, onRegionDrawn])
+
+  useEffect(() => {
+    const map = mapInstanceRef.current
+    if (!map || !drawingCrossSection || !onCrossSectionChange) return
+
+    let start: L.LatLng | null = null
+    const preview = L.polyline([], { color: "#0f172a", weight: 2, dashArray: "6 6", interactive: false }).addTo(map)
+    map.getContainer().classList.add("map-drawing")
 
-  if (!leafletLoaded) {
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      if (!start) {
+        start = event.latlng
+        return
+      }
+      // Wrap longitudes so lines drawn across the antimeridian stay valid
+      const end = event.latlng.wrap()
+      const begin = start.wrap()
+      onCrossSectionChange({ start: [begin.lat, begin.lng], end: [end.lat, end.lng] })
+    }
+    const handleMove = (event: L.LeafletMouseEvent) => {
+      if (start) preview.setLatLngs([start, event.latlng])
+    }
+
+    map.on("click", handleClick)
+    map.on("mousemove", handleMove)
+    return () => {
+      map.off("click", handleClick)
+      map.off("mousemove", handleMove)
+      preview.remove()
+      map.getContainer().classList.remove("map-drawing")
+    }
+  }, [drawingCrossSection, onCrossSectionChange])
+
+  if (mapError) {
     return (
       <div className="h-[600px] w-full rounded-lg border border-border flex items-center justify-center bg-muted">
         <div className="text-center">
-          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-2"></div>
-          <p className="text-sm text-muted-foreground">Loading map...</p>
+          <p className="text-sm text-destructive mb-2">{t("map.error")}</p>
+          <p className="text-xs text-muted-foreground">{t(mapError)}</p>
         </div>
       </div>
     )
   }
 
   return (
-    <div
-      ref={mapRef}
-      className="h-[600px] w-full rounded-lg overflow-hidden border border-border"
-      style={{ minHeight: "600px" }}
-    />
+    <div className="relative">
+      <div
+        ref={mapRef}
+        role="region"
+        aria-label={t("map.label")}
+        className="h-[600px] w-full rounded-lg overflow-hidden border border-border"
+        style={{ minHeight: "600px" }}
+      />
+      {clusterMode && (
+        <div className="absolute bottom-3 left-3 z-[1000] rounded-md bg-card/90 px-2 py-1 text-xs text-muted-foreground shadow">
+          {t("map.clustered", { count: earthquakes.length })}
+        </div>
+      )}
+    </div>
   )
 }
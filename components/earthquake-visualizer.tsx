@@ -1,153 +1,1206 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, useMemo, useRef } from "react"
 import dynamic from "next/dynamic"
+import { usePathname, useSearchParams } from "next/navigation"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
-import { Loader2, RefreshCw, Filter, TrendingUp, Globe, AlertTriangle } from "lucide-react"
+import {
+  Loader2,
+  RefreshCw,
+  Filter,
+  TrendingUp,
+  Globe,
+  AlertTriangle,
+  History,
+  Radio,
+  ChevronLeft,
+  ChevronRight,
+  ChevronDown,
+  FileUp,
+  BarChart3,
+  Table,
+  Scissors,
+  BellDot,
+  Bell,
+  Spline,
+  X,
+  Film,
+  WifiOff,
+  FileText,
+  Settings,
+  GitCompare,
+  Bookmark,
+} from "lucide-react"
+import AlertPanel from "./alert-panel"
+import AnalysisDashboard from "./analysis-dashboard"
+import CatalogComparison, { type CatalogState } from "./catalog-comparison"
+import CatalogImport from "./catalog-import"
+import ColorLegend from "./color-legend"
+import CrossSectionChart from "./cross-section-chart"
+import EventDetailPanel from "./event-detail-panel"
+import EventNavigator from "./event-navigator"
+import EventTable from "./event-table"
+import ExportMenu from "./export-menu"
+import HistoricalSearchForm from "./historical-search-form"
+import HomePanel from "./home-panel"
+import MagnitudeBadge from "./magnitude-badge"
+import MapTextView from "./map-text-view"
+import PreferencesPanel from "./preferences-panel"
+import PresetPanel from "./preset-panel"
+import { usePreferences } from "./preferences-provider"
+import QualityPanel from "./quality-panel"
+import RegionComparison from "./region-comparison"
+import RegionPanel from "./region-panel"
+import SequenceGroup from "./sequence-group"
+import SequencePanel from "./sequence-panel"
+import TimelineScrubber from "./timeline-scrubber"
+import type { FocusRequest } from "./earthquake-map"
+import type { DrawKind, RegionDisplay } from "./map-drawing"
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  type DisplaySettings,
+  type EventOrder,
+  describeArrivals,
+  describeFilterResult,
+  loadDisplaySettings,
+  storeDisplaySettings,
+} from "@/lib/accessibility"
+import {
+  type AlertEntry,
+  type AlertRule,
+  type AlertedEvents,
+  MAX_ALERT_LOG_ENTRIES,
+  OPEN_EVENT_MESSAGE,
+  evaluateAlerts,
+  loadAlertLog,
+  loadAlertedEvents,
+  loadAlertRules,
+  pruneAlertedEvents,
+  showAlertNotifications,
+  storeAlertLog,
+  storeAlertedEvents,
+  storeAlertRules,
+} from "@/lib/alerts"
+import {
+  ApiRequestError,
+  getCatalog,
+  getEarthquakeStreamUrl,
+  getEarthquakes,
+  getPresets,
+  savePresets,
+  searchEarthquakes,
+} from "@/lib/api-client"
+import { getDefaultBasemapId } from "@/lib/basemaps"
+import type { ImportedCatalog } from "@/lib/catalog-import"
+import {
+  DEFAULT_MATCH_TOLERANCE,
+  type MatchTolerance,
+  type ProviderComparison,
+  getComparisonQuery,
+  matchCatalogs,
+} from "@/lib/catalog-matching"
+import { type ColorMode, MAX_DEPTH_KM } from "@/lib/color-scales"
+import {
+  CROSS_SECTION_WIDTHS_KM,
+  type CrossSectionLine,
+  DEFAULT_CROSS_SECTION_WIDTH_KM,
+  getSectionLengthKm,
+  projectToSection,
+} from "@/lib/cross-section"
+import { DEFAULT_DECLUSTER_WINDOW, type DeclusterOptions, decluster } from "@/lib/declustering"
+import { mergeEarthquakes } from "@/lib/earthquakes"
+import { type HistoricalSearch, toSearchParams } from "@/lib/fdsn"
+import { formatBearing } from "@/lib/geo"
+import { loadFeedSnapshot, saveFeedSnapshot } from "@/lib/offline-cache"
+import { type HomeLocation, getHomeDistance, loadHome, storeHome } from "@/lib/home"
+import {
+  FEED_MAGNITUDES,
+  FEED_MAGNITUDE_LABELS,
+  FEED_WINDOWS,
+  FEED_WINDOW_MS,
+  type FeedMagnitude,
+  type FeedSelection,
+  type FeedWindow,
+  getTimeFilterMs,
+  describeFeed,
+  getTimeFilterOptions,
+  toFeedId,
+} from "@/lib/feeds"
+import type { MapLayers } from "@/lib/overlays"
+import { DEFAULT_PLAYBACK_WINDOW, PLAYBACK_WINDOWS, getEventsAt, getTimeExtent } from "@/lib/playback"
+import {
+  EMPTY_PRESETS,
+  type Preset,
+  type PresetCollection,
+  type PresetStorage,
+  loadPresetStorage,
+  loadPresets,
+  loadWorkspaceId,
+  storePresetStorage,
+  storePresets,
+  storeWorkspaceId,
+} from "@/lib/presets"
+import { type CatalogProvider, getProvider, parseCatalogParams, toCatalogParams } from "@/lib/providers"
+import {
+  type EventRevision,
+  type EventVersion,
+  MAX_REVISIONS,
+  type QualityFilter,
+  describeQualityFilter,
+  filterByQuality,
+  findRevisions,
+  loadEventVersions,
+  loadRevisions,
+  storeEventVersions,
+  storeRevisions,
+} from "@/lib/quality"
+import {
+  type RegionGeometry,
+  type RegionShape,
+  type SavedRegion,
+  decodeRegionShape,
+  describeRegionShape,
+  encodeRegionShape,
+  filterByRegion,
+  loadSavedRegions,
+  resolveRegion,
+  storeSavedRegions,
+} from "@/lib/regions"
+import { SIGNIFICANT_MAGNITUDE, summarizeEarthquakes } from "@/lib/stats"
+import type { Earthquake, SearchResponse, StreamUpdate } from "@/lib/types"
+import { type DataMode, type MapView, type ViewState, parseViewState, toViewParams } from "@/lib/url-state"
 
-// Dynamically import the map to avoid SSR issues
-const EarthquakeMap = dynamic(() => import("./earthquake-map"), {
-  ssr: false,
-  loading: () => (
+type AutoRefresh = "off" | "1m" | "5m" | "stream"
+
+const AUTO_REFRESH_OPTIONS: { value: AutoRefresh; ms?: number }[] = [
+  { value: "off" },
+  { value: "1m", ms: 60 * 1000 },
+  { value: "5m", ms: 5 * 60 * 1000 },
+  { value: "stream" },
+]
+
+function MapLoading() {
+  const { t } = usePreferences()
+  return (
     <div className="flex items-center justify-center h-[600px] bg-muted rounded-lg">
       <Loader2 className="h-8 w-8 animate-spin text-primary" />
-      <span className="ml-2 text-muted-foreground">Loading map...</span>
+      <span className="ml-2 text-muted-foreground">{t("map.loading")}</span>
     </div>
-  ),
+  )
+}
+
+// Dynamically import the map to avoid SSR issues
+const EarthquakeMap = dynamic(() => import("./earthquake-map"), {
+  ssr: false,
+  loading: () => <MapLoading />,
 })
 
-interface Earthquake {
-  id: string
-  properties: {
-    mag: number
-    place: string
-    time: number
-    updated: number
-    tz: number
-    url: string
-    detail: string
-    felt: number | null
-    cdi: number | null
-    mmi: number | null
-    alert: string | null
-    status: string
-    tsunami: number
-    sig: number
-    net: string
-    code: string
-    ids: string
-    sources: string
-    types: string
-    nst: number | null
-    dmin: number | null
-    rms: number
-    gap: number | null
-    magType: string
-    type: string
-    title: string
-  }
-  geometry: {
-    type: string
-    coordinates: [number, number, number] // [longitude, latitude, depth]
-  }
+// Slider drags settle before they're written to the URL, so history gets one entry per change
+const URL_SYNC_DELAY_MS = 300
+
+// How often a stale, saved feed is retried while the browser believes it's online
+const STALE_RETRY_MS = 30 * 1000
+
+// Filter changes are announced to screen readers once the user stops adjusting them
+const ANNOUNCE_DELAY_MS = 1000
+
+const withoutMapView = (query: string) => {
+  const params = new URLSearchParams(query)
+  params.delete("map")
+  return params.toString()
 }
 
-interface EarthquakeData {
-  type: string
-  metadata: {
-    generated: number
-    url: string
-    title: string
-    status: number
-    api: string
-    count: number
-  }
-  features: Earthquake[]
+interface EarthquakeVisualizerProps {
+  // Parsed from the page's searchParams on the server so shared links render correctly on first load
+  initialState: ViewState
 }
 
-export default function EarthquakeVisualizer() {
+export default function EarthquakeVisualizer({ initialState }: EarthquakeVisualizerProps) {
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { t, format } = usePreferences()
+
   const [earthquakes, setEarthquakes] = useState<Earthquake[]>([])
-  const [filteredEarthquakes, setFilteredEarthquakes] = useState<Earthquake[]>([])
+  // After the magnitude, depth and time filters but before the region one
+  const [baseEarthquakes, setBaseEarthquakes] = useState<Earthquake[]>([])
   const [loading, setLoading] = useState(true)
+  // The underlying message; what to do about it is added in the chosen language when shown
   const [error, setError] = useState<string | null>(null)
+  const [errorCode, setErrorCode] = useState<string | null>(null)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  // When the live feed couldn't be loaded and a copy saved on this device is shown instead, when it was saved
+  const [staleSince, setStaleSince] = useState<number | null>(null)
+  const [online, setOnline] = useState(true)
+
+  const [mode, setMode] = useState<DataMode>(initialState.mode)
+  const [feed, setFeed] = useState<FeedSelection>(initialState.feed)
+  const [search, setSearch] = useState<HistoricalSearch | null>(initialState.search)
+  const [searchResult, setSearchResult] = useState<Omit<SearchResponse, "data"> | null>(null)
+  const requestRef = useRef<AbortController | null>(null)
+
+  const [autoRefresh, setAutoRefresh] = useState<AutoRefresh>("off")
+  const [streamError, setStreamError] = useState<string | null>(null)
+  // When each event arrived through auto-refresh or the stream, by id
+  const [arrivals, setArrivals] = useState<Map<string, number>>(() => new Map())
+  // The last moment the user had the tab in front of them
+  const [lastSeenAt, setLastSeenAt] = useState(() => Date.now())
+  const earthquakesRef = useRef<Earthquake[]>([])
+  const hasBaselineRef = useRef(false)
+
+  const [magnitudeFilter, setMagnitudeFilter] = useState([initialState.minMagnitude])
+  const [depthFilter, setDepthFilter] = useState<number[]>(initialState.depthRange)
+  const [timeFilter, setTimeFilter] = useState(initialState.timeFilter)
+  const [showFilters, setShowFilters] = useState(initialState.showFilters)
+  const [colorMode, setColorMode] = useState<ColorMode>(initialState.colorMode)
+  const [qualityFilter, setQualityFilter] = useState<QualityFilter>(initialState.quality)
+  const [mapView, setMapView] = useState<MapView | null>(initialState.mapView)
+  // null until the layer control is used or a preset sets them, leaving the map's defaults
+  const [mapLayers, setMapLayers] = useState<MapLayers | null>(null)
+
+  const [drawingCrossSection, setDrawingCrossSection] = useState(false)
+  const [crossSection, setCrossSection] = useState<CrossSectionLine | null>(null)
+  const [crossSectionWidth, setCrossSectionWidth] = useState(DEFAULT_CROSS_SECTION_WIDTH_KM)
+
+  // The moment shown by the time-lapse, or null when playback is off
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null)
+  const [playbackWindow, setPlaybackWindow] = useState(DEFAULT_PLAYBACK_WINDOW)
+
+  const [selectedEventId, setSelectedEventId] = useState<string | null>(initialState.eventId)
+
+  const [savedRegions, setSavedRegions] = useState<SavedRegion[]>([])
+  const [activeRegion, setActiveRegion] = useState<string | null>(initialState.region)
+  const [drawingRegion, setDrawingRegion] = useState<DrawKind | null>(null)
+  // Resolved geometry by region key; null when a named region no longer exists
+  const [regionGeometries, setRegionGeometries] = useState<Map<string, RegionGeometry | null>>(() => new Map())
+  const regionsLoadedRef = useRef(false)
+
+  const [showAnalysis, setShowAnalysis] = useState(false)
+  const [showTable, setShowTable] = useState(false)
+  const [focusRequest, setFocusRequest] = useState<FocusRequest | null>(null)
+  const [showImport, setShowImport] = useState(false)
+  const [catalog, setCatalog] = useState<ImportedCatalog | null>(null)
+  // The imported catalog and the feed (or search results) are layers that can be hidden independently
+  const [showCatalog, setShowCatalog] = useState(true)
+  const [showFeed, setShowFeed] = useState(true)
+
+  const [showComparison, setShowComparison] = useState(false)
+  const [comparedProviders, setComparedProviders] = useState<string[]>(["emsc"])
+  const [matchTolerance, setMatchTolerance] = useState<MatchTolerance>(DEFAULT_MATCH_TOLERANCE)
+  // Each compared catalog with the window it was asked for, so a new window refetches it
+  const [catalogStates, setCatalogStates] = useState<Map<string, { params: string; state: CatalogState }>>(
+    () => new Map(),
+  )
+
+  const [groupSequences, setGroupSequences] = useState(false)
+  const [declusterOptions, setDeclusterOptions] = useState<DeclusterOptions>({
+    window: DEFAULT_DECLUSTER_WINDOW,
+    scale: 1,
+  })
+  const [hideAftershocks, setHideAftershocks] = useState(false)
+  const [expandedSequenceId, setExpandedSequenceId] = useState<string | null>(null)
+
+  const [showPresets, setShowPresets] = useState(false)
+  const [presets, setPresets] = useState<PresetCollection>(EMPTY_PRESETS)
+  const [presetStorage, setPresetStorage] = useState<PresetStorage>("local")
+  const [workspaceId, setWorkspaceId] = useState("")
+  const [presetsLoading, setPresetsLoading] = useState(false)
+  const [presetError, setPresetError] = useState<string | null>(null)
+  // Bumped on every load so a slow response for a list switched away from is dropped
+  const presetRequestRef = useRef(0)
+
+  const [showSettings, setShowSettings] = useState(false)
+  const [showAlerts, setShowAlerts] = useState(false)
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([])
+  // Newest first; also the record of which events have already alerted
+  const [alertLog, setAlertLog] = useState<AlertEntry[]>([])
+  // Alerts that arrived while the panel was closed
+  const [unreadAlerts, setUnreadAlerts] = useState(0)
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | "unsupported">(
+    "default",
+  )
+  const alertRulesRef = useRef<AlertRule[]>([])
+  const alertLogRef = useRef<AlertEntry[]>([])
+  // Every event that has alerted, including those trimmed from the log
+  const alertedRef = useRef<AlertedEvents>(new Map())
+  const alertsLoadedRef = useRef(false)
+
+  const [revisions, setRevisions] = useState<EventRevision[]>([])
+  // The last version of each live event seen on this device, to spot revisions on the next refresh
+  const eventVersionsRef = useRef<Map<string, EventVersion>>(new Map())
+  const revisionsLoadedRef = useRef(false)
+
+  const [home, setHome] = useState<HomeLocation | null>(null)
+  const [pickingHome, setPickingHome] = useState(false)
+  const homeLoadedRef = useRef(false)
+
+  const [display, setDisplay] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS)
+  const displayLoadedRef = useRef(false)
+  const [eventOrder, setEventOrder] = useState<EventOrder>("time")
+  const [showTextView, setShowTextView] = useState(false)
+  // Read out by screen readers through the live region at the end of the page
+  const [announcement, setAnnouncement] = useState("")
+
+  const query = toViewParams({
+    mode,
+    feed,
+    search: mode === "historical" ? search : null,
+    minMagnitude: magnitudeFilter[0],
+    depthRange: [depthFilter[0], depthFilter[1]],
+    timeFilter,
+    showFilters,
+    colorMode,
+    quality: qualityFilter,
+    eventId: selectedEventId,
+    region: activeRegion,
+    mapView,
+  }).toString()
+  // The URL in the same canonical form, so parameter order or explicit defaults don't count as changes
+  const urlQuery = useMemo(() => toViewParams(parseViewState(new URLSearchParams(searchParams))).toString(), [searchParams])
+  const queryRef = useRef(query)
+  const urlQueryRef = useRef(urlQuery)
+  // The last query we navigated to ourselves, so its arrival isn't mistaken for back/forward
+  const navigatedQueryRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    queryRef.current = query
+    urlQueryRef.current = urlQuery
+  }, [query, urlQuery])
+
+  useEffect(() => {
+    // The URL moved without our state changing: back/forward navigation or a pasted link
+    if (urlQuery === queryRef.current || urlQuery === navigatedQueryRef.current) {
+      navigatedQueryRef.current = null
+      return
+    }
+    const state = parseViewState(new URLSearchParams(urlQuery))
+
+    setMode(state.mode)
+    // Only replace the feed and search when they really changed, since that triggers a refetch
+    setFeed((current) => (toFeedId(current) === toFeedId(state.feed) ? current : state.feed))
+    setSearch((current) =>
+      current && state.search && toSearchParams(current).toString() === toSearchParams(state.search).toString()
+        ? current
+        : state.search,
+    )
+    setMagnitudeFilter([state.minMagnitude])
+    setDepthFilter(state.depthRange)
+    setTimeFilter(state.timeFilter)
+    setShowFilters(state.showFilters)
+    setColorMode(state.colorMode)
+    setQualityFilter(state.quality)
+    setSelectedEventId(state.eventId)
+    setActiveRegion(state.region)
+    setMapView(state.mapView)
+  }, [urlQuery])
 
-  const [magnitudeFilter, setMagnitudeFilter] = useState([0])
-  const [timeFilter, setTimeFilter] = useState("all")
-  const [showFilters, setShowFilters] = useState(false)
+  useEffect(() => {
+    if (query === urlQueryRef.current) return
+
+    const timer = setTimeout(() => {
+      const href = query ? `${pathname}?${query}` : pathname
+      navigatedQueryRef.current = query
+      // Panning only updates the current entry; everything else can be stepped through with back/forward.
+      // The History API updates useSearchParams without the server round trip a router navigation makes.
+      if (withoutMapView(query) === withoutMapView(urlQueryRef.current)) {
+        window.history.replaceState(null, "", href)
+      } else {
+        window.history.pushState(null, "", href)
+      }
+    }, URL_SYNC_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [query, pathname])
+
+  // Read by the announcements and alert notifications below, so switching language doesn't trigger anything
+  const tRef = useRef(t)
+  const formatRef = useRef(format)
+  useEffect(() => {
+    tRef.current = t
+    formatRef.current = format
+  }, [t, format])
+
+  // Matches in a batch are logged once per event id and shown as notifications when allowed
+  const checkAlerts = useCallback((batch: Earthquake[]) => {
+    const entries = evaluateAlerts(alertRulesRef.current, batch, alertedRef.current)
+    if (entries.length === 0) return
+
+    const alerted = new Map(alertedRef.current)
+    entries.forEach((entry) => alerted.set(entry.eventId, entry.time))
+    alertedRef.current = pruneAlertedEvents(alerted)
+    storeAlertedEvents(alertedRef.current)
+
+    const next = [...entries.sort((a, b) => b.time - a.time), ...alertLogRef.current].slice(0, MAX_ALERT_LOG_ENTRIES)
+    alertLogRef.current = next
+    setAlertLog(next)
+    setUnreadAlerts((count) => count + entries.length)
+    showAlertNotifications(entries, tRef.current, formatRef.current, setSelectedEventId)
+  }, [])
+
+  const trackRevisions = useCallback((current: Earthquake[]) => {
+    const { revisions: found, versions } = findRevisions(eventVersionsRef.current, current, Date.now())
+    eventVersionsRef.current = versions
+    storeEventVersions(versions)
+    if (found.length > 0) setRevisions((log) => [...found, ...log].slice(0, MAX_REVISIONS))
+  }, [])
+
+  const fetchEarthquakeData = useCallback(async () => {
+    // Drop responses for a feed or search the user has already switched away from
+    requestRef.current?.abort()
+    const controller = new AbortController()
+    requestRef.current = controller
+
+    try {
+      setLoading(true)
+      setError(null)
+      setErrorCode(null)
+
+      if (mode === "live") {
+        const data = await getEarthquakes(feed, { signal: controller.signal })
+        setEarthquakes(data.features)
+        setStaleSince(null)
+        hasBaselineRef.current = true
+        checkAlerts(data.features)
+        trackRevisions(data.features)
+        saveFeedSnapshot(toFeedId(feed), data.features).catch((err) =>
+          console.error("Error saving feed offline:", err),
+        )
+      } else if (search) {
+        const { data, ...result } = await searchEarthquakes(search, { signal: controller.signal })
+        setEarthquakes(data.features)
+        setSearchResult(result)
+      } else {
+        setEarthquakes([])
+        setSearchResult(null)
+      }
+      setLastUpdated(new Date())
+    } catch (err) {
+      if (controller.signal.aborted) return
+      console.error("Error fetching earthquake data:", err)
+
+      // Fall back to the last copy of this feed saved on this device, flagged as stale
+      if (mode === "live") {
+        const snapshot = await loadFeedSnapshot(toFeedId(feed)).catch(() => null)
+        if (controller.signal.aborted) return
+        if (snapshot) {
+          earthquakesRef.current = snapshot.earthquakes
+          setEarthquakes(snapshot.earthquakes)
+          setStaleSince(snapshot.savedAt)
+          setLastUpdated(new Date(snapshot.savedAt))
+          return
+        }
+      }
+      setErrorCode(err instanceof ApiRequestError ? (err.code ?? null) : null)
+      setError(err instanceof Error ? err.message : "")
+    } finally {
+      if (requestRef.current === controller) {
+        setLoading(false)
+      }
+    }
+  }, [mode, feed, search, checkAlerts, trackRevisions])
 
   useEffect(() => {
     fetchEarthquakeData()
+  }, [fetchEarthquakeData])
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine)
+    update()
+    window.addEventListener("online", update)
+    window.addEventListener("offline", update)
+    return () => {
+      window.removeEventListener("online", update)
+      window.removeEventListener("offline", update)
+    }
   }, [])
 
+  // While showing a saved copy, resync as soon as the connection is back and keep retrying in case
+  // the connection was fine and the feed itself was down
   useEffect(() => {
-    let filtered = earthquakes
+    if (staleSince === null) return
+    window.addEventListener("online", fetchEarthquakeData)
+    const timer = setInterval(() => {
+      if (navigator.onLine) fetchEarthquakeData()
+    }, STALE_RETRY_MS)
+    return () => {
+      window.removeEventListener("online", fetchEarthquakeData)
+      clearInterval(timer)
+    }
+  }, [staleSince, fetchEarthquakeData])
+
+  useEffect(() => {
+    // Reset the trailing window if the new feed doesn't offer it
+    if (timeFilter !== "all" && getTimeFilterMs(feed.window, timeFilter) === null) {
+      setTimeFilter("all")
+    }
+  }, [feed.window, timeFilter])
+
+  const catalogVisible = catalog !== null && showCatalog
+  const feedEarthquakes = useMemo(() => (showFeed ? earthquakes : []), [earthquakes, showFeed])
+
+  // An event in both layers is shown once, from the feed, so only the rest count as imported
+  const importedEarthquakes = useMemo(() => {
+    if (!catalogVisible) return []
+    const feedIds = new Set(feedEarthquakes.map((earthquake) => earthquake.id))
+    return catalog.earthquakes.filter((earthquake) => !feedIds.has(earthquake.id))
+  }, [feedEarthquakes, catalog, catalogVisible])
+
+  const importedIds = useMemo(
+    () => new Set(importedEarthquakes.map((earthquake) => earthquake.id)),
+    [importedEarthquakes],
+  )
+
+  // Everything the filters below start from
+  const sourceEarthquakes = useMemo(
+    () => [...feedEarthquakes, ...importedEarthquakes],
+    [feedEarthquakes, importedEarthquakes],
+  )
+
+  useEffect(() => {
+    let filtered = sourceEarthquakes
 
     // Filter by magnitude
     if (magnitudeFilter[0] > 0) {
       filtered = filtered.filter((eq) => eq.properties.mag >= magnitudeFilter[0])
     }
 
-    // Filter by time
-    if (timeFilter !== "all") {
-      const now = Date.now()
-      const timeThreshold =
-        {
-          "1h": 60 * 60 * 1000,
-          "6h": 6 * 60 * 60 * 1000,
-          "12h": 12 * 60 * 60 * 1000,
-        }[timeFilter] || 0
+    // Filter by depth; the ends of the slider are open so events above sea level or below 700 km stay
+    const [minDepth, maxDepth] = depthFilter
+    if (minDepth > 0 || maxDepth < MAX_DEPTH_KM) {
+      filtered = filtered.filter((eq) => {
+        const depth = eq.geometry.coordinates[2]
+        return (minDepth === 0 || depth >= minDepth) && (maxDepth === MAX_DEPTH_KM || depth <= maxDepth)
+      })
+    }
 
+    // Filter by time; historical searches carry their own time range
+    const timeThreshold = mode === "live" && timeFilter !== "all" ? getTimeFilterMs(feed.window, timeFilter) : null
+    if (timeThreshold !== null) {
+      const now = Date.now()
       filtered = filtered.filter((eq) => now - eq.properties.time <= timeThreshold)
     }
 
-    setFilteredEarthquakes(filtered)
-  }, [earthquakes, magnitudeFilter, timeFilter])
+    setBaseEarthquakes(filterByQuality(filtered, qualityFilter))
+  }, [sourceEarthquakes, magnitudeFilter, depthFilter, timeFilter, feed.window, mode, qualityFilter])
 
-  const fetchEarthquakeData = async () => {
-    try {
-      setLoading(true)
-      setError(null)
+  // Declared before the load below so the empty initial list never overwrites what's stored
+  useEffect(() => {
+    if (regionsLoadedRef.current) storeSavedRegions(savedRegions)
+  }, [savedRegions])
+
+  useEffect(() => {
+    setSavedRegions(loadSavedRegions())
+    regionsLoadedRef.current = true
+  }, [])
+
+  useEffect(() => {
+    alertRulesRef.current = alertRules
+    if (alertsLoadedRef.current) storeAlertRules(alertRules)
+  }, [alertRules])
+
+  useEffect(() => {
+    alertLogRef.current = alertLog
+    if (alertsLoadedRef.current) storeAlertLog(alertLog)
+  }, [alertLog])
+
+  useEffect(() => {
+    // Loaded into the refs straight away so a fetch finishing first still sees them
+    alertRulesRef.current = loadAlertRules()
+    alertLogRef.current = loadAlertLog()
+    alertedRef.current = loadAlertedEvents(alertLogRef.current)
+    setAlertRules(alertRulesRef.current)
+    setAlertLog(alertLogRef.current)
+    alertsLoadedRef.current = true
+    setNotificationPermission(typeof Notification === "undefined" ? "unsupported" : Notification.permission)
+  }, [])
+
+  useEffect(() => {
+    if (!("serviceWorker" in navigator)) return
+    const onMessage = (event: MessageEvent) => {
+      if (event.data?.type === OPEN_EVENT_MESSAGE) setSelectedEventId(event.data.eventId)
+    }
+    navigator.serviceWorker.addEventListener("message", onMessage)
+    return () => navigator.serviceWorker.removeEventListener("message", onMessage)
+  }, [])
+
+  useEffect(() => {
+    if (revisionsLoadedRef.current) storeRevisions(revisions)
+  }, [revisions])
+
+  useEffect(() => {
+    // Into the ref straight away, like the alerts, so a fetch finishing first compares against it
+    eventVersionsRef.current = loadEventVersions()
+    setRevisions(loadRevisions())
+    revisionsLoadedRef.current = true
+  }, [])
+
+  useEffect(() => {
+    if (homeLoadedRef.current) storeHome(home)
+  }, [home])
+
+  useEffect(() => {
+    setHome(loadHome())
+    homeLoadedRef.current = true
+  }, [])
+
+  useEffect(() => {
+    if (displayLoadedRef.current) storeDisplaySettings(display)
+  }, [display])
+
+  useEffect(() => {
+    setDisplay(loadDisplaySettings())
+    displayLoadedRef.current = true
+  }, [])
+
+  const changeHome = (location: HomeLocation | null) => {
+    setHome(location)
+    setPickingHome(false)
+  }
+
+  const handleHomePicked = useCallback((lat: number, lng: number) => {
+    setHome({ lat, lng, source: "map" })
+    setPickingHome(false)
+  }, [])
+
+  const changePickingHome = (picking: boolean) => {
+    setPickingHome(picking)
+    if (picking) {
+      setDrawingCrossSection(false)
+      setDrawingRegion(null)
+      setShowTextView(false)
+    }
+  }
+
+  const visibleAlertLog = useMemo(() => alertLog.filter((entry) => !entry.dismissed), [alertLog])
+
+  const requestNotificationPermission = () => {
+    Notification.requestPermission().then(setNotificationPermission)
+  }
+
+  const toggleAlerts = () => {
+    setShowAlerts((show) => !show)
+    setUnreadAlerts(0)
+  }
+
+  // A shared link can point at a region this browser hasn't saved, which is shown but not stored
+  const regions = useMemo(() => {
+    const shape = activeRegion ? decodeRegionShape(activeRegion) : null
+    if (!activeRegion || !shape || savedRegions.some((region) => region.key === activeRegion)) return savedRegions
+    return [...savedRegions, { key: activeRegion, name: describeRegionShape(shape, t, format), shape }]
+  }, [savedRegions, activeRegion, t, format])
+
+  useEffect(() => {
+    const pending = regions.filter((region) => !regionGeometries.has(region.key))
+    if (pending.length === 0) return
+
+    let cancelled = false
+    Promise.all(
+      pending.map((region) =>
+        resolveRegion(region.shape)
+          .catch((err) => {
+            console.error(`Failed to resolve region ${region.name}:`, err)
+            return null
+          })
+          .then((geometry) => [region.key, geometry] as const),
+      ),
+    ).then((entries) => {
+      if (!cancelled) setRegionGeometries((current) => new Map([...current, ...entries]))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [regions, regionGeometries])
+
+  // As a string, so refreshes that stay inside the same hours don't ask the other catalogs again
+  const comparisonParams = useMemo(() => {
+    const comparisonQuery = getComparisonQuery(sourceEarthquakes)
+    return comparisonQuery ? toCatalogParams(comparisonQuery).toString() : null
+  }, [sourceEarthquakes])
+
+  useEffect(() => {
+    if (!showComparison || comparisonParams === null) return
+    const { query: comparisonQuery } = parseCatalogParams(new URLSearchParams(comparisonParams))
+    // A local file is read when it's picked, see compareFile
+    const pending = comparedProviders.filter(
+      (id) => getProvider(id)?.getUrl && catalogStates.get(id)?.params !== comparisonParams,
+    )
+    if (!comparisonQuery || pending.length === 0) return
+
+    const settle = (id: string, state: CatalogState) =>
+      setCatalogStates((current) =>
+        // A newer window may have been asked for in the meantime
+        current.get(id)?.params === comparisonParams
+          ? new Map(current).set(id, { params: comparisonParams, state })
+          : current,
+      )
+
+    setCatalogStates((current) => {
+      const next = new Map(current)
+      pending.forEach((id) => next.set(id, { params: comparisonParams, state: { status: "loading" } }))
+      return next
+    })
+    pending.forEach((id) =>
+      getCatalog(id, comparisonQuery)
+        .then((response) => settle(id, { status: "loaded", response }))
+        .catch((err) => {
+          console.error(`Failed to load the ${id} catalog:`, err)
+          settle(id, { status: "error", error: err instanceof Error ? err.message : String(err) })
+        }),
+    )
+  }, [showComparison, comparedProviders, comparisonParams, catalogStates])
+
+  // Parsed here rather than by the API route, so the file never leaves the browser
+  const compareFile = useCallback((provider: CatalogProvider, file: File) => {
+    // Keyed by the file name rather than a window, since the file's events don't depend on one
+    const settle = (state: CatalogState) =>
+      setCatalogStates((current) => new Map(current).set(provider.id, { params: file.name, state }))
+
+    setComparedProviders((current) => (current.includes(provider.id) ? current : [...current, provider.id]))
+    settle({ status: "loading" })
+    file
+      .text()
+      .then((text) => {
+        const { earthquakes, issues } = provider.parse(text)
+        if (earthquakes.length === 0 && issues.length > 0) {
+          const [problem] = issues[0].problems
+          settle({ status: "error", error: tRef.current(problem.key, problem.params) })
+          return
+        }
+        settle({
+          status: "loaded",
+          response: { provider: provider.id, source: file.name, earthquakes, skipped: issues.length, truncated: false },
+        })
+      })
+      .catch((err) => {
+        console.error("Failed to read the catalog file:", err)
+        settle({ status: "error", error: err instanceof Error ? err.message : String(err) })
+      })
+  }, [])
+
+  const catalogResults = useMemo(
+    () => new Map([...catalogStates].map(([id, entry]) => [id, entry.state])),
+    [catalogStates],
+  )
+
+  const catalogComparisons = useMemo<ProviderComparison[]>(() => {
+    if (!showComparison) return []
+    return comparedProviders.flatMap((id) => {
+      const provider = getProvider(id)
+      const result = catalogResults.get(id)
+      if (!provider || result?.status !== "loaded") return []
+      return [{ provider, comparison: matchCatalogs(sourceEarthquakes, result.response.earthquakes, matchTolerance) }]
+    })
+  }, [showComparison, comparedProviders, catalogResults, sourceEarthquakes, matchTolerance])
+
+  const activeGeometry = activeRegion ? regionGeometries.get(activeRegion) : null
+  const filteredEarthquakes = useMemo(
+    () => (activeGeometry ? filterByRegion(baseEarthquakes, activeGeometry) : baseEarthquakes),
+    [baseEarthquakes, activeGeometry],
+  )
+
+  const regionSummaries = useMemo(
+    () =>
+      savedRegions.flatMap((region) => {
+        const geometry = regionGeometries.get(region.key)
+        if (!geometry) return []
+        const summary = summarizeEarthquakes(filterByRegion(baseEarthquakes, geometry))
+        return [{ key: region.key, name: region.name, summary }]
+      }),
+    [savedRegions, regionGeometries, baseEarthquakes],
+  )
+
+  const regionCounts = useMemo(
+    () => new Map(regionSummaries.map(({ key, summary }) => [key, summary.total])),
+    [regionSummaries],
+  )
+
+  const regionDisplays = useMemo(
+    () =>
+      regions.flatMap((region): RegionDisplay[] => {
+        const geometry = regionGeometries.get(region.key)
+        return geometry ? [{ key: region.key, name: region.name, geometry, active: region.key === activeRegion }] : []
+      }),
+    [regions, regionGeometries, activeRegion],
+  )
+
+  const addRegion = useCallback((shape: RegionShape, name?: string) => {
+    const key = encodeRegionShape(shape)
+    setSavedRegions((current) => {
+      if (current.some((region) => region.key === key)) return current
+      // Drawn regions are named after their shape and numbered
+      const count = current.filter((region) => region.shape.kind === shape.kind).length
+      return [...current, { key, name: name ?? t(`regions.name.${shape.kind}`, { number: count + 1 }), shape }]
+    })
+    setActiveRegion(key)
+    setDrawingRegion(null)
+  }, [t])
+
+  const handleRegionDrawn = useCallback((geometry: RegionGeometry) => addRegion(geometry), [addRegion])
+
+  const removeRegion = (key: string) => {
+    setSavedRegions((current) => current.filter((region) => region.key !== key))
+    if (activeRegion === key) setActiveRegion(null)
+  }
+
+  const changeDrawingRegion = (kind: DrawKind | null) => {
+    setDrawingRegion(kind)
+    if (kind) {
+      setDrawingCrossSection(false)
+      setPickingHome(false)
+      setShowTextView(false)
+    }
+  }
+
+  // What a preset saved now would hold; the open event is left out, since presets outlive the events in a feed
+  const currentPreset = useMemo(() => {
+    const view = new URLSearchParams(query)
+    view.delete("event")
+    return {
+      view: view.toString(),
+      regions: savedRegions.map(({ key, name }) => ({ key, name })),
+      layers: mapLayers ?? { basemap: getDefaultBasemapId(), overlays: [] },
+    }
+  }, [query, savedRegions, mapLayers])
+
+  const applyPreset = useCallback(
+    (preset: Preset, { replace = false }: { replace?: boolean } = {}) => {
+      // Regions come along so the one the view filters by keeps its name
+      setSavedRegions((current) => {
+        const known = new Set(current.map((region) => region.key))
+        const added = preset.regions.flatMap(({ key, name }) => {
+          const shape = known.has(key) ? null : decodeRegionShape(key)
+          return shape ? [{ key, name, shape }] : []
+        })
+        return added.length > 0 ? [...current, ...added] : current
+      })
+      if (preset.layers) setMapLayers(preset.layers)
+      // The rest goes through the URL exactly like a shared link, so it can be stepped back from. The pinned
+      // preset applied on load replaces the entry instead, leaving nothing to step back to.
+      const href = preset.view ? `${pathname}?${preset.view}` : pathname
+      if (replace) window.history.replaceState(null, "", href)
+      else window.history.pushState(null, "", href)
+    },
+    [pathname],
+  )
+
+  const loadPresetList = useCallback((storage: PresetStorage, id: string) => {
+    const request = ++presetRequestRef.current
+    setPresetError(null)
+    setPresetsLoading(true)
+    const load = storage === "local" ? Promise.resolve(loadPresets()) : getPresets(id)
+    return load
+      .then((collection) => {
+        if (request !== presetRequestRef.current) return null
+        setPresets(collection)
+        return collection
+      })
+      .catch((err) => {
+        console.error("Failed to load presets:", err)
+        if (request === presetRequestRef.current) setPresetError(err instanceof Error ? err.message : String(err))
+        return null
+      })
+      .finally(() => {
+        if (request === presetRequestRef.current) setPresetsLoading(false)
+      })
+  }, [])
+
+  useEffect(() => {
+    const storage = loadPresetStorage()
+    const id = loadWorkspaceId()
+    setPresetStorage(storage)
+    setWorkspaceId(id)
+    loadPresetList(storage, id).then((collection) => {
+      const pinned = collection?.presets.find((preset) => preset.id === collection.defaultId)
+      // A link of its own, or anything changed while the list loaded, wins over the pinned preset
+      if (pinned && urlQueryRef.current === "" && queryRef.current === "") applyPreset(pinned, { replace: true })
+    })
+  }, [loadPresetList, applyPreset])
 
-      const response = await fetch("https://earthquake.usgs.gov/earthquakes/feed/v1.0/summary/all_day.geojson")
+  const changePresets = (next: PresetCollection) => {
+    setPresets(next)
+    setPresetError(null)
+    if (presetStorage === "local") {
+      storePresets(next)
+      return
+    }
+    savePresets(workspaceId, next).catch((err) => {
+      console.error("Failed to save presets:", err)
+      setPresetError(err instanceof Error ? err.message : String(err))
+    })
+  }
+
+  // Each storage keeps its own list; Export and Import copy presets between them
+  const changePresetStorage = (storage: PresetStorage, id: string) => {
+    storePresetStorage(storage)
+    storeWorkspaceId(id)
+    setPresetStorage(storage)
+    setWorkspaceId(id)
+    setPresets(EMPTY_PRESETS)
+    loadPresetList(storage, id)
+  }
+
+  const declusterResult = useMemo(
+    () => (groupSequences ? decluster(filteredEarthquakes, declusterOptions) : null),
+    [groupSequences, filteredEarthquakes, declusterOptions],
+  )
+  const expandedSequence = declusterResult?.sequences.find((sequence) => sequence.id === expandedSequenceId)
+
+  // The stat cards can count each sequence once, by its mainshock
+  const statsEarthquakes = useMemo(
+    () =>
+      declusterResult && hideAftershocks
+        ? filteredEarthquakes.filter((earthquake) => declusterResult.roles.get(earthquake.id) !== "aftershock")
+        : filteredEarthquakes,
+    [declusterResult, hideAftershocks, filteredEarthquakes],
+  )
+
+  const summary = useMemo(() => summarizeEarthquakes(statsEarthquakes), [statsEarthquakes])
+
+  const resultCountsRef = useRef({ shown: 0, total: 0 })
+  useEffect(() => {
+    resultCountsRef.current = { shown: filteredEarthquakes.length, total: sourceEarthquakes.length }
+  }, [filteredEarthquakes.length, sourceEarthquakes.length])
+
+  // Only filter changes and finished loads are announced, so events rolling out of the feed stay quiet
+  useEffect(() => {
+    if (loading) return
+    const timer = setTimeout(() => {
+      const { shown, total } = resultCountsRef.current
+      setAnnouncement(describeFilterResult(shown, total, tRef.current))
+    }, ANNOUNCE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [loading, magnitudeFilter, depthFilter, timeFilter, qualityFilter, activeGeometry, showFeed, showCatalog])
+  const activeRegionName = regions.find((region) => region.key === activeRegion)?.name
+
+  const exportMetadata = useMemo(() => {
+    const sources: string[] = []
+    if (showFeed) {
+      sources.push(
+        mode === "live"
+          ? `USGS summary feed ${toFeedId(feed)} (${describeFeed(feed)})`
+          : `USGS FDSN event search ${search ? toSearchParams(search).toString() : ""}`,
+      )
+    }
+    if (catalogVisible) sources.push(`Imported file ${catalog.name}`)
+    const filters: string[] = []
+    if (magnitudeFilter[0] > 0) filters.push(`Magnitude ${magnitudeFilter[0]}+`)
+    if (depthFilter[0] > 0 || depthFilter[1] < MAX_DEPTH_KM) {
+      filters.push(`Depth ${depthFilter[0]}–${depthFilter[1]}${depthFilter[1] === MAX_DEPTH_KM ? "+" : ""} km`)
+    }
+    const timeOption = getTimeFilterOptions(feed.window).find((option) => option.value === timeFilter)
+    if (mode === "live" && timeOption) filters.push(timeOption.label)
+    filters.push(...describeQualityFilter(qualityFilter))
+    if (activeRegion && activeGeometry) filters.push(`Region ${activeRegionName ?? activeRegion} (${activeRegion})`)
+    return { source: sources.join(" + ") || "none", filters }
+  }, [
+    mode,
+    feed,
+    search,
+    showFeed,
+    catalog,
+    catalogVisible,
+    magnitudeFilter,
+    depthFilter,
+    timeFilter,
+    qualityFilter,
+    activeRegion,
+    activeGeometry,
+    activeRegionName,
+  ])
+
+  useEffect(() => {
+    earthquakesRef.current = earthquakes
+  }, [earthquakes])
+
+  useEffect(() => {
+    // Arrivals only make sense relative to the data set they were merged into
+    hasBaselineRef.current = false
+    setArrivals(new Map())
+    setStreamError(null)
+  }, [mode, feed])
+
+  const applyIncoming = useCallback(
+    (incoming: Earthquake[]) => {
+      const now = Date.now()
+      const { earthquakes: merged, added } = mergeEarthquakes(earthquakesRef.current, incoming)
+      // The summary feeds roll forward, so drop events that fell out of the window
+      const cutoff = now - FEED_WINDOW_MS[feed.window]
+      const next = merged.filter((eq) => eq.properties.time >= cutoff)
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+      earthquakesRef.current = next
+      setEarthquakes(next)
+      setLastUpdated(new Date(now))
+      setStaleSince(null)
+      saveFeedSnapshot(toFeedId(feed), next, now).catch((err) => console.error("Error saving feed offline:", err))
+
+      // Before the first full load completes everything would look new
+      if (hasBaselineRef.current && added.length > 0) {
+        setArrivals((current) => {
+          const updated = new Map(current)
+          for (const id of added) updated.set(id, now)
+          return updated
+        })
+        const addedIds = new Set(added)
+        const arrived = next.filter((earthquake) => addedIds.has(earthquake.id))
+        setAnnouncement(describeArrivals(arrived, tRef.current, formatRef.current))
       }
+      hasBaselineRef.current = true
+      checkAlerts(incoming)
+      trackRevisions(next)
+    },
+    [feed, checkAlerts, trackRevisions],
+  )
 
-      const data: EarthquakeData = await response.json()
-      setEarthquakes(data.features)
-      setLastUpdated(new Date())
-    } catch (err) {
-      console.error("Error fetching earthquake data:", err)
-      setError("Failed to load earthquake data. Please try again later.")
-    } finally {
-      setLoading(false)
+  useEffect(() => {
+    if (mode !== "live" || autoRefresh === "off") return
+
+    if (autoRefresh === "stream") {
+      const source = new EventSource(getEarthquakeStreamUrl(feed))
+      source.addEventListener("update", (event) => {
+        const update = JSON.parse((event as MessageEvent<string>).data) as StreamUpdate
+        setStreamError(null)
+        applyIncoming(update.features)
+      })
+      source.addEventListener("upstream-error", (event) => {
+        setStreamError((JSON.parse((event as MessageEvent<string>).data) as { error: string }).error)
+      })
+      return () => source.close()
+    }
+
+    const interval = AUTO_REFRESH_OPTIONS.find((option) => option.value === autoRefresh)?.ms ?? 60 * 1000
+    // A refresh still in flight when the feed or mode changes must not be merged into the new feed's events
+    const controller = new AbortController()
+    const timer = setInterval(async () => {
+      try {
+        const data = await getEarthquakes(feed, { signal: controller.signal })
+        if (controller.signal.aborted) return
+        setStreamError(null)
+        applyIncoming(data.features)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error("Error refreshing earthquake data:", err)
+        setStreamError(err instanceof Error ? err.message : tRef.current("autoRefresh.requestFailed"))
+      }
+    }, interval)
+    return () => {
+      clearInterval(timer)
+      controller.abort()
+    }
+  }, [mode, autoRefresh, feed, applyIncoming])
+
+  useEffect(() => {
+    // Leaving the tab counts as having seen everything up to that point
+    const markSeen = () => setLastSeenAt(Date.now())
+    const handleVisibility = () => {
+      if (document.hidden) markSeen()
+    }
+
+    window.addEventListener("blur", markSeen)
+    document.addEventListener("visibilitychange", handleVisibility)
+    return () => {
+      window.removeEventListener("blur", markSeen)
+      document.removeEventListener("visibilitychange", handleVisibility)
+    }
+  }, [])
+
+  const newEarthquakeIds = useMemo(
+    () => new Set([...arrivals].filter(([, arrivedAt]) => arrivedAt > lastSeenAt).map(([id]) => id)),
+    [arrivals, lastSeenAt],
+  )
+
+  useEffect(() => {
+    if (newEarthquakeIds.size === 0) return
+    const title = document.title
+    document.title = `(${newEarthquakeIds.size}) ${title}`
+    return () => {
+      document.title = title
     }
+  }, [newEarthquakeIds.size])
+
+  const changePage = (direction: 1 | -1) => {
+    if (!search?.limit) return
+    const offset = Math.max(1, (search.offset ?? 1) + direction * search.limit)
+    setSearch({ ...search, offset })
+  }
+
+  const retryWithSplit = () => {
+    if (!search) return
+    setSearch({ ...search, limit: undefined, offset: undefined, split: true })
+  }
+
+  const handleCrossSectionChange = useCallback((line: CrossSectionLine) => {
+    setCrossSection(line)
+    setDrawingCrossSection(false)
+  }, [])
+
+  const crossSectionPoints = useMemo(
+    () => (crossSection ? projectToSection(filteredEarthquakes, crossSection, crossSectionWidth) : []),
+    [filteredEarthquakes, crossSection, crossSectionWidth],
+  )
+
+  const handleSelectEvent = useCallback(
+    (id: string) => {
+      // Clicks while drawing a cross-section or region, or placing home, place those instead
+      if (!drawingCrossSection && !drawingRegion && !pickingHome) setSelectedEventId(id)
+    },
+    [drawingCrossSection, drawingRegion, pickingHome],
+  )
+
+  const closeEventDetail = useCallback(() => setSelectedEventId(null), [])
+
+  // Picking an event from the table also brings it into view on the map
+  const focusEvent = useCallback((id: string) => {
+    setSelectedEventId(id)
+    setFocusRequest({ id })
+  }, [])
+
+  // Drawing or picking on the map brings it back, and the list cancels them
+  const toggleTextView = () => {
+    setShowTextView((show) => !show)
+    setDrawingCrossSection(false)
+    setDrawingRegion(null)
+    setPickingHome(false)
   }
 
-  const getMagnitudeColor = (magnitude: number) => {
-    if (magnitude >= 7) return "bg-destructive"
-    if (magnitude >= 5) return "bg-orange-500"
-    if (magnitude >= 3) return "bg-yellow-500"
-    if (magnitude >= 1) return "bg-blue-500"
-    return "bg-green-500"
+  const togglePlayback = () => {
+    if (playbackTime !== null) {
+      setPlaybackTime(null)
+      return
+    }
+    setPlaybackTime(getTimeExtent(filteredEarthquakes)?.[0] ?? Date.now())
   }
 
+  const playbackWindowMs = PLAYBACK_WINDOWS.find((option) => option.value === playbackWindow)?.ms ?? 0
+  const mapEarthquakes = useMemo(
+    () =>
+      playbackTime === null ? filteredEarthquakes : getEventsAt(filteredEarthquakes, playbackTime, playbackWindowMs),
+    [filteredEarthquakes, playbackTime, playbackWindowMs],
+  )
+
   const getMagnitudeLabel = (magnitude: number) => {
-    if (magnitude >= 7) return "Major"
-    if (magnitude >= 5) return "Moderate"
-    if (magnitude >= 3) return "Light"
-    if (magnitude >= 1) return "Minor"
-    return "Micro"
+    if (magnitude >= 7) return t("magnitudeClass.major")
+    if (magnitude >= 5) return t("magnitudeClass.moderate")
+    if (magnitude >= 3) return t("magnitudeClass.light")
+    if (magnitude >= 1) return t("magnitudeClass.minor")
+    return t("magnitudeClass.micro")
   }
 
+  // "M2.5+" and the like read the same in every language
+  const getFeedMagnitudeLabel = (magnitude: FeedMagnitude) =>
+    magnitude === "all" || magnitude === "significant"
+      ? t(`feedMagnitude.${magnitude}`)
+      : FEED_MAGNITUDE_LABELS[magnitude]
+
+  const errorMessage = t(errorCode === "SEARCH_LIMIT_EXCEEDED" ? "error.searchLimit" : "error.tryLater", {
+    message: error || t("error.loadFailed"),
+  })
+
+  // With sequences grouped, foreshocks and aftershocks are listed under their mainshock instead
   const significantEarthquakes = filteredEarthquakes
-    .filter((eq) => eq.properties.mag >= 2.5)
+    .filter((eq) => eq.properties.mag >= SIGNIFICANT_MAGNITUDE)
+    .filter((eq) => !declusterResult || (declusterResult.roles.get(eq.id) ?? "mainshock") === "mainshock")
     .sort((a, b) => b.properties.mag - a.properties.mag)
     .slice(0, 5)
 
@@ -157,28 +1210,118 @@ export default function EarthquakeVisualizer() {
         <div className="text-center space-y-4 py-8 animate-slide-up">
           <div className="inline-flex items-center space-x-2 text-primary mb-2">
             <Globe className="h-8 w-8" />
-            <span className="text-sm font-medium tracking-wide uppercase">Real-time Seismic Data</span>
+            <span className="text-sm font-medium tracking-wide uppercase">{t("app.tagline")}</span>
           </div>
           <h1 className="text-5xl md:text-6xl font-black text-foreground bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
-            Earthquake Visualizer
+            {t("app.title")}
           </h1>
-          <p className="text-xl text-muted-foreground max-w-2xl mx-auto leading-relaxed">
-            Explore global seismic activity with interactive maps and real-time data visualization
-          </p>
+          <p className="text-xl text-muted-foreground max-w-2xl mx-auto leading-relaxed">{t("app.subtitle")}</p>
           {lastUpdated && (
             <p className="text-sm text-muted-foreground flex items-center justify-center space-x-2">
               <TrendingUp className="h-4 w-4" />
-              <span>Last updated: {lastUpdated.toLocaleString()}</span>
+              <span>{t("app.lastUpdated", { time: format.time(lastUpdated.getTime()) })}</span>
             </p>
           )}
         </div>
 
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4 animate-fade-in">
-          <div className="flex items-center space-x-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center rounded-md border p-0.5">
+              <Button variant={mode === "live" ? "default" : "ghost"} size="sm" onClick={() => setMode("live")}>
+                <Radio className="h-4 w-4 mr-2" />
+                {t("mode.live")}
+              </Button>
+              <Button
+                variant={mode === "historical" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => setMode("historical")}
+              >
+                <History className="h-4 w-4 mr-2" />
+                {t("mode.historical")}
+              </Button>
+            </div>
             <Button variant="outline" size="sm" onClick={() => setShowFilters(!showFilters)} className="hover-lift">
               <Filter className="h-4 w-4 mr-2" />
-              Filters
+              {t("toolbar.filters")}
             </Button>
+            <Button
+              variant={playbackTime !== null ? "default" : "outline"}
+              size="sm"
+              onClick={togglePlayback}
+              className="hover-lift"
+            >
+              <Film className="h-4 w-4 mr-2" />
+              {t("toolbar.timeLapse")}
+            </Button>
+            <Button
+              variant={showImport ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowImport(!showImport)}
+              className="hover-lift"
+            >
+              <FileUp className="h-4 w-4 mr-2" />
+              {t("toolbar.import")}
+            </Button>
+            <Button
+              variant={showAnalysis ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowAnalysis(!showAnalysis)}
+              className="hover-lift"
+            >
+              <BarChart3 className="h-4 w-4 mr-2" />
+              {t("toolbar.analysis")}
+            </Button>
+            <Button
+              variant={showTable ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowTable(!showTable)}
+              className="hover-lift"
+            >
+              <Table className="h-4 w-4 mr-2" />
+              {t("toolbar.table")}
+            </Button>
+            <Button
+              variant={showComparison ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowComparison(!showComparison)}
+              className="hover-lift"
+            >
+              <GitCompare className="h-4 w-4 mr-2" />
+              {t("toolbar.compare")}
+            </Button>
+            <Button
+              variant={showPresets ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowPresets(!showPresets)}
+              className="hover-lift"
+            >
+              <Bookmark className="h-4 w-4 mr-2" />
+              {t("toolbar.presets")}
+            </Button>
+            <Button
+              variant={showAlerts ? "default" : "outline"}
+              size="sm"
+              onClick={toggleAlerts}
+              className="hover-lift"
+            >
+              <Bell className="h-4 w-4 mr-2" />
+              {t("toolbar.alerts")}
+              {unreadAlerts > 0 && (
+                <Badge variant="secondary" className="ml-2">
+                  {unreadAlerts}
+                </Badge>
+              )}
+            </Button>
+            <Button
+              variant={showSettings ? "default" : "outline"}
+              size="sm"
+              onClick={() => setShowSettings(!showSettings)}
+              className="hover-lift"
+            >
+              <Settings className="h-4 w-4 mr-2" />
+              {t("toolbar.settings")}
+            </Button>
+            <ExportMenu earthquakes={filteredEarthquakes} metadata={exportMetadata} />
             <Button
               variant="outline"
               size="sm"
@@ -187,14 +1330,71 @@ export default function EarthquakeVisualizer() {
               className="hover-lift bg-transparent"
             >
               <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
-              Refresh
+              {t("toolbar.refresh")}
             </Button>
+            {mode === "live" && (
+              <>
+                <Select value={feed.window} onValueChange={(value) => setFeed({ ...feed, window: value as FeedWindow })}>
+                  <SelectTrigger size="sm" className="w-36" aria-label={t("feed.window")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FEED_WINDOWS.map((window) => (
+                      <SelectItem key={window} value={window}>
+                        {t(`feedWindow.${window}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={feed.magnitude}
+                  onValueChange={(value) => setFeed({ ...feed, magnitude: value as FeedMagnitude })}
+                >
+                  <SelectTrigger size="sm" className="w-40" aria-label={t("feed.magnitude")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FEED_MAGNITUDES.map((magnitude) => (
+                      <SelectItem key={magnitude} value={magnitude}>
+                        {getFeedMagnitudeLabel(magnitude)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={autoRefresh} onValueChange={(value) => setAutoRefresh(value as AutoRefresh)}>
+                  <SelectTrigger size="sm" className="w-40" aria-label={t("autoRefresh.label")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUTO_REFRESH_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {t(`autoRefresh.${option.value}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {newEarthquakeIds.size > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setLastSeenAt(Date.now())}
+                    title={t("newEvents.markSeen")}
+                  >
+                    <BellDot className="h-4 w-4 mr-2 text-accent" />
+                    {t("newEvents.count", { count: newEarthquakeIds.size })}
+                  </Button>
+                )}
+                {streamError && (
+                  <span className="text-xs text-destructive">{t("autoRefresh.error", { error: streamError })}</span>
+                )}
+              </>
+            )}
           </div>
 
           {showFilters && (
             <div className="flex flex-col sm:flex-row items-center space-y-2 sm:space-y-0 sm:space-x-4 p-4 bg-card rounded-lg border animate-slide-up">
               <div className="flex items-center space-x-2">
-                <span className="text-sm font-medium">Min Magnitude:</span>
+                <span className="text-sm font-medium">{t("filters.minMagnitude")}</span>
                 <div className="w-32">
                   <Slider
                     value={magnitudeFilter}
@@ -208,33 +1408,121 @@ export default function EarthquakeVisualizer() {
                 <span className="text-sm text-muted-foreground min-w-[2rem]">{magnitudeFilter[0]}+</span>
               </div>
 
-              <Select value={timeFilter} onValueChange={setTimeFilter}>
-                <SelectTrigger className="w-32">
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Time</SelectItem>
-                  <SelectItem value="1h">Last Hour</SelectItem>
-                  <SelectItem value="6h">Last 6 Hours</SelectItem>
-                  <SelectItem value="12h">Last 12 Hours</SelectItem>
-                </SelectContent>
-              </Select>
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium">{t("filters.depth")}</span>
+                <div className="w-40">
+                  <Slider
+                    value={depthFilter}
+                    onValueChange={setDepthFilter}
+                    max={MAX_DEPTH_KM}
+                    min={0}
+                    step={10}
+                    minStepsBetweenThumbs={1}
+                    className="w-full"
+                  />
+                </div>
+                <span className="text-sm text-muted-foreground min-w-[6rem]">
+                  {format.lengthValue(depthFilter[0])}–{format.lengthValue(depthFilter[1])}
+                  {depthFilter[1] === MAX_DEPTH_KM ? "+" : ""} {format.lengthUnit}
+                </span>
+              </div>
+
+              {mode === "live" && (
+                <Select value={timeFilter} onValueChange={setTimeFilter}>
+                  <SelectTrigger className="w-40" aria-label={t("filters.time")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">{t(`feedWindow.${feed.window}`)}</SelectItem>
+                    {getTimeFilterOptions(feed.window).map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {t(`timeFilter.${option.value}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
             </div>
           )}
         </div>
 
+        {showImport && (
+          <CatalogImport
+            catalog={catalog}
+            onImport={(imported) => {
+              setCatalog(imported)
+              setShowCatalog(true)
+            }}
+            onClear={() => {
+              setCatalog(null)
+              setShowFeed(true)
+            }}
+            showCatalog={showCatalog}
+            onShowCatalogChange={setShowCatalog}
+            showFeed={showFeed}
+            onShowFeedChange={setShowFeed}
+            feedLabel={mode === "live" ? t("import.liveFeed") : t("import.searchResults")}
+          />
+        )}
+
+        {mode === "historical" && (
+          <div className="space-y-4">
+            <HistoricalSearchForm
+              key={search ? toSearchParams({ ...search, offset: undefined }).toString() : "new"}
+              initialSearch={search}
+              loading={loading}
+              onSearch={(next) => setSearch({ ...next, offset: next.limit ? 1 : undefined })}
+            />
+            {searchResult && searchResult.limit !== null && !loading && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  {t("search.showing", {
+                    from: searchResult.total === 0 ? 0 : searchResult.offset,
+                    to: Math.min(searchResult.offset + searchResult.limit - 1, searchResult.total),
+                    total: searchResult.total,
+                  })}
+                </span>
+                <div className="flex items-center space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => changePage(-1)} disabled={searchResult.offset <= 1}>
+                    <ChevronLeft className="h-4 w-4" />
+                    {t("search.previous")}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => changePage(1)}
+                    disabled={searchResult.offset + searchResult.limit > searchResult.total}
+                  >
+                    {t("search.next")}
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+            {searchResult && searchResult.chunks > 1 && !loading && (
+              <p className="text-sm text-muted-foreground">
+                {t("search.loadedChunks", { total: searchResult.total, chunks: searchResult.chunks })}
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 animate-fade-in">
           <Card className="hover-lift border-l-4 border-l-primary">
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium flex items-center space-x-2">
                 <Globe className="h-4 w-4 text-primary" />
-                <span>Total Earthquakes</span>
+                <span>{t("stats.total")}</span>
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-black text-primary">{filteredEarthquakes.length}</div>
+              <div className="text-3xl font-black text-primary">{summary.total}</div>
               <p className="text-xs text-muted-foreground">
-                {magnitudeFilter[0] > 0 ? `Magnitude ${magnitudeFilter[0]}+` : "All magnitudes"}
+                {magnitudeFilter[0] > 0
+                  ? t("stats.magnitudeAtLeast", { value: magnitudeFilter[0] })
+                  : t("stats.allMagnitudes")}
+                {activeRegionName && t("stats.inRegion", { region: activeRegionName })}
+                {statsEarthquakes !== filteredEarthquakes && t("stats.aftershocksHidden")}
               </p>
             </CardContent>
           </Card>
@@ -243,14 +1531,14 @@ export default function EarthquakeVisualizer() {
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium flex items-center space-x-2">
                 <AlertTriangle className="h-4 w-4 text-accent" />
-                <span>Significant Events</span>
+                <span>{t("stats.significant")}</span>
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-3xl font-black text-accent">
-                {filteredEarthquakes.filter((eq) => eq.properties.mag >= 2.5).length}
-              </div>
-              <p className="text-xs text-muted-foreground">Magnitude 2.5+</p>
+              <div className="text-3xl font-black text-accent">{summary.significant}</div>
+              <p className="text-xs text-muted-foreground">
+                {t("stats.magnitudeAtLeast", { value: SIGNIFICANT_MAGNITUDE })}
+              </p>
             </CardContent>
           </Card>
 
@@ -258,16 +1546,14 @@ export default function EarthquakeVisualizer() {
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium flex items-center space-x-2">
                 <TrendingUp className="h-4 w-4 text-destructive" />
-                <span>Strongest Event</span>
+                <span>{t("stats.strongest")}</span>
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-black text-destructive">
-                {filteredEarthquakes.length > 0
-                  ? Math.max(...filteredEarthquakes.map((eq) => eq.properties.mag)).toFixed(1)
-                  : "0.0"}
+                {format.number(summary.strongest?.properties.mag ?? 0, 1)}
               </div>
-              <p className="text-xs text-muted-foreground">Maximum magnitude</p>
+              <p className="text-xs text-muted-foreground">{t("stats.maximumMagnitude")}</p>
             </CardContent>
           </Card>
 
@@ -275,18 +1561,14 @@ export default function EarthquakeVisualizer() {
             <CardHeader className="pb-2">
               <CardTitle className="text-sm font-medium flex items-center space-x-2">
                 <div className="h-4 w-4 bg-chart-4 rounded-full"></div>
-                <span>Average Magnitude</span>
+                <span>{t("stats.average")}</span>
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="text-3xl font-black text-chart-4">
-                {filteredEarthquakes.length > 0
-                  ? (
-                      filteredEarthquakes.reduce((sum, eq) => sum + eq.properties.mag, 0) / filteredEarthquakes.length
-                    ).toFixed(1)
-                  : "0.0"}
+                {format.number(summary.averageMagnitude ?? 0, 1)}
               </div>
-              <p className="text-xs text-muted-foreground">Mean magnitude</p>
+              <p className="text-xs text-muted-foreground">{t("stats.meanMagnitude")}</p>
             </CardContent>
           </Card>
         </div>
@@ -295,42 +1577,319 @@ export default function EarthquakeVisualizer() {
           <div className="lg:col-span-3">
             <Card className="hover-lift overflow-hidden">
               <CardHeader className="bg-gradient-to-r from-primary/5 to-accent/5">
-                <CardTitle className="flex items-center space-x-2">
-                  <Globe className="h-5 w-5 text-primary" />
-                  <span>Interactive Earthquake Map</span>
-                </CardTitle>
-                <CardDescription>Explore earthquake locations and magnitudes with color-coded markers</CardDescription>
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div className="space-y-1.5">
+                    <CardTitle className="flex items-center space-x-2">
+                      <Globe className="h-5 w-5 text-primary" />
+                      <span>{t("map.title")}</span>
+                    </CardTitle>
+                    <CardDescription>
+                      {drawingCrossSection ? t("map.drawSectionHint") : t("map.description")}
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <Button
+                      variant={showTextView ? "default" : "outline"}
+                      size="sm"
+                      onClick={toggleTextView}
+                      aria-pressed={showTextView}
+                      className="hover-lift"
+                    >
+                      <FileText className="h-4 w-4 mr-2" />
+                      {t("map.textView")}
+                    </Button>
+                    <Select
+                      value={String(crossSectionWidth)}
+                      onValueChange={(value) => setCrossSectionWidth(Number(value))}
+                    >
+                      <SelectTrigger size="sm" className="w-32" aria-label={t("map.sectionWidth")}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CROSS_SECTION_WIDTHS_KM.map((width) => (
+                          <SelectItem key={width} value={String(width)}>
+                            ±{format.length(width)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant={drawingCrossSection ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => {
+                        setDrawingCrossSection(!drawingCrossSection)
+                        setDrawingRegion(null)
+                        setPickingHome(false)
+                        setShowTextView(false)
+                      }}
+                      className="hover-lift"
+                    >
+                      <Spline className="h-4 w-4 mr-2" />
+                      {drawingCrossSection ? t("map.cancelDrawing") : t("map.drawSection")}
+                    </Button>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent className="p-0">
-                {error ? (
+                {playbackTime !== null && !error && (
+                  <div className="border-b p-4">
+                    <TimelineScrubber
+                      earthquakes={filteredEarthquakes}
+                      time={playbackTime}
+                      onTimeChange={setPlaybackTime}
+                      trail={playbackWindow}
+                      onTrailChange={setPlaybackWindow}
+                    />
+                  </div>
+                )}
+                {staleSince !== null && !error && (
+                  <div className="flex flex-wrap items-center justify-between gap-2 border-b bg-amber-500/10 p-3">
+                    <span className="flex items-center gap-2 text-sm">
+                      <WifiOff className="h-4 w-4 text-amber-600" />
+                      {online ? t("stale.unreachable") : t("stale.offline")}{" "}
+                      {t("stale.savedCopy", { time: format.time(staleSince) })}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={fetchEarthquakeData} disabled={loading}>
+                      <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+                      {t("stale.retry")}
+                    </Button>
+                  </div>
+                )}
+                {error && catalogVisible && (
+                  <p className="border-b p-3 text-sm text-destructive">
+                    {t("error.catalogOnly", { error: errorMessage })}
+                  </p>
+                )}
+                {error && !catalogVisible ? (
                   <div className="flex items-center justify-center h-[600px] bg-muted/20">
                     <div className="text-center space-y-4">
                       <AlertTriangle className="h-12 w-12 text-destructive mx-auto" />
                       <div>
-                        <p className="text-destructive font-medium">Error loading earthquake data</p>
-                        <p className="text-sm text-muted-foreground mt-1">{error}</p>
+                        <p className="text-destructive font-medium">{t("error.title")}</p>
+                        <p className="text-sm text-muted-foreground mt-1">{errorMessage}</p>
+                      </div>
+                      <div className="flex items-center justify-center space-x-2">
+                        {errorCode === "SEARCH_LIMIT_EXCEEDED" && !search?.split && (
+                          <Button onClick={retryWithSplit} className="hover-lift">
+                            <Scissors className="h-4 w-4 mr-2" />
+                            {t("error.split")}
+                          </Button>
+                        )}
+                        <Button
+                          onClick={fetchEarthquakeData}
+                          variant={errorCode === "SEARCH_LIMIT_EXCEEDED" ? "outline" : "default"}
+                          className="hover-lift"
+                        >
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          {t("error.tryAgain")}
+                        </Button>
                       </div>
-                      <Button onClick={fetchEarthquakeData} className="hover-lift">
-                        <RefreshCw className="h-4 w-4 mr-2" />
-                        Try Again
-                      </Button>
                     </div>
                   </div>
+                ) : showTextView ? (
+                  <MapTextView
+                    earthquakes={mapEarthquakes}
+                    order={eventOrder}
+                    selectedId={selectedEventId}
+                    onSelectEvent={focusEvent}
+                  />
                 ) : (
-                  <EarthquakeMap earthquakes={filteredEarthquakes} loading={loading} />
+                  <EarthquakeMap
+                    earthquakes={mapEarthquakes}
+                    loading={loading}
+                    highlightedIds={newEarthquakeIds}
+                    importedIds={importedIds}
+                    colorMode={colorMode}
+                    palette={display.palette}
+                    shapes={display.shapes}
+                    drawingCrossSection={drawingCrossSection}
+                    crossSection={crossSection}
+                    crossSectionWidthKm={crossSectionWidth}
+                    onCrossSectionChange={handleCrossSectionChange}
+                    playbackTime={playbackTime}
+                    playbackWindowMs={playbackWindowMs}
+                    selectedId={selectedEventId}
+                    onSelectEvent={handleSelectEvent}
+                    focusRequest={focusRequest}
+                    view={mapView}
+                    onViewChange={setMapView}
+                    layers={mapLayers}
+                    onLayersChange={setMapLayers}
+                    regions={regionDisplays}
+                    drawingRegion={drawingRegion}
+                    onRegionDrawn={handleRegionDrawn}
+                    sequences={declusterResult?.sequences}
+                    activeSequenceId={expandedSequenceId}
+                    home={home}
+                    pickingHome={pickingHome}
+                    onHomePicked={handleHomePicked}
+                    catalogComparisons={catalogComparisons}
+                  />
+                )}
+                {(!error || catalogVisible) && (
+                  <EventNavigator
+                    earthquakes={mapEarthquakes}
+                    order={eventOrder}
+                    onOrderChange={setEventOrder}
+                    selectedId={selectedEventId}
+                    onSelectEvent={focusEvent}
+                  />
                 )}
               </CardContent>
             </Card>
+
+            {crossSection && (
+              <Card className="hover-lift mt-8 animate-slide-up">
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="space-y-1.5">
+                      <CardTitle className="flex items-center space-x-2">
+                        <Spline className="h-5 w-5 text-primary" />
+                        <span>{t("section.title")}</span>
+                      </CardTitle>
+                      <CardDescription>
+                        {t("section.summary", {
+                          count: crossSectionPoints.length,
+                          width: format.length(crossSectionWidth),
+                          length: format.length(getSectionLengthKm(crossSection)),
+                        })}
+                      </CardDescription>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => setCrossSection(null)} aria-label={t("section.close")}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <CrossSectionChart
+                    points={crossSectionPoints}
+                    lengthKm={getSectionLengthKm(crossSection)}
+                    colorMode={colorMode}
+                    palette={display.palette}
+                    shapes={display.shapes}
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {showTable && (
+              <div className="mt-8">
+                <EventTable
+                  earthquakes={filteredEarthquakes}
+                  selectedId={selectedEventId}
+                  onSelectEvent={focusEvent}
+                  onClose={() => setShowTable(false)}
+                />
+              </div>
+            )}
+
+            {showAnalysis && (
+              <div className="mt-8">
+                <AnalysisDashboard earthquakes={filteredEarthquakes} onClose={() => setShowAnalysis(false)} />
+              </div>
+            )}
+
+            {regionSummaries.length >= 2 && (
+              <div className="mt-8">
+                <RegionComparison columns={regionSummaries} />
+              </div>
+            )}
           </div>
 
           <div className="space-y-6">
+            {showSettings && <PreferencesPanel onClose={() => setShowSettings(false)} />}
+
+            {showPresets && (
+              <PresetPanel
+                presets={presets}
+                onPresetsChange={changePresets}
+                current={currentPreset}
+                onApply={applyPreset}
+                storage={presetStorage}
+                workspaceId={workspaceId}
+                onStorageChange={changePresetStorage}
+                loading={presetsLoading}
+                error={presetError}
+                onClose={() => setShowPresets(false)}
+              />
+            )}
+
+            {showAlerts && (
+              <AlertPanel
+                rules={alertRules}
+                onRulesChange={setAlertRules}
+                log={visibleAlertLog}
+                onClearLog={() => setAlertLog((log) => log.map((entry) => ({ ...entry, dismissed: true })))}
+                onSelectEvent={setSelectedEventId}
+                regions={savedRegions}
+                permission={notificationPermission}
+                onRequestPermission={requestNotificationPermission}
+                onClose={toggleAlerts}
+              />
+            )}
+
+            {showComparison && (
+              <CatalogComparison
+                selected={comparedProviders}
+                onSelectedChange={setComparedProviders}
+                tolerance={matchTolerance}
+                onToleranceChange={setMatchTolerance}
+                catalogs={catalogResults}
+                comparisons={catalogComparisons}
+                ready={comparisonParams !== null}
+                onCompareFile={compareFile}
+                onSelectEvent={setSelectedEventId}
+                onClose={() => setShowComparison(false)}
+              />
+            )}
+
+            <HomePanel
+              home={home}
+              onHomeChange={changeHome}
+              picking={pickingHome}
+              onPickingChange={changePickingHome}
+              earthquakes={filteredEarthquakes}
+              selectedId={selectedEventId}
+              onSelectEvent={setSelectedEventId}
+            />
+
+            <RegionPanel
+              regions={regions}
+              activeKey={activeRegion}
+              counts={regionCounts}
+              onActivate={setActiveRegion}
+              onRemove={removeRegion}
+              onAdd={addRegion}
+              drawing={drawingRegion}
+              onDrawingChange={changeDrawingRegion}
+            />
+
+            <QualityPanel
+              filter={qualityFilter}
+              onFilterChange={setQualityFilter}
+              earthquakes={sourceEarthquakes}
+              revisions={revisions}
+              onClearRevisions={() => setRevisions([])}
+              onSelectEvent={setSelectedEventId}
+            />
+
+            <SequencePanel
+              enabled={groupSequences}
+              onEnabledChange={setGroupSequences}
+              options={declusterOptions}
+              onOptionsChange={setDeclusterOptions}
+              hideAftershocks={hideAftershocks}
+              onHideAftershocksChange={setHideAftershocks}
+              result={declusterResult}
+            />
+
             <Card className="hover-lift">
               <CardHeader className="bg-gradient-to-r from-accent/5 to-primary/5">
                 <CardTitle className="text-lg flex items-center space-x-2">
                   <AlertTriangle className="h-5 w-5 text-accent" />
-                  <span>Recent Significant Events</span>
+                  <span>{t("significant.title")}</span>
                 </CardTitle>
-                <CardDescription>Magnitude 2.5+ earthquakes</CardDescription>
+                <CardDescription>{t("significant.description", { value: SIGNIFICANT_MAGNITUDE })}</CardDescription>
               </CardHeader>
               <CardContent className="space-y-4 max-h-96 overflow-y-auto">
                 {loading ? (
@@ -343,74 +1902,115 @@ export default function EarthquakeVisualizer() {
                     ))}
                   </div>
                 ) : significantEarthquakes.length > 0 ? (
-                  significantEarthquakes.map((earthquake, index) => (
-                    <div
-                      key={earthquake.id}
-                      className="border-b border-border pb-4 last:border-b-0 animate-slide-up hover-lift p-2 rounded-lg hover:bg-muted/20 transition-colors"
-                      style={{ animationDelay: `${index * 0.1}s` }}
-                    >
-                      <div className="flex items-start justify-between mb-2">
-                        <Badge className={`${getMagnitudeColor(earthquake.properties.mag)} animate-pulse-glow`}>
-                          M{earthquake.properties.mag.toFixed(1)}
-                        </Badge>
-                        <span className="text-xs text-muted-foreground font-medium">
-                          {getMagnitudeLabel(earthquake.properties.mag)}
-                        </span>
+                  significantEarthquakes.map((earthquake, index) => {
+                    const sequence = declusterResult?.sequences.find((candidate) => candidate.id === earthquake.id)
+                    const expanded = sequence !== undefined && sequence === expandedSequence
+                    const fromHome = home ? getHomeDistance(home, earthquake) : null
+                    return (
+                      <div key={earthquake.id} className="space-y-2 border-b border-border pb-4 last:border-b-0">
+                        <button
+                          type="button"
+                          onClick={() => setSelectedEventId(earthquake.id)}
+                          className={`block w-full text-left animate-slide-up hover-lift p-2 rounded-lg hover:bg-muted/20 transition-colors ${
+                            selectedEventId === earthquake.id ? "bg-muted/30" : ""
+                          }`}
+                          style={{ animationDelay: `${index * 0.1}s` }}
+                        >
+                          <div className="flex items-start justify-between mb-2">
+                            <div className="flex items-center space-x-2">
+                              <MagnitudeBadge
+                                magnitude={earthquake.properties.mag}
+                                palette={display.palette}
+                                className="animate-pulse-glow"
+                              >
+                                M{format.number(earthquake.properties.mag, 1)}
+                              </MagnitudeBadge>
+                              {newEarthquakeIds.has(earthquake.id) && (
+                                <Badge variant="outline" className="border-accent text-accent uppercase">
+                                  {t("badge.new")}
+                                </Badge>
+                              )}
+                              {importedIds.has(earthquake.id) && (
+                                <Badge variant="outline" className="uppercase">
+                                  {t("badge.imported")}
+                                </Badge>
+                              )}
+                            </div>
+                            <span className="text-xs text-muted-foreground font-medium">
+                              {getMagnitudeLabel(earthquake.properties.mag)}
+                            </span>
+                          </div>
+                          <p className="text-sm font-medium text-foreground leading-tight mb-1">
+                            {earthquake.properties.place}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {format.eventTime(earthquake)}
+                            {fromHome &&
+                              ` · ${t("significant.fromHome", {
+                                distance: format.length(fromHome.distanceKm),
+                                bearing: formatBearing(fromHome.bearing),
+                              })}`}
+                          </p>
+                        </button>
+                        {sequence && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="w-full justify-start text-xs"
+                            aria-expanded={expanded}
+                            onClick={() => setExpandedSequenceId(expanded ? null : sequence.id)}
+                          >
+                            {expanded ? (
+                              <ChevronDown className="h-4 w-4 mr-2" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4 mr-2" />
+                            )}
+                            {t("sequence.aftershocks", { count: sequence.aftershocks.length })}
+                            {sequence.foreshocks.length > 0 &&
+                              t("sequence.foreshocks", { count: sequence.foreshocks.length })}
+                          </Button>
+                        )}
+                        {expanded && <SequenceGroup sequence={sequence} onSelectEvent={setSelectedEventId} />}
                       </div>
-                      <p className="text-sm font-medium text-foreground leading-tight mb-1">
-                        {earthquake.properties.place}
-                      </p>
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(earthquake.properties.time).toLocaleString()}
-                      </p>
-                    </div>
-                  ))
+                    )
+                  })
                 ) : (
                   <div className="text-center py-8">
                     <Globe className="h-12 w-12 text-muted-foreground mx-auto mb-2" />
                     <p className="text-sm text-muted-foreground">
-                      No significant earthquakes match your current filters
+                      {t("significant.none")}
                     </p>
                   </div>
                 )}
               </CardContent>
             </Card>
 
-            <Card className="hover-lift">
-              <CardHeader>
-                <CardTitle className="text-lg flex items-center space-x-2">
-                  <div className="h-5 w-5 bg-gradient-to-r from-green-500 to-red-500 rounded-full"></div>
-                  <span>Magnitude Scale</span>
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {[
-                  { color: "bg-green-500", label: "Micro", range: "<1.0", description: "Usually not felt" },
-                  { color: "bg-blue-500", label: "Minor", range: "1.0-2.9", description: "Rarely felt" },
-                  { color: "bg-yellow-500", label: "Light", range: "3.0-4.9", description: "Often felt" },
-                  { color: "bg-orange-500", label: "Moderate", range: "5.0-6.9", description: "Damaging" },
-                  { color: "bg-red-600", label: "Major", range: "7.0+", description: "Serious damage" },
-                ].map((item, index) => (
-                  <div
-                    key={item.label}
-                    className="flex items-center space-x-3 p-2 rounded-lg hover:bg-muted/20 transition-colors animate-fade-in"
-                    style={{ animationDelay: `${index * 0.1}s` }}
-                  >
-                    <div className={`w-4 h-4 rounded-full ${item.color} animate-pulse-glow`}></div>
-                    <div className="flex-1">
-                      <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium">{item.label}</span>
-                        <span className="text-xs text-muted-foreground">{item.range}</span>
-                      </div>
-                      <p className="text-xs text-muted-foreground">{item.description}</p>
-                    </div>
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
+            <ColorLegend
+              mode={colorMode}
+              onModeChange={setColorMode}
+              palette={display.palette}
+              onPaletteChange={(palette) => setDisplay((current) => ({ ...current, palette }))}
+              shapes={display.shapes}
+              onShapesChange={(shapes) => setDisplay((current) => ({ ...current, shapes }))}
+            />
           </div>
         </div>
       </div>
+
+      {selectedEventId && (
+        <EventDetailPanel
+          eventId={selectedEventId}
+          summary={sourceEarthquakes.find((earthquake) => earthquake.id === selectedEventId)}
+          imported={importedIds.has(selectedEventId)}
+          home={home}
+          palette={display.palette}
+          onClose={closeEventDetail}
+        />
+      )}
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
     </div>
   )
 }
@@ -0,0 +1,385 @@
+"use client"
+
+import { useEffect, useState, type ReactNode } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Check, ExternalLink, Link2, Loader2, Waves, X } from "lucide-react"
+import Beachball from "./beachball"
+import MagnitudeBadge from "./magnitude-badge"
+import { usePreferences } from "./preferences-provider"
+import { ApiRequestError, getEventDetail } from "@/lib/api-client"
+import { getFaultingStyle } from "@/lib/beachball"
+import type { ColorPalette } from "@/lib/color-scales"
+import { formatBearing } from "@/lib/geo"
+import { type HomeLocation, toNearbyEvent } from "@/lib/home"
+import type { TranslationKey } from "@/lib/i18n"
+import { PAGER_ALERT_COLORS, formatIntensity } from "@/lib/intensity"
+import type { Earthquake, EventDetail } from "@/lib/types"
+
+interface EventDetailPanelProps {
+  eventId: string
+  // The summary from the loaded feed, shown while the detail loads
+  summary?: Earthquake
+  // From an imported file rather than USGS, so there are no products to load
+  imported?: boolean
+  // Adds distance and estimated shaking at home when set
+  home?: HomeLocation | null
+  palette?: ColorPalette
+  onClose: () => void
+}
+
+export function getEventPermalink(id: string) {
+  // Keeps the current filters and map view, which the URL already carries
+  const url = new URL(window.location.href)
+  url.searchParams.set("event", id)
+  url.hash = ""
+  return url.toString()
+}
+
+const formatNumber = (value: number | null, digits = 1, unit = "") =>
+  value === null ? "—" : `${value.toFixed(digits)}${unit}`
+
+// USGS review statuses; anything else is shown as it comes
+const STATUS_KEYS: Record<string, TranslationKey> = {
+  automatic: "detail.status.automatic",
+  reviewed: "detail.status.reviewed",
+  deleted: "detail.status.deleted",
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="space-y-2 border-t border-border pt-4">
+      <h3 className="text-sm font-semibold">{title}</h3>
+      {children}
+    </section>
+  )
+}
+
+function Fact({ label, value }: { label: string; value: ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="text-sm font-medium">{value}</dd>
+    </div>
+  )
+}
+
+export default function EventDetailPanel({
+  eventId,
+  summary,
+  imported = false,
+  home = null,
+  palette = "default",
+  onClose,
+}: EventDetailPanelProps) {
+  const { t, format } = usePreferences()
+  const [detail, setDetail] = useState<EventDetail | null>(null)
+  const [loading, setLoading] = useState(true)
+  // A message of our own is kept as its key, so it follows a language change
+  const [error, setError] = useState<{ key: TranslationKey } | { message: string } | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  useEffect(() => {
+    setDetail(null)
+    setError(null)
+    setLoading(!imported)
+    if (imported) return
+
+    const controller = new AbortController()
+
+    getEventDetail(eventId, { signal: controller.signal })
+      .then(setDetail)
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        console.error("Error fetching event detail:", err)
+        setError(
+          err instanceof ApiRequestError && err.code === "NOT_FOUND"
+            ? { key: "detail.notFound" }
+            : err instanceof Error
+              ? { message: err.message }
+              : { key: "detail.loadFailed" },
+        )
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [eventId, imported])
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") onClose()
+    }
+    window.addEventListener("keydown", handleKey)
+    return () => window.removeEventListener("keydown", handleKey)
+  }, [onClose])
+
+  const copyPermalink = async () => {
+    try {
+      await navigator.clipboard.writeText(getEventPermalink(eventId))
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (err) {
+      console.error("Could not copy permalink:", err)
+    }
+  }
+
+  const earthquake = detail?.earthquake ?? summary
+  const [lng, lat, depth] = earthquake?.geometry.coordinates ?? [0, 0, 0]
+  const mechanism = detail?.mechanism
+  const alertLevel = detail?.pager?.alertLevel ?? earthquake?.properties.alert ?? null
+  const nearby = home && earthquake ? toNearbyEvent(home, earthquake) : null
+  const describeStatus = (status: string) => (STATUS_KEYS[status] ? t(STATUS_KEYS[status]) : status || null)
+
+  return (
+    <aside
+      className="fixed inset-y-0 right-0 z-[1100] flex w-full max-w-md flex-col border-l border-border bg-card shadow-2xl animate-in slide-in-from-right"
+      aria-label={t("detail.label")}
+    >
+      <header className="flex items-start justify-between gap-4 border-b border-border p-4">
+        <div className="space-y-1">
+          {earthquake ? (
+            <>
+              <div className="flex items-center space-x-2">
+                <MagnitudeBadge magnitude={earthquake.properties.mag} palette={palette}>
+                  M{earthquake.properties.mag.toFixed(1)} {earthquake.properties.magType}
+                </MagnitudeBadge>
+                <Badge variant="outline" className="capitalize">
+                  {describeStatus(earthquake.properties.status) ?? t("detail.status.unknown")}
+                </Badge>
+              </div>
+              <h2 className="text-lg font-bold leading-tight">{earthquake.properties.place}</h2>
+              <p className="text-xs text-muted-foreground">
+                {format.eventTime(earthquake)} · {new Date(earthquake.properties.time).toISOString()}
+              </p>
+            </>
+          ) : (
+            <h2 className="text-lg font-bold leading-tight">{t("detail.untitled", { id: eventId })}</h2>
+          )}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("detail.close")}>
+          <X className="h-4 w-4" />
+        </Button>
+      </header>
+
+      <div className="flex-1 space-y-4 overflow-y-auto p-4">
+        {earthquake && (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {earthquake.properties.tsunami === 1 && (
+                <Badge className="bg-blue-600 text-white">
+                  <Waves />
+                  {t("detail.tsunami")}
+                </Badge>
+              )}
+              {alertLevel && (
+                <Badge className="uppercase text-white" style={{ background: PAGER_ALERT_COLORS[alertLevel] ?? "#6b7280" }}>
+                  PAGER {alertLevel}
+                </Badge>
+              )}
+              <Badge variant="outline">{t("detail.significance", { value: earthquake.properties.sig })}</Badge>
+            </div>
+
+            <dl className="grid grid-cols-3 gap-3">
+              <Fact label={t("detail.latitude")} value={lat.toFixed(3)} />
+              <Fact label={t("detail.longitude")} value={lng.toFixed(3)} />
+              <Fact label={t("detail.depth")} value={format.length(depth, 1)} />
+              <Fact label={t("detail.stations")} value={earthquake.properties.nst ?? "—"} />
+              <Fact label={t("detail.gap")} value={formatNumber(earthquake.properties.gap, 0, "°")} />
+              <Fact label={t("detail.rms")} value={formatNumber(earthquake.properties.rms, 2, " s")} />
+              <Fact label={t("detail.felt")} value={earthquake.properties.felt ?? "—"} />
+              <Fact label={t("detail.maxCdi")} value={formatIntensity(earthquake.properties.cdi)} />
+              <Fact label={t("detail.maxMmi")} value={formatIntensity(earthquake.properties.mmi)} />
+            </dl>
+
+            {nearby && (
+              <div className="space-y-1 rounded-lg border border-border p-3">
+                <dl className="grid grid-cols-2 gap-3">
+                  <Fact
+                    label={t("detail.fromHome")}
+                    value={`${format.length(nearby.distanceKm)} ${formatBearing(nearby.bearing)}`}
+                  />
+                  <Fact
+                    label={t("detail.homeIntensity")}
+                    value={`${formatIntensity(nearby.intensity.mmi)} (${formatIntensity(
+                      nearby.intensity.mmi - nearby.intensity.sigma,
+                    )}–${formatIntensity(nearby.intensity.mmi + nearby.intensity.sigma)})`}
+                  />
+                </dl>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    t("detail.intensityMethod"),
+                    ...(nearby.intensity.calibrated ? [] : [t("detail.intensityExtrapolated")]),
+                    t("detail.intensityObserved"),
+                  ].join(" ")}
+                </p>
+              </div>
+            )}
+          </>
+        )}
+
+        {imported && (
+          <p className="text-sm text-muted-foreground">{t("detail.imported")}</p>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            <span className="ml-2 text-sm">{t("detail.loading")}</span>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start space-x-2 rounded-lg border border-destructive/40 p-3 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            <span>{"key" in error ? t(error.key) : error.message}</span>
+          </div>
+        )}
+
+        {detail && (
+          <>
+            <Section title={t("detail.origins")}>
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr className="text-left">
+                    <th className="font-medium">{t("detail.source")}</th>
+                    <th className="font-medium">{t("detail.magnitude")}</th>
+                    <th className="font-medium">{t("detail.depth")}</th>
+                    <th className="font-medium">{t("detail.review")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.origins.map((origin, index) => (
+                    <tr key={`${origin.source}-${index}`} className={origin.preferred ? "font-semibold" : ""}>
+                      <td className="uppercase">
+                        {origin.source}
+                        {origin.preferred && (
+                          <span className="ml-1 font-normal normal-case text-primary">{t("detail.preferred")}</span>
+                        )}
+                      </td>
+                      <td>
+                        {formatNumber(origin.magnitude)} {origin.magType}
+                      </td>
+                      <td>{origin.depth === null ? "—" : format.length(origin.depth, 1)}</td>
+                      <td className="capitalize">{describeStatus(origin.reviewStatus) ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </Section>
+
+            {detail.magnitudes.length > 0 && (
+              <Section title={t("detail.magnitudes")}>
+                <div className="flex flex-wrap gap-2">
+                  {detail.magnitudes.map((estimate, index) => (
+                    <Badge key={`${estimate.product}-${estimate.source}-${index}`} variant="outline">
+                      {estimate.value.toFixed(1)} {estimate.magType}
+                      <span className="uppercase text-muted-foreground">{estimate.source}</span>
+                    </Badge>
+                  ))}
+                </div>
+              </Section>
+            )}
+
+            {mechanism && (
+              <Section title={t(mechanism.kind === "moment-tensor" ? "detail.momentTensor" : "detail.focalMechanism")}>
+                <div className="flex items-center gap-4">
+                  <Beachball plane={mechanism.nodalPlanes[0]} size={112} />
+                  <dl className="grid flex-1 grid-cols-2 gap-2">
+                    {mechanism.nodalPlanes.map((plane, index) => (
+                      <Fact
+                        key={index}
+                        label={t("detail.nodalPlane", { number: index + 1 })}
+                        value={`${plane.strike.toFixed(0)}° / ${plane.dip.toFixed(0)}° / ${plane.rake.toFixed(0)}°`}
+                      />
+                    ))}
+                    <Fact
+                      label={t("detail.faulting")}
+                      value={t(`faulting.${getFaultingStyle(mechanism.nodalPlanes[0])}`)}
+                    />
+                    <Fact label={t("detail.source")} value={<span className="uppercase">{mechanism.source}</span>} />
+                    {mechanism.magnitude !== null && (
+                      <Fact
+                        label={t("detail.derivedMagnitude")}
+                        value={`${mechanism.magnitude.toFixed(2)} ${mechanism.magType}`}
+                      />
+                    )}
+                    {mechanism.percentDoubleCouple !== null && (
+                      <Fact label={t("detail.doubleCouple")} value={`${mechanism.percentDoubleCouple}%`} />
+                    )}
+                  </dl>
+                </div>
+                <p className="text-xs text-muted-foreground">{t("detail.mechanismNote")}</p>
+              </Section>
+            )}
+
+            {(detail.shakemap || detail.dyfi || detail.pager) && (
+              <Section title={t("detail.shaking")}>
+                <dl className="grid grid-cols-3 gap-3">
+                  {detail.shakemap && (
+                    <>
+                      <Fact label={t("detail.shakemapMmi")} value={formatIntensity(detail.shakemap.maxMmi)} />
+                      <Fact label={t("detail.maxPga")} value={formatNumber(detail.shakemap.maxPga, 1, " %g")} />
+                      <Fact label={t("detail.maxPgv")} value={formatNumber(detail.shakemap.maxPgv, 1, " cm/s")} />
+                    </>
+                  )}
+                  {detail.dyfi && (
+                    <>
+                      <Fact label={t("detail.dyfiIntensity")} value={formatIntensity(detail.dyfi.maxMmi)} />
+                      <Fact
+                        label={t("detail.dyfiResponses")}
+                        value={detail.dyfi.responses === null ? "—" : format.number(detail.dyfi.responses)}
+                      />
+                    </>
+                  )}
+                  {detail.pager && (
+                    <Fact
+                      label={t("detail.pagerAlert")}
+                      value={<span className="capitalize">{detail.pager.alertLevel ?? t("detail.pagerNone")}</span>}
+                    />
+                  )}
+                </dl>
+                {detail.shakemap?.imageUrl && (
+                  <a href={detail.shakemap.imageUrl} target="_blank" rel="noreferrer">
+                    <img
+                      src={detail.shakemap.imageUrl}
+                      alt={t("detail.shakemapImage")}
+                      className="mt-2 w-full rounded-md border border-border"
+                      loading="lazy"
+                    />
+                  </a>
+                )}
+              </Section>
+            )}
+
+            <Section title={t("detail.networks")}>
+              <div className="flex flex-wrap gap-2">
+                {detail.networks.map((network) => (
+                  <Badge key={network} variant="secondary" className="uppercase">
+                    {network}
+                  </Badge>
+                ))}
+              </div>
+            </Section>
+          </>
+        )}
+      </div>
+
+      <footer className="flex flex-wrap items-center gap-2 border-t border-border p-4">
+        <Button variant="outline" size="sm" onClick={copyPermalink}>
+          {copied ? <Check className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+          {copied ? t("detail.copied") : t("detail.copyPermalink")}
+        </Button>
+        {earthquake?.properties.url && (
+          <Button variant="ghost" size="sm" asChild>
+            <a href={earthquake.properties.url} target="_blank" rel="noreferrer">
+              <ExternalLink className="h-4 w-4 mr-2" />
+              {t("detail.eventPage")}
+            </a>
+          </Button>
+        )}
+      </footer>
+    </aside>
+  )
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useMemo, type KeyboardEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChevronLeft, ChevronRight, Keyboard } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  EVENT_ORDERS,
+  type EventOrder,
+  type EventStep,
+  describeEvent,
+  orderEvents,
+  stepEvent,
+} from "@/lib/accessibility"
+import type { Earthquake } from "@/lib/types"
+
+const STEP_KEYS: Record<string, EventStep> = {
+  ArrowRight: "next",
+  ArrowDown: "next",
+  ArrowLeft: "previous",
+  ArrowUp: "previous",
+  Home: "first",
+  End: "last",
+}
+
+interface EventNavigatorProps {
+  earthquakes: Earthquake[]
+  order: EventOrder
+  onOrderChange: (order: EventOrder) => void
+  selectedId: string | null
+  // Selects the event and brings it into view on the map
+  onSelectEvent: (id: string) => void
+}
+
+// Map markers can't take keyboard focus, so this single focusable strip below the map stands in for
+// them: the arrow keys step through the events on the map and select each in turn.
+export default function EventNavigator({
+  earthquakes,
+  order,
+  onOrderChange,
+  selectedId,
+  onSelectEvent,
+}: EventNavigatorProps) {
+  const { t, format } = usePreferences()
+  const ordered = useMemo(() => orderEvents(earthquakes, order), [earthquakes, order])
+  const index = ordered.findIndex((earthquake) => earthquake.id === selectedId)
+  const current = index === -1 ? null : ordered[index]
+
+  const step = (direction: EventStep) => {
+    const target = stepEvent(ordered, selectedId, direction)
+    if (target && target.id !== selectedId) onSelectEvent(target.id)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    const direction = STEP_KEYS[event.key]
+    if (!direction) return
+    event.preventDefault()
+    step(direction)
+  }
+
+  const instructions = t("navigator.instructions", {
+    order: t(order === "time" ? "order.timeName" : "order.magnitudeName"),
+    direction: t(order === "time" ? "navigator.later" : "navigator.larger"),
+  })
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-t p-3">
+      <div
+        tabIndex={0}
+        role="group"
+        aria-roledescription={t("navigator.roleDescription")}
+        aria-label={instructions}
+        onKeyDown={handleKeyDown}
+        className="flex min-w-0 flex-1 items-center gap-2 rounded-md px-2 py-1 text-sm focus-visible:outline-2 focus-visible:outline-primary"
+      >
+        <Keyboard className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden />
+        <span className="truncate" aria-live="polite">
+          {ordered.length === 0
+            ? t("navigator.empty")
+            : current
+              ? t("navigator.position", {
+                  position: index + 1,
+                  total: ordered.length,
+                  event: describeEvent(current, t, format),
+                })
+              : t("navigator.start", { count: ordered.length })}
+        </span>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => step("previous")}
+        disabled={ordered.length === 0 || index === 0}
+        aria-label={t("navigator.previous")}
+      >
+        <ChevronLeft className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => step("next")}
+        disabled={ordered.length === 0 || index === ordered.length - 1}
+        aria-label={t("navigator.next")}
+      >
+        <ChevronRight className="h-4 w-4" />
+      </Button>
+      <Select value={order} onValueChange={(value) => onOrderChange(value as EventOrder)}>
+        <SelectTrigger size="sm" className="w-36" aria-label={t("navigator.order")}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EVENT_ORDERS.map((option) => (
+            <SelectItem key={option} value={option}>
+              {t(`order.${option}`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
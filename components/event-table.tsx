@@ -0,0 +1,270 @@
+"use client"
+
+import { useDeferredValue, useEffect, useMemo, useRef, useState, type ReactNode } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ArrowDown, ArrowUp, ArrowUpDown, Search, Table, X } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  DEFAULT_HIDDEN_COLUMNS,
+  DEFAULT_TABLE_SORT,
+  TABLE_COLUMNS,
+  type TableColumn,
+  type TableSort,
+  filterByText,
+  sortEarthquakes,
+} from "@/lib/event-table"
+import { PAGER_ALERT_COLORS } from "@/lib/intensity"
+import type { Formatters } from "@/lib/preferences"
+import type { Earthquake } from "@/lib/types"
+
+// Rows have a fixed height so the visible slice can be computed from the scroll position alone
+const ROW_HEIGHT = 36
+const VIEWPORT_HEIGHT = 480
+// Rows rendered beyond each edge of the viewport, so fast scrolling doesn't flash blank space
+const OVERSCAN = 10
+
+const COLUMN_WIDTHS: Record<TableColumn, string> = {
+  time: "w-60",
+  mag: "w-24",
+  place: "w-auto",
+  depth: "w-20",
+  sig: "w-24",
+  felt: "w-16",
+  alert: "w-20",
+  status: "w-24",
+  net: "w-20",
+  gap: "w-16",
+  rms: "w-16",
+}
+
+// Columns that sort largest or newest first on the first click
+const DESCENDING_FIRST = new Set<TableColumn>(["time", "mag", "depth", "sig", "felt", "alert"])
+const RIGHT_ALIGNED = new Set<TableColumn>(["mag", "depth", "sig", "felt", "gap", "rms"])
+
+function renderCell(earthquake: Earthquake, column: TableColumn, format: Formatters): ReactNode {
+  const { properties, geometry } = earthquake
+  switch (column) {
+    case "time":
+      return format.eventTime(earthquake)
+    case "mag":
+      return (
+        <>
+          {properties.mag.toFixed(1)} <span className="text-muted-foreground">{properties.magType}</span>
+        </>
+      )
+    case "place":
+      return properties.place
+    case "depth":
+      return format.length(geometry.coordinates[2], 1)
+    case "sig":
+      return properties.sig
+    case "felt":
+      return properties.felt ?? "—"
+    case "alert":
+      return properties.alert ? (
+        <span className="inline-flex items-center gap-1 capitalize">
+          <span
+            className="h-2 w-2 rounded-full"
+            style={{ background: PAGER_ALERT_COLORS[properties.alert] ?? "#6b7280" }}
+          />
+          {properties.alert}
+        </span>
+      ) : (
+        "—"
+      )
+    case "status":
+      return <span className="capitalize">{properties.status || "—"}</span>
+    case "net":
+      return <span className="uppercase">{properties.net || "—"}</span>
+    case "gap":
+      return properties.gap !== null ? `${format.number(properties.gap)}°` : "—"
+    case "rms":
+      return `${format.number(properties.rms, 2)} s`
+  }
+}
+
+interface EventTableProps {
+  earthquakes: Earthquake[]
+  selectedId: string | null
+  onSelectEvent: (id: string) => void
+  onClose: () => void
+}
+
+export default function EventTable({ earthquakes, selectedId, onSelectEvent, onClose }: EventTableProps) {
+  const { t, format } = usePreferences()
+  const [sort, setSort] = useState<TableSort>(DEFAULT_TABLE_SORT)
+  const [query, setQuery] = useState("")
+  const [hiddenColumns, setHiddenColumns] = useState<Set<TableColumn>>(() => new Set(DEFAULT_HIDDEN_COLUMNS))
+  const [scrollTop, setScrollTop] = useState(0)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  // Typing stays responsive while a large table re-filters behind it
+  const deferredQuery = useDeferredValue(query)
+
+  const rows = useMemo(
+    () => sortEarthquakes(filterByText(earthquakes, deferredQuery), sort),
+    [earthquakes, deferredQuery, sort],
+  )
+  const rowsRef = useRef(rows)
+  const columns = TABLE_COLUMNS.filter((column) => !hiddenColumns.has(column))
+
+  useEffect(() => {
+    rowsRef.current = rows
+  }, [rows])
+
+  // Bring an event selected elsewhere, e.g. on the map, into view; only on selection so a refresh
+  // doesn't drag the table back after the user has scrolled away
+  useEffect(() => {
+    const container = scrollRef.current
+    if (!container || !selectedId) return
+    const index = rowsRef.current.findIndex((earthquake) => earthquake.id === selectedId)
+    if (index === -1) return
+    // Rows start below the sticky header, which is one row tall
+    const top = (index + 1) * ROW_HEIGHT
+    if (top < container.scrollTop + ROW_HEIGHT || top + ROW_HEIGHT > container.scrollTop + VIEWPORT_HEIGHT) {
+      container.scrollTop = Math.max(0, top - VIEWPORT_HEIGHT / 2)
+    }
+  }, [selectedId])
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const last = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN)
+
+  const changeSort = (column: TableColumn) =>
+    setSort((current) =>
+      current.column === column
+        ? { column, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { column, direction: DESCENDING_FIRST.has(column) ? "desc" : "asc" },
+    )
+
+  const toggleColumn = (column: TableColumn) =>
+    setHiddenColumns((current) => {
+      const next = new Set(current)
+      if (next.has(column)) next.delete(column)
+      else next.add(column)
+      return next
+    })
+
+  return (
+    <Card className="hover-lift animate-slide-up">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <Table className="h-5 w-5 text-primary" />
+              <span>{t("table.title")}</span>
+            </CardTitle>
+            <CardDescription>
+              {rows.length === earthquakes.length
+                ? t("table.count", { count: earthquakes.length })
+                : t("table.matching", { shown: rows.length, total: earthquakes.length })}
+            </CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("table.close")}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative w-full sm:w-64">
+            <Search className="pointer-events-none absolute left-2 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder={t("table.searchPlaceholder")}
+              className="pl-8"
+              aria-label={t("table.search")}
+            />
+          </div>
+          <div className="flex flex-wrap gap-1" role="group" aria-label={t("table.columns")}>
+            {TABLE_COLUMNS.map((column) => (
+              <Button
+                key={column}
+                variant={hiddenColumns.has(column) ? "outline" : "secondary"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                aria-pressed={!hiddenColumns.has(column)}
+                onClick={() => toggleColumn(column)}
+              >
+                {t(`table.column.${column}`)}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div
+          ref={scrollRef}
+          onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+          className="overflow-auto rounded-lg border border-border"
+          style={{ height: VIEWPORT_HEIGHT }}
+        >
+          <table className="w-full table-fixed text-sm" aria-rowcount={rows.length + 1}>
+            <thead className="sticky top-0 z-10 bg-card shadow-[0_1px_0_var(--border)]">
+              <tr style={{ height: ROW_HEIGHT }}>
+                {columns.map((column) => {
+                  const active = sort.column === column
+                  const Icon = !active ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown
+                  return (
+                    <th
+                      key={column}
+                      scope="col"
+                      className={`${COLUMN_WIDTHS[column]} px-2 font-medium text-muted-foreground ${
+                        RIGHT_ALIGNED.has(column) ? "text-right" : "text-left"
+                      }`}
+                      aria-sort={active ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                    >
+                      <button
+                        type="button"
+                        onClick={() => changeSort(column)}
+                        className="inline-flex items-center gap-1 hover:text-foreground"
+                      >
+                        {t(`table.column.${column}`)}
+                        <Icon className={`h-3 w-3 ${active ? "" : "opacity-40"}`} />
+                      </button>
+                    </th>
+                  )
+                })}
+              </tr>
+            </thead>
+            <tbody>
+              {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} aria-hidden />}
+              {rows.slice(first, last).map((earthquake, offset) => (
+                <tr
+                  key={earthquake.id}
+                  style={{ height: ROW_HEIGHT }}
+                  tabIndex={0}
+                  aria-rowindex={first + offset + 2}
+                  aria-selected={earthquake.id === selectedId}
+                  onClick={() => onSelectEvent(earthquake.id)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter" || event.key === " ") {
+                      event.preventDefault()
+                      onSelectEvent(earthquake.id)
+                    }
+                  }}
+                  className={`cursor-pointer border-t border-border transition-colors hover:bg-muted/20 ${
+                    earthquake.id === selectedId ? "bg-muted/40 font-medium" : ""
+                  } focus-visible:outline-2 focus-visible:outline-primary`}
+                >
+                  {columns.map((column) => (
+                    <td
+                      key={column}
+                      className={`truncate px-2 ${RIGHT_ALIGNED.has(column) ? "text-right tabular-nums" : ""}`}
+                    >
+                      {renderCell(earthquake, column, format)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {last < rows.length && <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} aria-hidden />}
+            </tbody>
+          </table>
+          {rows.length === 0 && (
+            <p className="p-6 text-center text-sm text-muted-foreground">{t("table.empty")}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  CSV_COLUMNS,
+  type CsvColumn,
+  DEFAULT_CSV_COLUMNS,
+  EXPORT_FORMATS,
+  EXPORT_FORMAT_INFO,
+  type ExportFormat,
+  type ExportMetadata,
+  getCsvHeader,
+  getExportFileName,
+  serializeEarthquakes,
+} from "@/lib/export"
+import type { Earthquake } from "@/lib/types"
+
+interface ExportMenuProps {
+  earthquakes: Earthquake[]
+  // The generation time is added when the file is built
+  metadata: Omit<ExportMetadata, "generated">
+}
+
+export default function ExportMenu({ earthquakes, metadata }: ExportMenuProps) {
+  const { preferences, t } = usePreferences()
+  const [open, setOpen] = useState(false)
+  const [format, setFormat] = useState<ExportFormat>("csv")
+  const [columns, setColumns] = useState<CsvColumn[]>(DEFAULT_CSV_COLUMNS)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setOpen(false)
+    }
+    const handlePointer = (event: PointerEvent) => {
+      // The Select renders its options in a portal, so clicks there don't count as outside
+      const target = event.target as Element
+      if (!containerRef.current?.contains(target) && !target.closest("[data-slot=select-content]")) setOpen(false)
+    }
+    document.addEventListener("keydown", handleKey)
+    document.addEventListener("pointerdown", handlePointer)
+    return () => {
+      document.removeEventListener("keydown", handleKey)
+      document.removeEventListener("pointerdown", handlePointer)
+    }
+  }, [open])
+
+  const toggleColumn = (column: CsvColumn) => {
+    // Keep the original column order regardless of the order they were picked in
+    setColumns((current) =>
+      current.includes(column)
+        ? current.filter((selected) => selected !== column)
+        : CSV_COLUMNS.filter((candidate) => candidate === column || current.includes(candidate)),
+    )
+  }
+
+  const download = () => {
+    const generated = Date.now()
+    const content = serializeEarthquakes(format, earthquakes, { ...metadata, generated }, columns, preferences)
+    const url = URL.createObjectURL(new Blob([content], { type: EXPORT_FORMAT_INFO[format].mimeType }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = getExportFileName(format, generated)
+    link.click()
+    URL.revokeObjectURL(url)
+    setOpen(false)
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant={open ? "default" : "outline"}
+        size="sm"
+        onClick={() => setOpen(!open)}
+        className="hover-lift"
+        aria-expanded={open}
+      >
+        <Download className="h-4 w-4 mr-2" />
+        {t("toolbar.export")}
+      </Button>
+
+      {open && (
+        <div className="absolute left-0 top-full z-[1100] mt-2 w-80 space-y-4 rounded-lg border bg-card p-4 shadow-lg animate-slide-up">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">{t("export.title", { count: earthquakes.length })}</p>
+            <p className="text-xs text-muted-foreground">
+              {t("export.records", { details: [metadata.source, ...metadata.filters].join("; ") })}
+            </p>
+          </div>
+
+          <Select value={format} onValueChange={(value) => setFormat(value as ExportFormat)}>
+            <SelectTrigger size="sm" className="w-full" aria-label={t("export.format")}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-[1200]">
+              {EXPORT_FORMATS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {t(`export.format.${option}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {format === "csv" && (
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">{t("export.columns")}</p>
+              <div className="flex max-h-40 flex-wrap gap-1 overflow-y-auto">
+                {CSV_COLUMNS.map((column) => (
+                  <button
+                    type="button"
+                    key={column}
+                    onClick={() => toggleColumn(column)}
+                    aria-pressed={columns.includes(column)}
+                    className={`rounded-md border px-2 py-0.5 text-xs transition-colors ${
+                      columns.includes(column)
+                        ? "border-primary bg-primary text-primary-foreground"
+                        : "text-muted-foreground hover:bg-muted/30"
+                    }`}
+                  >
+                    {getCsvHeader(column, preferences.distanceUnit)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={download}
+            disabled={earthquakes.length === 0 || (format === "csv" && columns.length === 0)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {t("export.download", { extension: EXPORT_FORMAT_INFO[format].extension })}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
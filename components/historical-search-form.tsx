@@ -0,0 +1,265 @@
+"use client"
+
+import { useState, type FormEvent, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Search } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  FDSN_QUERY_LIMIT,
+  SEARCH_ORDERS,
+  type HistoricalSearch,
+  type SearchOrder,
+  parseSearchParams,
+} from "@/lib/fdsn"
+import type { TranslatableMessage } from "@/lib/i18n"
+
+type RegionKind = HistoricalSearch["region"]["kind"]
+
+interface SearchDraft {
+  startTime: string
+  endTime: string
+  minMagnitude: string
+  maxMagnitude: string
+  minDepth: string
+  maxDepth: string
+  regionKind: RegionKind
+  minLatitude: string
+  maxLatitude: string
+  minLongitude: string
+  maxLongitude: string
+  latitude: string
+  longitude: string
+  maxRadiusKm: string
+  orderBy: SearchOrder
+  limit: string
+  split: boolean
+}
+
+interface HistoricalSearchFormProps {
+  loading: boolean
+  onSearch: (search: HistoricalSearch) => void
+  // Prefills the form, e.g. from a shared link
+  initialSearch?: HistoricalSearch | null
+}
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10)
+
+const initialDraft = (): SearchDraft => ({
+  startTime: toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)),
+  endTime: toDateInput(new Date()),
+  minMagnitude: "4.5",
+  maxMagnitude: "",
+  minDepth: "",
+  maxDepth: "",
+  regionKind: "none",
+  minLatitude: "",
+  maxLatitude: "",
+  minLongitude: "",
+  maxLongitude: "",
+  latitude: "",
+  longitude: "",
+  maxRadiusKm: "",
+  orderBy: "time",
+  limit: "1000",
+  split: false,
+})
+
+const toInput = (value: number | undefined) => (value === undefined ? "" : String(value))
+
+function searchToDraft(search: HistoricalSearch): SearchDraft {
+  const { region } = search
+  return {
+    ...initialDraft(),
+    // Date inputs only hold the day part
+    startTime: search.startTime.slice(0, 10),
+    endTime: search.endTime.slice(0, 10),
+    minMagnitude: toInput(search.minMagnitude),
+    maxMagnitude: toInput(search.maxMagnitude),
+    minDepth: toInput(search.minDepth),
+    maxDepth: toInput(search.maxDepth),
+    regionKind: region.kind,
+    ...(region.kind === "box" && {
+      minLatitude: String(region.minLatitude),
+      maxLatitude: String(region.maxLatitude),
+      minLongitude: String(region.minLongitude),
+      maxLongitude: String(region.maxLongitude),
+    }),
+    ...(region.kind === "circle" && {
+      latitude: String(region.latitude),
+      longitude: String(region.longitude),
+      maxRadiusKm: String(region.maxRadiusKm),
+    }),
+    orderBy: search.orderBy,
+    limit: toInput(search.limit),
+    split: search.split ?? false,
+  }
+}
+
+// Reuses the API route's parser so the form reports exactly what the server would reject
+function draftToSearch(draft: SearchDraft) {
+  const params = new URLSearchParams()
+  const set = (key: string, value: string) => {
+    if (value.trim() !== "") params.set(key, value.trim())
+  }
+
+  set("starttime", draft.startTime)
+  // Date inputs are whole days; include the end date itself
+  set("endtime", draft.endTime ? `${draft.endTime}T23:59:59` : "")
+  set("minmagnitude", draft.minMagnitude)
+  set("maxmagnitude", draft.maxMagnitude)
+  set("mindepth", draft.minDepth)
+  set("maxdepth", draft.maxDepth)
+  set("orderby", draft.orderBy)
+  set("limit", draft.limit)
+  if (draft.split) params.set("split", "1")
+
+  if (draft.regionKind === "box") {
+    set("minlatitude", draft.minLatitude || "-90")
+    set("maxlatitude", draft.maxLatitude || "90")
+    set("minlongitude", draft.minLongitude || "-180")
+    set("maxlongitude", draft.maxLongitude || "180")
+  } else if (draft.regionKind === "circle") {
+    params.set("latitude", draft.latitude.trim())
+    params.set("longitude", draft.longitude.trim())
+    params.set("maxradiuskm", draft.maxRadiusKm.trim())
+  }
+
+  return parseSearchParams(params)
+}
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  )
+}
+
+export default function HistoricalSearchForm({ loading, onSearch, initialSearch }: HistoricalSearchFormProps) {
+  const { t } = usePreferences()
+  const [draft, setDraft] = useState<SearchDraft>(() => (initialSearch ? searchToDraft(initialSearch) : initialDraft()))
+  const [errors, setErrors] = useState<TranslatableMessage[]>([])
+
+  const update = <K extends keyof SearchDraft>(key: K, value: SearchDraft[K]) =>
+    setDraft((current) => ({ ...current, [key]: value }))
+
+  const numberInput = (key: keyof SearchDraft, placeholder: string, step = "any") => (
+    <Input
+      type="number"
+      step={step}
+      placeholder={placeholder}
+      value={draft[key] as string}
+      onChange={(event) => update(key, event.target.value)}
+    />
+  )
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const { search, errors } = draftToSearch(draft)
+    setErrors(errors)
+    if (search) onSearch(search)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 bg-card rounded-lg border space-y-4 animate-slide-up">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Field label={t("search.startDate")}>
+          <Input type="date" value={draft.startTime} onChange={(event) => update("startTime", event.target.value)} />
+        </Field>
+        <Field label={t("search.endDate")}>
+          <Input type="date" value={draft.endTime} onChange={(event) => update("endTime", event.target.value)} />
+        </Field>
+        <Field label={t("search.minMagnitude")}>{numberInput("minMagnitude", t("search.any"), "0.1")}</Field>
+        <Field label={t("search.maxMagnitude")}>{numberInput("maxMagnitude", t("search.any"), "0.1")}</Field>
+        <Field label={t("search.minDepth")}>{numberInput("minDepth", t("search.any"))}</Field>
+        <Field label={t("search.maxDepth")}>{numberInput("maxDepth", t("search.any"))}</Field>
+        <Field label={t("search.orderBy")}>
+          <Select value={draft.orderBy} onValueChange={(value) => update("orderBy", value as SearchOrder)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SEARCH_ORDERS.map((order) => (
+                <SelectItem key={order} value={order}>
+                  {t(`search.order.${order}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+        <Field label={t("search.limit")}>
+          {numberInput("limit", t("search.allResults", { limit: FDSN_QUERY_LIMIT }), "1")}
+        </Field>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Field label={t("search.region")}>
+          <Select value={draft.regionKind} onValueChange={(value) => update("regionKind", value as RegionKind)}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">{t("search.worldwide")}</SelectItem>
+              <SelectItem value="box">{t("search.box")}</SelectItem>
+              <SelectItem value="circle">{t("search.circle")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </Field>
+        {draft.regionKind === "box" && (
+          <>
+            <Field label={t("search.latitudeRange")}>
+              <div className="flex space-x-2">
+                {numberInput("minLatitude", "-90")}
+                {numberInput("maxLatitude", "90")}
+              </div>
+            </Field>
+            <Field label={t("search.longitudeRange")}>
+              <div className="flex space-x-2">
+                {numberInput("minLongitude", "-180")}
+                {numberInput("maxLongitude", "180")}
+              </div>
+            </Field>
+          </>
+        )}
+        {draft.regionKind === "circle" && (
+          <>
+            <Field label={t("search.center")}>
+              <div className="flex space-x-2">
+                {numberInput("latitude", t("search.latitude"))}
+                {numberInput("longitude", t("search.longitude"))}
+              </div>
+            </Field>
+            <Field label={t("search.radius")}>{numberInput("maxRadiusKm", t("search.radiusExample"))}</Field>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <label className="flex items-center space-x-2 text-sm">
+          <input
+            type="checkbox"
+            className="accent-primary"
+            checked={draft.split}
+            onChange={(event) => update("split", event.target.checked)}
+          />
+          <span>{t("search.split", { limit: FDSN_QUERY_LIMIT })}</span>
+        </label>
+        <Button type="submit" disabled={loading} className="hover-lift">
+          <Search className="h-4 w-4 mr-2" />
+          {t("search.submit")}
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-destructive list-disc pl-5">
+          {errors.map((error, index) => (
+            <li key={index}>{t(error.key, error.params)}</li>
+          ))}
+        </ul>
+      )}
+    </form>
+  )
+}
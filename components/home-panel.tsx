@@ -0,0 +1,186 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Crosshair, House, Loader2, MapPin, Trash2 } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import { formatBearing } from "@/lib/geo"
+import {
+  DEFAULT_NEARBY_RADIUS_KM,
+  type HomeLocation,
+  NEARBY_RADII_KM,
+  type NearbySort,
+  getNearbyEvents,
+} from "@/lib/home"
+import { IPE_CALIBRATION, formatIntensity } from "@/lib/intensity"
+import type { Earthquake } from "@/lib/types"
+
+// Longer nearby lists end with a count of the events left out
+const MAX_LISTED_EVENTS = 25
+
+interface HomePanelProps {
+  home: HomeLocation | null
+  onHomeChange: (home: HomeLocation | null) => void
+  picking: boolean
+  onPickingChange: (picking: boolean) => void
+  earthquakes: Earthquake[]
+  selectedId: string | null
+  onSelectEvent: (id: string) => void
+}
+
+export default function HomePanel({
+  home,
+  onHomeChange,
+  picking,
+  onPickingChange,
+  earthquakes,
+  selectedId,
+  onSelectEvent,
+}: HomePanelProps) {
+  const { t, format } = usePreferences()
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_NEARBY_RADIUS_KM)
+  const [sort, setSort] = useState<NearbySort>("distance")
+  const [locating, setLocating] = useState(false)
+  const [locateError, setLocateError] = useState<string | null>(null)
+
+  const nearby = useMemo(
+    () => (home ? getNearbyEvents(earthquakes, home, radiusKm, sort) : []),
+    [earthquakes, home, radiusKm, sort],
+  )
+
+  const locate = () => {
+    if (!("geolocation" in navigator)) {
+      setLocateError(t("home.unsupported"))
+      return
+    }
+    setLocating(true)
+    setLocateError(null)
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false)
+        onHomeChange({ lat: position.coords.latitude, lng: position.coords.longitude, source: "geolocation" })
+      },
+      (error) => {
+        setLocating(false)
+        setLocateError(
+          error.code === error.PERMISSION_DENIED ? t("home.denied") : t("home.unavailable"),
+        )
+      },
+      { enableHighAccuracy: false, timeout: 15000, maximumAge: 10 * 60 * 1000 },
+    )
+  }
+
+  return (
+    <Card className="hover-lift">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <House className="h-5 w-5 text-primary" />
+          <span>{t("home.title")}</span>
+        </CardTitle>
+        <CardDescription>
+          {picking
+            ? t("home.picking")
+            : home
+              ? t(home.source === "geolocation" ? "home.fromLocation" : "home.fromMap", {
+                  position: `${home.lat.toFixed(2)}, ${home.lng.toFixed(2)}`,
+                })
+              : t("home.prompt")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={locate} disabled={locating}>
+            {locating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Crosshair className="h-4 w-4 mr-1" />}
+            {t("home.myLocation")}
+          </Button>
+          <Button variant={picking ? "default" : "outline"} size="sm" onClick={() => onPickingChange(!picking)}>
+            <MapPin className="h-4 w-4 mr-1" />
+            {t("home.pick")}
+          </Button>
+          {home && (
+            <Button variant="ghost" size="sm" onClick={() => onHomeChange(null)} aria-label={t("home.clear")}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        {locateError && <p className="text-xs text-destructive">{locateError}</p>}
+
+        {home && (
+          <>
+            <div className="flex gap-2">
+              <Select value={String(radiusKm)} onValueChange={(value) => setRadiusKm(Number(value))}>
+                <SelectTrigger size="sm" className="flex-1" aria-label={t("home.radius")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NEARBY_RADII_KM.map((radius) => (
+                    <SelectItem key={radius} value={String(radius)}>
+                      {t("home.within", { distance: format.length(radius) })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={sort} onValueChange={(value) => setSort(value as NearbySort)}>
+                <SelectTrigger size="sm" className="flex-1" aria-label={t("home.sort")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="distance">{t("home.sortDistance")}</SelectItem>
+                  <SelectItem value="recent">{t("home.sortRecent")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {nearby.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t("home.none", { distance: format.length(radiusKm) })}</p>
+            ) : (
+              <ul className="max-h-80 space-y-1 overflow-y-auto">
+                {nearby.slice(0, MAX_LISTED_EVENTS).map(({ earthquake, distanceKm, bearing, intensity }) => (
+                  <li key={earthquake.id}>
+                    <button
+                      type="button"
+                      onClick={() => onSelectEvent(earthquake.id)}
+                      className={`w-full rounded-lg p-2 text-left transition-colors hover:bg-muted/20 ${
+                        selectedId === earthquake.id ? "bg-muted/30" : ""
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 text-sm">
+                        <Badge variant="outline">M{earthquake.properties.mag.toFixed(1)}</Badge>
+                        <span className="truncate">{earthquake.properties.place}</span>
+                      </span>
+                      <span className="flex justify-between gap-2 text-xs text-muted-foreground">
+                        <span>
+                          {format.length(distanceKm)} {formatBearing(bearing)} · {format.eventTime(earthquake)}
+                        </span>
+                        <span title={intensity.calibrated ? undefined : t("home.extrapolated")}>
+                          MMI ~{formatIntensity(intensity.mmi)}
+                          {!intensity.calibrated && "*"}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                ))}
+                {nearby.length > MAX_LISTED_EVENTS && (
+                  <li className="p-2 text-xs text-muted-foreground">
+                    {t("home.more", { count: nearby.length - MAX_LISTED_EVENTS })}
+                  </li>
+                )}
+              </ul>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {t("home.mmiNote", {
+                minMagnitude: IPE_CALIBRATION.minMagnitude,
+                maxMagnitude: IPE_CALIBRATION.maxMagnitude,
+                maxDistance: format.length(IPE_CALIBRATION.maxDistanceKm),
+              })}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
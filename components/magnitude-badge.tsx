@@ -0,0 +1,20 @@
+import type { ReactNode } from "react"
+import { Badge } from "@/components/ui/badge"
+import { type ColorPalette, getContrastHex, getMagnitudeHex } from "@/lib/color-scales"
+
+interface MagnitudeBadgeProps {
+  magnitude: number
+  palette: ColorPalette
+  className?: string
+  children: ReactNode
+}
+
+// Filled with the palette's color for the magnitude, with text that stays legible on the lighter ones
+export default function MagnitudeBadge({ magnitude, palette, className, children }: MagnitudeBadgeProps) {
+  const background = getMagnitudeHex(magnitude, palette)
+  return (
+    <Badge style={{ background, color: getContrastHex(background) }} className={className}>
+      {children}
+    </Badge>
+  )
+}
@@ -0,0 +1,122 @@
+import L from "leaflet"
+import type { RegionGeometry } from "@/lib/regions"
+
+export type DrawKind = "rectangle" | "circle" | "polygon"
+
+export const REGION_PANE = "regions"
+
+const DRAFT_STYLE: L.PathOptions = { color: "#2563eb", weight: 2, dashArray: "6 6", fillOpacity: 0.05, interactive: false }
+
+// A click within this many pixels of the first vertex closes a polygon
+const CLOSE_TOLERANCE_PX = 10
+
+// Lets the user draw one region with clicks: two corners for a rectangle, centre then edge for a
+// circle, and vertices for a polygon (finished by clicking the first vertex or double-clicking).
+// Returns a function that cancels the drawing and removes every temporary layer.
+export function startRegionDrawing(map: L.Map, kind: DrawKind, onDone: (geometry: RegionGeometry) => void) {
+  const draft = L.layerGroup().addTo(map)
+  const points: L.LatLng[] = []
+  let preview: L.Layer | null = null
+  const doubleClickZoom = map.doubleClickZoom.enabled()
+
+  map.doubleClickZoom.disable()
+  map.getContainer().classList.add("map-drawing")
+
+  const setPreview = (layer: L.Layer | null) => {
+    if (preview) draft.removeLayer(preview)
+    preview = layer
+    if (layer) draft.addLayer(layer)
+  }
+
+  const finishPolygon = () => {
+    if (points.length < 3) return
+    onDone({ kind: "polygon", rings: [points.map((point): [number, number] => [point.lat, point.lng])] })
+  }
+
+  const handleClick = (event: L.LeafletMouseEvent) => {
+    const point = event.latlng
+
+    if (kind === "polygon") {
+      const first = points[0]
+      const nearFirst =
+        first && map.latLngToContainerPoint(first).distanceTo(event.containerPoint) <= CLOSE_TOLERANCE_PX
+      if (nearFirst && points.length >= 3) {
+        finishPolygon()
+        return
+      }
+      // The two clicks of a double-click land on the same spot
+      if (!points[points.length - 1]?.equals(point)) {
+        points.push(point)
+        L.circleMarker(point, { radius: 3, color: "#2563eb", interactive: false }).addTo(draft)
+      }
+      return
+    }
+
+    if (points.length === 0) {
+      points.push(point)
+      return
+    }
+
+    const start = points[0]
+    if (kind === "rectangle") {
+      onDone({
+        kind: "rectangle",
+        south: Math.min(start.lat, point.lat),
+        west: Math.min(start.lng, point.lng),
+        north: Math.max(start.lat, point.lat),
+        east: Math.max(start.lng, point.lng),
+      })
+    } else {
+      const center = start.wrap()
+      onDone({ kind: "circle", lat: center.lat, lng: center.lng, radiusKm: start.distanceTo(point) / 1000 })
+    }
+  }
+
+  const handleMove = (event: L.LeafletMouseEvent) => {
+    if (points.length === 0) return
+    const point = event.latlng
+    if (kind === "rectangle") setPreview(L.rectangle(L.latLngBounds(points[0], point), DRAFT_STYLE))
+    else if (kind === "circle") setPreview(L.circle(points[0], { ...DRAFT_STYLE, radius: points[0].distanceTo(point) }))
+    else setPreview(L.polyline([...points, point], DRAFT_STYLE))
+  }
+
+  map.on("click", handleClick)
+  map.on("mousemove", handleMove)
+  if (kind === "polygon") map.on("dblclick", finishPolygon)
+
+  return () => {
+    map.off("click", handleClick)
+    map.off("mousemove", handleMove)
+    map.off("dblclick", finishPolygon)
+    draft.remove()
+    map.getContainer().classList.remove("map-drawing")
+    if (doubleClickZoom) map.doubleClickZoom.enable()
+  }
+}
+
+export interface RegionDisplay {
+  key: string
+  name: string
+  geometry: RegionGeometry
+  active: boolean
+}
+
+export function createRegionLayer({ geometry, active }: RegionDisplay) {
+  const style: L.PathOptions = active
+    ? { pane: REGION_PANE, color: "#2563eb", weight: 2, fillOpacity: 0.08, interactive: false }
+    : { pane: REGION_PANE, color: "#64748b", weight: 1.5, dashArray: "4 4", fill: false, interactive: false }
+
+  if (geometry.kind === "circle") {
+    return L.circle([geometry.lat, geometry.lng], { ...style, radius: geometry.radiusKm * 1000 })
+  }
+  if (geometry.kind === "rectangle") {
+    return L.rectangle(
+      [
+        [geometry.south, geometry.west],
+        [geometry.north, geometry.east],
+      ],
+      style,
+    )
+  }
+  return L.polygon(geometry.rings, style)
+}
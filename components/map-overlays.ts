@@ -0,0 +1,100 @@
+import type { RefObject } from "react"
+import L from "leaflet"
+import type { Translate } from "@/lib/i18n"
+import {
+  BOUNDARY_STYLES,
+  type BoundaryProperties,
+  type FaultProperties,
+  type OverlayId,
+  type VolcanoProperties,
+  loadOverlay,
+} from "@/lib/overlays"
+
+// A GeoJSON layer whose data is only fetched the first time it's shown
+export function createLazyGeoJson(load: () => Promise<unknown>, options: L.GeoJSONOptions, label: string) {
+  const layer = L.geoJSON(undefined, options)
+  let requested = false
+
+  layer.on("add", () => {
+    if (requested) return
+    requested = true
+    load()
+      .then((data) => layer.addData(data as GeoJSON.GeoJsonObject))
+      .catch((error) => {
+        requested = false
+        console.error(`Failed to load ${label}:`, error)
+      })
+  })
+
+  return layer
+}
+
+function highlightOnHover(layer: L.Layer, weight: number) {
+  layer.on("mouseover", (event) => (event.target as L.Path).setStyle({ weight: weight + 3 }))
+  layer.on("mouseout", (event) => (event.target as L.Path).setStyle({ weight }))
+}
+
+// Tooltips are built when shown, so they follow the language once the data has loaded
+function createPlateBoundaries(tRef: RefObject<Translate>) {
+  return createLazyGeoJson(
+    () => loadOverlay("plates"),
+    {
+      style: (feature) => {
+        const style = BOUNDARY_STYLES[(feature?.properties as BoundaryProperties).type]
+        return { color: style.color, dashArray: style.dashArray, weight: 2.5, opacity: 0.9 }
+      },
+      onEachFeature: (feature, layer) => {
+        const { name, type, plates } = feature.properties as BoundaryProperties
+        const platesHtml = plates ? `<br/><span class="text-xs">${plates}</span>` : ""
+        layer.bindTooltip(() => `<strong>${name}</strong><br/>${tRef.current(`boundary.${type}`)}${platesHtml}`, {
+          sticky: true,
+        })
+        highlightOnHover(layer, 2.5)
+      },
+    },
+    "plates",
+  )
+}
+
+function createFaults(tRef: RefObject<Translate>) {
+  return createLazyGeoJson(
+    () => loadOverlay("faults"),
+    {
+      style: { color: "#92400e", weight: 1.5, opacity: 0.9 },
+      onEachFeature: (feature, layer) => {
+        const { name, type } = feature.properties as FaultProperties
+        layer.bindTooltip(() => `<strong>${name}</strong><br/>${tRef.current(`overlay.fault.${type}`)}`, {
+          sticky: true,
+        })
+        highlightOnHover(layer, 1.5)
+      },
+    },
+    "faults",
+  )
+}
+
+function createVolcanoes(tRef: RefObject<Translate>) {
+  return createLazyGeoJson(
+    () => loadOverlay("volcanoes"),
+    {
+      pointToLayer: (feature, latlng) =>
+        L.marker(latlng, {
+          icon: L.divIcon({ html: "▲", className: "volcano-marker", iconSize: [14, 14] }),
+          keyboard: false,
+        }),
+      onEachFeature: (feature, layer) => {
+        const { name, country, type } = feature.properties as VolcanoProperties
+        layer.bindTooltip(() => `<strong>${name}</strong><br/>${tRef.current(`overlay.volcano.${type}`)}, ${country}`)
+      },
+    },
+    "volcanoes",
+  )
+}
+
+export function createOverlayLayers(tRef: RefObject<Translate>): Record<OverlayId, L.GeoJSON> {
+  return {
+    plates: createPlateBoundaries(tRef),
+    faults: createFaults(tRef),
+    volcanoes: createVolcanoes(tRef),
+  }
+}
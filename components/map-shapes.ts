@@ -0,0 +1,54 @@
+import L from "leaflet"
+import { type MarkerShape, getShapeCorners } from "@/lib/color-scales"
+
+// The parts of Leaflet's circle marker and renderers that drawing a polygon in its place relies on
+interface CircleMarkerInternals {
+  _point: L.Point
+  _radius: number
+  _parts: L.Point[][]
+  _pxBounds: L.Bounds
+  _clickTolerance: () => number
+  _updateBounds: () => void
+  _renderer: {
+    _updateCircle: (layer: L.Layer) => void
+    _updatePoly: (layer: L.Layer, closed: boolean) => void
+  }
+}
+
+// A circle marker drawn as another shape, on SVG and canvas alike. Size, styling, tooltips and hit
+// testing still work on the underlying circle.
+export class ShapeMarker extends L.CircleMarker {
+  private shape: MarkerShape
+
+  constructor(latlng: L.LatLngExpression, shape: MarkerShape, options: L.CircleMarkerOptions) {
+    super(latlng, options)
+    this.shape = shape
+  }
+
+  // The corners reach past the circle's radius, and canvas only redraws and hit-tests within these bounds
+  _updateBounds() {
+    const internals = this as unknown as CircleMarkerInternals
+    if (this.shape === "circle") {
+      const circle = L.CircleMarker.prototype as unknown as CircleMarkerInternals
+      circle._updateBounds.call(this)
+      return
+    }
+    const tolerance = internals._clickTolerance()
+    const corners = getShapeCorners(this.shape, internals._radius).map((offset) => internals._point.add(offset))
+    const bounds = L.bounds(corners)
+    internals._pxBounds = L.bounds(
+      bounds.min!.subtract([tolerance, tolerance]),
+      bounds.max!.add([tolerance, tolerance]),
+    )
+  }
+
+  _updatePath() {
+    const internals = this as unknown as CircleMarkerInternals
+    if (this.shape === "circle") {
+      internals._renderer._updateCircle(this)
+      return
+    }
+    internals._parts = [getShapeCorners(this.shape, internals._radius).map((offset) => internals._point.add(offset))]
+    internals._renderer._updatePoly(this, true)
+  }
+}
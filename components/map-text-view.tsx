@@ -0,0 +1,63 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { usePreferences } from "./preferences-provider"
+import { type EventOrder, describeEvent, orderEvents } from "@/lib/accessibility"
+import { formatLat, formatLng } from "@/lib/geo"
+import type { Earthquake } from "@/lib/types"
+
+// Events listed at first and added by each "show more"
+const PAGE_SIZE = 100
+
+interface MapTextViewProps {
+  earthquakes: Earthquake[]
+  order: EventOrder
+  selectedId: string | null
+  onSelectEvent: (id: string) => void
+}
+
+// Everything the map shows, as a list that reads the same with or without sight of the map
+export default function MapTextView({ earthquakes, order, selectedId, onSelectEvent }: MapTextViewProps) {
+  const { t, format } = usePreferences()
+  const [limit, setLimit] = useState(PAGE_SIZE)
+  // Newest or largest first, the reverse of stepping through the map
+  const ordered = useMemo(() => orderEvents(earthquakes, order).reverse(), [earthquakes, order])
+
+  return (
+    <section className="h-[600px] overflow-y-auto p-4" aria-label={t("textView.label")}>
+      <p className="mb-3 text-sm text-muted-foreground">
+        {ordered.length === 0
+          ? t("textView.empty")
+          : t(order === "time" ? "textView.summaryTime" : "textView.summaryMagnitude", { count: ordered.length })}
+      </p>
+      <ol className="space-y-1">
+        {ordered.slice(0, limit).map((earthquake) => {
+          const [lng, lat] = earthquake.geometry.coordinates
+          return (
+            <li key={earthquake.id}>
+              <button
+                type="button"
+                onClick={() => onSelectEvent(earthquake.id)}
+                aria-current={earthquake.id === selectedId ? "true" : undefined}
+                className={`w-full rounded-lg p-2 text-left text-sm transition-colors hover:bg-muted/20 ${
+                  earthquake.id === selectedId ? "bg-muted/30 font-medium" : ""
+                }`}
+              >
+                {describeEvent(earthquake, t, format)}. {formatLat(lat)} {formatLng(lng)}.
+              </button>
+            </li>
+          )
+        })}
+      </ol>
+      {ordered.length > limit && (
+        <Button variant="outline" size="sm" className="mt-3" onClick={() => setLimit(limit + PAGE_SIZE)}>
+          {t("textView.more", {
+            count: Math.min(PAGE_SIZE, ordered.length - limit),
+            remaining: ordered.length - limit,
+          })}
+        </Button>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import { usePreferences } from "./preferences-provider"
+import type { OmoriBin, OmoriFit } from "@/lib/declustering"
+
+interface OmoriChartProps {
+  bins: OmoriBin[]
+  fit: OmoriFit | null
+}
+
+const WIDTH = 320
+const HEIGHT = 180
+const MARGIN = { top: 8, right: 8, bottom: 30, left: 40 }
+
+// Whole decades covering [min, max]
+const getDecades = (min: number, max: number) => {
+  const first = Math.floor(Math.log10(min))
+  const last = Math.ceil(Math.log10(max))
+  return Array.from({ length: Math.max(last - first, 1) + 1 }, (_, index) => first + index)
+}
+
+const formatPower = (power: number) => (power >= 0 ? (10 ** power).toLocaleString() : String(10 ** power))
+
+export default function OmoriChart({ bins, fit }: OmoriChartProps) {
+  const { t } = usePreferences()
+  const plotWidth = WIDTH - MARGIN.left - MARGIN.right
+  const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom
+  const points = bins.filter((bin) => bin.count > 0)
+  if (points.length === 0) return <p className="text-xs text-muted-foreground">{t("sequence.noAftershocks")}</p>
+
+  const timeDecades = getDecades(bins[0].startDays, bins[bins.length - 1].endDays)
+  const rateDecades = getDecades(
+    Math.min(...points.map((bin) => bin.rate)),
+    Math.max(...points.map((bin) => bin.rate)),
+  )
+  const logX = (days: number) =>
+    MARGIN.left +
+    ((Math.log10(days) - timeDecades[0]) / (timeDecades[timeDecades.length - 1] - timeDecades[0])) * plotWidth
+  const logY = (rate: number) =>
+    MARGIN.top +
+    plotHeight -
+    ((Math.log10(rate) - rateDecades[0]) / (rateDecades[rateDecades.length - 1] - rateDecades[0])) * plotHeight
+
+  // The fitted line is cut where it leaves the plotted rate range
+  const minRate = 10 ** rateDecades[0]
+  const maxRate = 10 ** rateDecades[rateDecades.length - 1]
+  const fitRange =
+    fit && fit.p > 0
+      ? [
+          Math.max(bins[0].startDays, (fit.k / maxRate) ** (1 / fit.p)),
+          Math.min(bins[bins.length - 1].endDays, (fit.k / minRate) ** (1 / fit.p)),
+        ]
+      : null
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={t("sequence.chart")}>
+      {rateDecades.map((power) => (
+        <g key={`rate-${power}`}>
+          <line
+            x1={MARGIN.left}
+            x2={WIDTH - MARGIN.right}
+            y1={logY(10 ** power)}
+            y2={logY(10 ** power)}
+            className="stroke-border"
+          />
+          <text
+            x={MARGIN.left - 4}
+            y={logY(10 ** power)}
+            textAnchor="end"
+            dominantBaseline="middle"
+            className="fill-muted-foreground text-[9px]"
+          >
+            {formatPower(power)}
+          </text>
+        </g>
+      ))}
+      {timeDecades.map((power) => (
+        <text
+          key={`time-${power}`}
+          x={logX(10 ** power)}
+          y={HEIGHT - MARGIN.bottom + 12}
+          textAnchor="middle"
+          className="fill-muted-foreground text-[9px]"
+        >
+          {formatPower(power)}
+        </text>
+      ))}
+      <text
+        x={MARGIN.left + plotWidth / 2}
+        y={HEIGHT - 2}
+        textAnchor="middle"
+        className="fill-muted-foreground text-[9px]"
+      >
+        {t("sequence.daysAxis")}
+      </text>
+      <text
+        transform={`translate(9 ${MARGIN.top + plotHeight / 2}) rotate(-90)`}
+        textAnchor="middle"
+        className="fill-muted-foreground text-[9px]"
+      >
+        {t("sequence.rateAxis")}
+      </text>
+
+      {fit && fitRange && fitRange[0] < fitRange[1] && (
+        <line
+          x1={logX(fitRange[0])}
+          x2={logX(fitRange[1])}
+          y1={logY(fit.k / fitRange[0] ** fit.p)}
+          y2={logY(fit.k / fitRange[1] ** fit.p)}
+          stroke="#dc2626"
+          strokeWidth={1.5}
+        />
+      )}
+      {points.map((bin) => (
+        <circle
+          key={bin.startDays}
+          cx={logX(Math.sqrt(bin.startDays * bin.endDays))}
+          cy={logY(bin.rate)}
+          r={3}
+          fill="#0f172a"
+        >
+          <title>
+            {t("sequence.bin", {
+              count: bin.count,
+              from: bin.startDays.toPrecision(2),
+              to: bin.endDays.toPrecision(2),
+            })}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
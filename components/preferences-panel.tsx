@@ -0,0 +1,125 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Settings, X } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import { LOCALES, LOCALE_LABELS } from "@/lib/i18n"
+import { DATE_FORMATS, DISTANCE_UNITS, type Preferences, TIME_ZONE_MODES } from "@/lib/preferences"
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="flex flex-col space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  )
+}
+
+interface PreferencesPanelProps {
+  onClose: () => void
+}
+
+export default function PreferencesPanel({ onClose }: PreferencesPanelProps) {
+  const { preferences, setPreferences, t } = usePreferences()
+
+  const change = <K extends keyof Preferences>(key: K, value: Preferences[K]) =>
+    setPreferences({ ...preferences, [key]: value })
+
+  return (
+    <Card className="hover-lift animate-slide-up">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <Settings className="h-5 w-5 text-primary" />
+              <span>{t("settings.title")}</span>
+            </CardTitle>
+            <CardDescription>{t("settings.description")}</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("settings.close")}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Field label={t("settings.language")}>
+          <Select
+            value={preferences.locale}
+            onValueChange={(value) => change("locale", value as Preferences["locale"])}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LOCALES.map((locale) => (
+                <SelectItem key={locale} value={locale} lang={locale}>
+                  {LOCALE_LABELS[locale]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+
+        <Field label={t("settings.timeZone")}>
+          <Select
+            value={preferences.timeZone}
+            onValueChange={(value) => change("timeZone", value as Preferences["timeZone"])}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TIME_ZONE_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode}>
+                  {t(`timeZone.${mode}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+        {preferences.timeZone === "event" && (
+          <p className="text-xs text-muted-foreground">{t("settings.eventTimeNote")}</p>
+        )}
+
+        <Field label={t("settings.units")}>
+          <Select
+            value={preferences.distanceUnit}
+            onValueChange={(value) => change("distanceUnit", value as Preferences["distanceUnit"])}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DISTANCE_UNITS.map((unit) => (
+                <SelectItem key={unit} value={unit}>
+                  {t(`units.${unit}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+
+        <Field label={t("settings.dateFormat")}>
+          <Select
+            value={preferences.dateFormat}
+            onValueChange={(value) => change("dateFormat", value as Preferences["dateFormat"])}
+          >
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMATS.map((dateFormat) => (
+                <SelectItem key={dateFormat} value={dateFormat}>
+                  {t(`dateFormat.${dateFormat}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </Field>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,56 @@
+"use client"
+
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react"
+import { type Translate, createTranslator } from "@/lib/i18n"
+import {
+  DEFAULT_PREFERENCES,
+  type Formatters,
+  type Preferences,
+  createFormatters,
+  loadPreferences,
+  storePreferences,
+} from "@/lib/preferences"
+
+interface PreferencesContextValue {
+  preferences: Preferences
+  setPreferences: (preferences: Preferences) => void
+  t: Translate
+  format: Formatters
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | null>(null)
+
+// Language, time zone, units and date format for everything below it, remembered on this device
+export default function PreferencesProvider({ children }: { children: ReactNode }) {
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES)
+  const loadedRef = useRef(false)
+
+  // Declared before the load below so the defaults never overwrite what's stored
+  useEffect(() => {
+    if (loadedRef.current) storePreferences(preferences)
+    document.documentElement.lang = preferences.locale
+  }, [preferences])
+
+  useEffect(() => {
+    setPreferences(loadPreferences())
+    loadedRef.current = true
+  }, [])
+
+  const value = useMemo(
+    () => ({
+      preferences,
+      setPreferences,
+      t: createTranslator(preferences.locale),
+      format: createFormatters(preferences),
+    }),
+    [preferences],
+  )
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>
+}
+
+export function usePreferences() {
+  const context = useContext(PreferencesContext)
+  if (!context) throw new Error("usePreferences must be used inside PreferencesProvider")
+  return context
+}
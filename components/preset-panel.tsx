@@ -0,0 +1,274 @@
+"use client"
+
+import { useEffect, useRef, useState, type FormEvent, type ReactNode } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Bookmark, Download, Loader2, Pin, PinOff, Save, Trash2, Upload, X } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  MAX_PRESETS,
+  type Preset,
+  type PresetCollection,
+  type PresetStorage,
+  WORKSPACE_ID_PATTERN,
+  exportPresets,
+  mergePresets,
+  parsePresetFile,
+} from "@/lib/presets"
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      {children}
+    </div>
+  )
+}
+
+interface PresetPanelProps {
+  presets: PresetCollection
+  onPresetsChange: (presets: PresetCollection) => void
+  // What a preset saved now would hold
+  current: Omit<Preset, "id" | "name" | "savedAt">
+  onApply: (preset: Preset) => void
+  storage: PresetStorage
+  workspaceId: string
+  // Switches to the list kept in that storage, under that workspace id for the server
+  onStorageChange: (storage: PresetStorage, workspaceId: string) => void
+  loading: boolean
+  error: string | null
+  onClose: () => void
+}
+
+export default function PresetPanel({
+  presets,
+  onPresetsChange,
+  current,
+  onApply,
+  storage,
+  workspaceId,
+  onStorageChange,
+  loading,
+  error,
+  onClose,
+}: PresetPanelProps) {
+  const { t, format } = usePreferences()
+  const [name, setName] = useState("")
+  const [workspaceDraft, setWorkspaceDraft] = useState(workspaceId)
+  const [importError, setImportError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const full = presets.presets.length >= MAX_PRESETS
+
+  useEffect(() => setWorkspaceDraft(workspaceId), [workspaceId])
+
+  const savePreset = (event: FormEvent) => {
+    event.preventDefault()
+    if (!name.trim() || full) return
+    const preset: Preset = { ...current, id: crypto.randomUUID(), name: name.trim(), savedAt: Date.now() }
+    onPresetsChange({ ...presets, presets: [...presets.presets, preset] })
+    setName("")
+  }
+
+  const updatePreset = (id: string) =>
+    onPresetsChange({
+      ...presets,
+      presets: presets.presets.map((preset) =>
+        preset.id === id ? { ...preset, ...current, savedAt: Date.now() } : preset,
+      ),
+    })
+
+  const removePreset = (id: string) =>
+    onPresetsChange({
+      presets: presets.presets.filter((preset) => preset.id !== id),
+      defaultId: presets.defaultId === id ? null : presets.defaultId,
+    })
+
+  const togglePinned = (id: string) => onPresetsChange({ ...presets, defaultId: presets.defaultId === id ? null : id })
+
+  const downloadPresets = () => {
+    const url = URL.createObjectURL(new Blob([exportPresets(presets)], { type: "application/json" }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "earthquake-presets.json"
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const importPresets = async (file: File) => {
+    try {
+      onPresetsChange(mergePresets(presets, parsePresetFile(await file.text())))
+      setImportError(null)
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : t("presets.unreadable"))
+    }
+  }
+
+  return (
+    <Card className="hover-lift animate-slide-up">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <Bookmark className="h-5 w-5 text-primary" />
+              <span>{t("presets.title")}</span>
+            </CardTitle>
+            <CardDescription>{t("presets.description")}</CardDescription>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label={t("presets.close")}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Field label={t("presets.storage")}>
+          <Select value={storage} onValueChange={(value) => onStorageChange(value as PresetStorage, workspaceId)}>
+            <SelectTrigger size="sm" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="local">{t("presets.storageLocal")}</SelectItem>
+              <SelectItem value="server">{t("presets.storageServer")}</SelectItem>
+            </SelectContent>
+          </Select>
+        </Field>
+
+        {storage === "server" && (
+          <Field label={t("presets.workspace")}>
+            <form
+              className="flex gap-2"
+              onSubmit={(event) => {
+                event.preventDefault()
+                onStorageChange("server", workspaceDraft.trim())
+              }}
+            >
+              <Input
+                value={workspaceDraft}
+                onChange={(event) => setWorkspaceDraft(event.target.value)}
+                className="h-8 font-mono text-xs"
+                aria-invalid={!WORKSPACE_ID_PATTERN.test(workspaceDraft.trim())}
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                size="sm"
+                disabled={workspaceDraft.trim() === workspaceId || !WORKSPACE_ID_PATTERN.test(workspaceDraft.trim())}
+              >
+                {t("presets.openWorkspace")}
+              </Button>
+            </form>
+            <p className="text-xs text-muted-foreground">{t("presets.workspaceHint")}</p>
+          </Field>
+        )}
+
+        {error && <p className="text-xs text-destructive">{t("presets.error", { error })}</p>}
+
+        {loading ? (
+          <p className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {t("presets.loading")}
+          </p>
+        ) : (
+          <>
+            {presets.presets.length === 0 ? (
+              <p className="text-xs text-muted-foreground">{t("presets.empty")}</p>
+            ) : (
+              <ul className="max-h-72 space-y-1 overflow-y-auto">
+                {presets.presets.map((preset) => {
+                  const pinned = presets.defaultId === preset.id
+                  return (
+                    <li
+                      key={preset.id}
+                      className="flex items-center gap-1 rounded-lg transition-colors hover:bg-muted/20"
+                    >
+                      <button
+                        type="button"
+                        onClick={() => onApply(preset)}
+                        className="min-w-0 flex-1 p-2 text-left"
+                        title={t("presets.apply")}
+                      >
+                        <span className="flex items-center gap-2 text-sm">
+                          <span className="truncate">{preset.name}</span>
+                          {pinned && <Badge variant="secondary">{t("presets.pinned")}</Badge>}
+                        </span>
+                        <span className="block text-xs text-muted-foreground">
+                          {t("presets.saved", { time: format.time(preset.savedAt) })}
+                        </span>
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => togglePinned(preset.id)}
+                        aria-label={pinned ? t("presets.unpin") : t("presets.pin")}
+                        title={pinned ? t("presets.unpin") : t("presets.pin")}
+                      >
+                        {pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updatePreset(preset.id)}
+                        aria-label={t("presets.update")}
+                        title={t("presets.update")}
+                      >
+                        <Save className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removePreset(preset.id)}
+                        aria-label={t("presets.remove")}
+                        title={t("presets.remove")}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+
+            <form className="flex gap-2" onSubmit={savePreset}>
+              <Input
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder={t("presets.namePlaceholder")}
+                className="h-8"
+                maxLength={80}
+              />
+              <Button type="submit" size="sm" disabled={!name.trim() || full}>
+                {t("presets.save")}
+              </Button>
+            </form>
+            {full && <p className="text-xs text-muted-foreground">{t("presets.full", { count: MAX_PRESETS })}</p>}
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-1" />
+                {t("presets.import")}
+              </Button>
+              <Button variant="outline" size="sm" onClick={downloadPresets} disabled={presets.presets.length === 0}>
+                <Download className="h-4 w-4 mr-1" />
+                {t("presets.export")}
+              </Button>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(event) => {
+                  const file = event.target.files?.[0]
+                  if (file) importPresets(file)
+                  event.target.value = ""
+                }}
+              />
+            </div>
+            {importError && <p className="text-xs text-destructive">{importError}</p>}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
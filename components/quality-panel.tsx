@@ -0,0 +1,235 @@
+"use client"
+
+import { useMemo, type ReactNode } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ShieldCheck } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  DEFAULT_QUALITY_FILTER,
+  type EventRevision,
+  MAX_GAP_OPTIONS,
+  MAX_RMS_OPTIONS,
+  type QualityFilter,
+  type ValueCount,
+  countValues,
+  isLowQuality,
+  isQualityFilterActive,
+} from "@/lib/quality"
+import type { Earthquake } from "@/lib/types"
+
+const ANY = "any"
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      {children}
+    </div>
+  )
+}
+
+// Toggles for each value seen in the data; selected values missing from it stay listed so they can be turned off
+function ValueToggles({
+  counts,
+  selected,
+  onChange,
+  formatValue = (value) => value,
+}: {
+  counts: ValueCount[]
+  selected: string[]
+  onChange: (selected: string[]) => void
+  formatValue?: (value: string) => string
+}) {
+  const missing = selected.filter((value) => !counts.some((count) => count.value === value))
+  return (
+    <div className="flex flex-wrap gap-1">
+      {[...counts, ...missing.map((value) => ({ value, count: 0 }))].map(({ value, count }) => {
+        const active = selected.includes(value)
+        return (
+          <Button
+            key={value}
+            variant={active ? "default" : "outline"}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            aria-pressed={active}
+            onClick={() => onChange(active ? selected.filter((other) => other !== value) : [...selected, value])}
+          >
+            {formatValue(value)}
+            <span className="ml-1 opacity-70">{count}</span>
+          </Button>
+        )
+      })}
+    </div>
+  )
+}
+
+interface QualityPanelProps {
+  filter: QualityFilter
+  onFilterChange: (filter: QualityFilter) => void
+  // Everything loaded, before any filtering, so the choices don't disappear as they're made
+  earthquakes: Earthquake[]
+  // Newest first
+  revisions: EventRevision[]
+  onClearRevisions: () => void
+  onSelectEvent: (id: string) => void
+}
+
+export default function QualityPanel({
+  filter,
+  onFilterChange,
+  earthquakes,
+  revisions,
+  onClearRevisions,
+  onSelectEvent,
+}: QualityPanelProps) {
+  const { t, format } = usePreferences()
+  const networks = useMemo(() => countValues(earthquakes, "net"), [earthquakes])
+  const types = useMemo(() => countValues(earthquakes, "type"), [earthquakes])
+  const lowQualityCount = useMemo(() => earthquakes.filter(isLowQuality).length, [earthquakes])
+
+  const update = <K extends keyof QualityFilter>(key: K, value: QualityFilter[K]) =>
+    onFilterChange({ ...filter, [key]: value })
+
+  const describeChanges = ({ previous, current, changes, shiftKm }: EventRevision) =>
+    changes
+      .map((change) => {
+        if (change === "magnitude") {
+          return t("revisions.magnitude", {
+            previous: `${format.number(previous.mag, 1)} ${previous.magType}`,
+            current: `${format.number(current.mag, 1)} ${current.magType}`,
+          })
+        }
+        if (change === "epicenter") return t("revisions.epicenter", { distance: format.length(shiftKm, 1) })
+        return t("revisions.depth", {
+          previous: format.lengthValue(previous.depth, 1),
+          current: format.length(current.depth, 1),
+        })
+      })
+      .join(" · ")
+
+  return (
+    <Card className="hover-lift">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          <span>{t("quality.title")}</span>
+        </CardTitle>
+        <CardDescription>{t("quality.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lowQualityCount > 0 && (
+          <p className="text-xs text-muted-foreground">{t("quality.lowQuality", { count: lowQualityCount })}</p>
+        )}
+
+        <label className="flex items-center space-x-2 text-sm">
+          <input
+            type="checkbox"
+            className="accent-primary"
+            checked={filter.reviewedOnly}
+            onChange={(event) => update("reviewedOnly", event.target.checked)}
+          />
+          <span>{t("quality.reviewedOnly")}</span>
+        </label>
+
+        {networks.length > 0 && (
+          <Field label={t("quality.networks")}>
+            <ValueToggles
+              counts={networks}
+              selected={filter.networks}
+              onChange={(selected) => update("networks", selected)}
+              formatValue={(value) => value.toUpperCase()}
+            />
+          </Field>
+        )}
+
+        {types.length > 0 && (
+          <Field label={t("quality.types")}>
+            <ValueToggles counts={types} selected={filter.types} onChange={(selected) => update("types", selected)} />
+          </Field>
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          <Field label={t("quality.maxGap")}>
+            <Select
+              value={filter.maxGap === null ? ANY : String(filter.maxGap)}
+              onValueChange={(value) => update("maxGap", value === ANY ? null : Number(value))}
+            >
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("quality.any")}</SelectItem>
+                {MAX_GAP_OPTIONS.map((gap) => (
+                  <SelectItem key={gap} value={String(gap)}>
+                    {t("quality.gapValue", { value: gap })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+          <Field label={t("quality.maxRms")}>
+            <Select
+              value={filter.maxRms === null ? ANY : String(filter.maxRms)}
+              onValueChange={(value) => update("maxRms", value === ANY ? null : Number(value))}
+            >
+              <SelectTrigger size="sm" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>{t("quality.any")}</SelectItem>
+                {MAX_RMS_OPTIONS.map((rms) => (
+                  <SelectItem key={rms} value={String(rms)}>
+                    {t("quality.rmsValue", { value: rms })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Field>
+        </div>
+
+        {isQualityFilterActive(filter) && (
+          <Button variant="outline" size="sm" className="w-full" onClick={() => onFilterChange(DEFAULT_QUALITY_FILTER)}>
+            {t("quality.reset")}
+          </Button>
+        )}
+
+        <div className="space-y-2 border-t border-border pt-4">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{t("revisions.title")}</span>
+            {revisions.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={onClearRevisions}>
+                {t("revisions.clear")}
+              </Button>
+            )}
+          </div>
+          {revisions.length === 0 ? (
+            <p className="text-xs text-muted-foreground">{t("revisions.empty")}</p>
+          ) : (
+            <ul className="max-h-64 space-y-1 overflow-y-auto">
+              {revisions.map((revision) => (
+                <li key={`${revision.eventId}:${revision.current.updated}`}>
+                  <button
+                    type="button"
+                    onClick={() => onSelectEvent(revision.eventId)}
+                    className="w-full rounded-lg p-2 text-left transition-colors hover:bg-muted/20"
+                  >
+                    <span className="flex items-center gap-2 text-sm">
+                      <Badge variant="outline">M{format.number(revision.current.mag, 1)}</Badge>
+                      <span className="truncate">{revision.place}</span>
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {format.time(revision.detectedAt)} · {describeChanges(revision)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
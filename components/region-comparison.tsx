@@ -0,0 +1,71 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Columns3 } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import type { TranslationKey } from "@/lib/i18n"
+import type { Formatters } from "@/lib/preferences"
+import type { EarthquakeSummary } from "@/lib/stats"
+
+interface RegionComparisonProps {
+  columns: { key: string; name: string; summary: EarthquakeSummary }[]
+}
+
+const ROWS: { label: TranslationKey; value: (summary: EarthquakeSummary, format: Formatters) => string }[] = [
+  { label: "comparison.total", value: (summary, format) => format.number(summary.total) },
+  { label: "comparison.significant", value: (summary, format) => format.number(summary.significant) },
+  {
+    label: "comparison.strongest",
+    value: (summary, format) => (summary.strongest ? format.number(summary.strongest.properties.mag, 1) : "—"),
+  },
+  {
+    label: "comparison.meanMagnitude",
+    value: (summary, format) =>
+      summary.averageMagnitude === null ? "—" : format.number(summary.averageMagnitude, 2),
+  },
+  {
+    label: "comparison.meanDepth",
+    value: (summary, format) => (summary.averageDepth === null ? "—" : format.length(summary.averageDepth)),
+  },
+]
+
+export default function RegionComparison({ columns }: RegionComparisonProps) {
+  const { t, format } = usePreferences()
+  return (
+    <Card className="hover-lift animate-fade-in">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Columns3 className="h-5 w-5 text-primary" />
+          <span>{t("comparison.title")}</span>
+        </CardTitle>
+        <CardDescription>{t("comparison.description")}</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-left">
+              <th className="py-2 pr-4 font-medium text-muted-foreground"></th>
+              {columns.map((column) => (
+                <th key={column.key} className="py-2 pr-4 font-semibold">
+                  {column.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map((row) => (
+              <tr key={row.label} className="border-b border-border last:border-b-0">
+                <td className="py-2 pr-4 text-muted-foreground">{t(row.label)}</td>
+                {columns.map((column) => (
+                  <td key={column.key} className="py-2 pr-4 font-medium tabular-nums">
+                    {row.value(column.summary, format)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,169 @@
+"use client"
+
+import { useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Circle, Hexagon, MapPinned, Square, Trash2 } from "lucide-react"
+import type { DrawKind } from "./map-drawing"
+import { usePreferences } from "./preferences-provider"
+import {
+  type NamedRegionCollection,
+  type RegionShape,
+  type SavedRegion,
+  decodeRegionShape,
+  describeRegionShape,
+  encodeRegionShape,
+  loadNamedRegions,
+} from "@/lib/regions"
+
+const DRAW_TOOLS: { kind: DrawKind; icon: typeof Square }[] = [
+  { kind: "rectangle", icon: Square },
+  { kind: "circle", icon: Circle },
+  { kind: "polygon", icon: Hexagon },
+]
+
+interface RegionPanelProps {
+  regions: SavedRegion[]
+  activeKey: string | null
+  // Events inside each saved region after the other filters, by key
+  counts: Map<string, number>
+  onActivate: (key: string | null) => void
+  onRemove: (key: string) => void
+  onAdd: (shape: RegionShape, name: string) => void
+  drawing: DrawKind | null
+  onDrawingChange: (kind: DrawKind | null) => void
+}
+
+export default function RegionPanel({
+  regions,
+  activeKey,
+  counts,
+  onActivate,
+  onRemove,
+  onAdd,
+  drawing,
+  onDrawingChange,
+}: RegionPanelProps) {
+  const { t, format } = usePreferences()
+  const [names, setNames] = useState<Record<NamedRegionCollection, string[]> | null>(null)
+
+  // The bundled lists are only fetched once someone opens the picker
+  const loadNames = () => {
+    if (names) return
+    Promise.all([loadNamedRegions("seismic"), loadNamedRegions("country")])
+      .then(([seismic, country]) =>
+        setNames({
+          seismic: seismic.map((feature) => feature.properties.name),
+          country: country.map((feature) => feature.properties.name),
+        }),
+      )
+      .catch((error) => console.error("Failed to load named regions:", error))
+  }
+
+  const pickNamed = (value: string) => {
+    const shape = decodeRegionShape(value)
+    if (shape?.kind === "named") onAdd(shape, shape.name)
+  }
+
+  return (
+    <Card className="hover-lift">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <MapPinned className="h-5 w-5 text-primary" />
+          <span>{t("regions.title")}</span>
+        </CardTitle>
+        <CardDescription>
+          {drawing ? t(`regions.hint.${drawing}`) : t("regions.prompt")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {DRAW_TOOLS.map(({ kind, icon: Icon }) => (
+            <Button
+              key={kind}
+              variant={drawing === kind ? "default" : "outline"}
+              size="sm"
+              onClick={() => onDrawingChange(drawing === kind ? null : kind)}
+            >
+              <Icon className="h-4 w-4 mr-1" />
+              {t(`regions.tool.${kind}`)}
+            </Button>
+          ))}
+        </div>
+
+        <Select value="" onValueChange={pickNamed} onOpenChange={(open) => open && loadNames()}>
+          <SelectTrigger size="sm" className="w-full" aria-label={t("regions.named")}>
+            <SelectValue placeholder={t("regions.pickNamed")} />
+          </SelectTrigger>
+          <SelectContent>
+            {!names && (
+              <SelectItem value="loading" disabled>
+                {t("regions.loading")}
+              </SelectItem>
+            )}
+            {names &&
+              (["seismic", "country"] as const).map((collection) => (
+                <SelectGroup key={collection}>
+                  <SelectLabel>{t(`regions.collection.${collection}`)}</SelectLabel>
+                  {names[collection].map((name) => (
+                    <SelectItem key={name} value={encodeRegionShape({ kind: "named", collection, name })}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectGroup>
+              ))}
+          </SelectContent>
+        </Select>
+
+        {regions.length > 0 && (
+          <div className="space-y-1">
+            <button
+              type="button"
+              onClick={() => onActivate(null)}
+              className={`w-full rounded-lg p-2 text-left text-sm transition-colors hover:bg-muted/20 ${
+                activeKey === null ? "bg-muted/30 font-medium" : ""
+              }`}
+            >
+              {t("regions.worldwide")}
+            </button>
+            {regions.map((region) => (
+              <div
+                key={region.key}
+                className={`flex items-center gap-2 rounded-lg p-2 transition-colors hover:bg-muted/20 ${
+                  activeKey === region.key ? "bg-muted/30" : ""
+                }`}
+              >
+                <button type="button" onClick={() => onActivate(region.key)} className="flex-1 text-left">
+                  <span className={`block text-sm ${activeKey === region.key ? "font-medium" : ""}`}>{region.name}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {region.shape.kind === "named"
+                      ? t(`regions.collection.${region.shape.collection}`)
+                      : describeRegionShape(region.shape, t, format)}
+                    {counts.has(region.key) && ` · ${t("regions.events", { count: counts.get(region.key)! })}`}
+                  </span>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemove(region.key)}
+                  aria-label={t("regions.remove", { name: region.name })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
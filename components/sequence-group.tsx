@@ -0,0 +1,75 @@
+"use client"
+
+import { useMemo } from "react"
+import { Badge } from "@/components/ui/badge"
+import OmoriChart from "./omori-chart"
+import { usePreferences } from "./preferences-provider"
+import { type Sequence, fitOmori, getOmoriRate } from "@/lib/declustering"
+
+// Members listed under an expanded sequence, largest first
+const MAX_LISTED_MEMBERS = 8
+
+interface SequenceGroupProps {
+  sequence: Sequence
+  onSelectEvent: (id: string) => void
+}
+
+export default function SequenceGroup({ sequence, onSelectEvent }: SequenceGroupProps) {
+  const { preferences, t, format } = usePreferences()
+  const bins = useMemo(() => getOmoriRate(sequence), [sequence])
+  const fit = useMemo(() => fitOmori(bins), [bins])
+  const members = useMemo(
+    () =>
+      [
+        ...sequence.foreshocks.map((earthquake) => ({ earthquake, role: "foreshock" as const })),
+        ...sequence.aftershocks.map((earthquake) => ({ earthquake, role: "aftershock" as const })),
+      ]
+        .sort((a, b) => b.earthquake.properties.mag - a.earthquake.properties.mag)
+        .slice(0, MAX_LISTED_MEMBERS),
+    [sequence],
+  )
+  const memberCount = sequence.foreshocks.length + sequence.aftershocks.length
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <p className="text-xs text-muted-foreground">
+        {t("sequence.window", {
+          distance: format.length(sequence.distanceKm),
+          count: Math.round(sequence.durationMs / (24 * 60 * 60 * 1000)),
+        })}
+      </p>
+
+      {sequence.aftershocks.length > 0 && (
+        <div className="space-y-1">
+          <OmoriChart bins={bins} fit={fit} />
+          <p className="text-xs text-muted-foreground">
+            {fit ? t("sequence.omori", { p: format.number(fit.p, 2) }) : t("sequence.noOmori")}
+          </p>
+        </div>
+      )}
+
+      <ul className="space-y-1">
+        {members.map(({ earthquake, role }) => (
+          <li key={earthquake.id}>
+            <button
+              type="button"
+              onClick={() => onSelectEvent(earthquake.id)}
+              className="flex w-full items-center gap-2 rounded p-1 text-left text-xs hover:bg-muted/20"
+            >
+              <Badge variant="outline">M{earthquake.properties.mag.toFixed(1)}</Badge>
+              <span className="text-muted-foreground">{t(`sequence.${role}`)}</span>
+              <span className="ml-auto">
+                {new Date(earthquake.properties.time).toLocaleDateString(preferences.locale)}
+              </span>
+            </button>
+          </li>
+        ))}
+        {memberCount > MAX_LISTED_MEMBERS && (
+          <li className="text-xs text-muted-foreground">
+            {t("sequence.more", { count: memberCount - MAX_LISTED_MEMBERS })}
+          </li>
+        )}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+"use client"
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { EyeOff, Waypoints } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  DECLUSTER_SCALES,
+  DECLUSTER_WINDOWS,
+  type DeclusterOptions,
+  type DeclusterResult,
+  type DeclusterWindow,
+} from "@/lib/declustering"
+
+interface SequencePanelProps {
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  options: DeclusterOptions
+  onOptionsChange: (options: DeclusterOptions) => void
+  hideAftershocks: boolean
+  onHideAftershocksChange: (hide: boolean) => void
+  // null while grouping is off
+  result: DeclusterResult | null
+}
+
+export default function SequencePanel({
+  enabled,
+  onEnabledChange,
+  options,
+  onOptionsChange,
+  hideAftershocks,
+  onHideAftershocksChange,
+  result,
+}: SequencePanelProps) {
+  const { t } = usePreferences()
+  const aftershockCount = result?.sequences.reduce((sum, sequence) => sum + sequence.aftershocks.length, 0) ?? 0
+  const foreshockCount = result?.sequences.reduce((sum, sequence) => sum + sequence.foreshocks.length, 0) ?? 0
+
+  return (
+    <Card className="hover-lift">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center space-x-2">
+          <Waypoints className="h-5 w-5 text-primary" />
+          <span>{t("sequence.title")}</span>
+        </CardTitle>
+        <CardDescription>
+          {result
+            ? t("sequence.summary", {
+                sequences: result.sequences.length,
+                aftershocks: aftershockCount,
+                foreshocks: foreshockCount,
+              })
+            : t("sequence.prompt")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Button
+          variant={enabled ? "default" : "outline"}
+          size="sm"
+          className="w-full"
+          onClick={() => onEnabledChange(!enabled)}
+        >
+          <Waypoints className="h-4 w-4 mr-2" />
+          {enabled ? t("sequence.grouping") : t("sequence.group")}
+        </Button>
+
+        {enabled && (
+          <>
+            <div className="flex gap-2">
+              <Select
+                value={options.window}
+                onValueChange={(value) => onOptionsChange({ ...options, window: value as DeclusterWindow })}
+              >
+                <SelectTrigger size="sm" className="flex-1" aria-label={t("sequence.windows")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DECLUSTER_WINDOWS) as DeclusterWindow[]).map((window) => (
+                    <SelectItem key={window} value={window}>
+                      {DECLUSTER_WINDOWS[window].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={String(options.scale)}
+                onValueChange={(value) => onOptionsChange({ ...options, scale: Number(value) })}
+              >
+                <SelectTrigger size="sm" className="w-20" aria-label={t("sequence.scale")}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DECLUSTER_SCALES.map((scale) => (
+                    <SelectItem key={scale} value={String(scale)}>
+                      ×{scale}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant={hideAftershocks ? "default" : "outline"}
+              size="sm"
+              className="w-full"
+              onClick={() => onHideAftershocksChange(!hideAftershocks)}
+            >
+              <EyeOff className="h-4 w-4 mr-2" />
+              {hideAftershocks ? t("sequence.hidden") : t("sequence.hide")}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
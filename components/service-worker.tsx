@@ -0,0 +1,15 @@
+"use client"
+
+import { useEffect } from "react"
+
+// Registers public/sw.js. Skipped in development, where a cached shell would hide code changes.
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((error) => console.error("Service worker registration failed:", error))
+  }, [])
+
+  return null
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Pause, Play, RotateCcw } from "lucide-react"
+import { usePreferences } from "./preferences-provider"
+import {
+  DEFAULT_PLAYBACK_SPEED,
+  PLAYBACK_FRAME_MS,
+  PLAYBACK_SPEEDS,
+  PLAYBACK_WINDOWS,
+  getTimeExtent,
+  getTimeHistogram,
+} from "@/lib/playback"
+import type { Earthquake } from "@/lib/types"
+
+const BIN_COUNT = 120
+
+interface TimelineScrubberProps {
+  earthquakes: Earthquake[]
+  time: number
+  onTimeChange: (time: number) => void
+  trail: string
+  onTrailChange: (trail: string) => void
+}
+
+export default function TimelineScrubber({ earthquakes, time, onTimeChange, trail, onTrailChange }: TimelineScrubberProps) {
+  const { t, format } = usePreferences()
+  const [playing, setPlaying] = useState(false)
+  const [speed, setSpeed] = useState(DEFAULT_PLAYBACK_SPEED)
+  // The interval reads the latest time without restarting on every frame
+  const timeRef = useRef(time)
+
+  useEffect(() => {
+    timeRef.current = time
+  }, [time])
+
+  const extent = useMemo(() => getTimeExtent(earthquakes), [earthquakes])
+  const histogram = useMemo(() => (extent ? getTimeHistogram(earthquakes, extent, BIN_COUNT) : []), [earthquakes, extent])
+  const maxCount = Math.max(1, ...histogram)
+  const windowMs = PLAYBACK_WINDOWS.find((option) => option.value === trail)?.ms ?? 0
+
+  useEffect(() => {
+    if (!playing || !extent) return
+    const msPerSecond = PLAYBACK_SPEEDS.find((option) => option.value === speed)?.msPerSecond ?? 0
+
+    const timer = setInterval(() => {
+      const next = timeRef.current + (msPerSecond * PLAYBACK_FRAME_MS) / 1000
+      if (next >= extent[1]) {
+        onTimeChange(extent[1])
+        setPlaying(false)
+      } else {
+        onTimeChange(next)
+      }
+    }, PLAYBACK_FRAME_MS)
+    return () => clearInterval(timer)
+  }, [playing, speed, extent, onTimeChange])
+
+  if (!extent) {
+    return <p className="text-sm text-muted-foreground">{t("playback.empty")}</p>
+  }
+
+  const [start, end] = extent
+  const span = Math.max(end - start, 1)
+  const togglePlaying = () => {
+    // Playing from the end starts the sequence over
+    if (!playing && time >= end) onTimeChange(start)
+    setPlaying(!playing)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" onClick={togglePlaying} aria-label={playing ? t("playback.pause") : t("playback.play")}>
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onTimeChange(start)} aria-label={t("playback.restart")}>
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Select value={speed} onValueChange={setSpeed}>
+          <SelectTrigger size="sm" className="w-32" aria-label={t("playback.speed")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_SPEEDS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {t(option.label)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={trail} onValueChange={onTrailChange}>
+          <SelectTrigger size="sm" className="w-36" aria-label={t("playback.trail")}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLAYBACK_WINDOWS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {t(option.label)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="ml-auto text-sm font-medium tabular-nums">{format.time(time)}</span>
+      </div>
+
+      <div className="relative h-16">
+        <svg
+          viewBox={`0 0 ${BIN_COUNT} 100`}
+          preserveAspectRatio="none"
+          className="absolute inset-x-0 top-0 h-12 w-full"
+          aria-hidden="true"
+        >
+          {histogram.map((count, index) => {
+            const binStart = start + (index / BIN_COUNT) * span
+            const binEnd = start + ((index + 1) / BIN_COUNT) * span
+            // Bins overlapping the trail are the ones currently on the map
+            const active = binStart <= time && binEnd >= time - windowMs
+            const height = (count / maxCount) * 100
+            return (
+              <rect
+                key={index}
+                x={index + 0.1}
+                y={100 - height}
+                width={0.8}
+                height={height}
+                className={active ? "fill-primary" : "fill-muted-foreground/30"}
+              />
+            )
+          })}
+        </svg>
+        <Slider
+          value={[Math.min(Math.max(time, start), end)]}
+          onValueChange={([value]) => onTimeChange(value)}
+          min={start}
+          max={end}
+          step={Math.max(span / 1000, 1)}
+          className="absolute inset-x-0 bottom-0"
+          aria-label={t("playback.time")}
+        />
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{format.time(start)}</span>
+        <span>{format.time(end)}</span>
+      </div>
+    </div>
+  )
+}
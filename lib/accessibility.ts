@@ -0,0 +1,76 @@
+import { COLOR_PALETTES, type ColorPalette } from "@/lib/color-scales"
+import type { Translate } from "@/lib/i18n"
+import type { Formatters } from "@/lib/preferences"
+import type { Earthquake } from "@/lib/types"
+
+export interface DisplaySettings {
+  palette: ColorPalette
+  // Vary marker shapes along with the color scale, so color is never the only cue
+  shapes: boolean
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = { palette: "default", shapes: false }
+
+const STORAGE_KEY = "earthquake-visualizer:display"
+
+export function loadDisplaySettings(): DisplaySettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<DisplaySettings> | null
+    return {
+      palette: COLOR_PALETTES.find((palette) => palette === stored?.palette) ?? DEFAULT_DISPLAY_SETTINGS.palette,
+      shapes: stored?.shapes === true,
+    }
+  } catch {
+    return DEFAULT_DISPLAY_SETTINGS
+  }
+}
+
+export function storeDisplaySettings(settings: DisplaySettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+}
+
+export const EVENT_ORDERS = ["time", "magnitude"] as const
+export type EventOrder = (typeof EVENT_ORDERS)[number]
+
+// Oldest to newest or smallest to largest, so moving forward always means later or larger
+export function orderEvents(earthquakes: Earthquake[], order: EventOrder) {
+  return [...earthquakes].sort(
+    (a, b) =>
+      (order === "magnitude" ? a.properties.mag - b.properties.mag : 0) ||
+      a.properties.time - b.properties.time ||
+      a.id.localeCompare(b.id),
+  )
+}
+
+export type EventStep = "first" | "previous" | "next" | "last"
+
+// Starts from either end when nothing in the list is selected yet
+export function stepEvent(ordered: Earthquake[], currentId: string | null, step: EventStep): Earthquake | undefined {
+  const index = ordered.findIndex((earthquake) => earthquake.id === currentId)
+  if (step === "first" || (step === "next" && index === -1)) return ordered[0]
+  if (step === "last" || (step === "previous" && index === -1)) return ordered[ordered.length - 1]
+  return ordered[Math.min(Math.max(index + (step === "next" ? 1 : -1), 0), ordered.length - 1)]
+}
+
+// One sentence a screen reader can read in place of a marker and its tooltip
+export function describeEvent(earthquake: Earthquake, t: Translate, format: Formatters) {
+  const { mag, place } = earthquake.properties
+  return t("describe.event", {
+    magnitude: format.number(mag, 1),
+    place: place || t("describe.unknownPlace"),
+    depth: format.length(earthquake.geometry.coordinates[2]),
+    time: format.eventTime(earthquake),
+  })
+}
+
+export function describeFilterResult(shown: number, total: number, t: Translate) {
+  return shown === total ? t("announce.showingAll", { count: total }) : t("announce.showingSome", { shown, total })
+}
+
+export function describeArrivals(arrived: Earthquake[], t: Translate, format: Formatters) {
+  if (arrived.length === 1) return t("announce.arrival", { event: describeEvent(arrived[0], t, format) })
+  const { mag, place } = arrived.reduce((max, earthquake) =>
+    earthquake.properties.mag > max.properties.mag ? earthquake : max,
+  ).properties
+  return t("announce.arrivals", { count: arrived.length, magnitude: format.number(mag, 1), place })
+}
@@ -0,0 +1,287 @@
+import { FEED_WINDOW_MS } from "@/lib/feeds"
+import type { Translate } from "@/lib/i18n"
+import type { Formatters } from "@/lib/preferences"
+import { type RegionGeometry, decodeRegionShape, describeRegionShape, regionContains } from "@/lib/regions"
+import type { Earthquake } from "@/lib/types"
+
+// PAGER levels in increasing order of expected impact
+export const PAGER_LEVELS = ["green", "yellow", "orange", "red"] as const
+
+export type PagerLevel = (typeof PAGER_LEVELS)[number]
+
+export interface AlertRule {
+  id: string
+  name: string
+  enabled: boolean
+  minMagnitude: number | null
+  maxDepthKm: number | null
+  // A drawn region's key (see encodeRegionShape); named regions need a lookup and aren't supported
+  region: string | null
+  minAlertLevel: PagerLevel | null
+  // Only events USGS has flagged for possible tsunami
+  tsunami: boolean
+}
+
+export interface AlertEntry {
+  eventId: string
+  // Names at the time of the alert, so the log still reads right after a rule is renamed or removed
+  rules: string[]
+  magnitude: number
+  place: string
+  time: number
+  triggeredAt: number
+  // Cleared from the log view but kept so the event doesn't alert again
+  dismissed?: boolean
+}
+
+// Only limits what the log shows; which events have alerted is kept separately, in AlertedEvents
+export const MAX_ALERT_LOG_ENTRIES = 500
+
+// Origin time by id of every event that has alerted, so a refresh never alerts on it again
+export type AlertedEvents = Map<string, number>
+
+// Events older than the longest feed window can't come back in a refresh, so they needn't be remembered
+export function pruneAlertedEvents(alerted: AlertedEvents, now = Date.now()): AlertedEvents {
+  const cutoff = now - FEED_WINDOW_MS.month
+  return new Map([...alerted].filter(([, time]) => time >= cutoff))
+}
+
+export function getRuleGeometry(rule: AlertRule): RegionGeometry | null {
+  const shape = rule.region ? decodeRegionShape(rule.region) : null
+  return shape && shape.kind !== "named" ? shape : null
+}
+
+export function matchesRule(rule: AlertRule, earthquake: Earthquake) {
+  const { mag, alert, tsunami } = earthquake.properties
+  const [lng, lat, depth] = earthquake.geometry.coordinates
+
+  if (rule.minMagnitude !== null && mag < rule.minMagnitude) return false
+  if (rule.maxDepthKm !== null && depth > rule.maxDepthKm) return false
+  if (rule.tsunami && tsunami !== 1) return false
+  if (rule.minAlertLevel !== null) {
+    const level = PAGER_LEVELS.indexOf(alert as PagerLevel)
+    if (level === -1 || level < PAGER_LEVELS.indexOf(rule.minAlertLevel)) return false
+  }
+  if (rule.region !== null) {
+    const geometry = getRuleGeometry(rule)
+    if (!geometry || !regionContains(geometry, lat, lng)) return false
+  }
+  return true
+}
+
+// One entry per event matching at least one enabled rule and not alerted on before
+export function evaluateAlerts(
+  rules: AlertRule[],
+  earthquakes: Earthquake[],
+  alerted: ReadonlyMap<string, unknown> | ReadonlySet<string>,
+  now = Date.now(),
+) {
+  const enabled = rules.filter((rule) => rule.enabled)
+  if (enabled.length === 0) return []
+
+  return earthquakes.flatMap((earthquake): AlertEntry[] => {
+    if (alerted.has(earthquake.id)) return []
+    const matched = enabled.filter((rule) => matchesRule(rule, earthquake))
+    if (matched.length === 0) return []
+    return [
+      {
+        eventId: earthquake.id,
+        rules: matched.map((rule) => rule.name),
+        magnitude: earthquake.properties.mag,
+        place: earthquake.properties.place,
+        time: earthquake.properties.time,
+        triggeredAt: now,
+      },
+    ]
+  })
+}
+
+export function describeAlertRule(rule: AlertRule, t: Translate, format: Formatters) {
+  const parts: string[] = []
+  if (rule.minMagnitude !== null) parts.push(`M${rule.minMagnitude}+`)
+  if (rule.maxDepthKm !== null) parts.push(t("alerts.rule.maxDepth", { depth: format.length(rule.maxDepthKm) }))
+  if (rule.minAlertLevel !== null) parts.push(`PAGER ${rule.minAlertLevel}+`)
+  if (rule.tsunami) parts.push(t("alerts.rule.tsunami"))
+  if (rule.region !== null) {
+    const shape = decodeRegionShape(rule.region)
+    parts.push(shape ? describeRegionShape(shape, t, format) : t("alerts.rule.unknownRegion"))
+  }
+  return parts.length > 0 ? parts.join(" · ") : t("alerts.rule.every")
+}
+
+const isNumberOrNull = (value: unknown): value is number | null =>
+  value === null || (typeof value === "number" && Number.isFinite(value))
+
+// Validates one rule from storage or an imported file, filling in what older exports may lack
+function parseAlertRule(value: unknown, index: number): AlertRule {
+  const fail = (message: string): never => {
+    throw new Error(`Rule ${index + 1}: ${message}`)
+  }
+  if (typeof value !== "object" || value === null) return fail("not an object")
+  const rule = value as Record<string, unknown>
+
+  const name = typeof rule.name === "string" && rule.name.trim() ? rule.name.trim() : fail("name is missing")
+  const minMagnitude = rule.minMagnitude ?? null
+  const maxDepthKm = rule.maxDepthKm ?? null
+  const region = rule.region ?? null
+  const minAlertLevel = rule.minAlertLevel ?? null
+  if (!isNumberOrNull(minMagnitude)) fail("minMagnitude must be a number")
+  if (!isNumberOrNull(maxDepthKm)) fail("maxDepthKm must be a number")
+  if (region !== null) {
+    const shape = typeof region === "string" ? decodeRegionShape(region) : null
+    if (!shape || shape.kind === "named") fail(`region "${String(region)}" is not a circle, box or polygon`)
+  }
+  if (minAlertLevel !== null && !PAGER_LEVELS.includes(minAlertLevel as PagerLevel)) {
+    fail(`minAlertLevel must be one of ${PAGER_LEVELS.join(", ")}`)
+  }
+
+  return {
+    id: typeof rule.id === "string" && rule.id ? rule.id : crypto.randomUUID(),
+    name,
+    enabled: rule.enabled !== false,
+    minMagnitude: minMagnitude as number | null,
+    maxDepthKm: maxDepthKm as number | null,
+    region: region as string | null,
+    minAlertLevel: minAlertLevel as PagerLevel | null,
+    tsunami: rule.tsunami === true,
+  }
+}
+
+export function parseAlertRules(text: string): AlertRule[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+  // Accept the bare array as well as the wrapped form written by exportAlertRules
+  const rules = Array.isArray(data) ? data : (data as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(rules)) throw new Error("Expected a list of alert rules")
+  return rules.map(parseAlertRule)
+}
+
+export function exportAlertRules(rules: AlertRule[]) {
+  return JSON.stringify({ version: 1, rules }, null, 2)
+}
+
+const RULES_STORAGE_KEY = "earthquake-visualizer:alert-rules"
+const LOG_STORAGE_KEY = "earthquake-visualizer:alert-log"
+const ALERTED_STORAGE_KEY = "earthquake-visualizer:alerted-events"
+
+export function loadAlertRules(): AlertRule[] {
+  try {
+    return parseAlertRules(localStorage.getItem(RULES_STORAGE_KEY) ?? "[]")
+  } catch {
+    return []
+  }
+}
+
+export function storeAlertRules(rules: AlertRule[]) {
+  localStorage.setItem(RULES_STORAGE_KEY, JSON.stringify(rules))
+}
+
+export function loadAlertLog(): AlertEntry[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(LOG_STORAGE_KEY) ?? "[]") as AlertEntry[]
+    return Array.isArray(entries) ? entries.filter((entry) => typeof entry?.eventId === "string") : []
+  } catch {
+    return []
+  }
+}
+
+export function storeAlertLog(entries: AlertEntry[]) {
+  localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(entries))
+}
+
+// Seeded from the log when nothing is stored yet, as before the two were kept apart
+export function loadAlertedEvents(log: AlertEntry[]): AlertedEvents {
+  try {
+    const stored = localStorage.getItem(ALERTED_STORAGE_KEY)
+    const pairs = stored
+      ? (JSON.parse(stored) as [string, number][])
+      : log.map((entry): [string, number] => [entry.eventId, entry.time])
+    if (!Array.isArray(pairs)) return new Map()
+    return pruneAlertedEvents(
+      new Map(pairs.filter(([id, time]) => typeof id === "string" && typeof time === "number")),
+    )
+  } catch {
+    return new Map()
+  }
+}
+
+export function storeAlertedEvents(alerted: AlertedEvents) {
+  localStorage.setItem(ALERTED_STORAGE_KEY, JSON.stringify([...alerted]))
+}
+
+// Above this many matches in one batch a single summary notification is shown instead
+const MAX_SEPARATE_NOTIFICATIONS = 3
+
+interface AlertNotification {
+  title: string
+  body: string
+  tag: string
+  eventId: string
+}
+
+// Chrome on Android has no Notification constructor and throws, so a service worker shows them where one is
+// registered (public/sw.js handles the click there); failing to notify never affects the alerts themselves
+function showNotification({ title, body, tag, eventId }: AlertNotification, onOpen: (eventId: string) => void) {
+  const construct = () => {
+    try {
+      const notification = new Notification(title, { body, tag })
+      notification.onclick = () => {
+        window.focus()
+        onOpen(eventId)
+      }
+    } catch (error) {
+      console.error("Could not show an alert notification:", error)
+    }
+  }
+
+  if (!("serviceWorker" in navigator)) return construct()
+  navigator.serviceWorker
+    .getRegistration()
+    .then((registration) =>
+      registration ? registration.showNotification(title, { body, tag, data: { eventId } }) : construct(),
+    )
+    .catch((error) => console.error("Could not show an alert notification:", error))
+}
+
+export function showAlertNotifications(
+  entries: AlertEntry[],
+  t: Translate,
+  format: Formatters,
+  onOpen: (eventId: string) => void,
+) {
+  if (entries.length === 0 || typeof Notification === "undefined" || Notification.permission !== "granted") return
+
+  if (entries.length > MAX_SEPARATE_NOTIFICATIONS) {
+    const strongest = entries.reduce((max, entry) => (entry.magnitude > max.magnitude ? entry : max))
+    showNotification(
+      {
+        title: t("alerts.notification.many", { count: entries.length }),
+        body: t("alerts.notification.strongest", { event: `M${strongest.magnitude.toFixed(1)} ${strongest.place}` }),
+        tag: "earthquake-alerts",
+        eventId: strongest.eventId,
+      },
+      onOpen,
+    )
+    return
+  }
+
+  for (const entry of entries) {
+    showNotification(
+      {
+        title: `M${entry.magnitude.toFixed(1)} ${entry.place}`,
+        body: `${format.time(entry.time)} · ${entry.rules.join(", ")}`,
+        // Replaces rather than stacks if the same event is somehow shown twice
+        tag: entry.eventId,
+        eventId: entry.eventId,
+      },
+      onOpen,
+    )
+  }
+}
+
+// Sent by public/sw.js when a notification it showed is clicked while the page is open
+export const OPEN_EVENT_MESSAGE = "open-event"
@@ -0,0 +1,72 @@
+import { type FeedSelection, toFeedId } from "@/lib/feeds"
+import { type HistoricalSearch, toSearchParams } from "@/lib/fdsn"
+import type { PresetCollection } from "@/lib/presets"
+import { type CatalogQuery, toCatalogParams } from "@/lib/providers"
+import type {
+  ApiErrorBody,
+  ApiErrorCode,
+  CatalogResponse,
+  EarthquakeData,
+  EventDetail,
+  SearchResponse,
+} from "@/lib/types"
+
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code?: ApiErrorCode,
+    readonly body?: ApiErrorBody,
+  ) {
+    super(message)
+    this.name = "ApiRequestError"
+  }
+}
+
+async function getJson<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(path, init)
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => null)) as ApiErrorBody | null
+    throw new ApiRequestError(
+      body?.error ?? `Request failed with HTTP ${response.status}`,
+      response.status,
+      body?.code,
+      body ?? undefined,
+    )
+  }
+
+  return response.json() as Promise<T>
+}
+
+export function getEarthquakes(feed: FeedSelection, init?: RequestInit) {
+  return getJson<EarthquakeData>(`/api/earthquakes?feed=${encodeURIComponent(toFeedId(feed))}`, init)
+}
+
+export function searchEarthquakes(search: HistoricalSearch, init?: RequestInit) {
+  return getJson<SearchResponse>(`/api/earthquakes/search?${toSearchParams(search)}`, init)
+}
+
+export function getEventDetail(id: string, init?: RequestInit) {
+  return getJson<EventDetail>(`/api/earthquakes/${encodeURIComponent(id)}`, init)
+}
+
+export function getEarthquakeStreamUrl(feed: FeedSelection) {
+  return `/api/earthquakes/stream?feed=${encodeURIComponent(toFeedId(feed))}`
+}
+
+export function getCatalog(providerId: string, query: CatalogQuery, init?: RequestInit) {
+  return getJson<CatalogResponse>(`/api/catalogs/${encodeURIComponent(providerId)}?${toCatalogParams(query)}`, init)
+}
+
+export function getPresets(workspaceId: string, init?: RequestInit) {
+  return getJson<PresetCollection>(`/api/presets/${encodeURIComponent(workspaceId)}`, init)
+}
+
+export function savePresets(workspaceId: string, collection: PresetCollection) {
+  return getJson<PresetCollection>(`/api/presets/${encodeURIComponent(workspaceId)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(collection),
+  })
+}
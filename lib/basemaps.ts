@@ -0,0 +1,103 @@
+import type { Translate, TranslationKey } from "@/lib/i18n"
+
+export interface Basemap {
+  id: string
+  // Configured basemaps are named in the config; the built-in ones name a message so they follow the language
+  label?: string
+  labelKey?: TranslationKey
+  // XYZ tile URL template; null draws only the bundled coastlines
+  url: string | null
+  attribution: string
+  maxZoom?: number
+  subdomains?: string
+  // The tile server sends CORS headers, so tiles can be requested in a way the service worker may cache
+  cors?: boolean
+}
+
+export const NO_BASEMAP_ID = "none"
+
+// Served from public/ so the "no basemap" option works offline
+export const COASTLINES_URL = "/data/coastlines-110m.geojson"
+
+const DEFAULT_BASEMAPS: Basemap[] = [
+  {
+    id: "street",
+    labelKey: "basemap.street",
+    url: "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png",
+    attribution: "© OpenStreetMap contributors",
+    maxZoom: 19,
+    cors: true,
+  },
+  {
+    id: "satellite",
+    labelKey: "basemap.satellite",
+    url: "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+    attribution: "Tiles © Esri — Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community",
+    maxZoom: 19,
+    cors: true,
+  },
+  {
+    id: "terrain",
+    labelKey: "basemap.terrain",
+    url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png",
+    attribution: "© OpenStreetMap contributors, SRTM | Style © OpenTopoMap (CC-BY-SA)",
+    maxZoom: 17,
+    cors: true,
+  },
+  {
+    id: "dark",
+    labelKey: "basemap.dark",
+    url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+    attribution: "© OpenStreetMap contributors © CARTO",
+    subdomains: "abcd",
+    maxZoom: 20,
+    cors: true,
+  },
+]
+
+// A local tile server, e.g. one serving an MBTiles file such as mbtileserver or tileserver-gl
+function getLocalBasemap(): Basemap | null {
+  const url = process.env.NEXT_PUBLIC_LOCAL_TILE_URL
+  if (!url) return null
+  return {
+    id: "local",
+    label: process.env.NEXT_PUBLIC_LOCAL_TILE_LABEL || undefined,
+    labelKey: "basemap.local",
+    url,
+    attribution: process.env.NEXT_PUBLIC_LOCAL_TILE_ATTRIBUTION || "",
+    maxZoom: Number(process.env.NEXT_PUBLIC_LOCAL_TILE_MAX_ZOOM) || 18,
+  }
+}
+
+// NEXT_PUBLIC_BASEMAPS may hold a JSON array of Basemap objects that replaces the built-in list
+function getConfiguredBasemaps(): Basemap[] {
+  const raw = process.env.NEXT_PUBLIC_BASEMAPS
+  if (!raw) return DEFAULT_BASEMAPS
+
+  try {
+    const parsed = JSON.parse(raw) as Basemap[]
+    const valid = parsed.filter((basemap) => basemap && basemap.id && basemap.label && basemap.url)
+    return valid.length > 0 ? valid : DEFAULT_BASEMAPS
+  } catch {
+    console.error("Ignoring NEXT_PUBLIC_BASEMAPS: not valid JSON")
+    return DEFAULT_BASEMAPS
+  }
+}
+
+export function getBasemaps(): Basemap[] {
+  const local = getLocalBasemap()
+  return [
+    ...getConfiguredBasemaps(),
+    ...(local ? [local] : []),
+    { id: NO_BASEMAP_ID, labelKey: "basemap.none", url: null, attribution: "Natural Earth" },
+  ]
+}
+
+export const getBasemapLabel = (basemap: Basemap, t: Translate) =>
+  basemap.label ?? (basemap.labelKey ? t(basemap.labelKey) : basemap.id)
+
+export function getDefaultBasemapId() {
+  const basemaps = getBasemaps()
+  const configured = process.env.NEXT_PUBLIC_DEFAULT_BASEMAP
+  return basemaps.find((basemap) => basemap.id === configured)?.id ?? basemaps[0].id
+}
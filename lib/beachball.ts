@@ -0,0 +1,54 @@
+import type { NodalPlane } from "@/lib/types"
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+type Vector = [number, number, number]
+
+const dot = (a: Vector, b: Vector) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+
+// Fault normal and slip vector in north-east-down coordinates (Aki & Richards convention)
+function getFaultVectors({ strike, dip, rake }: NodalPlane): { normal: Vector; slip: Vector } {
+  const phi = toRadians(strike)
+  const delta = toRadians(dip)
+  const lambda = toRadians(rake)
+  return {
+    normal: [-Math.sin(delta) * Math.sin(phi), Math.sin(delta) * Math.cos(phi), -Math.cos(delta)],
+    slip: [
+      Math.cos(lambda) * Math.cos(phi) + Math.cos(delta) * Math.sin(lambda) * Math.sin(phi),
+      Math.cos(lambda) * Math.sin(phi) - Math.cos(delta) * Math.sin(lambda) * Math.cos(phi),
+      -Math.sin(lambda) * Math.sin(delta),
+    ],
+  }
+}
+
+// First-motion polarity of a double-couple source for a point on a lower-hemisphere, equal-area
+// (Schmidt) projection of the focal sphere. x points east and y north, both within the unit circle.
+// Returns true for compressional quadrants, which beachballs shade.
+export function createPolarityTest(plane: NodalPlane) {
+  const { normal, slip } = getFaultVectors(plane)
+
+  return (x: number, y: number) => {
+    const r = Math.hypot(x, y)
+    if (r > 1) return null
+    const takeoff = 2 * Math.asin(Math.min(r / Math.SQRT2, 1))
+    const azimuth = Math.atan2(x, y)
+    const ray: Vector = [
+      Math.sin(takeoff) * Math.cos(azimuth),
+      Math.sin(takeoff) * Math.sin(azimuth),
+      Math.cos(takeoff),
+    ]
+    return dot(normal, ray) * dot(slip, ray) > 0
+  }
+}
+
+export type FaultingStyle = "strike-slip" | "normal" | "reverse" | "oblique"
+
+// Classification by rake alone, as used in most catalogue summaries
+export function getFaultingStyle({ rake }: NodalPlane): FaultingStyle {
+  const normalized = ((((rake + 180) % 360) + 360) % 360) - 180
+  const absolute = Math.abs(normalized)
+  if (absolute <= 30 || absolute >= 150) return "strike-slip"
+  if (normalized >= 60 && normalized <= 120) return "reverse"
+  if (normalized <= -60 && normalized >= -120) return "normal"
+  return "oblique"
+}
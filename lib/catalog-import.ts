@@ -0,0 +1,553 @@
+import { parseFdsnTime } from "@/lib/fdsn"
+import type { TranslatableMessage } from "@/lib/i18n"
+import type { Earthquake } from "@/lib/types"
+
+export const IMPORT_FORMATS = ["geojson", "csv", "quakeml", "fdsn-text"] as const
+export type ImportFormat = (typeof IMPORT_FORMATS)[number]
+
+export const IMPORT_FORMAT_LABELS: Record<ImportFormat, string> = {
+  geojson: "GeoJSON",
+  csv: "CSV",
+  quakeml: "QuakeML",
+  "fdsn-text": "FDSN text",
+}
+
+export const IMPORT_ACCEPT = ".geojson,.json,.csv,.txt,.xml,.quakeml"
+
+// A row, feature or event that was skipped, and why
+export interface ImportIssue {
+  location: TranslatableMessage
+  problems: TranslatableMessage[]
+}
+
+export interface ImportedCatalog {
+  name: string
+  format: ImportFormat
+  earthquakes: Earthquake[]
+  issues: ImportIssue[]
+}
+
+interface CoreFields {
+  id: string | null
+  time: number | string | null
+  latitude: number | string | null
+  longitude: number | string | null
+  depth: number | string | null
+  mag: number | string | null
+}
+
+type ExtraFields = Partial<Earthquake["properties"]>
+
+// Line numbers read better without digit grouping, so they are passed as text
+const at = (kind: "feature" | "line" | "event", index: number): TranslatableMessage => ({
+  key: `import.location.${kind}`,
+  params: { index: String(index) },
+})
+
+const fileIssue = (problem: TranslatableMessage): Omit<ImportedCatalog, "name" | "format"> => ({
+  earthquakes: [],
+  issues: [{ location: { key: "import.location.file" }, problems: [problem] }],
+})
+
+const toNumber = (value: number | string | null | undefined) => {
+  if (value === null || value === undefined || (typeof value === "string" && value.trim() === "")) return null
+  const number = Number(value)
+  return Number.isFinite(number) ? number : null
+}
+
+// Epoch milliseconds as in the USGS GeoJSON, or ISO 8601 text where a missing zone means UTC
+function toTime(value: number | string | null) {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null
+  if (!value?.trim()) return null
+  const trimmed = value.trim()
+  const time = /^-?\d+$/.test(trimmed) ? Number(trimmed) : parseFdsnTime(trimmed.replace(" ", "T"))
+  return Number.isFinite(time) ? time : null
+}
+
+// Checks the fields every view relies on and fills the rest with the defaults the USGS feed would use.
+// Returns the problems instead when the event can't be placed on the map or ranked.
+function buildEarthquake(
+  core: CoreFields,
+  extra: ExtraFields,
+  fallbackId: string,
+): Earthquake | TranslatableMessage[] {
+  const problems: TranslatableMessage[] = []
+  const time = toTime(core.time)
+  const latitude = toNumber(core.latitude)
+  const longitude = toNumber(core.longitude)
+  const depth = toNumber(core.depth)
+  const mag = toNumber(core.mag)
+
+  if (time === null) {
+    problems.push(
+      core.time === null || core.time === ""
+        ? { key: "import.problem.timeMissing" }
+        : { key: "import.problem.timeInvalid", params: { value: String(core.time) } },
+    )
+  }
+  if (latitude === null || latitude < -90 || latitude > 90) problems.push({ key: "import.problem.latitude" })
+  if (longitude === null || longitude < -180 || longitude > 180) problems.push({ key: "import.problem.longitude" })
+  if (core.depth !== null && core.depth !== "" && depth === null) {
+    problems.push({ key: "import.problem.depth", params: { value: String(core.depth) } })
+  }
+  if (mag === null) {
+    const missing = core.mag === null || core.mag === ""
+    problems.push({ key: missing ? "import.problem.magMissing" : "import.problem.magInvalid" })
+  }
+  if (problems.length > 0 || time === null || latitude === null || longitude === null || mag === null) return problems
+
+  const id = core.id?.trim() || fallbackId
+  const place = extra.place?.trim() || "Unknown location"
+  return {
+    id,
+    properties: {
+      updated: time,
+      tz: null,
+      url: "",
+      detail: "",
+      felt: null,
+      cdi: null,
+      mmi: null,
+      alert: null,
+      status: "reviewed",
+      tsunami: 0,
+      sig: 0,
+      net: "",
+      code: id,
+      ids: `,${id},`,
+      sources: "",
+      types: "",
+      nst: null,
+      dmin: null,
+      rms: 0,
+      gap: null,
+      magType: "",
+      type: "earthquake",
+      title: `M ${mag.toFixed(1)} - ${place}`,
+      ...extra,
+      mag,
+      place,
+      time,
+    },
+    geometry: { type: "Point", coordinates: [longitude, latitude, depth ?? 0] },
+  }
+}
+
+class CatalogBuilder {
+  readonly earthquakes: Earthquake[] = []
+  readonly issues: ImportIssue[] = []
+  private readonly seen = new Set<string>()
+
+  constructor(private readonly name: string) {}
+
+  add(location: TranslatableMessage, core: CoreFields, extra: ExtraFields = {}) {
+    const result = buildEarthquake(core, extra, `${this.name}-${this.earthquakes.length + this.issues.length + 1}`)
+    if (Array.isArray(result)) {
+      this.issues.push({ location, problems: result })
+    } else if (this.seen.has(result.id)) {
+      this.issues.push({ location, problems: [{ key: "import.problem.duplicate", params: { id: result.id } }] })
+    } else {
+      this.seen.add(result.id)
+      this.earthquakes.push(result)
+    }
+  }
+}
+
+type RawRecord = Record<string, unknown>
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === "object" ? (value as RawRecord) : {}
+
+const asField = (value: unknown) => (typeof value === "number" || typeof value === "string" ? value : null)
+
+const asText = (value: unknown) => (typeof value === "string" ? value : typeof value === "number" ? String(value) : "")
+
+const asOptionalNumber = (value: unknown) => toNumber(asField(value))
+
+// EMSC's event types are two-letter codes, k for known and s for suspected, e.g. "ke" or "sx"
+const EMSC_EVENT_TYPES: Record<string, string> = {
+  e: "earthquake",
+  h: "chemical explosion",
+  x: "experimental explosion",
+  n: "nuclear explosion",
+  r: "rock burst",
+  m: "mine collapse",
+  i: "induced or triggered event",
+}
+
+function readEventType(props: RawRecord) {
+  const type = asText(props.type)
+  if (type) return type
+  const code = asText(props.evtype).toLowerCase()
+  if (code === "ls") return "landslide"
+  return /^[ks].$/.test(code) ? EMSC_EVENT_TYPES[code[1]] : undefined
+}
+
+export function parseGeoJsonCatalog(text: string, name: string): Omit<ImportedCatalog, "name" | "format"> {
+  const builder = new CatalogBuilder(name)
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return fileIssue({ key: "import.problem.invalidJson", params: { detail: (error as Error).message } })
+  }
+
+  const root = asRecord(data)
+  const features = root.type === "FeatureCollection" ? root.features : root.type === "Feature" ? [root] : null
+  if (!Array.isArray(features)) {
+    return fileIssue({ key: "import.problem.notGeoJson" })
+  }
+
+  features.forEach((raw, index) => {
+    const feature = asRecord(raw)
+    const props = asRecord(feature.properties)
+    const geometry = asRecord(feature.geometry)
+    const location = at("feature", index + 1)
+    if (geometry.type !== "Point" || !Array.isArray(geometry.coordinates)) {
+      builder.issues.push({ location, problems: [{ key: "import.problem.notPoint" }] })
+      return
+    }
+    const [longitude, latitude, elevation] = geometry.coordinates.map(asField)
+    // USGS puts the depth in the coordinates, whereas EMSC gives an elevation there and the depth as a property
+    const depth = asField(props.depth) ?? elevation
+    // EMSC's names for the fields are the fallbacks
+    const extra: ExtraFields = {
+      place: asText(props.place) || asText(props.flynn_region),
+      magType: asText(props.magType) || asText(props.magtype),
+      net: asText(props.net) || asText(props.auth).toLowerCase(),
+      status: asText(props.status) || undefined,
+      type: readEventType(props),
+      url: asText(props.url),
+      nst: asOptionalNumber(props.nst),
+      gap: asOptionalNumber(props.gap),
+      dmin: asOptionalNumber(props.dmin),
+      rms: asOptionalNumber(props.rms) ?? 0,
+      felt: asOptionalNumber(props.felt),
+      cdi: asOptionalNumber(props.cdi),
+      mmi: asOptionalNumber(props.mmi),
+      sig: asOptionalNumber(props.sig) ?? 0,
+      tsunami: asOptionalNumber(props.tsunami) ?? 0,
+      alert: asText(props.alert) || null,
+    }
+    const updated = toTime(asField(props.updated ?? props.lastupdate))
+    if (updated !== null) extra.updated = updated
+    builder.add(
+      location,
+      {
+        id: asText(feature.id) || asText(props.id) || asText(props.unid) || null,
+        time: asField(props.time),
+        latitude: latitude ?? null,
+        longitude: longitude ?? null,
+        depth: depth ?? null,
+        mag: asField(props.mag),
+      },
+      Object.fromEntries(Object.entries(extra).filter(([, value]) => value !== undefined)),
+    )
+  })
+
+  return { earthquakes: builder.earthquakes, issues: builder.issues }
+}
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, quotes and line breaks
+export function parseCsvRows(text: string) {
+  const rows: { line: number; cells: string[] }[] = []
+  let cells: string[] = []
+  let cell = ""
+  let quoted = false
+  let line = 1
+  let rowLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        if (char === "\n") line++
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ",") {
+      cells.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      cells.push(cell)
+      rows.push({ line: rowLine, cells })
+      cells = []
+      cell = ""
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== "" || cells.length > 0) rows.push({ line: rowLine, cells: [...cells, cell] })
+
+  return rows.filter(({ cells }) => cells.some((value) => value.trim() !== ""))
+}
+
+// Header names accepted for each field, lowercase; the first is what the USGS CSV feed uses
+const CSV_ALIASES = {
+  id: ["id", "eventid", "event_id"],
+  time: ["time", "datetime", "origin_time", "origintime", "date"],
+  latitude: ["latitude", "lat"],
+  longitude: ["longitude", "lon", "lng", "long"],
+  depth: ["depth", "depth_km"],
+  mag: ["mag", "magnitude"],
+  magType: ["magtype", "mag_type"],
+  place: ["place", "location", "region", "description"],
+  net: ["net", "network"],
+  type: ["type", "event_type"],
+  status: ["status"],
+  updated: ["updated"],
+  nst: ["nst"],
+  gap: ["gap"],
+  dmin: ["dmin"],
+  rms: ["rms"],
+  url: ["url"],
+} as const
+
+// Reads the USGS CSV feed layout, this app's own CSV export, and most hand-made catalogs.
+// Lines starting with "#" are comments, like the metadata header the export writes.
+export function parseCsvCatalog(text: string, name: string): Omit<ImportedCatalog, "name" | "format"> {
+  const builder = new CatalogBuilder(name)
+  // Blanking comments rather than removing them keeps the reported line numbers right
+  const [header, ...records] = parseCsvRows(text.replace(/^[ \t]*#.*$/gm, ""))
+  if (!header) return fileIssue({ key: "import.problem.empty" })
+
+  const names = header.cells.map((cell) => cell.trim().toLowerCase())
+  const columns = Object.fromEntries(
+    Object.entries(CSV_ALIASES).map(([field, aliases]) => [
+      field,
+      (aliases as readonly string[]).map((alias) => names.indexOf(alias)).find((index) => index !== -1) ?? -1,
+    ]),
+  ) as Record<keyof typeof CSV_ALIASES, number>
+
+  const missing = (["time", "latitude", "longitude", "mag"] as const).filter((field) => columns[field] === -1)
+  if (missing.length > 0) {
+    return {
+      earthquakes: [],
+      issues: [
+        {
+          location: at("line", header.line),
+          problems: [{ key: "import.problem.columns", params: { columns: missing.join(", ") } }],
+        },
+      ],
+    }
+  }
+
+  for (const { line, cells } of records) {
+    const read = (field: keyof typeof CSV_ALIASES) => (columns[field] === -1 ? null : (cells[columns[field]] ?? null))
+    const extra: ExtraFields = {
+      place: read("place") ?? "",
+      magType: read("magType") ?? "",
+      net: read("net") ?? "",
+      url: read("url") ?? "",
+      nst: toNumber(read("nst")),
+      gap: toNumber(read("gap")),
+      dmin: toNumber(read("dmin")),
+      rms: toNumber(read("rms")) ?? 0,
+    }
+    if (read("type")) extra.type = read("type")!
+    if (read("status")) extra.status = read("status")!
+    const updated = toTime(read("updated"))
+    if (updated !== null) extra.updated = updated
+
+    builder.add(
+      at("line", line),
+      {
+        id: read("id"),
+        time: read("time"),
+        latitude: read("latitude"),
+        longitude: read("longitude"),
+        depth: read("depth"),
+        mag: read("mag"),
+      },
+      extra,
+    )
+  }
+
+  return { earthquakes: builder.earthquakes, issues: builder.issues }
+}
+
+const childrenNamed = (element: Element, name: string) =>
+  Array.from(element.children).filter((child) => child.localName === name)
+
+const childNamed = (element: Element | undefined, name: string) =>
+  element ? childrenNamed(element, name)[0] : undefined
+
+const readText = (element: Element | undefined) => element?.textContent?.trim() || null
+
+// QuakeML quantities wrap their number in a <value> child
+const readValue = (element: Element | undefined, name: string) =>
+  readText(childNamed(childNamed(element, name), "value"))
+
+// USGS puts the event id in catalog:eventsource + catalog:eventid; otherwise fall back to the publicID
+function readEventId(event: Element) {
+  const attribute = (name: string) =>
+    Array.from(event.attributes).find((candidate) => candidate.localName === name)?.value ?? ""
+  if (attribute("eventid")) return `${attribute("eventsource")}${attribute("eventid")}`
+  const publicId = event.getAttribute("publicID") ?? ""
+  const match = /[?&]eventid=([^&#]+)/.exec(publicId)
+  if (match) return decodeURIComponent(match[1])
+  return publicId.split(/[/=]/).pop() || null
+}
+
+const findPreferred = (parent: Element, name: string, preferredId: string | null) => {
+  const candidates = childrenNamed(parent, name)
+  return candidates.find((candidate) => candidate.getAttribute("publicID") === preferredId) ?? candidates[0]
+}
+
+// Reads QuakeML 1.2 with the browser's XML parser, using each event's preferred origin and magnitude
+export function parseQuakeMlCatalog(text: string, name: string): Omit<ImportedCatalog, "name" | "format"> {
+  const builder = new CatalogBuilder(name)
+  const document = new DOMParser().parseFromString(text, "application/xml")
+  const parserError = document.getElementsByTagName("parsererror")[0]
+  if (parserError) {
+    return fileIssue({ key: "import.problem.invalidXml", params: { detail: readText(parserError) ?? "" } })
+  }
+
+  const events = Array.from(document.getElementsByTagNameNS("*", "event"))
+  if (events.length === 0) {
+    return fileIssue({ key: "import.problem.noEvents" })
+  }
+
+  events.forEach((event, index) => {
+    const origin = findPreferred(event, "origin", readText(childNamed(event, "preferredOriginID")))
+    const magnitude = findPreferred(event, "magnitude", readText(childNamed(event, "preferredMagnitudeID")))
+    const location = at("event", index + 1)
+    if (!origin) {
+      builder.issues.push({ location, problems: [{ key: "import.problem.noOrigin" }] })
+      return
+    }
+
+    const depthMeters = toNumber(readValue(origin, "depth"))
+    const quality = childNamed(origin, "quality")
+    const description = childrenNamed(event, "description").map((element) => readText(childNamed(element, "text")))
+    const status = readText(childNamed(origin, "evaluationMode"))
+
+    builder.add(
+      location,
+      {
+        id: readEventId(event),
+        time: readValue(origin, "time"),
+        latitude: readValue(origin, "latitude"),
+        longitude: readValue(origin, "longitude"),
+        // QuakeML depths are in meters
+        depth: depthMeters === null ? null : depthMeters / 1000,
+        mag: readValue(magnitude, "mag"),
+      },
+      {
+        place: description.find(Boolean) ?? "",
+        magType: readText(childNamed(magnitude, "type")) ?? "",
+        type: readText(childNamed(event, "type")) ?? "earthquake",
+        status: status === "manual" ? "reviewed" : "automatic",
+        net: readText(childNamed(childNamed(origin, "creationInfo"), "agencyID"))?.toLowerCase() ?? "",
+        nst: toNumber(readText(childNamed(quality, "usedStationCount"))),
+        gap: toNumber(readText(childNamed(quality, "azimuthalGap"))),
+        dmin: toNumber(readText(childNamed(quality, "minimumDistance"))),
+        rms: toNumber(readText(childNamed(quality, "standardError"))) ?? 0,
+      },
+    )
+  })
+
+  return { earthquakes: builder.earthquakes, issues: builder.issues }
+}
+
+// The FDSN web service text format: one event per line, "|"-separated, under a header line such as
+// #EventID|Time|Latitude|Longitude|Depth/km|Author|Catalog|Contributor|ContributorID|MagType|Magnitude|...
+export function parseFdsnTextCatalog(text: string, name: string): Omit<ImportedCatalog, "name" | "format"> {
+  const builder = new CatalogBuilder(name)
+  const lines = text.split(/\r?\n/)
+  const headerIndex = lines.findIndex((line) => line.trim() !== "")
+  if (headerIndex === -1) return fileIssue({ key: "import.problem.empty" })
+
+  const names = lines[headerIndex]
+    .replace(/^\s*#/, "")
+    .split("|")
+    .map((cell) => cell.trim().toLowerCase())
+  const column = (name: string) => names.indexOf(name)
+  const columns = {
+    id: column("eventid"),
+    time: column("time"),
+    latitude: column("latitude"),
+    longitude: column("longitude"),
+    depth: column("depth/km"),
+    author: column("author"),
+    contributor: column("contributor"),
+    magType: column("magtype"),
+    mag: column("magnitude"),
+    place: column("eventlocationname"),
+    type: column("eventtype"),
+  }
+  const missing = (["time", "latitude", "longitude", "mag"] as const).filter((field) => columns[field] === -1)
+  if (missing.length > 0) {
+    return {
+      earthquakes: [],
+      issues: [
+        {
+          location: at("line", headerIndex + 1),
+          problems: [{ key: "import.problem.columns", params: { columns: missing.join(", ") } }],
+        },
+      ],
+    }
+  }
+
+  lines.forEach((line, index) => {
+    if (index <= headerIndex || line.trim() === "" || line.trimStart().startsWith("#")) return
+    const cells = line.split("|")
+    const read = (field: keyof typeof columns) =>
+      columns[field] === -1 ? null : (cells[columns[field]]?.trim() ?? null)
+    builder.add(
+      at("line", index + 1),
+      {
+        id: read("id"),
+        time: read("time"),
+        latitude: read("latitude"),
+        longitude: read("longitude"),
+        depth: read("depth"),
+        mag: read("mag"),
+      },
+      {
+        place: read("place") ?? "",
+        magType: read("magType") ?? "",
+        net: (read("contributor") || read("author") || "").toLowerCase(),
+        type: read("type") || "earthquake",
+      },
+    )
+  })
+
+  return { earthquakes: builder.earthquakes, issues: builder.issues }
+}
+
+// Goes by the extension first and sniffs the content when that doesn't settle it
+export function detectImportFormat(fileName: string, text: string): ImportFormat {
+  const extension = fileName.toLowerCase().split(".").pop()
+  if (extension === "geojson" || extension === "json") return "geojson"
+  if (extension === "xml" || extension === "quakeml") return "quakeml"
+  if (extension === "csv") return "csv"
+  const start = text.trimStart()
+  if (/^#?\s*EventID\s*\|/i.test(start)) return "fdsn-text"
+  if (start.startsWith("{")) return "geojson"
+  if (start.startsWith("<")) return "quakeml"
+  return "csv"
+}
+
+export function parseCatalog(fileName: string, text: string): ImportedCatalog {
+  const format = detectImportFormat(fileName, text)
+  // Generated ids are prefixed with the file name so two imports never collide
+  const name = fileName.replace(/\.[^.]+$/, "").replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "import"
+  const parsers = {
+    geojson: parseGeoJsonCatalog,
+    csv: parseCsvCatalog,
+    quakeml: parseQuakeMlCatalog,
+    "fdsn-text": parseFdsnTextCatalog,
+  }
+  const { earthquakes, issues } = parsers[format](text, name)
+  return { name: fileName, format, earthquakes, issues }
+}
@@ -0,0 +1,154 @@
+import { haversineKm } from "@/lib/geo"
+import type { CatalogProvider, CatalogQuery } from "@/lib/providers"
+import type { Earthquake } from "@/lib/types"
+
+// Two catalogs' events are taken to be the same earthquake when they're this close in origin time and epicenter
+export interface MatchTolerance {
+  seconds: number
+  km: number
+}
+
+// The first is the window USGS itself uses to associate contributions from different networks
+export const MATCH_TOLERANCES: MatchTolerance[] = [
+  { seconds: 16, km: 100 },
+  { seconds: 30, km: 150 },
+  { seconds: 60, km: 300 },
+]
+
+export const DEFAULT_MATCH_TOLERANCE = MATCH_TOLERANCES[0]
+
+// The other catalog's values minus the loaded event's
+export interface CatalogMatch {
+  primary: Earthquake
+  other: Earthquake
+  timeDifferenceS: number
+  distanceKm: number
+  depthDifferenceKm: number
+  magnitudeDifference: number
+}
+
+export interface CatalogComparison {
+  matches: CatalogMatch[]
+  // Events only the other catalog has
+  unmatched: Earthquake[]
+  // Loaded events the other catalog has no counterpart for
+  missing: number
+}
+
+// One provider's events matched against the loaded ones, as drawn on the map and listed in the card
+export interface ProviderComparison {
+  provider: CatalogProvider
+  comparison: CatalogComparison
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Index of the first event at or after the time, in events sorted by time
+function lowerBound(events: Earthquake[], time: number) {
+  let low = 0
+  let high = events.length
+  while (low < high) {
+    const middle = (low + high) >> 1
+    if (events[middle].properties.time < time) low = middle + 1
+    else high = middle
+  }
+  return low
+}
+
+// Pairs each event with at most one in the other catalog. Candidate pairs are scored by how much of the
+// tolerance they use up, in time and distance together, and the closest pairs are taken first.
+export function matchCatalogs(
+  primary: Earthquake[],
+  other: Earthquake[],
+  tolerance: MatchTolerance,
+): CatalogComparison {
+  const byTime = [...primary].sort((a, b) => a.properties.time - b.properties.time)
+  const toleranceMs = tolerance.seconds * 1000
+  const candidates: { match: CatalogMatch; score: number }[] = []
+
+  for (const event of other) {
+    const { time } = event.properties
+    const [lng, lat, depth] = event.geometry.coordinates
+    for (let i = lowerBound(byTime, time - toleranceMs); i < byTime.length; i++) {
+      const candidate = byTime[i]
+      if (candidate.properties.time > time + toleranceMs) break
+      const [candidateLng, candidateLat, candidateDepth] = candidate.geometry.coordinates
+      const distanceKm = haversineKm(candidateLat, candidateLng, lat, lng)
+      if (distanceKm > tolerance.km) continue
+      const timeDifferenceS = (time - candidate.properties.time) / 1000
+      candidates.push({
+        match: {
+          primary: candidate,
+          other: event,
+          timeDifferenceS,
+          distanceKm,
+          depthDifferenceKm: depth - candidateDepth,
+          magnitudeDifference: event.properties.mag - candidate.properties.mag,
+        },
+        score: Math.abs(timeDifferenceS) / tolerance.seconds + distanceKm / tolerance.km,
+      })
+    }
+  }
+
+  const pairedPrimary = new Set<string>()
+  const pairedOther = new Set<Earthquake>()
+  const matches: CatalogMatch[] = []
+  for (const { match } of candidates.sort((a, b) => a.score - b.score)) {
+    if (pairedPrimary.has(match.primary.id) || pairedOther.has(match.other)) continue
+    pairedPrimary.add(match.primary.id)
+    pairedOther.add(match.other)
+    matches.push(match)
+  }
+
+  return {
+    matches: matches.sort((a, b) => b.primary.properties.time - a.primary.properties.time),
+    unmatched: other.filter((event) => !pairedOther.has(event)),
+    missing: primary.length - pairedPrimary.size,
+  }
+}
+
+export interface ComparisonSummary {
+  matched: number
+  // Medians, so one misassociated pair doesn't skew them
+  magnitudeDifference: number | null
+  distanceKm: number | null
+  depthDifferenceKm: number | null
+  timeDifferenceS: number | null
+}
+
+export function summarizeComparison({ matches }: CatalogComparison): ComparisonSummary {
+  return {
+    matched: matches.length,
+    magnitudeDifference: median(matches.map((match) => match.magnitudeDifference)),
+    distanceKm: median(matches.map((match) => match.distanceKm)),
+    depthDifferenceKm: median(matches.map((match) => match.depthDifferenceKm)),
+    timeDifferenceS: median(matches.map((match) => match.timeDifferenceS)),
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+// The window the loaded events span, widened to whole hours so feed refreshes reuse the same request.
+// Other catalogs are asked for half a unit below the smallest loaded magnitude, since magnitudes differ between
+// agencies; small events still need a floor, or a busy catalog would fill the limit with microquakes.
+export function getComparisonQuery(earthquakes: Earthquake[]): CatalogQuery | null {
+  if (earthquakes.length === 0) return null
+  let startTime = Infinity
+  let endTime = -Infinity
+  let minMagnitude = Infinity
+  for (const { properties } of earthquakes) {
+    startTime = Math.min(startTime, properties.time)
+    endTime = Math.max(endTime, properties.time)
+    minMagnitude = Math.min(minMagnitude, properties.mag)
+  }
+  return {
+    startTime: Math.floor(startTime / HOUR_MS) * HOUR_MS,
+    endTime: (Math.floor(endTime / HOUR_MS) + 1) * HOUR_MS,
+    minMagnitude: Math.max(1, Math.floor((minMagnitude - 0.5) * 2) / 2),
+  }
+}
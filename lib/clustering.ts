@@ -0,0 +1,74 @@
+export interface ClusterPoint {
+  id: string
+  lat: number
+  lng: number
+  mag: number
+}
+
+export interface Cluster {
+  // Stable for the same grid cell at the same zoom
+  key: string
+  lat: number
+  lng: number
+  count: number
+  maxMag: number
+  ids: string[]
+  bounds: [[number, number], [number, number]] // [[south, west], [north, east]]
+}
+
+const TILE_SIZE = 256
+
+// Web Mercator pixel coordinates at the given zoom, matching Leaflet's default CRS
+export function projectToPixels(lat: number, lng: number, zoom: number): [number, number] {
+  const scale = TILE_SIZE * 2 ** zoom
+  const sin = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999)
+  const x = ((lng + 180) / 360) * scale
+  const y = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale
+  return [x, y]
+}
+
+// Grid clustering: points falling in the same cellSize-pixel square at this zoom are merged
+export function clusterPoints(points: ClusterPoint[], zoom: number, cellSize = 60): Cluster[] {
+  const cells = new Map<string, Cluster & { latSum: number; lngSum: number }>()
+  const level = Math.round(zoom)
+
+  for (const point of points) {
+    const [x, y] = projectToPixels(point.lat, point.lng, level)
+    const key = `${level}:${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`
+    const cell = cells.get(key)
+
+    if (!cell) {
+      cells.set(key, {
+        key,
+        lat: point.lat,
+        lng: point.lng,
+        count: 1,
+        maxMag: point.mag,
+        ids: [point.id],
+        bounds: [
+          [point.lat, point.lng],
+          [point.lat, point.lng],
+        ],
+        latSum: point.lat,
+        lngSum: point.lng,
+      })
+      continue
+    }
+
+    cell.count += 1
+    cell.maxMag = Math.max(cell.maxMag, point.mag)
+    cell.ids.push(point.id)
+    cell.latSum += point.lat
+    cell.lngSum += point.lng
+    cell.bounds = [
+      [Math.min(cell.bounds[0][0], point.lat), Math.min(cell.bounds[0][1], point.lng)],
+      [Math.max(cell.bounds[1][0], point.lat), Math.max(cell.bounds[1][1], point.lng)],
+    ]
+  }
+
+  return [...cells.values()].map(({ latSum, lngSum, ...cluster }) => ({
+    ...cluster,
+    lat: latSum / cluster.count,
+    lng: lngSum / cluster.count,
+  }))
+}
@@ -0,0 +1,172 @@
+import { BOUNDARY_STYLES, type BoundaryType } from "@/lib/overlays"
+import type { Earthquake } from "@/lib/types"
+
+export const COLOR_MODES = ["magnitude", "depth", "age", "boundary"] as const
+export type ColorMode = (typeof COLOR_MODES)[number]
+
+export const COLOR_PALETTES = ["default", "okabe-ito", "viridis"] as const
+export type ColorPalette = (typeof COLOR_PALETTES)[number]
+
+// Drawn for each step of a scale when shapes are on, so the map can be read without telling colors apart
+export const MARKER_SHAPES = ["circle", "square", "triangle", "diamond", "inverted-triangle", "hexagon"] as const
+export type MarkerShape = (typeof MARKER_SHAPES)[number]
+
+// Corners as angles clockwise from north, scaled so each shape covers about the area of the circle it
+// replaces and a bigger event still reads as a bigger marker
+const SHAPE_CORNERS: Record<Exclude<MarkerShape, "circle">, { angles: number[]; scale: number }> = {
+  square: { angles: [45, 135, 225, 315], scale: 1.25 },
+  triangle: { angles: [0, 120, 240], scale: 1.55 },
+  diamond: { angles: [0, 90, 180, 270], scale: 1.25 },
+  "inverted-triangle": { angles: [60, 180, 300], scale: 1.55 },
+  hexagon: { angles: [30, 90, 150, 210, 270, 330], scale: 1.1 },
+}
+
+// Screen offsets (y down) of the shape's corners around its center, for a circle of the given radius
+export function getShapeCorners(shape: Exclude<MarkerShape, "circle">, radius: number): [number, number][] {
+  const { angles, scale } = SHAPE_CORNERS[shape]
+  return angles.map((angle) => {
+    const radians = (angle * Math.PI) / 180
+    return [Math.sin(radians) * radius * scale, -Math.cos(radians) * radius * scale]
+  })
+}
+
+// Names, ranges and descriptions are the legend's to give in the chosen language and unit
+export interface LegendEntry {
+  color: string
+  shape: MarkerShape
+  // Depth steps' bounds, the deepest open-ended
+  kmRange?: [number, number | null]
+  boundary?: BoundaryType
+}
+
+type ScaleMode = Exclude<ColorMode, "boundary">
+
+// One color per scale step, in the same order as the scales below
+type Palette = Record<ScaleMode, string[]> & { boundary: Record<BoundaryType, string> }
+
+// Okabe & Ito's set stays distinct under the common forms of color blindness; it's also used for the
+// boundary categories of the viridis palette, since a sequential ramp implies an order they don't have
+const OKABE_ITO_BOUNDARIES: Record<BoundaryType, string> = {
+  ridge: "#d55e00",
+  trench: "#0072b2",
+  transform: "#009e73",
+  collision: "#cc79a7",
+}
+
+const PALETTES: Record<ColorPalette, Palette> = {
+  default: {
+    magnitude: ["#22c55e", "#3b82f6", "#eab308", "#f97316", "#dc2626"],
+    depth: ["#dc2626", "#f97316", "#eab308", "#22c55e", "#3b82f6", "#7c3aed"],
+    age: ["#dc2626", "#f97316", "#eab308", "#3b82f6", "#9ca3af"],
+    boundary: {
+      ridge: BOUNDARY_STYLES.ridge.color,
+      trench: BOUNDARY_STYLES.trench.color,
+      transform: BOUNDARY_STYLES.transform.color,
+      collision: BOUNDARY_STYLES.collision.color,
+    },
+  },
+  "okabe-ito": {
+    magnitude: ["#56b4e9", "#0072b2", "#f0e442", "#e69f00", "#d55e00"],
+    depth: ["#d55e00", "#e69f00", "#f0e442", "#009e73", "#0072b2", "#cc79a7"],
+    age: ["#d55e00", "#e69f00", "#f0e442", "#56b4e9", "#999999"],
+    boundary: OKABE_ITO_BOUNDARIES,
+  },
+  // Darkest for the largest, deepest and newest events, which keeps them the most visible on light basemaps
+  viridis: {
+    magnitude: ["#fde725", "#5ec962", "#21918c", "#3b528b", "#440154"],
+    depth: ["#fde725", "#7ad151", "#22a884", "#2a788e", "#414487", "#440154"],
+    age: ["#440154", "#31688e", "#35b779", "#fde725", "#9ca3af"],
+    boundary: OKABE_ITO_BOUNDARIES,
+  },
+}
+
+// Deepest earthquakes occur around 700 km
+export const MAX_DEPTH_KM = 700
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+// Each scale is ordered from the lowest threshold up
+// Micro, minor, light, moderate and major
+const MAGNITUDE_SCALE = [{ min: -Infinity }, { min: 1 }, { min: 3 }, { min: 5 }, { min: 7 }]
+
+// Crustal and upper mantle, intermediate within subducting slabs, then deep
+const DEPTH_SCALE = [{ min: -Infinity }, { min: 33 }, { min: 70 }, { min: 150 }, { min: 300 }, { min: 500 }]
+
+// Thresholds are ages in milliseconds, youngest first
+const AGE_SCALE = [
+  { maxAge: HOUR },
+  { maxAge: DAY },
+  { maxAge: 7 * DAY },
+  { maxAge: 30 * DAY },
+  { maxAge: Infinity },
+]
+
+const SCALES: Record<ScaleMode, unknown[]> = { magnitude: MAGNITUDE_SCALE, depth: DEPTH_SCALE, age: AGE_SCALE }
+
+const BOUNDARY_TYPES = Object.keys(BOUNDARY_STYLES) as BoundaryType[]
+
+const indexByMin = (scale: { min: number }[], value: number) =>
+  Math.max(0, scale.findLastIndex((entry) => value >= entry.min))
+
+const indexByAge = (age: number) => {
+  const index = AGE_SCALE.findIndex((entry) => age < entry.maxAge)
+  return index === -1 ? AGE_SCALE.length - 1 : index
+}
+
+// The step of the mode's scale that an event falls in, which picks both its color and its shape
+function getScaleIndex(mode: ScaleMode, earthquake: Earthquake, now: number) {
+  if (mode === "depth") return indexByMin(DEPTH_SCALE, earthquake.geometry.coordinates[2])
+  if (mode === "age") return indexByAge(now - earthquake.properties.time)
+  return indexByMin(MAGNITUDE_SCALE, earthquake.properties.mag)
+}
+
+export const getMagnitudeHex = (magnitude: number, palette: ColorPalette = "default") =>
+  PALETTES[palette].magnitude[indexByMin(MAGNITUDE_SCALE, magnitude)]
+
+export const getMagnitudeShape = (magnitude: number) => MARKER_SHAPES[indexByMin(MAGNITUDE_SCALE, magnitude)]
+
+// Boundary coloring needs the plate data, so callers resolve that mode themselves
+export function getEventHex(
+  mode: ScaleMode,
+  earthquake: Earthquake,
+  now = Date.now(),
+  palette: ColorPalette = "default",
+) {
+  return PALETTES[palette][mode][getScaleIndex(mode, earthquake, now)]
+}
+
+export function getEventShape(mode: ScaleMode, earthquake: Earthquake, now = Date.now()) {
+  return MARKER_SHAPES[getScaleIndex(mode, earthquake, now)]
+}
+
+export const getBoundaryHex = (type: BoundaryType, palette: ColorPalette = "default") =>
+  PALETTES[palette].boundary[type]
+
+export const getBoundaryShape = (type: BoundaryType) => MARKER_SHAPES[BOUNDARY_TYPES.indexOf(type)]
+
+export function getLegend(mode: ColorMode, palette: ColorPalette = "default"): LegendEntry[] {
+  if (mode === "boundary") {
+    return BOUNDARY_TYPES.map((boundary) => ({
+      color: getBoundaryHex(boundary, palette),
+      shape: getBoundaryShape(boundary),
+      boundary,
+    }))
+  }
+  return SCALES[mode].map((_, index) => ({
+    color: PALETTES[palette][mode][index],
+    shape: MARKER_SHAPES[index],
+    ...(mode === "depth" && {
+      kmRange: [Math.max(0, DEPTH_SCALE[index].min), DEPTH_SCALE[index + 1]?.min ?? null] as [number, number | null],
+    }),
+  }))
+}
+
+// Black or white, whichever reads better on the given background, e.g. for a badge in the palette's colors
+export function getContrastHex(background: string) {
+  const [r, g, b] = [1, 3, 5].map((offset) => parseInt(background.slice(offset, offset + 2), 16) / 255)
+  const linear = (channel: number) => (channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4)
+  const luminance = 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b)
+  // The luminance where black and white text have equal contrast
+  return luminance > 0.179 ? "#0f172a" : "#ffffff"
+}
@@ -0,0 +1,55 @@
+import { bearingDegrees, destinationPoint, haversineKm, projectOntoGreatCircle } from "@/lib/geo"
+import type { Earthquake } from "@/lib/types"
+
+export const CROSS_SECTION_WIDTHS_KM = [25, 50, 100, 200, 300] as const
+export const DEFAULT_CROSS_SECTION_WIDTH_KM = 100
+
+// Endpoints as [lat, lng], matching Leaflet
+export interface CrossSectionLine {
+  start: [number, number]
+  end: [number, number]
+}
+
+export interface CrossSectionPoint {
+  earthquake: Earthquake
+  // Along the line from its start
+  distanceKm: number
+  // Perpendicular to the line, positive to the right when looking from start to end
+  offsetKm: number
+  depthKm: number
+}
+
+export function getSectionLengthKm({ start, end }: CrossSectionLine) {
+  return haversineKm(start[0], start[1], end[0], end[1])
+}
+
+// Events within widthKm either side of the line and between its endpoints, nearest the start first
+export function projectToSection(earthquakes: Earthquake[], line: CrossSectionLine, widthKm: number) {
+  const lengthKm = getSectionLengthKm(line)
+  const points: CrossSectionPoint[] = []
+
+  for (const earthquake of earthquakes) {
+    const [lng, lat, depth] = earthquake.geometry.coordinates
+    const { alongKm, acrossKm } = projectOntoGreatCircle(lat, lng, line.start, line.end)
+    if (alongKm < 0 || alongKm > lengthKm || Math.abs(acrossKm) > widthKm) continue
+    points.push({ earthquake, distanceKm: alongKm, offsetKm: acrossKm, depthKm: depth })
+  }
+
+  return points.sort((a, b) => a.distanceKm - b.distanceKm)
+}
+
+// The swath covered by the section as a closed ring of [lat, lng] corners
+export function getSectionCorridor(line: CrossSectionLine, widthKm: number): [number, number][] {
+  const [startLat, startLng] = line.start
+  const [endLat, endLng] = line.end
+  const startBearing = bearingDegrees(startLat, startLng, endLat, endLng)
+  // The bearing changes along a great circle, so use the local one at the far end
+  const endBearing = (bearingDegrees(endLat, endLng, startLat, startLng) + 180) % 360
+
+  return [
+    destinationPoint(startLat, startLng, startBearing - 90, widthKm),
+    destinationPoint(endLat, endLng, endBearing - 90, widthKm),
+    destinationPoint(endLat, endLng, endBearing + 90, widthKm),
+    destinationPoint(startLat, startLng, startBearing + 90, widthKm),
+  ]
+}
@@ -0,0 +1,200 @@
+import { haversineKm } from "@/lib/geo"
+import type { Earthquake } from "@/lib/types"
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Space-time windows around a mainshock of magnitude M: radius in km and duration in days
+interface WindowDefinition {
+  label: string
+  distanceKm: (magnitude: number) => number
+  days: (magnitude: number) => number
+}
+
+export const DECLUSTER_WINDOWS = {
+  "gardner-knopoff": {
+    label: "Gardner & Knopoff (1974)",
+    distanceKm: (magnitude) => 10 ** (0.1238 * magnitude + 0.983),
+    days: (magnitude) =>
+      magnitude >= 6.5 ? 10 ** (0.032 * magnitude + 2.7389) : 10 ** (0.5409 * magnitude - 0.547),
+  },
+  gruenthal: {
+    label: "Grünthal (1985)",
+    distanceKm: (magnitude) => Math.exp(1.77 + Math.sqrt(0.037 + 1.02 * magnitude)),
+    days: (magnitude) =>
+      magnitude >= 6.5
+        ? 10 ** (2.8 + 0.024 * magnitude)
+        : Math.abs(Math.exp(-3.95 + Math.sqrt(0.62 + 17.32 * magnitude))),
+  },
+  uhrhammer: {
+    label: "Uhrhammer (1986)",
+    distanceKm: (magnitude) => Math.exp(-1.024 + 0.804 * magnitude),
+    days: (magnitude) => Math.exp(-2.87 + 1.235 * magnitude),
+  },
+} satisfies Record<string, WindowDefinition>
+
+export type DeclusterWindow = keyof typeof DECLUSTER_WINDOWS
+
+export const DEFAULT_DECLUSTER_WINDOW: DeclusterWindow = "gardner-knopoff"
+
+// Multipliers applied to both the distance and the time window
+export const DECLUSTER_SCALES = [0.5, 1, 2] as const
+
+export interface DeclusterOptions {
+  window: DeclusterWindow
+  scale: number
+}
+
+export type SequenceRole = "mainshock" | "foreshock" | "aftershock"
+
+export interface Sequence {
+  // The mainshock's id
+  id: string
+  mainshock: Earthquake
+  // Oldest first
+  foreshocks: Earthquake[]
+  aftershocks: Earthquake[]
+  distanceKm: number
+  durationMs: number
+}
+
+export interface DeclusterResult {
+  // Largest mainshock first; events with no foreshocks or aftershocks are not sequences
+  sequences: Sequence[]
+  roles: Map<string, SequenceRole>
+  // Sequence id for every event that belongs to one
+  sequenceIds: Map<string, string>
+}
+
+// Window-based declustering after Gardner & Knopoff: the largest unassigned event claims every
+// unassigned event within its distance and time windows, as foreshocks before it and aftershocks
+// after it, then the next largest does the same. Events below the current one in magnitude can never
+// claim it back, so every event ends up in at most one sequence.
+export function decluster(earthquakes: Earthquake[], { window, scale }: DeclusterOptions): DeclusterResult {
+  const definition: WindowDefinition = DECLUSTER_WINDOWS[window]
+  const byTime = [...earthquakes].sort((a, b) => a.properties.time - b.properties.time)
+  const times = byTime.map((earthquake) => earthquake.properties.time)
+  const byMagnitude = [...earthquakes].sort(
+    (a, b) => b.properties.mag - a.properties.mag || a.properties.time - b.properties.time,
+  )
+
+  // First index whose time is at least `time`
+  const lowerBound = (time: number) => {
+    let low = 0
+    let high = times.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (times[middle] < time) low = middle + 1
+      else high = middle
+    }
+    return low
+  }
+
+  const assigned = new Set<string>()
+  const sequences: Sequence[] = []
+  const roles = new Map<string, SequenceRole>()
+  const sequenceIds = new Map<string, string>()
+
+  for (const mainshock of byMagnitude) {
+    if (assigned.has(mainshock.id)) continue
+    assigned.add(mainshock.id)
+
+    const [lng, lat] = mainshock.geometry.coordinates
+    const { mag, time } = mainshock.properties
+    const distanceKm = definition.distanceKm(mag) * scale
+    const durationMs = definition.days(mag) * DAY * scale
+    // Cheap latitude check before the haversine; a degree of latitude is about 111 km everywhere
+    const latitudeMargin = distanceKm / 111
+
+    const foreshocks: Earthquake[] = []
+    const aftershocks: Earthquake[] = []
+    const end = time + durationMs
+    for (let index = lowerBound(time - durationMs); index < byTime.length && times[index] <= end; index++) {
+      const candidate = byTime[index]
+      if (assigned.has(candidate.id)) continue
+      const [candidateLng, candidateLat] = candidate.geometry.coordinates
+      if (Math.abs(candidateLat - lat) > latitudeMargin) continue
+      if (haversineKm(lat, lng, candidateLat, candidateLng) > distanceKm) continue
+      ;(candidate.properties.time < time ? foreshocks : aftershocks).push(candidate)
+    }
+
+    if (foreshocks.length === 0 && aftershocks.length === 0) continue
+
+    for (const member of [...foreshocks, ...aftershocks]) assigned.add(member.id)
+    sequences.push({ id: mainshock.id, mainshock, foreshocks, aftershocks, distanceKm, durationMs })
+    roles.set(mainshock.id, "mainshock")
+    sequenceIds.set(mainshock.id, mainshock.id)
+    foreshocks.forEach((earthquake) => {
+      roles.set(earthquake.id, "foreshock")
+      sequenceIds.set(earthquake.id, mainshock.id)
+    })
+    aftershocks.forEach((earthquake) => {
+      roles.set(earthquake.id, "aftershock")
+      sequenceIds.set(earthquake.id, mainshock.id)
+    })
+  }
+
+  return { sequences, roles, sequenceIds }
+}
+
+export interface OmoriBin {
+  // Bin edges in days after the mainshock
+  startDays: number
+  endDays: number
+  count: number
+  // Aftershocks per day within the bin
+  rate: number
+}
+
+// Aftershock rate in logarithmically spaced bins, as Omori plots are read on log-log axes
+export function getOmoriRate(sequence: Sequence, binsPerDecade = 4): OmoriBin[] {
+  // From about 15 minutes to the last aftershock; earlier ones are left out, as catalogs are still badly
+  // incomplete then
+  const earliest = 0.01
+  const delays = sequence.aftershocks
+    .map((earthquake) => (earthquake.properties.time - sequence.mainshock.properties.time) / DAY)
+    .filter((days) => days >= earliest)
+  if (delays.length === 0) return []
+
+  const latest = delays.reduce((max, days) => Math.max(max, days), 0)
+  const first = Math.floor(Math.log10(earliest) * binsPerDecade)
+  // At least one bin, for when every aftershock falls right at the start
+  const last = Math.max(first + 1, Math.ceil(Math.log10(latest) * binsPerDecade))
+  const bins: OmoriBin[] = []
+  for (let index = first; index < last; index++) {
+    const startDays = 10 ** (index / binsPerDecade)
+    const endDays = 10 ** ((index + 1) / binsPerDecade)
+    const count = delays.filter((days) => days >= startDays && days < endDays).length
+    bins.push({ startDays, endDays, count, rate: count / (endDays - startDays) })
+  }
+  // The largest delay sits exactly on the last edge
+  const lastBin = bins[bins.length - 1]
+  if (lastBin) {
+    const onEdge = delays.filter((days) => days >= lastBin.endDays).length
+    lastBin.count += onEdge
+    lastBin.rate = lastBin.count / (lastBin.endDays - lastBin.startDays)
+  }
+  return bins
+}
+
+export interface OmoriFit {
+  // n(t) = K / t^p with t in days, ignoring the small c offset of the modified Omori law
+  k: number
+  p: number
+}
+
+// Least-squares line through log10(rate) against log10(bin midpoint), over non-empty bins
+export function fitOmori(bins: OmoriBin[]): OmoriFit | null {
+  const points = bins
+    .filter((bin) => bin.count > 0)
+    .map((bin) => [Math.log10(Math.sqrt(bin.startDays * bin.endDays)), Math.log10(bin.rate)])
+  if (points.length < 3) return null
+
+  const meanX = points.reduce((sum, [x]) => sum + x, 0) / points.length
+  const meanY = points.reduce((sum, [, y]) => sum + y, 0) / points.length
+  const covariance = points.reduce((sum, [x, y]) => sum + (x - meanX) * (y - meanY), 0)
+  const variance = points.reduce((sum, [x]) => sum + (x - meanX) ** 2, 0)
+  if (variance === 0) return null
+
+  const slope = covariance / variance
+  return { k: 10 ** (meanY - slope * meanX), p: -slope }
+}
@@ -0,0 +1,35 @@
+import type { Earthquake } from "@/lib/types"
+
+export interface MergeResult {
+  earthquakes: Earthquake[]
+  added: string[]
+  updated: string[]
+}
+
+// Merges a fetched batch into the current list by id: unseen events are prepended,
+// events whose `updated` timestamp moved are replaced in place
+export function mergeEarthquakes(current: Earthquake[], incoming: Earthquake[]): MergeResult {
+  const indexById = new Map(current.map((earthquake, index) => [earthquake.id, index]))
+  const earthquakes = [...current]
+  const fresh: Earthquake[] = []
+  const added: string[] = []
+  const updated: string[] = []
+
+  for (const earthquake of incoming) {
+    const index = indexById.get(earthquake.id)
+    if (index === undefined) {
+      fresh.push(earthquake)
+      added.push(earthquake.id)
+    } else if (earthquake.properties.updated > earthquakes[index].properties.updated) {
+      earthquakes[index] = earthquake
+      updated.push(earthquake.id)
+    }
+  }
+
+  if (added.length === 0 && updated.length === 0) {
+    return { earthquakes: current, added, updated }
+  }
+
+  fresh.sort((a, b) => b.properties.time - a.properties.time)
+  return { earthquakes: [...fresh, ...earthquakes], added, updated }
+}
@@ -0,0 +1,62 @@
+import { PAGER_LEVELS, type PagerLevel } from "@/lib/alerts"
+import type { Earthquake } from "@/lib/types"
+
+export const TABLE_COLUMNS = ["time", "mag", "place", "depth", "sig", "felt", "alert", "status", "net", "gap", "rms"] as const
+export type TableColumn = (typeof TABLE_COLUMNS)[number]
+
+// Location-quality columns start hidden to keep the table narrow
+export const DEFAULT_HIDDEN_COLUMNS: TableColumn[] = ["gap", "rms"]
+
+export type SortDirection = "asc" | "desc"
+
+export interface TableSort {
+  column: TableColumn
+  direction: SortDirection
+}
+
+export const DEFAULT_TABLE_SORT: TableSort = { column: "time", direction: "desc" }
+
+// Values compared when sorting; null always sorts last, whichever the direction
+function getSortValue(earthquake: Earthquake, column: TableColumn): number | string | null {
+  const { properties, geometry } = earthquake
+  switch (column) {
+    case "depth":
+      return geometry.coordinates[2]
+    case "alert":
+      // By severity rather than alphabetically
+      return properties.alert ? PAGER_LEVELS.indexOf(properties.alert as PagerLevel) : null
+    case "place":
+    case "status":
+    case "net":
+      return properties[column] || null
+    default:
+      return properties[column]
+  }
+}
+
+export function sortEarthquakes(earthquakes: Earthquake[], { column, direction }: TableSort) {
+  const sign = direction === "asc" ? 1 : -1
+  const collator = new Intl.Collator(undefined, { sensitivity: "base", numeric: true })
+  return earthquakes
+    .map((earthquake) => ({ earthquake, value: getSortValue(earthquake, column) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) return a.value === b.value ? 0 : a.value === null ? 1 : -1
+      const order =
+        typeof a.value === "string" && typeof b.value === "string"
+          ? collator.compare(a.value, b.value)
+          : (a.value as number) - (b.value as number)
+      // Ties fall back to newest first so the order is stable between renders
+      return sign * order || b.earthquake.properties.time - a.earthquake.properties.time
+    })
+    .map(({ earthquake }) => earthquake)
+}
+
+// Every whitespace-separated term has to appear in the place or the title, ignoring case
+export function filterByText(earthquakes: Earthquake[], query: string) {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (terms.length === 0) return earthquakes
+  return earthquakes.filter((earthquake) => {
+    const text = `${earthquake.properties.place} ${earthquake.properties.title}`.toLowerCase()
+    return terms.every((term) => text.includes(term))
+  })
+}
@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { parseCatalog } from "@/lib/catalog-import"
+import {
+  DEFAULT_CSV_COLUMNS,
+  type ExportMetadata,
+  escapeXml,
+  getExportFileName,
+  toCsv,
+  toGeoJson,
+  toKml,
+  toQuakeMl,
+} from "@/lib/export"
+import { DEFAULT_PREFERENCES, KM_PER_MILE } from "@/lib/preferences"
+import type { Earthquake } from "@/lib/types"
+import { normalizeEarthquakeData } from "@/lib/usgs"
+
+const fixture = readFileSync(join(process.cwd(), "fixtures", "catalogs", "usgs.geojson"), "utf8")
+const earthquakes = normalizeEarthquakeData(JSON.parse(fixture), "").features
+const [first] = earthquakes
+
+// Text that needs quoting in CSV and escaping in XML
+const awkward: Earthquake = {
+  ...first,
+  id: "us<&>",
+  properties: { ...first.properties, place: `5 km N of "Tom's", <B&B>\nVillage`, magType: "m<w>" },
+}
+
+const metadata: ExportMetadata = {
+  source: "USGS feed: M2.5+ -- past day",
+  filters: ["Magnitude ≥ 3.0", "Depth 0–100 km"],
+  generated: Date.UTC(2024, 3, 3, 12),
+}
+
+const UTC = { ...DEFAULT_PREFERENCES, timeZone: "utc" as const }
+
+describe("toCsv", () => {
+  it("writes the metadata as comment lines, then the header and one row per event", () => {
+    const lines = toCsv(earthquakes, DEFAULT_CSV_COLUMNS, metadata, UTC).split("\r\n")
+    expect(lines.slice(0, 6)).toEqual([
+      "# Source: USGS feed: M2.5+ -- past day",
+      "# Filters: Magnitude ≥ 3.0; Depth 0–100 km",
+      "# Generated: 2024-04-03T12:00:00.000Z",
+      `# Events: ${earthquakes.length}`,
+      "# Times: UTC",
+      "# Depths: kilometers",
+    ])
+    expect(lines[6]).toBe("time,latitude,longitude,depth_km,mag,magType,place,type,status,net,id")
+    expect(lines).toHaveLength(7 + earthquakes.length + 1)
+    expect(lines.at(-1)).toBe("")
+  })
+
+  it("quotes fields with commas, quotes or line breaks", () => {
+    const csv = toCsv([awkward], ["id", "place", "mag"], metadata, UTC)
+    expect(csv).toContain(`us<&>,"5 km N of ""Tom's"", <B&B>\nVillage",${first.properties.mag}\r\n`)
+  })
+
+  it("converts depths to miles and leaves empty values blank", () => {
+    const event = { ...first, properties: { ...first.properties, felt: null } }
+    const csv = toCsv([event], ["depth", "felt"], metadata, { ...UTC, distanceUnit: "mi" })
+    const [header, row] = csv.split("\r\n").filter((line) => !line.startsWith("#"))
+    expect(header).toBe("depth_mi,felt")
+    expect(row).toBe(`${Number((first.geometry.coordinates[2] / KM_PER_MILE).toFixed(3))},`)
+  })
+
+  it("is read back by the importer", () => {
+    const csv = toCsv(earthquakes, DEFAULT_CSV_COLUMNS, metadata, UTC)
+    const { earthquakes: imported, issues } = parseCatalog("export.csv", csv)
+    expect(issues).toEqual([])
+    expect(imported.map((earthquake) => earthquake.properties.time)).toEqual(
+      earthquakes.map((earthquake) => earthquake.properties.time),
+    )
+  })
+})
+
+describe("toGeoJson", () => {
+  it("keeps the properties and adds the metadata", () => {
+    const collection = JSON.parse(toGeoJson([awkward], metadata))
+    expect(collection.metadata).toEqual({ ...metadata, count: 1 })
+    expect(collection.features[0].id).toBe(awkward.id)
+    expect(collection.features[0].properties).toEqual(awkward.properties)
+  })
+})
+
+describe("escapeXml", () => {
+  it("escapes the five XML special characters", () => {
+    expect(escapeXml(`<a href="x">Tom's & Jerry's</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;Tom&apos;s &amp; Jerry&apos;s&lt;/a&gt;",
+    )
+  })
+})
+
+describe("toKml", () => {
+  it("escapes event text and keeps comments well-formed", () => {
+    const kml = toKml([awkward], metadata, UTC)
+    expect(kml).toContain('<Placemark id="us&lt;&amp;&gt;">')
+    expect(kml).toContain("&quot;Tom&apos;s&quot;, &lt;B&amp;B&gt;")
+    expect(kml).not.toContain("<B&B>")
+    const comment = kml.slice(kml.indexOf("<!--") + 4, kml.indexOf("-->"))
+    expect(comment).not.toContain("--")
+    expect(comment).toContain("M2.5+ - - past day")
+  })
+
+  it("writes a placemark per event with its UTC time and position", () => {
+    const kml = toKml(earthquakes, metadata, UTC)
+    expect(kml.match(/<Placemark /g)).toHaveLength(earthquakes.length)
+    const [longitude, latitude] = first.geometry.coordinates
+    expect(kml).toContain(`<when>${new Date(first.properties.time).toISOString()}</when>`)
+    expect(kml).toContain(`<coordinates>${longitude},${latitude},0</coordinates>`)
+  })
+})
+
+describe("toQuakeMl", () => {
+  it("escapes event text", () => {
+    const xml = toQuakeMl([awkward], metadata)
+    expect(xml).toContain("<text>5 km N of &quot;Tom&apos;s&quot;, &lt;B&amp;B&gt;\nVillage</text>")
+    expect(xml).toContain("<type>m&lt;w&gt;</type>")
+    expect(xml).toContain("eventid=us%3C%26%3E")
+  })
+
+  it("gives depths in meters and maps unknown event types to other event", () => {
+    const event = { ...first, properties: { ...first.properties, type: "ice quake" } }
+    const other = { ...first, id: "other", properties: { ...first.properties, type: "not a type" } }
+    const xml = toQuakeMl([event, other], metadata)
+    expect(xml).toContain(`<depth><value>${Math.round(first.geometry.coordinates[2] * 1000)}</value></depth>`)
+    expect(xml).toContain("<type>ice quake</type>")
+    expect(xml).toContain("<type>other event</type>")
+  })
+})
+
+describe("getExportFileName", () => {
+  it("stamps the name with the UTC generation time", () => {
+    expect(getExportFileName("quakeml", metadata.generated)).toBe("earthquakes-2024-04-03-12-00-00.xml")
+  })
+})
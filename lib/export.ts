@@ -0,0 +1,332 @@
+import { getLegend, getMagnitudeHex } from "@/lib/color-scales"
+import {
+  DEFAULT_PREFERENCES,
+  type DistanceUnit,
+  KM_PER_MILE,
+  type Preferences,
+  type TimeZoneMode,
+  createFormatters,
+  toIsoTime,
+} from "@/lib/preferences"
+import type { Earthquake } from "@/lib/types"
+
+export const EXPORT_FORMATS = ["csv", "geojson", "kml", "quakeml"] as const
+export type ExportFormat = (typeof EXPORT_FORMATS)[number]
+
+export const EXPORT_FORMAT_INFO: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv" },
+  geojson: { extension: "geojson", mimeType: "application/geo+json" },
+  kml: { extension: "kml", mimeType: "application/vnd.google-earth.kml+xml" },
+  quakeml: { extension: "xml", mimeType: "application/xml" },
+}
+
+// Recorded at the top of every export so a file can be traced back to what produced it
+export interface ExportMetadata {
+  source: string
+  // Human-readable descriptions of the filters applied on top of the source
+  filters: string[]
+  generated: number
+}
+
+type PropertyKey = keyof Earthquake["properties"]
+export type CsvColumn = "id" | "latitude" | "longitude" | "depth" | PropertyKey
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  "id",
+  "time",
+  "latitude",
+  "longitude",
+  "depth",
+  "mag",
+  "magType",
+  "place",
+  "type",
+  "status",
+  "net",
+  "code",
+  "ids",
+  "sources",
+  "types",
+  "nst",
+  "dmin",
+  "rms",
+  "gap",
+  "felt",
+  "cdi",
+  "mmi",
+  "alert",
+  "tsunami",
+  "sig",
+  "tz",
+  "updated",
+  "url",
+  "detail",
+  "title",
+]
+
+// Roughly the columns of the USGS CSV feed
+export const DEFAULT_CSV_COLUMNS: CsvColumn[] = [
+  "time",
+  "latitude",
+  "longitude",
+  "depth",
+  "mag",
+  "magType",
+  "place",
+  "type",
+  "status",
+  "net",
+  "id",
+]
+
+// The depth header names its unit
+export const getCsvHeader = (column: CsvColumn, unit: DistanceUnit = "km") =>
+  column === "depth" ? `depth_${unit}` : column
+
+// CSV and KML follow the chosen time zone and units; GeoJSON and QuakeML keep their standard UTC and km/m
+function getColumnValue(earthquake: Earthquake, column: CsvColumn, { timeZone, distanceUnit }: Preferences) {
+  const [longitude, latitude, depth] = earthquake.geometry.coordinates
+  switch (column) {
+    case "id":
+      return earthquake.id
+    case "latitude":
+      return latitude
+    case "longitude":
+      return longitude
+    case "depth":
+      return distanceUnit === "mi" ? Number((depth / KM_PER_MILE).toFixed(3)) : depth
+    case "time":
+    case "updated":
+      return toIsoTime(earthquake.properties[column], timeZone, earthquake)
+    default:
+      return earthquake.properties[column]
+  }
+}
+
+function escapeCsv(value: string | number | null) {
+  if (value === null) return ""
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function describeMetadata(metadata: ExportMetadata, count: number) {
+  return [
+    `Source: ${metadata.source}`,
+    `Filters: ${metadata.filters.length > 0 ? metadata.filters.join("; ") : "none"}`,
+    `Generated: ${new Date(metadata.generated).toISOString()}`,
+    `Events: ${count}`,
+  ]
+}
+
+const TIME_ZONE_DESCRIPTIONS: Record<TimeZoneMode, string> = {
+  local: "the exporting computer's time zone",
+  utc: "UTC",
+  event: "each event's local time, estimated from its longitude where the feed gives no time zone",
+}
+
+// For the formats that follow the display preferences
+const describePreferences = ({ timeZone, distanceUnit }: Preferences) => [
+  `Times: ${TIME_ZONE_DESCRIPTIONS[timeZone]}`,
+  `Depths: ${distanceUnit === "mi" ? "miles" : "kilometers"}`,
+]
+
+// The metadata goes in leading "#" comment lines, which pandas and R skip with comment="#"
+export function toCsv(
+  earthquakes: Earthquake[],
+  columns: CsvColumn[],
+  metadata: ExportMetadata,
+  preferences = DEFAULT_PREFERENCES,
+) {
+  const lines = [
+    ...[...describeMetadata(metadata, earthquakes.length), ...describePreferences(preferences)].map(
+      (line) => `# ${line}`,
+    ),
+    columns.map((column) => getCsvHeader(column, preferences.distanceUnit)).join(","),
+    ...earthquakes.map((earthquake) =>
+      columns.map((column) => escapeCsv(getColumnValue(earthquake, column, preferences))).join(","),
+    ),
+  ]
+  return `${lines.join("\r\n")}\r\n`
+}
+
+export function toGeoJson(earthquakes: Earthquake[], metadata: ExportMetadata) {
+  const collection = {
+    type: "FeatureCollection",
+    metadata: {
+      source: metadata.source,
+      filters: metadata.filters,
+      generated: metadata.generated,
+      count: earthquakes.length,
+    },
+    features: earthquakes.map((earthquake) => ({
+      type: "Feature",
+      id: earthquake.id,
+      properties: earthquake.properties,
+      geometry: { type: "Point", coordinates: earthquake.geometry.coordinates },
+    })),
+  }
+  return JSON.stringify(collection, null, 2)
+}
+
+export function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+}
+
+// "--" may not appear inside an XML comment
+const xmlComment = (lines: string[]) =>
+  `<!--\n${lines.map((line) => `  ${line.replace(/--/g, "- -")}`).join("\n")}\n-->`
+
+// KML colors are aabbggrr rather than #rrggbb
+const toKmlColor = (hex: string) => `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`
+
+const getKmlStyleId = (magnitude: number) => `mag-${getMagnitudeHex(magnitude).slice(1)}`
+
+export function toKml(earthquakes: Earthquake[], metadata: ExportMetadata, preferences = DEFAULT_PREFERENCES) {
+  const format = createFormatters(preferences)
+  const header = [...describeMetadata(metadata, earthquakes.length), ...describePreferences(preferences)]
+  const styles = getLegend("magnitude").map(
+    (entry) => `    <Style id="mag-${entry.color.slice(1)}">
+      <IconStyle>
+        <color>${toKmlColor(entry.color)}</color>
+        <Icon><href>https://maps.google.com/mapfiles/kml/shapes/shaded_dot.png</href></Icon>
+      </IconStyle>
+      <LabelStyle><scale>0</scale></LabelStyle>
+    </Style>`,
+  )
+
+  const placemarks = earthquakes.map((earthquake) => {
+    const [longitude, latitude, depth] = earthquake.geometry.coordinates
+    const { mag, place, time, url } = earthquake.properties
+    // Icons grow with magnitude like the map markers do
+    const scale = Math.max(0.5, Math.min(3, 0.4 + mag * 0.3)).toFixed(2)
+    // The TimeStamp below stays in UTC, which is what KML readers expect
+    const description = `M${mag.toFixed(1)} at ${format.length(depth, 1)} depth, ${format.eventTime(earthquake)}`
+    return `    <Placemark id="${escapeXml(earthquake.id)}">
+      <name>${escapeXml(`M${mag.toFixed(1)} - ${place}`)}</name>
+      <description>${escapeXml(url ? `${description}\n${url}` : description)}</description>
+      <TimeStamp><when>${new Date(time).toISOString()}</when></TimeStamp>
+      <styleUrl>#${getKmlStyleId(mag)}</styleUrl>
+      <Style><IconStyle><scale>${scale}</scale></IconStyle></Style>
+      <Point><coordinates>${longitude},${latitude},0</coordinates></Point>
+    </Placemark>`
+  })
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+${xmlComment(header)}
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Earthquakes</name>
+    <description>${escapeXml(header.join("\n"))}</description>
+${styles.join("\n")}
+${placemarks.join("\n")}
+  </Document>
+</kml>
+`
+}
+
+// USGS "type" values that are valid QuakeML 1.2 event types; anything else is exported as "other event"
+const QUAKEML_EVENT_TYPES = new Set([
+  "earthquake",
+  "explosion",
+  "quarry blast",
+  "chemical explosion",
+  "nuclear explosion",
+  "mining explosion",
+  "rock burst",
+  "landslide",
+  "rockslide",
+  "snow avalanche",
+  "volcanic eruption",
+  "sonic boom",
+  "ice quake",
+  "meteorite",
+  "induced or triggered event",
+  "other event",
+])
+
+const SMI_PREFIX = "quakeml:earthquake.usgs.gov/fdsnws/event/1/query"
+
+function toQuakeMlEvent(earthquake: Earthquake) {
+  const [longitude, latitude, depth] = earthquake.geometry.coordinates
+  const { mag, magType, place, time, type, status, net, nst, gap, rms, dmin, updated } = earthquake.properties
+  const eventId = `${SMI_PREFIX}?eventid=${encodeURIComponent(earthquake.id)}`
+  const originId = `${eventId}#origin`
+  const magnitudeId = `${eventId}#magnitude`
+
+  const quality = [
+    nst !== null && `<usedStationCount>${nst}</usedStationCount>`,
+    rms !== null && `<standardError>${rms}</standardError>`,
+    gap !== null && `<azimuthalGap>${gap}</azimuthalGap>`,
+    dmin !== null && `<minimumDistance>${dmin}</minimumDistance>`,
+  ].filter(Boolean)
+
+  // Element order follows the USGS QuakeML output
+  const lines = [
+    `<event publicID="${escapeXml(eventId)}">`,
+    `  <description><type>earthquake name</type><text>${escapeXml(place)}</text></description>`,
+    `  <origin publicID="${escapeXml(originId)}">`,
+    `    <time><value>${new Date(time).toISOString()}</value></time>`,
+    `    <longitude><value>${longitude}</value></longitude>`,
+    `    <latitude><value>${latitude}</value></latitude>`,
+    // QuakeML depths are in meters
+    `    <depth><value>${Math.round(depth * 1000)}</value></depth>`,
+    ...(quality.length > 0 ? [`    <quality>${quality.join("")}</quality>`] : []),
+    `    <evaluationMode>${status === "reviewed" ? "manual" : "automatic"}</evaluationMode>`,
+    `    <creationInfo><agencyID>${escapeXml(net)}</agencyID></creationInfo>`,
+    "  </origin>",
+    `  <magnitude publicID="${escapeXml(magnitudeId)}">`,
+    `    <mag><value>${mag}</value></mag>`,
+    `    <type>${escapeXml(magType)}</type>`,
+    `    <originID>${escapeXml(originId)}</originID>`,
+    "  </magnitude>",
+    `  <preferredOriginID>${escapeXml(originId)}</preferredOriginID>`,
+    `  <preferredMagnitudeID>${escapeXml(magnitudeId)}</preferredMagnitudeID>`,
+    `  <type>${escapeXml(QUAKEML_EVENT_TYPES.has(type) ? type : "other event")}</type>`,
+    `  <creationInfo><agencyID>${escapeXml(net)}</agencyID>` +
+      `<creationTime>${new Date(updated).toISOString()}</creationTime></creationInfo>`,
+    "</event>",
+  ]
+  return lines.map((line) => `    ${line}`).join("\n")
+}
+
+export function toQuakeMl(earthquakes: Earthquake[], metadata: ExportMetadata) {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+${xmlComment(describeMetadata(metadata, earthquakes.length))}
+<q:quakeml xmlns="http://quakeml.org/xmlns/bed/1.2" xmlns:q="http://quakeml.org/xmlns/quakeml/1.2">
+  <eventParameters publicID="smi:local/earthquake-visualizer/export/${metadata.generated}">
+    <description>${escapeXml(describeMetadata(metadata, earthquakes.length).join("\n"))}</description>
+    <creationInfo><creationTime>${new Date(metadata.generated).toISOString()}</creationTime></creationInfo>
+${earthquakes.map(toQuakeMlEvent).join("\n")}
+  </eventParameters>
+</q:quakeml>
+`
+}
+
+export function serializeEarthquakes(
+  format: ExportFormat,
+  earthquakes: Earthquake[],
+  metadata: ExportMetadata,
+  columns = DEFAULT_CSV_COLUMNS,
+  preferences = DEFAULT_PREFERENCES,
+) {
+  switch (format) {
+    case "csv":
+      return toCsv(earthquakes, columns, metadata, preferences)
+    case "geojson":
+      return toGeoJson(earthquakes, metadata)
+    case "kml":
+      return toKml(earthquakes, metadata, preferences)
+    case "quakeml":
+      return toQuakeMl(earthquakes, metadata)
+  }
+}
+
+export function getExportFileName(format: ExportFormat, generated: number) {
+  const stamp = new Date(generated).toISOString().slice(0, 19).replace(/[:T]/g, "-")
+  return `earthquakes-${stamp}.${EXPORT_FORMAT_INFO[format].extension}`
+}
@@ -0,0 +1,229 @@
+import type { TranslatableMessage } from "@/lib/i18n"
+
+// USGS refuses FDSN queries that would return more events than this
+export const FDSN_QUERY_LIMIT = 20000
+
+export const SEARCH_ORDERS = ["time", "time-asc", "magnitude", "magnitude-asc"] as const
+export type SearchOrder = (typeof SEARCH_ORDERS)[number]
+
+export type SearchRegion =
+  | { kind: "none" }
+  | { kind: "box"; minLatitude: number; maxLatitude: number; minLongitude: number; maxLongitude: number }
+  | { kind: "circle"; latitude: number; longitude: number; maxRadiusKm: number }
+
+export interface HistoricalSearch {
+  // ISO 8601 dates or date-times, interpreted as UTC by USGS
+  startTime: string
+  endTime: string
+  minMagnitude?: number
+  maxMagnitude?: number
+  minDepth?: number
+  maxDepth?: number
+  region: SearchRegion
+  orderBy: SearchOrder
+  // Page size; when omitted every matching event is requested
+  limit?: number
+  // 1-based, as in the FDSN spec
+  offset?: number
+  // Split oversized queries into time ranges that each fit under FDSN_QUERY_LIMIT
+  split?: boolean
+}
+
+export function toSearchParams(search: HistoricalSearch) {
+  const params = new URLSearchParams()
+  params.set("starttime", search.startTime)
+  params.set("endtime", search.endTime)
+  params.set("orderby", search.orderBy)
+
+  const optional: [string, number | undefined][] = [
+    ["minmagnitude", search.minMagnitude],
+    ["maxmagnitude", search.maxMagnitude],
+    ["mindepth", search.minDepth],
+    ["maxdepth", search.maxDepth],
+    ["limit", search.limit],
+    ["offset", search.offset],
+  ]
+
+  if (search.region.kind === "box") {
+    optional.push(
+      ["minlatitude", search.region.minLatitude],
+      ["maxlatitude", search.region.maxLatitude],
+      ["minlongitude", search.region.minLongitude],
+      ["maxlongitude", search.region.maxLongitude],
+    )
+  } else if (search.region.kind === "circle") {
+    optional.push(
+      ["latitude", search.region.latitude],
+      ["longitude", search.region.longitude],
+      ["maxradiuskm", search.region.maxRadiusKm],
+    )
+  }
+
+  for (const [key, value] of optional) {
+    if (value !== undefined) params.set(key, String(value))
+  }
+
+  if (search.split) params.set("split", "1")
+  return params
+}
+
+// The parameters USGS itself understands; "split" is handled by our API route
+export function toFdsnQuery(search: HistoricalSearch) {
+  const params = toSearchParams({ ...search, split: false })
+  params.set("format", "geojson")
+  return params
+}
+
+// FDSN times without a zone are UTC, whereas Date.parse reads them as local time
+export function parseFdsnTime(value: string) {
+  const [, timePart] = value.split("T")
+  const hasZone = timePart === undefined || /(Z|[+-]\d\d:?\d\d)$/i.test(timePart)
+  return Date.parse(hasZone ? value : `${value}Z`)
+}
+
+function readNumber(params: URLSearchParams, key: string, errors: TranslatableMessage[]) {
+  const raw = params.get(key)
+  if (raw === null || raw === "") return undefined
+  const value = Number(raw)
+  if (!Number.isFinite(value)) {
+    errors.push({ key: "search.error.notNumber", params: { field: key } })
+    return undefined
+  }
+  return value
+}
+
+function checkRange(
+  errors: TranslatableMessage[],
+  field: "depth" | "latitude" | "longitude" | "radius",
+  value: number | undefined,
+  min: number,
+  max: number,
+) {
+  if (value !== undefined && (value < min || value > max)) {
+    errors.push({ key: `search.error.${field}Range`, params: { min, max } })
+  }
+}
+
+export function parseSearchParams(params: URLSearchParams): {
+  search: HistoricalSearch | null
+  errors: TranslatableMessage[]
+} {
+  const errors: TranslatableMessage[] = []
+
+  const startTime = params.get("starttime") ?? ""
+  const endTime = params.get("endtime") ?? ""
+  const start = parseFdsnTime(startTime)
+  const end = parseFdsnTime(endTime)
+  if (Number.isNaN(start)) errors.push({ key: "search.error.startTime" })
+  if (Number.isNaN(end)) errors.push({ key: "search.error.endTime" })
+  if (!Number.isNaN(start) && !Number.isNaN(end) && start >= end) errors.push({ key: "search.error.timeOrder" })
+
+  const orderParam = params.get("orderby") ?? "time"
+  const orderBy = SEARCH_ORDERS.includes(orderParam as SearchOrder) ? (orderParam as SearchOrder) : "time"
+
+  const minMagnitude = readNumber(params, "minmagnitude", errors)
+  const maxMagnitude = readNumber(params, "maxmagnitude", errors)
+  const minDepth = readNumber(params, "mindepth", errors)
+  const maxDepth = readNumber(params, "maxdepth", errors)
+  const limit = readNumber(params, "limit", errors)
+  const offset = readNumber(params, "offset", errors)
+
+  if (minMagnitude !== undefined && maxMagnitude !== undefined && minMagnitude > maxMagnitude) {
+    errors.push({ key: "search.error.magnitudeOrder" })
+  }
+  checkRange(errors, "depth", minDepth, -100, 1000)
+  checkRange(errors, "depth", maxDepth, -100, 1000)
+  if (minDepth !== undefined && maxDepth !== undefined && minDepth > maxDepth) {
+    errors.push({ key: "search.error.depthOrder" })
+  }
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > FDSN_QUERY_LIMIT)) {
+    errors.push({ key: "search.error.limit", params: { limit: FDSN_QUERY_LIMIT } })
+  }
+  if (offset !== undefined && (!Number.isInteger(offset) || offset < 1)) {
+    errors.push({ key: "search.error.offset" })
+  }
+
+  let region: SearchRegion = { kind: "none" }
+  if (params.has("minlatitude") || params.has("maxlatitude") || params.has("minlongitude") || params.has("maxlongitude")) {
+    const minLatitude = readNumber(params, "minlatitude", errors) ?? -90
+    const maxLatitude = readNumber(params, "maxlatitude", errors) ?? 90
+    const minLongitude = readNumber(params, "minlongitude", errors) ?? -180
+    const maxLongitude = readNumber(params, "maxlongitude", errors) ?? 180
+    checkRange(errors, "latitude", minLatitude, -90, 90)
+    checkRange(errors, "latitude", maxLatitude, -90, 90)
+    // FDSN allows longitudes past ±180 so boxes can cross the antimeridian
+    checkRange(errors, "longitude", minLongitude, -360, 360)
+    checkRange(errors, "longitude", maxLongitude, -360, 360)
+    if (minLatitude >= maxLatitude) errors.push({ key: "search.error.latitudeOrder" })
+    if (minLongitude >= maxLongitude) errors.push({ key: "search.error.longitudeOrder" })
+    region = { kind: "box", minLatitude, maxLatitude, minLongitude, maxLongitude }
+  } else if (params.has("latitude") || params.has("longitude") || params.has("maxradiuskm")) {
+    const latitude = readNumber(params, "latitude", errors)
+    const longitude = readNumber(params, "longitude", errors)
+    const maxRadiusKm = readNumber(params, "maxradiuskm", errors)
+    if (latitude === undefined || longitude === undefined || maxRadiusKm === undefined) {
+      errors.push({ key: "search.error.circle" })
+    } else {
+      checkRange(errors, "latitude", latitude, -90, 90)
+      checkRange(errors, "longitude", longitude, -180, 180)
+      checkRange(errors, "radius", maxRadiusKm, 0, 20001.6)
+      region = { kind: "circle", latitude, longitude, maxRadiusKm }
+    }
+  }
+
+  if (errors.length > 0) return { search: null, errors }
+
+  return {
+    search: {
+      startTime,
+      endTime,
+      minMagnitude,
+      maxMagnitude,
+      minDepth,
+      maxDepth,
+      region,
+      orderBy,
+      limit,
+      offset,
+      split: params.get("split") === "1",
+    },
+    errors,
+  }
+}
+
+// The search matches more events than one request may return; the client can narrow or split it
+export class SearchLimitError extends Error {
+  constructor(
+    readonly count: number,
+    readonly limit: number,
+    message = `This search matches ${count.toLocaleString("en-US")} events, more than the ${limit.toLocaleString("en-US")} allowed per request`,
+  ) {
+    super(message)
+    this.name = "SearchLimitError"
+  }
+}
+
+// Halves [start, end) until every range's count fits; the caller supplies the counter
+export async function splitByTime(
+  startMs: number,
+  endMs: number,
+  count: (startMs: number, endMs: number) => Promise<number>,
+  minSpanMs = 60 * 1000,
+): Promise<[number, number][]> {
+  const total = await count(startMs, endMs)
+  if (total <= FDSN_QUERY_LIMIT) return total > 0 ? [[startMs, endMs]] : []
+
+  if (endMs - startMs <= minSpanMs) {
+    // Splitting can't go any finer, so only narrowing the search helps
+    throw new SearchLimitError(
+      total,
+      FDSN_QUERY_LIMIT,
+      `More than ${FDSN_QUERY_LIMIT.toLocaleString("en-US")} events within one minute`,
+    )
+  }
+
+  const mid = Math.floor((startMs + endMs) / 2)
+  const left = await splitByTime(startMs, mid, count, minSpanMs)
+  const right = await splitByTime(mid, endMs, count, minSpanMs)
+  return [...left, ...right]
+}
@@ -0,0 +1,95 @@
+export const FEED_WINDOWS = ["hour", "day", "week", "month"] as const
+export const FEED_MAGNITUDES = ["all", "1.0", "2.5", "4.5", "significant"] as const
+
+export type FeedWindow = (typeof FEED_WINDOWS)[number]
+export type FeedMagnitude = (typeof FEED_MAGNITUDES)[number]
+
+export interface FeedSelection {
+  window: FeedWindow
+  magnitude: FeedMagnitude
+}
+
+// Trailing windows within a feed; "all" in the URL and the Select means the whole feed
+export type TimeFilter = "15m" | "30m" | "1h" | "6h" | "12h" | "24h" | "3d" | "7d" | "14d"
+
+export interface TimeFilterOption {
+  value: TimeFilter
+  label: string
+  ms: number
+}
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+
+export const DEFAULT_FEED: FeedSelection = { window: "day", magnitude: "all" }
+
+export const FEED_WINDOW_LABELS: Record<FeedWindow, string> = {
+  hour: "Past Hour",
+  day: "Past Day",
+  week: "Past 7 Days",
+  month: "Past 30 Days",
+}
+
+export const FEED_MAGNITUDE_LABELS: Record<FeedMagnitude, string> = {
+  all: "All Magnitudes",
+  "1.0": "M1.0+",
+  "2.5": "M2.5+",
+  "4.5": "M4.5+",
+  significant: "Significant",
+}
+
+export const FEED_WINDOW_MS: Record<FeedWindow, number> = {
+  hour: HOUR,
+  day: DAY,
+  week: 7 * DAY,
+  month: 30 * DAY,
+}
+
+// Trailing windows offered by the time Select, narrower than the loaded feed
+const TIME_FILTER_OPTIONS: Record<FeedWindow, TimeFilterOption[]> = {
+  hour: [
+    { value: "15m", label: "Last 15 Minutes", ms: HOUR / 4 },
+    { value: "30m", label: "Last 30 Minutes", ms: HOUR / 2 },
+  ],
+  day: [
+    { value: "1h", label: "Last Hour", ms: HOUR },
+    { value: "6h", label: "Last 6 Hours", ms: 6 * HOUR },
+    { value: "12h", label: "Last 12 Hours", ms: 12 * HOUR },
+  ],
+  week: [
+    { value: "6h", label: "Last 6 Hours", ms: 6 * HOUR },
+    { value: "24h", label: "Last 24 Hours", ms: DAY },
+    { value: "3d", label: "Last 3 Days", ms: 3 * DAY },
+  ],
+  month: [
+    { value: "24h", label: "Last 24 Hours", ms: DAY },
+    { value: "7d", label: "Last 7 Days", ms: 7 * DAY },
+    { value: "14d", label: "Last 14 Days", ms: 14 * DAY },
+  ],
+}
+
+export function getTimeFilterOptions(window: FeedWindow) {
+  return TIME_FILTER_OPTIONS[window]
+}
+
+export function getTimeFilterMs(window: FeedWindow, value: string) {
+  return TIME_FILTER_OPTIONS[window].find((option) => option.value === value)?.ms ?? null
+}
+
+// USGS names its summary feeds "<magnitude>_<window>", e.g. "2.5_week"
+export function toFeedId({ window, magnitude }: FeedSelection) {
+  return `${magnitude}_${window}`
+}
+
+export function parseFeedId(id: string | null | undefined): FeedSelection | null {
+  if (!id) return null
+  const [magnitude, window] = id.split("_")
+  if (!FEED_MAGNITUDES.includes(magnitude as FeedMagnitude) || !FEED_WINDOWS.includes(window as FeedWindow)) {
+    return null
+  }
+  return { window: window as FeedWindow, magnitude: magnitude as FeedMagnitude }
+}
+
+export function describeFeed(feed: FeedSelection) {
+  return `${FEED_MAGNITUDE_LABELS[feed.magnitude]}, ${FEED_WINDOW_LABELS[feed.window]}`
+}
@@ -0,0 +1,97 @@
+export const EARTH_RADIUS_KM = 6371
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+
+export function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+// Distance from a point to a polyline of [lng, lat] vertices. Uses a local equirectangular
+// projection around the point, which is accurate enough within a few hundred kilometres.
+export function distanceToLineKm(lat: number, lng: number, line: [number, number][]) {
+  const kmPerDegree = (Math.PI * EARTH_RADIUS_KM) / 180
+  const cosLat = Math.cos(toRadians(lat))
+  const project = ([vertexLng, vertexLat]: [number, number]): [number, number] => {
+    // Unwrap longitudes so segments near the antimeridian stay short
+    let dLng = vertexLng - lng
+    if (dLng > 180) dLng -= 360
+    if (dLng < -180) dLng += 360
+    return [dLng * cosLat * kmPerDegree, (vertexLat - lat) * kmPerDegree]
+  }
+
+  let best = Infinity
+  for (let i = 0; i < line.length - 1; i++) {
+    const [ax, ay] = project(line[i])
+    const [bx, by] = project(line[i + 1])
+    const dx = bx - ax
+    const dy = by - ay
+    const lengthSquared = dx * dx + dy * dy
+    const t = lengthSquared === 0 ? 0 : Math.min(1, Math.max(0, -(ax * dx + ay * dy) / lengthSquared))
+    best = Math.min(best, Math.hypot(ax + t * dx, ay + t * dy))
+  }
+  return best
+}
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+// Initial great-circle bearing from the first point to the second, in degrees clockwise from north
+export function bearingDegrees(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const dLng = toRadians(lng2 - lng1)
+  const y = Math.sin(dLng) * Math.cos(toRadians(lat2))
+  const x =
+    Math.cos(toRadians(lat1)) * Math.sin(toRadians(lat2)) -
+    Math.sin(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.cos(dLng)
+  return (toDegrees(Math.atan2(y, x)) + 360) % 360
+}
+
+// The point reached by travelling distanceKm from [lat, lng] along the given bearing
+export function destinationPoint(lat: number, lng: number, bearing: number, distanceKm: number): [number, number] {
+  const angular = distanceKm / EARTH_RADIUS_KM
+  const theta = toRadians(bearing)
+  const lat1 = toRadians(lat)
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta))
+  const lng2 =
+    toRadians(lng) +
+    Math.atan2(Math.sin(theta) * Math.sin(angular) * Math.cos(lat1), Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2))
+  return [toDegrees(lat2), ((toDegrees(lng2) + 540) % 360) - 180]
+}
+
+// Position of a point relative to the great circle through start and end: how far along it the
+// nearest point lies (negative behind start) and how far off it the point is (positive to the right)
+export function projectOntoGreatCircle(
+  lat: number,
+  lng: number,
+  [startLat, startLng]: [number, number],
+  [endLat, endLng]: [number, number],
+) {
+  const angular = haversineKm(startLat, startLng, lat, lng) / EARTH_RADIUS_KM
+  const delta = toRadians(
+    bearingDegrees(startLat, startLng, lat, lng) - bearingDegrees(startLat, startLng, endLat, endLng),
+  )
+  const across = Math.asin(Math.sin(angular) * Math.sin(delta))
+  const along = Math.acos(Math.min(1, Math.max(-1, Math.cos(angular) / Math.cos(across))))
+  return {
+    alongKm: Math.sign(Math.cos(delta)) * along * EARTH_RADIUS_KM,
+    acrossKm: across * EARTH_RADIUS_KM,
+  }
+}
+
+const COMPASS_POINTS = [
+  ...["N", "NNE", "NE", "ENE", "E", "ESE", "SE", "SSE"],
+  ...["S", "SSW", "SW", "WSW", "W", "WNW", "NW", "NNW"],
+]
+
+// Nearest of the 16 compass points, e.g. 200° -> "SSW"
+export function formatBearing(bearing: number) {
+  return COMPASS_POINTS[Math.round((((bearing % 360) + 360) % 360) / 22.5) % COMPASS_POINTS.length]
+}
+
+export const formatLat = (lat: number) => `${Math.abs(lat).toFixed(1)}°${lat >= 0 ? "N" : "S"}`
+
+export const formatLng = (lng: number) => {
+  const wrapped = ((((lng + 180) % 360) + 360) % 360) - 180
+  return `${Math.abs(wrapped).toFixed(1)}°${wrapped >= 0 ? "E" : "W"}`
+}
@@ -0,0 +1,69 @@
+import { bearingDegrees, haversineKm } from "@/lib/geo"
+import { type IntensityEstimate, predictIntensity } from "@/lib/intensity"
+import type { Earthquake } from "@/lib/types"
+
+export interface HomeLocation {
+  lat: number
+  lng: number
+  source: "geolocation" | "map"
+}
+
+// Rings drawn around the home marker
+export const HOME_RING_DISTANCES_KM = [100, 250, 500, 1000]
+
+// Choices for how far from home the nearby list reaches
+export const NEARBY_RADII_KM = [100, 250, 500, 1000, 2500] as const
+
+export const DEFAULT_NEARBY_RADIUS_KM = 500
+
+export type NearbySort = "distance" | "recent"
+
+export interface NearbyEvent {
+  earthquake: Earthquake
+  distanceKm: number
+  // From home towards the epicentre, degrees clockwise from north
+  bearing: number
+  intensity: IntensityEstimate
+}
+
+export function getHomeDistance(home: HomeLocation, earthquake: Earthquake) {
+  const [lng, lat] = earthquake.geometry.coordinates
+  return {
+    distanceKm: haversineKm(home.lat, home.lng, lat, lng),
+    bearing: bearingDegrees(home.lat, home.lng, lat, lng),
+  }
+}
+
+export function toNearbyEvent(home: HomeLocation, earthquake: Earthquake): NearbyEvent {
+  const { distanceKm, bearing } = getHomeDistance(home, earthquake)
+  const intensity = predictIntensity(earthquake.properties.mag, earthquake.geometry.coordinates[2], distanceKm)
+  return { earthquake, distanceKm, bearing, intensity }
+}
+
+export function getNearbyEvents(earthquakes: Earthquake[], home: HomeLocation, radiusKm: number, sort: NearbySort) {
+  return earthquakes
+    .map((earthquake) => toNearbyEvent(home, earthquake))
+    .filter((event) => event.distanceKm <= radiusKm)
+    .sort((a, b) =>
+      sort === "distance"
+        ? a.distanceKm - b.distanceKm
+        : b.earthquake.properties.time - a.earthquake.properties.time,
+    )
+}
+
+const STORAGE_KEY = "earthquake-visualizer:home"
+
+export function loadHome(): HomeLocation | null {
+  try {
+    const home = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as HomeLocation | null
+    if (!home || !Number.isFinite(home.lat) || !Number.isFinite(home.lng)) return null
+    return { lat: home.lat, lng: home.lng, source: home.source === "geolocation" ? "geolocation" : "map" }
+  } catch {
+    return null
+  }
+}
+
+export function storeHome(home: HomeLocation | null) {
+  if (home) localStorage.setItem(STORAGE_KEY, JSON.stringify(home))
+  else localStorage.removeItem(STORAGE_KEY)
+}
@@ -0,0 +1,49 @@
+import { en, type Messages } from "@/lib/messages/en"
+import { es } from "@/lib/messages/es"
+import { hi } from "@/lib/messages/hi"
+
+export const LOCALES = ["en", "es", "hi"] as const
+export type Locale = (typeof LOCALES)[number]
+
+// Each language's name in that language, as listed in the language picker
+export const LOCALE_LABELS: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+  hi: "हिन्दी",
+}
+
+const CATALOGS: Record<Locale, Messages> = { en, es, hi }
+
+type MessageKey = keyof Messages
+type PluralBase<K> = K extends `${infer Base}_other` ? Base : never
+
+// Plural messages are asked for by their base key plus a numeric count
+export type TranslationKey = Exclude<MessageKey, `${string}_one` | `${string}_other`> | PluralBase<MessageKey>
+export type TranslationParams = Record<string, string | number>
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string
+
+// A message from code that runs without a locale, such as validation shared with the API routes
+export interface TranslatableMessage {
+  key: TranslationKey
+  params?: TranslationParams
+}
+
+export function createTranslator(locale: Locale): Translate {
+  const catalog = CATALOGS[locale]
+  const plurals = new Intl.PluralRules(locale)
+  const numbers = new Intl.NumberFormat(locale)
+
+  return (key, params = {}) => {
+    const { count } = params
+    const message =
+      typeof count === "number" && `${key}_other` in catalog
+        ? (catalog[`${key}_${plurals.select(count)}` as MessageKey] ?? catalog[`${key}_other` as MessageKey])
+        : catalog[key as MessageKey]
+    // Numbers are formatted for the language; anything already formatted is passed as a string
+    return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+      const value = params[name]
+      if (value === undefined) return placeholder
+      return typeof value === "number" ? numbers.format(value) : value
+    })
+  }
+}
@@ -0,0 +1,49 @@
+const ROMAN_NUMERALS = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X", "XI", "XII"]
+
+// Modified Mercalli intensities are reported as decimals but read as Roman numerals
+export function formatIntensity(mmi: number | null) {
+  if (mmi === null) return "—"
+  const level = Math.min(Math.max(Math.round(mmi), 1), ROMAN_NUMERALS.length)
+  return ROMAN_NUMERALS[level - 1]
+}
+
+export const PAGER_ALERT_COLORS: Record<string, string> = {
+  green: "#16a34a",
+  yellow: "#eab308",
+  orange: "#f97316",
+  red: "#dc2626",
+}
+
+export interface IntensityEstimate {
+  // Median predicted Modified Mercalli intensity, never below I
+  mmi: number
+  // One standard deviation in intensity units
+  sigma: number
+  hypocentralKm: number
+  // Whether magnitude and distance fall inside the data the equation was fitted to
+  calibrated: boolean
+}
+
+// Allen, Wald & Worden (2012), "Intensity attenuation for active crustal regions", J. Seismol. 16,
+// hypocentral-distance form. Fitted to M5.0–7.9 shallow crustal events within about 300 km.
+const AWW12 = { c0: 2.085, c1: 1.428, c2: -1.402, c4: 0.078, m1: -0.209, m2: 2.042, s1: 0.82, s2: 0.37, s3: 22.9 }
+export const IPE_CALIBRATION = { minMagnitude: 5, maxMagnitude: 7.9, maxDistanceKm: 300 }
+
+export function predictIntensity(magnitude: number, depthKm: number, epicentralKm: number): IntensityEstimate {
+  const { c0, c1, c2, c4, m1, m2, s1, s2, s3 } = AWW12
+  const hypocentralKm = Math.hypot(epicentralKm, Math.max(depthKm, 0))
+  // Near-source saturation term that grows with magnitude
+  const saturation = m1 + m2 * Math.exp(magnitude - 5)
+  let mmi = c0 + c1 * magnitude + c2 * Math.log(Math.sqrt(hypocentralKm ** 2 + saturation ** 2))
+  if (hypocentralKm > 50) mmi += c4 * Math.log(hypocentralKm / 50)
+
+  return {
+    mmi: Math.max(1, mmi),
+    sigma: s1 + s2 / (1 + (hypocentralKm / s3) ** 2),
+    hypocentralKm,
+    calibrated:
+      magnitude >= IPE_CALIBRATION.minMagnitude &&
+      magnitude <= IPE_CALIBRATION.maxMagnitude &&
+      hypocentralKm <= IPE_CALIBRATION.maxDistanceKm,
+  }
+}
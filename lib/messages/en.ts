@@ -0,0 +1,663 @@
+// The reference catalog: every other language has to provide exactly these keys. Placeholders are
+// written {name}; keys ending in _one and _other are picked by count through the language's plural rules.
+export const en = {
+  "app.tagline": "Real-time Seismic Data",
+  "app.title": "Earthquake Visualizer",
+  "app.subtitle": "Explore global seismic activity with interactive maps and real-time data visualization",
+  "app.lastUpdated": "Last updated: {time}",
+
+  "mode.live": "Live",
+  "mode.historical": "Historical",
+
+  "toolbar.filters": "Filters",
+  "toolbar.timeLapse": "Time-lapse",
+  "toolbar.import": "Import",
+  "toolbar.analysis": "Analysis",
+  "toolbar.table": "Table",
+  "toolbar.alerts": "Alerts",
+  "toolbar.settings": "Settings",
+  "toolbar.compare": "Compare",
+  "toolbar.presets": "Presets",
+  "toolbar.refresh": "Refresh",
+  "toolbar.export": "Export",
+
+  "feed.window": "Feed window",
+  "feed.magnitude": "Feed magnitude class",
+  "feedWindow.hour": "Past Hour",
+  "feedWindow.day": "Past Day",
+  "feedWindow.week": "Past 7 Days",
+  "feedWindow.month": "Past 30 Days",
+  "feedMagnitude.all": "All Magnitudes",
+  "feedMagnitude.significant": "Significant",
+
+  "autoRefresh.label": "Auto-refresh",
+  "autoRefresh.off": "Auto-refresh Off",
+  "autoRefresh.1m": "Every Minute",
+  "autoRefresh.5m": "Every 5 Minutes",
+  "autoRefresh.stream": "Live Stream",
+  "autoRefresh.error": "Auto-refresh: {error}",
+
+  "newEvents.markSeen": "Mark new events as seen",
+  "newEvents.count_one": "{count} new since last look",
+  "newEvents.count_other": "{count} new since last look",
+
+  "filters.minMagnitude": "Min Magnitude:",
+  "filters.depth": "Depth:",
+  "filters.time": "Time window",
+  "timeFilter.15m": "Last 15 Minutes",
+  "timeFilter.30m": "Last 30 Minutes",
+  "timeFilter.1h": "Last Hour",
+  "timeFilter.6h": "Last 6 Hours",
+  "timeFilter.12h": "Last 12 Hours",
+  "timeFilter.24h": "Last 24 Hours",
+  "timeFilter.3d": "Last 3 Days",
+  "timeFilter.7d": "Last 7 Days",
+  "timeFilter.14d": "Last 14 Days",
+
+  "search.showing": "Showing {from}–{to} of {total} matching events",
+  "search.previous": "Previous",
+  "search.next": "Next",
+  "search.loadedChunks": "Loaded {total} events in {chunks} time ranges",
+
+  "stats.total": "Total Earthquakes",
+  "stats.allMagnitudes": "All magnitudes",
+  "stats.magnitudeAtLeast": "Magnitude {value}+",
+  "stats.inRegion": " in {region}",
+  "stats.aftershocksHidden": ", aftershocks hidden",
+  "stats.significant": "Significant Events",
+  "stats.strongest": "Strongest Event",
+  "stats.maximumMagnitude": "Maximum magnitude",
+  "stats.average": "Average Magnitude",
+  "stats.meanMagnitude": "Mean magnitude",
+
+  "map.title": "Interactive Earthquake Map",
+  "map.loading": "Loading map...",
+  "map.description": "Explore earthquake locations and magnitudes with color-coded markers",
+  "map.drawSectionHint": "Click the start and then the end of the cross-section line",
+  "map.textView": "Text View",
+  "map.sectionWidth": "Cross-section width",
+  "map.drawSection": "Draw Cross-Section",
+  "map.cancelDrawing": "Cancel Drawing",
+  "map.label":
+    "Earthquake map. Step through its events with the arrow keys in the strip below, or switch to Text View.",
+  "map.clustered": "{count} events: clustered view, zoom in for detail",
+
+  "tooltip.title": "M{magnitude} Earthquake",
+  "tooltip.depth": "Depth: {depth}",
+  "tooltip.details": "Click for details",
+  "tooltip.cluster": "{count} events, largest M{magnitude}",
+  "tooltip.lowQuality": "Poorly constrained: {issues}",
+  "tooltip.catalog": "{catalog}: M{magnitude}",
+  "tooltip.catalogOffset": "{distance} and {time} from the loaded event",
+  "tooltip.catalogUnmatched": "Not among the loaded events",
+
+  "stale.unreachable": "The live feed can't be reached.",
+  "stale.offline": "You're offline.",
+  "stale.savedCopy": "Showing data saved on this device, stale since {time}.",
+  "stale.retry": "Retry",
+
+  "error.title": "Error loading earthquake data",
+  "error.loadFailed": "Failed to load earthquake data",
+  "error.tryLater": "{message}. Please try again later.",
+  "error.searchLimit": "{message}. Narrow the search, set a page size, or split it into time ranges.",
+  "error.catalogOnly": "{error} Showing the imported catalog only.",
+  "error.split": "Split by Time Ranges",
+  "error.tryAgain": "Try Again",
+
+  "section.title": "Cross-Section A–B",
+  "section.summary": "{count} events within {width} of a {length} line",
+  "section.close": "Close cross-section",
+
+  "significant.title": "Recent Significant Events",
+  "significant.description": "Magnitude {value}+ earthquakes",
+  "significant.none": "No significant earthquakes match your current filters",
+  "significant.fromHome": "{distance} {bearing} of home",
+  "badge.new": "New",
+  "badge.imported": "Imported",
+  "magnitudeClass.major": "Major",
+  "magnitudeClass.moderate": "Moderate",
+  "magnitudeClass.light": "Light",
+  "magnitudeClass.minor": "Minor",
+  "magnitudeClass.micro": "Micro",
+  "sequence.aftershocks_one": "{count} aftershock",
+  "sequence.aftershocks_other": "{count} aftershocks",
+  "sequence.foreshocks_one": ", {count} foreshock",
+  "sequence.foreshocks_other": ", {count} foreshocks",
+
+  "navigator.instructions":
+    "Events on the map by {order}. Right or down arrow for the next {direction} event, left or up for the previous one, Home and End for either end.",
+  "navigator.later": "later",
+  "navigator.larger": "larger",
+  "navigator.empty": "No events on the map",
+  "navigator.position": "{position} of {total}: {event}",
+  "navigator.start_one": "{count} event. Focus here and use the arrow keys to step through it.",
+  "navigator.start_other": "{count} events. Focus here and use the arrow keys to step through them.",
+  "navigator.previous": "Previous event",
+  "navigator.next": "Next event",
+  "navigator.order": "Step through events by",
+  "navigator.roleDescription": "event navigator",
+  "order.time": "By Time",
+  "order.magnitude": "By Magnitude",
+  "order.timeName": "time",
+  "order.magnitudeName": "magnitude",
+
+  "textView.label": "Text view of the map",
+  "textView.empty": "No events on the map.",
+  "textView.summaryTime_one": "{count} event on the map, newest first. Choose one to show its details.",
+  "textView.summaryTime_other": "{count} events on the map, newest first. Choose one to show its details.",
+  "textView.summaryMagnitude_one": "{count} event on the map, largest first. Choose one to show its details.",
+  "textView.summaryMagnitude_other": "{count} events on the map, largest first. Choose one to show its details.",
+  "textView.more": "Show {count} more of {remaining}",
+
+  "describe.event": "Magnitude {magnitude}, {place}, {depth} deep, {time}",
+  "describe.unknownPlace": "unknown location",
+  "announce.showingAll_one": "Showing all {count} earthquake",
+  "announce.showingAll_other": "Showing all {count} earthquakes",
+  "announce.showingSome": "Showing {shown} of {total} earthquakes",
+  "announce.arrival": "New earthquake: {event}",
+  "announce.arrivals": "{count} new earthquakes, the largest magnitude {magnitude}, {place}",
+
+  "settings.title": "Settings",
+  "settings.description": "Language, time and units for the whole page and its exports",
+  "settings.close": "Close settings",
+  "settings.language": "Language",
+  "settings.timeZone": "Time zone",
+  "settings.units": "Distance and depth",
+  "settings.dateFormat": "Date format",
+  "settings.eventTimeNote":
+    "Event-local time uses the feed's time zone for the event when it has one, and otherwise estimates it from the longitude, marked ≈.",
+  "timeZone.local": "Local time (this device)",
+  "timeZone.utc": "UTC",
+  "timeZone.event": "Event-local time",
+  "units.km": "Kilometers",
+  "units.mi": "Miles",
+  "dateFormat.locale": "Language default",
+  "dateFormat.iso": "ISO 8601 (2024-05-31)",
+  "dateFormat.dmy": "Day/month/year (31/05/2024)",
+  "dateFormat.mdy": "Month/day/year (05/31/2024)",
+
+  "quality.title": "Data Quality",
+  "quality.description": "Review status, reporting network and location uncertainty",
+  "quality.lowQuality_one": "{count} event has a poorly constrained location, drawn faint with a dashed outline.",
+  "quality.lowQuality_other": "{count} events have poorly constrained locations, drawn faint with a dashed outline.",
+  "quality.reviewedOnly": "Only events reviewed by a seismologist",
+  "quality.networks": "Networks",
+  "quality.types": "Event types",
+  "quality.maxGap": "Max azimuthal gap",
+  "quality.maxRms": "Max RMS residual",
+  "quality.any": "Any",
+  "quality.gapValue": "{value}°",
+  "quality.rmsValue": "{value} s",
+  "quality.reset": "Reset",
+  "quality.issue.gap": "wide azimuthal gap",
+  "quality.issue.rms": "high RMS residual",
+  "quality.issue.stations": "few stations",
+  "revisions.title": "Revised events",
+  "revisions.clear": "Clear",
+  "revisions.empty":
+    "No revisions yet. Each refresh of the live feed is compared with the last version seen on this device.",
+  "revisions.magnitude": "M{previous} → M{current}",
+  "revisions.epicenter": "moved {distance}",
+  "revisions.depth": "depth {previous} → {current}",
+
+  "catalogs.title": "Catalog Comparison",
+  "catalogs.description": "Match the loaded events against other agencies' catalogs",
+  "catalogs.close": "Close catalog comparison",
+  "catalogs.tolerance": "Same event when within",
+  "catalogs.toleranceValue": "{seconds} s and {distance}",
+  "catalogs.noEvents": "Load some events first; other catalogs are asked for the same time window.",
+  "catalogs.file": "Local file",
+  "catalogs.chooseFile": "Choose a catalog file to compare",
+  "catalogs.error": "Could not load: {error}",
+  "catalogs.summary": "{matched} matched · {unmatched} only in this catalog · {missing} missing from it",
+  "catalogs.truncated_one": "Only the newest {count} event was returned.",
+  "catalogs.truncated_other": "Only the newest {count} events were returned.",
+  "catalogs.medians": "Median difference, {catalog} minus loaded",
+  "catalogs.magnitude": "Magnitude",
+  "catalogs.epicenter": "Epicenter",
+  "catalogs.depth": "Depth",
+  "catalogs.originTime": "Origin time",
+  "catalogs.largest": "Largest magnitude differences",
+  "catalogs.match": "M{primary} here, M{other} in {catalog}",
+  "catalogs.offset": "{distance} apart, {time}",
+
+  "presets.title": "Presets",
+  "presets.description": "Named workspaces with the feed, filters, regions, map view, overlays and color mode",
+  "presets.close": "Close presets",
+  "presets.storage": "Keep presets",
+  "presets.storageLocal": "In this browser",
+  "presets.storageServer": "On the server",
+  "presets.workspace": "Workspace id",
+  "presets.openWorkspace": "Open",
+  "presets.workspaceHint":
+    "Enter this id in another browser to use the same presets there. Anyone who knows it can change them.",
+  "presets.error": "Presets could not be synced: {error}",
+  "presets.loading": "Loading presets…",
+  "presets.empty": "No presets yet. Set up the map and filters, then save them under a name.",
+  "presets.apply": "Apply this preset",
+  "presets.pinned": "Opens on load",
+  "presets.saved": "Saved {time}",
+  "presets.pin": "Open this preset on load",
+  "presets.unpin": "Stop opening this preset on load",
+  "presets.update": "Replace with the current view",
+  "presets.remove": "Delete preset",
+  "presets.namePlaceholder": "e.g. Ring of Fire M4.5+ week",
+  "presets.save": "Save",
+  "presets.full": "At most {count} presets can be kept.",
+  "presets.import": "Import",
+  "presets.export": "Export",
+
+  "legend.title": "{mode} Scale",
+  "legend.colorBy": "Color markers by",
+  "legend.byMode": "By {mode}",
+  "legend.palette": "Color palette",
+  "legend.shapes": "Shapes",
+  "colorMode.magnitude": "Magnitude",
+  "colorMode.depth": "Depth",
+  "colorMode.age": "Age",
+  "colorMode.boundary": "Plate Boundary",
+  "palette.default": "Default",
+  "palette.okabe-ito": "Okabe–Ito (colorblind safe)",
+  "palette.viridis": "Viridis (colorblind safe)",
+  "legend.magnitude.micro": "Usually not felt",
+  "legend.magnitude.minor": "Rarely felt",
+  "legend.magnitude.light": "Often felt",
+  "legend.magnitude.moderate": "Damaging",
+  "legend.magnitude.major": "Serious damage",
+  "legend.depth.shallow": "Shallow",
+  "legend.depth.intermediate": "Intermediate",
+  "legend.depth.deep": "Deep",
+  "legend.depth.crustal": "Crustal",
+  "legend.depth.upperMantle": "Upper mantle",
+  "legend.depth.slab": "Within subducting slabs",
+  "legend.depth.deepest": "Deepest slab seismicity",
+  "legend.depthRange": "{from}–{to} {unit}",
+  "legend.depthFrom": "{from}+ {unit}",
+  "legend.age.hour": "Past hour",
+  "legend.age.day": "Past day",
+  "legend.age.week": "Past week",
+  "legend.age.month": "Past month",
+  "legend.age.older": "Older",
+  "legend.age.hourRange": "<1 h",
+  "legend.age.dayRange": "1–24 h",
+  "legend.age.weekRange": "1–7 days",
+  "legend.age.monthRange": "7–30 days",
+  "legend.age.olderRange": "30+ days",
+  "legend.boundary.description": "Nearest boundary to the event",
+  "boundary.ridge": "Spreading ridge",
+  "boundary.trench": "Subduction trench",
+  "boundary.transform": "Transform fault",
+  "boundary.collision": "Continental collision",
+
+  "basemap.street": "Street",
+  "basemap.satellite": "Satellite",
+  "basemap.terrain": "Terrain",
+  "basemap.dark": "Dark",
+  "basemap.local": "Local Tiles",
+  "basemap.none": "No Basemap (Coastlines)",
+  "overlay.plates": "Plate Boundaries",
+  "overlay.faults": "Major Faults",
+  "overlay.volcanoes": "Volcanoes",
+  "overlay.fault.thrust": "Thrust fault",
+  "overlay.fault.normal": "Normal fault",
+  "overlay.fault.strike-slip": "Strike-slip fault",
+  "overlay.volcano.stratovolcano": "Stratovolcano",
+  "overlay.volcano.shield": "Shield volcano",
+  "overlay.volcano.caldera": "Caldera",
+
+  "detail.label": "Event details",
+  "detail.untitled": "Event {id}",
+  "detail.close": "Close event details",
+  "detail.status.automatic": "automatic",
+  "detail.status.reviewed": "reviewed",
+  "detail.status.deleted": "deleted",
+  "detail.status.unknown": "unknown",
+  "detail.tsunami": "Tsunami flag",
+  "detail.significance": "Significance {value}",
+  "detail.latitude": "Latitude",
+  "detail.longitude": "Longitude",
+  "detail.depth": "Depth",
+  "detail.stations": "Stations",
+  "detail.gap": "Azimuthal gap",
+  "detail.rms": "RMS",
+  "detail.felt": "Felt reports",
+  "detail.maxCdi": "Max CDI",
+  "detail.maxMmi": "Max MMI",
+  "detail.fromHome": "From home",
+  "detail.homeIntensity": "Estimated intensity at home",
+  "detail.intensityMethod":
+    "Median and one-sigma range from the Allen, Wald & Worden (2012) intensity prediction equation, treating the event as a point source on average ground.",
+  "detail.intensityExtrapolated":
+    "This magnitude or distance is outside the data it was fitted to, so it is extrapolated.",
+  "detail.intensityObserved": "Check the ShakeMap and felt reports for what was actually observed.",
+  "detail.imported": "This event comes from an imported file, so there are no USGS products for it.",
+  "detail.loading": "Loading USGS products…",
+  "detail.notFound": "This event is no longer in the USGS catalog.",
+  "detail.loadFailed": "Failed to load event details",
+  "detail.origins": "Origins",
+  "detail.source": "Source",
+  "detail.magnitude": "Magnitude",
+  "detail.review": "Review",
+  "detail.preferred": "preferred",
+  "detail.magnitudes": "Magnitude estimates",
+  "detail.momentTensor": "Moment tensor",
+  "detail.focalMechanism": "Focal mechanism",
+  "detail.nodalPlane": "Nodal plane {number}",
+  "detail.faulting": "Faulting",
+  "faulting.strike-slip": "Strike-slip",
+  "faulting.normal": "Normal",
+  "faulting.reverse": "Reverse",
+  "faulting.oblique": "Oblique",
+  "detail.derivedMagnitude": "Derived magnitude",
+  "detail.doubleCouple": "Double couple",
+  "detail.mechanismNote": "Strike / dip / rake; lower-hemisphere projection.",
+  "detail.shaking": "Shaking and impact",
+  "detail.shakemapMmi": "ShakeMap max MMI",
+  "detail.maxPga": "Max PGA",
+  "detail.maxPgv": "Max PGV",
+  "detail.dyfiIntensity": "DYFI max intensity",
+  "detail.dyfiResponses": "DYFI responses",
+  "detail.pagerAlert": "PAGER alert",
+  "detail.pagerNone": "None",
+  "detail.shakemapImage": "ShakeMap intensity map",
+  "detail.networks": "Contributing networks",
+  "detail.copied": "Link Copied",
+  "detail.copyPermalink": "Copy Permalink",
+  "detail.eventPage": "USGS Event Page",
+
+  "home.title": "Near Home",
+  "home.marker": "Home",
+  "home.picking": "Click the map to place home",
+  "home.fromLocation": "{position} (your location)",
+  "home.fromMap": "{position} (picked on the map)",
+  "home.prompt": "Set a home location to see distances and estimated shaking",
+  "home.myLocation": "My Location",
+  "home.pick": "Pick on Map",
+  "home.clear": "Clear home location",
+  "home.unsupported": "This browser can't share its location; pick home on the map instead",
+  "home.denied": "Location access was denied; pick home on the map instead",
+  "home.unavailable": "Your location could not be determined",
+  "home.radius": "Radius around home",
+  "home.within": "Within {distance}",
+  "home.sort": "Sort nearby events",
+  "home.sortDistance": "Nearest first",
+  "home.sortRecent": "Most recent first",
+  "home.none": "No events within {distance}.",
+  "home.extrapolated": "Outside the equation's calibrated range",
+  "home.more": "…and {count} more",
+  "home.mmiNote":
+    "MMI is a rough median estimate from the Allen, Wald & Worden (2012) intensity prediction equation for shallow crustal earthquakes. It treats the event as a point and ignores local soil, rupture size and direction, so real shaking can easily differ by one or two intensity units, more for deep or subduction events. * marks events outside M{minMagnitude}–{maxMagnitude} or beyond {maxDistance}, where it is extrapolated. It is not a substitute for ShakeMap or official warnings.",
+
+  "regions.title": "Regions",
+  "regions.prompt": "Draw or pick a region to filter every card and list",
+  "regions.tool.rectangle": "Box",
+  "regions.tool.circle": "Circle",
+  "regions.tool.polygon": "Polygon",
+  "regions.hint.rectangle": "Click two opposite corners",
+  "regions.hint.circle": "Click the centre, then a point on the edge",
+  "regions.hint.polygon": "Click each vertex, then the first one again or double-click",
+  "regions.named": "Named region",
+  "regions.pickNamed": "Pick a country or seismic region",
+  "regions.loading": "Loading regions...",
+  "regions.collection.country": "Countries",
+  "regions.collection.seismic": "Flinn-Engdahl Seismic Regions",
+  "regions.worldwide": "Worldwide",
+  "regions.events_one": "{count} event",
+  "regions.events_other": "{count} events",
+  "regions.remove": "Remove {name}",
+  "regions.name.rectangle": "Box {number}",
+  "regions.name.circle": "Circle {number}",
+  "regions.name.polygon": "Polygon {number}",
+  "regions.name.named": "Region {number}",
+  "regions.circle": "{radius} around {position}",
+  "regions.polygon_one": "Polygon with {count} vertex",
+  "regions.polygon_other": "Polygon with {count} vertices",
+
+  "sequence.title": "Sequences",
+  "sequence.summary": "{sequences} sequences with {aftershocks} aftershocks and {foreshocks} foreshocks",
+  "sequence.prompt": "Group foreshocks and aftershocks with their mainshock using space-time windows",
+  "sequence.grouping": "Grouping Sequences",
+  "sequence.group": "Group Sequences",
+  "sequence.windows": "Declustering windows",
+  "sequence.scale": "Window scale",
+  "sequence.hidden": "Aftershocks Hidden from Stats",
+  "sequence.hide": "Hide Aftershocks from Stats",
+
+  "import.title": "Import Catalog",
+  "import.description":
+    "Load a GeoJSON, USGS-style CSV or QuakeML file. It stays in this browser and works without a connection.",
+  "import.unreadable": "The file could not be read",
+  "import.drop": "Drop a catalog file here, or",
+  "import.choose": "Choose File",
+  "import.layer": "Imported layer",
+  "import.liveFeed": "Live feed",
+  "import.searchResults": "Search results",
+  "import.remove": "Remove imported catalog",
+  "import.summary_one": "Imported {count} event.",
+  "import.summary_other": "Imported {count} events.",
+  "import.skipped_one": "Skipped {count} entry.",
+  "import.skipped_other": "Skipped {count} entries.",
+  "import.outlined": "Imported events are outlined in black on the map.",
+  "import.more": "…and {count} more",
+  "import.location.file": "File",
+  "import.location.response": "Response",
+  "import.location.feature": "Feature {index}",
+  "import.location.line": "Line {index}",
+  "import.location.event": "Event {index}",
+  "import.problem.timeMissing": "time is missing",
+  "import.problem.timeInvalid": "time \"{value}\" is not a valid date",
+  "import.problem.latitude": "latitude must be between -90 and 90",
+  "import.problem.longitude": "longitude must be between -180 and 180",
+  "import.problem.depth": "depth \"{value}\" is not a number",
+  "import.problem.magMissing": "magnitude is missing",
+  "import.problem.magInvalid": "magnitude is not a number",
+  "import.problem.duplicate": "duplicate event id {id}",
+  "import.problem.notPoint": "geometry must be a Point",
+  "import.problem.invalidJson": "not valid JSON ({detail})",
+  "import.problem.notGeoJson": "expected a GeoJSON FeatureCollection",
+  "import.problem.empty": "the file is empty",
+  "import.problem.columns": "header has no {columns} column",
+  "import.problem.invalidXml": "not valid XML ({detail})",
+  "import.problem.noEvents": "no QuakeML events found",
+  "import.problem.noOrigin": "event has no origin",
+
+  "analysis.title": "Analysis",
+  "analysis.summary_one": "{count} event after the current filters. Times are UTC.",
+  "analysis.summary_other": "{count} events after the current filters. Times are UTC.",
+  "analysis.close": "Close analysis",
+  "analysis.empty": "No events match the current filters.",
+  "analysis.chart": "{y} by {x}",
+  "analysis.binEvents_one": "{bin}: {count} event",
+  "analysis.binEvents_other": "{bin}: {count} events",
+  "analysis.magnitude": "Magnitude",
+  "analysis.events": "Events",
+  "analysis.eventCount": "Number of events",
+  "analysis.magnitudeFrequency": "Magnitude–frequency",
+  "analysis.gutenbergRichter": "Gutenberg–Richter",
+  "analysis.gutenbergRichterPlot": "Gutenberg–Richter plot",
+  "analysis.completeness": "Magnitude of completeness {magnitude}",
+  "analysis.fit": "b = {b} ± {bUncertainty}, a = {a}, Mc = {mc} (maximum curvature), from {count} events",
+  "analysis.noFit": "Mc = {mc}. A b-value needs at least {count} events at or above Mc.",
+  "analysis.points": "Filled points are N(≥M), hollow points N(M).",
+  "analysis.perHour": "Events per hour",
+  "analysis.perDay": "Events per day",
+  "analysis.hourAxis": "Hour (UTC)",
+  "analysis.dayAxis": "Day (UTC)",
+  "analysis.depthDistribution": "Depth distribution",
+  "analysis.depthAxis": "Depth ({unit})",
+  "analysis.magTypes": "Magnitude types",
+  "analysis.networks": "Contributing networks",
+
+  "alerts.title": "Alerts",
+  "alerts.description": "Checked against every new batch of live events",
+  "alerts.close": "Close alerts",
+  "alerts.unsupported": "This browser can't show notifications; alerts only appear below.",
+  "alerts.granted": "Notifications are on, even while this tab is in the background.",
+  "alerts.denied": "Notifications are blocked in the browser's site settings; alerts only appear below.",
+  "alerts.enable": "Enable Notifications",
+  "alerts.enableRule": "Enable {name}",
+  "alerts.removeRule": "Remove {name}",
+  "alerts.defaultName": "Rule {number}",
+  "alerts.name": "Name",
+  "alerts.minMagnitude": "Min magnitude",
+  "alerts.maxDepth": "Max depth ({unit})",
+  "alerts.any": "Any",
+  "alerts.area": "Area",
+  "alerts.anywhere": "Anywhere",
+  "alerts.customCircle": "Circle around a point…",
+  "alerts.latitude": "Latitude",
+  "alerts.longitude": "Longitude",
+  "alerts.radius": "Radius ({unit})",
+  "alerts.pager": "PAGER alert",
+  "alerts.anyLevel": "Any or none",
+  "alerts.orHigher": "or higher",
+  "alerts.tsunamiOnly": "Only events with the tsunami flag",
+  "alerts.invalidMagnitude": "Enter a valid magnitude",
+  "alerts.invalidDepth": "Enter a valid depth",
+  "alerts.invalidPosition": "Enter a latitude between -90 and 90 and a longitude between -180 and 180",
+  "alerts.invalidRadius": "Enter a radius above 0 {unit}",
+  "alerts.unreadable": "The file could not be read",
+  "alerts.cancel": "Cancel",
+  "alerts.add": "Add Rule",
+  "alerts.new": "New Rule",
+  "alerts.import": "Import",
+  "alerts.export": "Export",
+  "alerts.log": "Alert log",
+  "alerts.clearLog": "Clear",
+  "alerts.noAlerts": "No alerts yet.",
+  "alerts.rule.maxDepth": "≤ {depth} deep",
+  "alerts.rule.tsunami": "tsunami flag",
+  "alerts.rule.unknownRegion": "unknown region",
+  "alerts.rule.every": "Every event",
+  "alerts.notification.many": "{count} earthquakes matched your alert rules",
+  "alerts.notification.strongest": "Strongest: {event}",
+
+  "comparison.title": "Region Comparison",
+  "comparison.description": "Saved regions side by side, using the current magnitude, depth and time filters",
+  "comparison.total": "Total earthquakes",
+  "comparison.significant": "Magnitude 2.5+",
+  "comparison.strongest": "Strongest",
+  "comparison.meanMagnitude": "Mean magnitude",
+  "comparison.meanDepth": "Mean depth",
+
+  "section.chart": "Earthquake depth along the section",
+  "section.distanceAxis": "Distance along section ({unit})",
+  "section.depthAxis": "Depth ({unit})",
+  "section.point": "{event}, {depth} deep, {distance} along",
+
+  "search.startDate": "Start date (UTC)",
+  "search.endDate": "End date (UTC)",
+  "search.minMagnitude": "Min magnitude",
+  "search.maxMagnitude": "Max magnitude",
+  "search.minDepth": "Min depth (km)",
+  "search.maxDepth": "Max depth (km)",
+  "search.any": "Any",
+  "search.orderBy": "Order by",
+  "search.order.time": "Newest first",
+  "search.order.time-asc": "Oldest first",
+  "search.order.magnitude": "Largest first",
+  "search.order.magnitude-asc": "Smallest first",
+  "search.limit": "Results per page",
+  "search.allResults": "All (max {limit})",
+  "search.region": "Region",
+  "search.worldwide": "Worldwide",
+  "search.box": "Bounding box",
+  "search.circle": "Radius around point",
+  "search.latitudeRange": "Latitude range",
+  "search.longitudeRange": "Longitude range",
+  "search.center": "Center (lat, lng)",
+  "search.latitude": "Lat",
+  "search.longitude": "Lng",
+  "search.radius": "Radius (km)",
+  "search.radiusExample": "e.g. 500",
+  "search.split": "Split searches over {limit} events into time ranges (only when showing all results)",
+  "search.submit": "Search",
+  "search.error.startTime": "Start time is missing or invalid",
+  "search.error.endTime": "End time is missing or invalid",
+  "search.error.timeOrder": "Start time must be before end time",
+  "search.error.notNumber": "{field} must be a number",
+  "search.error.magnitudeOrder": "Minimum magnitude must not exceed maximum magnitude",
+  "search.error.depthRange": "Depth must be between {min} and {max}",
+  "search.error.depthOrder": "Minimum depth must not exceed maximum depth",
+  "search.error.limit": "Limit must be a whole number between 1 and {limit}",
+  "search.error.offset": "Offset must be a whole number of at least 1",
+  "search.error.latitudeRange": "Latitude must be between {min} and {max}",
+  "search.error.longitudeRange": "Longitude must be between {min} and {max}",
+  "search.error.latitudeOrder": "Minimum latitude must be below maximum latitude",
+  "search.error.longitudeOrder": "Minimum longitude must be below maximum longitude",
+  "search.error.circle": "A radius search needs latitude, longitude and radius",
+  "search.error.radiusRange": "Radius must be between {min} and {max}",
+
+  "table.title": "Event Table",
+  "table.count_one": "{count} event",
+  "table.count_other": "{count} events",
+  "table.matching": "{shown} of {total} events match",
+  "table.close": "Close event table",
+  "table.search": "Search events",
+  "table.searchPlaceholder": "Search place or title",
+  "table.columns": "Visible columns",
+  "table.empty": "No events match the search.",
+  "table.column.time": "Time",
+  "table.column.mag": "Magnitude",
+  "table.column.place": "Place",
+  "table.column.depth": "Depth",
+  "table.column.sig": "Significance",
+  "table.column.felt": "Felt",
+  "table.column.alert": "PAGER",
+  "table.column.status": "Status",
+  "table.column.net": "Network",
+  "table.column.gap": "Gap",
+  "table.column.rms": "RMS",
+
+  "export.title_one": "Export {count} event",
+  "export.title_other": "Export {count} events",
+  "export.records": "The file records the source and filters: {details}",
+  "export.format": "Export format",
+  "export.format.csv": "CSV (spreadsheets)",
+  "export.format.geojson": "GeoJSON (GIS)",
+  "export.format.kml": "KML (Google Earth)",
+  "export.format.quakeml": "QuakeML 1.2",
+  "export.columns": "Columns",
+  "export.download": "Download .{extension}",
+
+  "sequence.window_one": "Window {distance}, {count} day",
+  "sequence.window_other": "Window {distance}, {count} days",
+  "sequence.omori": "Omori decay p = {p} (n ∝ t^-p, c omitted)",
+  "sequence.noOmori": "Too few aftershocks to fit the Omori law",
+  "sequence.foreshock": "Foreshock",
+  "sequence.aftershock": "Aftershock",
+  "sequence.more": "…and {count} more",
+  "sequence.chart": "Aftershock rate over time",
+  "sequence.daysAxis": "Days after mainshock",
+  "sequence.rateAxis": "Aftershocks per day",
+  "sequence.bin_one": "{count} aftershock {from}–{to} days after",
+  "sequence.bin_other": "{count} aftershocks {from}–{to} days after",
+  "sequence.noAftershocks": "No aftershocks to plot.",
+
+  "playback.empty": "No events to play back with the current filters.",
+  "playback.play": "Play",
+  "playback.pause": "Pause",
+  "playback.restart": "Back to start",
+  "playback.speed": "Playback speed",
+  "playback.trail": "Trail length",
+  "playback.time": "Playback time",
+  "playback.speed.10m": "10 min/s",
+  "playback.speed.1h": "1 hour/s",
+  "playback.speed.6h": "6 hours/s",
+  "playback.speed.1d": "1 day/s",
+  "playback.speed.1w": "1 week/s",
+  "playback.trail.1h": "1 hour trail",
+  "playback.trail.6h": "6 hour trail",
+  "playback.trail.1d": "1 day trail",
+  "playback.trail.7d": "7 day trail",
+  "playback.trail.30d": "30 day trail",
+
+  "map.error": "Map Error",
+  "map.initFailed": "Failed to initialize map",
+  "map.markersFailed": "Error adding earthquake markers",
+  "autoRefresh.requestFailed": "Request failed",
+  "presets.unreadable": "The file could not be read",
+  "detail.mechanismLabel": "Focal mechanism: strike {strike}°, dip {dip}°, rake {rake}°",
+}
+
+export type Messages = Record<keyof typeof en, string>
@@ -0,0 +1,667 @@
+import type { Messages } from "./en"
+
+export const es: Messages = {
+  "app.tagline": "Datos sísmicos en tiempo real",
+  "app.title": "Visualizador de sismos",
+  "app.subtitle": "Explora la actividad sísmica mundial con mapas interactivos y datos en tiempo real",
+  "app.lastUpdated": "Última actualización: {time}",
+
+  "mode.live": "En vivo",
+  "mode.historical": "Histórico",
+
+  "toolbar.filters": "Filtros",
+  "toolbar.timeLapse": "Secuencia temporal",
+  "toolbar.import": "Importar",
+  "toolbar.analysis": "Análisis",
+  "toolbar.table": "Tabla",
+  "toolbar.alerts": "Alertas",
+  "toolbar.settings": "Ajustes",
+  "toolbar.compare": "Comparar",
+  "toolbar.presets": "Ajustes guardados",
+  "toolbar.refresh": "Actualizar",
+  "toolbar.export": "Exportar",
+
+  "feed.window": "Periodo del feed",
+  "feed.magnitude": "Magnitudes del feed",
+  "feedWindow.hour": "Última hora",
+  "feedWindow.day": "Último día",
+  "feedWindow.week": "Últimos 7 días",
+  "feedWindow.month": "Últimos 30 días",
+  "feedMagnitude.all": "Todas las magnitudes",
+  "feedMagnitude.significant": "Significativos",
+
+  "autoRefresh.label": "Actualización automática",
+  "autoRefresh.off": "Sin actualización automática",
+  "autoRefresh.1m": "Cada minuto",
+  "autoRefresh.5m": "Cada 5 minutos",
+  "autoRefresh.stream": "Transmisión en vivo",
+  "autoRefresh.error": "Actualización automática: {error}",
+
+  "newEvents.markSeen": "Marcar los sismos nuevos como vistos",
+  "newEvents.count_one": "{count} nuevo desde la última visita",
+  "newEvents.count_other": "{count} nuevos desde la última visita",
+
+  "filters.minMagnitude": "Magnitud mínima:",
+  "filters.depth": "Profundidad:",
+  "filters.time": "Periodo",
+  "timeFilter.15m": "Últimos 15 minutos",
+  "timeFilter.30m": "Últimos 30 minutos",
+  "timeFilter.1h": "Última hora",
+  "timeFilter.6h": "Últimas 6 horas",
+  "timeFilter.12h": "Últimas 12 horas",
+  "timeFilter.24h": "Últimas 24 horas",
+  "timeFilter.3d": "Últimos 3 días",
+  "timeFilter.7d": "Últimos 7 días",
+  "timeFilter.14d": "Últimos 14 días",
+
+  "search.showing": "Mostrando {from}–{to} de {total} sismos encontrados",
+  "search.previous": "Anterior",
+  "search.next": "Siguiente",
+  "search.loadedChunks": "Se cargaron {total} sismos en {chunks} intervalos de tiempo",
+
+  "stats.total": "Total de sismos",
+  "stats.allMagnitudes": "Todas las magnitudes",
+  "stats.magnitudeAtLeast": "Magnitud {value}+",
+  "stats.inRegion": " en {region}",
+  "stats.aftershocksHidden": ", sin réplicas",
+  "stats.significant": "Sismos significativos",
+  "stats.strongest": "Sismo más fuerte",
+  "stats.maximumMagnitude": "Magnitud máxima",
+  "stats.average": "Magnitud promedio",
+  "stats.meanMagnitude": "Magnitud media",
+
+  "map.title": "Mapa interactivo de sismos",
+  "map.loading": "Cargando el mapa...",
+  "map.description": "Explora la ubicación y magnitud de los sismos con marcadores de colores",
+  "map.drawSectionHint": "Haz clic en el inicio y luego en el final de la línea del perfil",
+  "map.textView": "Vista de texto",
+  "map.sectionWidth": "Ancho del perfil",
+  "map.drawSection": "Dibujar perfil",
+  "map.cancelDrawing": "Cancelar dibujo",
+  "map.label":
+    "Mapa de sismos. Recorre sus sismos con las flechas en la franja de abajo o cambia a la vista de texto.",
+  "map.clustered": "{count} sismos: vista agrupada, acerca el mapa para ver el detalle",
+
+  "tooltip.title": "Sismo M{magnitude}",
+  "tooltip.depth": "Profundidad: {depth}",
+  "tooltip.details": "Haz clic para ver detalles",
+  "tooltip.cluster": "{count} sismos, el mayor M{magnitude}",
+  "tooltip.lowQuality": "Ubicación poco precisa: {issues}",
+  "tooltip.catalog": "{catalog}: M{magnitude}",
+  "tooltip.catalogOffset": "A {distance} y {time} del sismo cargado",
+  "tooltip.catalogUnmatched": "No está entre los sismos cargados",
+
+  "stale.unreachable": "No se puede acceder al feed en vivo.",
+  "stale.offline": "Estás sin conexión.",
+  "stale.savedCopy": "Se muestran datos guardados en este dispositivo, desactualizados desde {time}.",
+  "stale.retry": "Reintentar",
+
+  "error.title": "Error al cargar los datos de sismos",
+  "error.loadFailed": "No se pudieron cargar los datos de sismos",
+  "error.tryLater": "{message}. Inténtalo de nuevo más tarde.",
+  "error.searchLimit": "{message}. Acota la búsqueda, fija un tamaño de página o divídela en intervalos de tiempo.",
+  "error.catalogOnly": "{error} Solo se muestra el catálogo importado.",
+  "error.split": "Dividir por intervalos de tiempo",
+  "error.tryAgain": "Intentar de nuevo",
+
+  "section.title": "Perfil A–B",
+  "section.summary": "{count} sismos a menos de {width} de una línea de {length}",
+  "section.close": "Cerrar perfil",
+
+  "significant.title": "Sismos significativos recientes",
+  "significant.description": "Sismos de magnitud {value}+",
+  "significant.none": "Ningún sismo significativo coincide con los filtros actuales",
+  "significant.fromHome": "{distance} al {bearing} de casa",
+  "badge.new": "Nuevo",
+  "badge.imported": "Importado",
+  "magnitudeClass.major": "Mayor",
+  "magnitudeClass.moderate": "Moderado",
+  "magnitudeClass.light": "Ligero",
+  "magnitudeClass.minor": "Menor",
+  "magnitudeClass.micro": "Micro",
+  "sequence.aftershocks_one": "{count} réplica",
+  "sequence.aftershocks_other": "{count} réplicas",
+  "sequence.foreshocks_one": ", {count} sismo precursor",
+  "sequence.foreshocks_other": ", {count} sismos precursores",
+
+  "navigator.instructions":
+    "Sismos del mapa por {order}. Flecha derecha o abajo para el siguiente sismo {direction}, izquierda o arriba para el anterior, Inicio y Fin para los extremos.",
+  "navigator.later": "posterior",
+  "navigator.larger": "mayor",
+  "navigator.empty": "No hay sismos en el mapa",
+  "navigator.position": "{position} de {total}: {event}",
+  "navigator.start_one": "{count} sismo. Enfoca aquí y usa las flechas para recorrerlo.",
+  "navigator.start_other": "{count} sismos. Enfoca aquí y usa las flechas para recorrerlos.",
+  "navigator.previous": "Sismo anterior",
+  "navigator.next": "Sismo siguiente",
+  "navigator.order": "Recorrer los sismos por",
+  "navigator.roleDescription": "navegador de sismos",
+  "order.time": "Por fecha",
+  "order.magnitude": "Por magnitud",
+  "order.timeName": "fecha",
+  "order.magnitudeName": "magnitud",
+
+  "textView.label": "Vista de texto del mapa",
+  "textView.empty": "No hay sismos en el mapa.",
+  "textView.summaryTime_one": "{count} sismo en el mapa, del más reciente al más antiguo. Elige uno para ver sus detalles.",
+  "textView.summaryTime_other":
+    "{count} sismos en el mapa, del más reciente al más antiguo. Elige uno para ver sus detalles.",
+  "textView.summaryMagnitude_one": "{count} sismo en el mapa, del mayor al menor. Elige uno para ver sus detalles.",
+  "textView.summaryMagnitude_other": "{count} sismos en el mapa, del mayor al menor. Elige uno para ver sus detalles.",
+  "textView.more": "Mostrar {count} más de {remaining}",
+
+  "describe.event": "Magnitud {magnitude}, {place}, {depth} de profundidad, {time}",
+  "describe.unknownPlace": "ubicación desconocida",
+  "announce.showingAll_one": "Se muestra {count} sismo",
+  "announce.showingAll_other": "Se muestran los {count} sismos",
+  "announce.showingSome": "Se muestran {shown} de {total} sismos",
+  "announce.arrival": "Nuevo sismo: {event}",
+  "announce.arrivals": "{count} sismos nuevos, el mayor de magnitud {magnitude}, {place}",
+
+  "settings.title": "Ajustes",
+  "settings.description": "Idioma, hora y unidades de toda la página y sus exportaciones",
+  "settings.close": "Cerrar ajustes",
+  "settings.language": "Idioma",
+  "settings.timeZone": "Zona horaria",
+  "settings.units": "Distancia y profundidad",
+  "settings.dateFormat": "Formato de fecha",
+  "settings.eventTimeNote":
+    "La hora local del sismo usa la zona horaria que da el feed para el sismo y, si no la tiene, la estima a partir de la longitud, marcada con ≈.",
+  "timeZone.local": "Hora local (este dispositivo)",
+  "timeZone.utc": "UTC",
+  "timeZone.event": "Hora local del sismo",
+  "units.km": "Kilómetros",
+  "units.mi": "Millas",
+  "dateFormat.locale": "Según el idioma",
+  "dateFormat.iso": "ISO 8601 (2024-05-31)",
+  "dateFormat.dmy": "Día/mes/año (31/05/2024)",
+  "dateFormat.mdy": "Mes/día/año (05/31/2024)",
+
+  "quality.title": "Calidad de los datos",
+  "quality.description": "Estado de revisión, red sísmica e incertidumbre de la ubicación",
+  "quality.lowQuality_one": "{count} sismo tiene una ubicación poco precisa, dibujado tenue y con borde discontinuo.",
+  "quality.lowQuality_other":
+    "{count} sismos tienen ubicaciones poco precisas, dibujados tenues y con borde discontinuo.",
+  "quality.reviewedOnly": "Solo sismos revisados por un sismólogo",
+  "quality.networks": "Redes",
+  "quality.types": "Tipos de evento",
+  "quality.maxGap": "Brecha azimutal máxima",
+  "quality.maxRms": "Residuo RMS máximo",
+  "quality.any": "Cualquiera",
+  "quality.gapValue": "{value}°",
+  "quality.rmsValue": "{value} s",
+  "quality.reset": "Restablecer",
+  "quality.issue.gap": "brecha azimutal amplia",
+  "quality.issue.rms": "residuo RMS alto",
+  "quality.issue.stations": "pocas estaciones",
+  "revisions.title": "Sismos revisados",
+  "revisions.clear": "Borrar",
+  "revisions.empty":
+    "Aún no hay revisiones. Cada actualización del feed en vivo se compara con la última versión vista en este dispositivo.",
+  "revisions.magnitude": "M{previous} → M{current}",
+  "revisions.epicenter": "se movió {distance}",
+  "revisions.depth": "profundidad {previous} → {current}",
+
+  "catalogs.title": "Comparación de catálogos",
+  "catalogs.description": "Empareja los sismos cargados con los catálogos de otras agencias",
+  "catalogs.close": "Cerrar la comparación de catálogos",
+  "catalogs.tolerance": "Mismo sismo si está a menos de",
+  "catalogs.toleranceValue": "{seconds} s y {distance}",
+  "catalogs.noEvents": "Primero carga algunos sismos; a los otros catálogos se les pide el mismo periodo.",
+  "catalogs.file": "Archivo local",
+  "catalogs.chooseFile": "Elige un archivo de catálogo para comparar",
+  "catalogs.error": "No se pudo cargar: {error}",
+  "catalogs.summary": "{matched} emparejados · {unmatched} solo en este catálogo · {missing} ausentes en él",
+  "catalogs.truncated_one": "Solo se devolvió el sismo más reciente.",
+  "catalogs.truncated_other": "Solo se devolvieron los {count} sismos más recientes.",
+  "catalogs.medians": "Diferencia mediana, {catalog} menos los cargados",
+  "catalogs.magnitude": "Magnitud",
+  "catalogs.epicenter": "Epicentro",
+  "catalogs.depth": "Profundidad",
+  "catalogs.originTime": "Hora de origen",
+  "catalogs.largest": "Mayores diferencias de magnitud",
+  "catalogs.match": "M{primary} aquí, M{other} en {catalog}",
+  "catalogs.offset": "a {distance}, {time}",
+
+  "presets.title": "Ajustes guardados",
+  "presets.description":
+    "Espacios de trabajo con nombre: feed, filtros, regiones, vista del mapa, capas y modo de color",
+  "presets.close": "Cerrar ajustes guardados",
+  "presets.storage": "Guardar",
+  "presets.storageLocal": "En este navegador",
+  "presets.storageServer": "En el servidor",
+  "presets.workspace": "Id del espacio de trabajo",
+  "presets.openWorkspace": "Abrir",
+  "presets.workspaceHint":
+    "Introduce este id en otro navegador para usar allí los mismos ajustes. Quien lo conozca puede cambiarlos.",
+  "presets.error": "No se pudieron sincronizar los ajustes: {error}",
+  "presets.loading": "Cargando ajustes…",
+  "presets.empty": "Aún no hay ajustes guardados. Prepara el mapa y los filtros y guárdalos con un nombre.",
+  "presets.apply": "Aplicar",
+  "presets.pinned": "Se abre al cargar",
+  "presets.saved": "Guardado {time}",
+  "presets.pin": "Abrir al cargar la página",
+  "presets.unpin": "Dejar de abrir al cargar la página",
+  "presets.update": "Reemplazar con la vista actual",
+  "presets.remove": "Eliminar",
+  "presets.namePlaceholder": "p. ej. Cinturón de Fuego M4.5+ semana",
+  "presets.save": "Guardar",
+  "presets.full": "Se pueden guardar como máximo {count}.",
+  "presets.import": "Importar",
+  "presets.export": "Exportar",
+
+  "legend.title": "Escala de {mode}",
+  "legend.colorBy": "Colorear marcadores por",
+  "legend.byMode": "Por {mode}",
+  "legend.palette": "Paleta de colores",
+  "legend.shapes": "Formas",
+  "colorMode.magnitude": "Magnitud",
+  "colorMode.depth": "Profundidad",
+  "colorMode.age": "Antigüedad",
+  "colorMode.boundary": "Límite de placas",
+  "palette.default": "Predeterminada",
+  "palette.okabe-ito": "Okabe–Ito (apta para daltonismo)",
+  "palette.viridis": "Viridis (apta para daltonismo)",
+  "legend.magnitude.micro": "Normalmente no se siente",
+  "legend.magnitude.minor": "Rara vez se siente",
+  "legend.magnitude.light": "Se siente a menudo",
+  "legend.magnitude.moderate": "Causa daños",
+  "legend.magnitude.major": "Daños graves",
+  "legend.depth.shallow": "Superficial",
+  "legend.depth.intermediate": "Intermedio",
+  "legend.depth.deep": "Profundo",
+  "legend.depth.crustal": "En la corteza",
+  "legend.depth.upperMantle": "Manto superior",
+  "legend.depth.slab": "Dentro de placas en subducción",
+  "legend.depth.deepest": "La sismicidad más profunda de las placas",
+  "legend.depthRange": "{from}–{to} {unit}",
+  "legend.depthFrom": "{from}+ {unit}",
+  "legend.age.hour": "Última hora",
+  "legend.age.day": "Último día",
+  "legend.age.week": "Última semana",
+  "legend.age.month": "Último mes",
+  "legend.age.older": "Más antiguos",
+  "legend.age.hourRange": "<1 h",
+  "legend.age.dayRange": "1–24 h",
+  "legend.age.weekRange": "1–7 días",
+  "legend.age.monthRange": "7–30 días",
+  "legend.age.olderRange": "30+ días",
+  "legend.boundary.description": "Límite más cercano al evento",
+  "boundary.ridge": "Dorsal de expansión",
+  "boundary.trench": "Fosa de subducción",
+  "boundary.transform": "Falla transformante",
+  "boundary.collision": "Colisión continental",
+
+  "basemap.street": "Calles",
+  "basemap.satellite": "Satélite",
+  "basemap.terrain": "Relieve",
+  "basemap.dark": "Oscuro",
+  "basemap.local": "Teselas locales",
+  "basemap.none": "Sin mapa base (costas)",
+  "overlay.plates": "Límites de placas",
+  "overlay.faults": "Fallas principales",
+  "overlay.volcanoes": "Volcanes",
+  "overlay.fault.thrust": "Falla inversa",
+  "overlay.fault.normal": "Falla normal",
+  "overlay.fault.strike-slip": "Falla de rumbo",
+  "overlay.volcano.stratovolcano": "Estratovolcán",
+  "overlay.volcano.shield": "Volcán en escudo",
+  "overlay.volcano.caldera": "Caldera",
+
+  "detail.label": "Detalles del evento",
+  "detail.untitled": "Evento {id}",
+  "detail.close": "Cerrar detalles del evento",
+  "detail.status.automatic": "automático",
+  "detail.status.reviewed": "revisado",
+  "detail.status.deleted": "eliminado",
+  "detail.status.unknown": "desconocido",
+  "detail.tsunami": "Aviso de tsunami",
+  "detail.significance": "Relevancia {value}",
+  "detail.latitude": "Latitud",
+  "detail.longitude": "Longitud",
+  "detail.depth": "Profundidad",
+  "detail.stations": "Estaciones",
+  "detail.gap": "Brecha azimutal",
+  "detail.rms": "RMS",
+  "detail.felt": "Reportes de percepción",
+  "detail.maxCdi": "CDI máx.",
+  "detail.maxMmi": "MMI máx.",
+  "detail.fromHome": "Desde casa",
+  "detail.homeIntensity": "Intensidad estimada en casa",
+  "detail.intensityMethod":
+    "Mediana y rango de una sigma según la ecuación de predicción de intensidad de Allen, Wald y Worden (2012), tratando el evento como una fuente puntual en terreno medio.",
+  "detail.intensityExtrapolated":
+    "Esta magnitud o distancia está fuera de los datos con que se ajustó, así que es una extrapolación.",
+  "detail.intensityObserved": "Consulta el ShakeMap y los reportes de percepción para ver lo que realmente se observó.",
+  "detail.imported": "Este evento proviene de un archivo importado, así que no tiene productos del USGS.",
+  "detail.loading": "Cargando productos del USGS…",
+  "detail.notFound": "Este evento ya no está en el catálogo del USGS.",
+  "detail.loadFailed": "No se pudieron cargar los detalles del evento",
+  "detail.origins": "Orígenes",
+  "detail.source": "Fuente",
+  "detail.magnitude": "Magnitud",
+  "detail.review": "Revisión",
+  "detail.preferred": "preferido",
+  "detail.magnitudes": "Estimaciones de magnitud",
+  "detail.momentTensor": "Tensor de momento",
+  "detail.focalMechanism": "Mecanismo focal",
+  "detail.nodalPlane": "Plano nodal {number}",
+  "detail.faulting": "Tipo de falla",
+  "faulting.strike-slip": "De rumbo",
+  "faulting.normal": "Normal",
+  "faulting.reverse": "Inversa",
+  "faulting.oblique": "Oblicua",
+  "detail.derivedMagnitude": "Magnitud derivada",
+  "detail.doubleCouple": "Doble par",
+  "detail.mechanismNote": "Rumbo / buzamiento / deslizamiento; proyección del hemisferio inferior.",
+  "detail.shaking": "Sacudida e impacto",
+  "detail.shakemapMmi": "MMI máx. de ShakeMap",
+  "detail.maxPga": "PGA máx.",
+  "detail.maxPgv": "PGV máx.",
+  "detail.dyfiIntensity": "Intensidad máx. de DYFI",
+  "detail.dyfiResponses": "Respuestas de DYFI",
+  "detail.pagerAlert": "Alerta PAGER",
+  "detail.pagerNone": "Ninguna",
+  "detail.shakemapImage": "Mapa de intensidad de ShakeMap",
+  "detail.networks": "Redes que aportan datos",
+  "detail.copied": "Enlace copiado",
+  "detail.copyPermalink": "Copiar enlace permanente",
+  "detail.eventPage": "Página del evento en el USGS",
+
+  "home.title": "Cerca de casa",
+  "home.marker": "Casa",
+  "home.picking": "Haz clic en el mapa para situar tu casa",
+  "home.fromLocation": "{position} (tu ubicación)",
+  "home.fromMap": "{position} (elegida en el mapa)",
+  "home.prompt": "Indica la ubicación de tu casa para ver distancias y el temblor estimado",
+  "home.myLocation": "Mi ubicación",
+  "home.pick": "Elegir en el mapa",
+  "home.clear": "Borrar la ubicación de casa",
+  "home.unsupported": "Este navegador no puede compartir su ubicación; elige tu casa en el mapa",
+  "home.denied": "Se denegó el acceso a la ubicación; elige tu casa en el mapa",
+  "home.unavailable": "No se pudo determinar tu ubicación",
+  "home.radius": "Radio alrededor de casa",
+  "home.within": "A menos de {distance}",
+  "home.sort": "Ordenar los eventos cercanos",
+  "home.sortDistance": "Más cercanos primero",
+  "home.sortRecent": "Más recientes primero",
+  "home.none": "No hay eventos a menos de {distance}.",
+  "home.extrapolated": "Fuera del rango de calibración de la ecuación",
+  "home.more": "…y {count} más",
+  "home.mmiNote":
+    "La MMI es una estimación mediana aproximada según la ecuación de predicción de intensidad de Allen, Wald y Worden (2012) para sismos corticales someros. Trata el evento como un punto e ignora el suelo local y el tamaño y la dirección de la ruptura, así que el temblor real puede diferir fácilmente en una o dos unidades de intensidad, más en eventos profundos o de subducción. * marca los eventos fuera de M{minMagnitude}–{maxMagnitude} o a más de {maxDistance}, donde se extrapola. No sustituye a ShakeMap ni a los avisos oficiales.",
+
+  "regions.title": "Regiones",
+  "regions.prompt": "Dibuja o elige una región para filtrar todas las tarjetas y listas",
+  "regions.tool.rectangle": "Rectángulo",
+  "regions.tool.circle": "Círculo",
+  "regions.tool.polygon": "Polígono",
+  "regions.hint.rectangle": "Haz clic en dos esquinas opuestas",
+  "regions.hint.circle": "Haz clic en el centro y luego en un punto del borde",
+  "regions.hint.polygon": "Haz clic en cada vértice y luego otra vez en el primero, o haz doble clic",
+  "regions.named": "Región con nombre",
+  "regions.pickNamed": "Elige un país o una región sísmica",
+  "regions.loading": "Cargando regiones...",
+  "regions.collection.country": "Países",
+  "regions.collection.seismic": "Regiones sísmicas de Flinn-Engdahl",
+  "regions.worldwide": "Todo el mundo",
+  "regions.events_one": "{count} evento",
+  "regions.events_other": "{count} eventos",
+  "regions.remove": "Quitar {name}",
+  "regions.name.rectangle": "Rectángulo {number}",
+  "regions.name.circle": "Círculo {number}",
+  "regions.name.polygon": "Polígono {number}",
+  "regions.name.named": "Región {number}",
+  "regions.circle": "{radius} alrededor de {position}",
+  "regions.polygon_one": "Polígono de {count} vértice",
+  "regions.polygon_other": "Polígono de {count} vértices",
+
+  "sequence.title": "Secuencias",
+  "sequence.summary": "{sequences} secuencias con {aftershocks} réplicas y {foreshocks} sismos precursores",
+  "sequence.prompt": "Agrupa sismos precursores y réplicas con su sismo principal mediante ventanas espacio-temporales",
+  "sequence.grouping": "Agrupando secuencias",
+  "sequence.group": "Agrupar secuencias",
+  "sequence.windows": "Ventanas de desagrupamiento",
+  "sequence.scale": "Escala de la ventana",
+  "sequence.hidden": "Réplicas ocultas en las estadísticas",
+  "sequence.hide": "Ocultar réplicas en las estadísticas",
+
+  "import.title": "Importar catálogo",
+  "import.description":
+    "Carga un archivo GeoJSON, CSV al estilo del USGS o QuakeML. Se queda en este navegador y funciona sin conexión.",
+  "import.unreadable": "No se pudo leer el archivo",
+  "import.drop": "Suelta aquí un archivo de catálogo, o",
+  "import.choose": "Elegir archivo",
+  "import.layer": "Capa importada",
+  "import.liveFeed": "Feed en directo",
+  "import.searchResults": "Resultados de búsqueda",
+  "import.remove": "Quitar el catálogo importado",
+  "import.summary_one": "Se importó {count} evento.",
+  "import.summary_other": "Se importaron {count} eventos.",
+  "import.skipped_one": "Se omitió {count} entrada.",
+  "import.skipped_other": "Se omitieron {count} entradas.",
+  "import.outlined": "Los eventos importados aparecen con contorno negro en el mapa.",
+  "import.more": "…y {count} más",
+  "import.location.file": "Archivo",
+  "import.location.response": "Respuesta",
+  "import.location.feature": "Elemento {index}",
+  "import.location.line": "Línea {index}",
+  "import.location.event": "Evento {index}",
+  "import.problem.timeMissing": "falta la hora",
+  "import.problem.timeInvalid": "la hora \"{value}\" no es una fecha válida",
+  "import.problem.latitude": "la latitud debe estar entre -90 y 90",
+  "import.problem.longitude": "la longitud debe estar entre -180 y 180",
+  "import.problem.depth": "la profundidad \"{value}\" no es un número",
+  "import.problem.magMissing": "falta la magnitud",
+  "import.problem.magInvalid": "la magnitud no es un número",
+  "import.problem.duplicate": "id de evento duplicado {id}",
+  "import.problem.notPoint": "la geometría debe ser un Point",
+  "import.problem.invalidJson": "JSON no válido ({detail})",
+  "import.problem.notGeoJson": "se esperaba una FeatureCollection GeoJSON",
+  "import.problem.empty": "el archivo está vacío",
+  "import.problem.columns": "la cabecera no tiene columna {columns}",
+  "import.problem.invalidXml": "XML no válido ({detail})",
+  "import.problem.noEvents": "no se encontraron eventos QuakeML",
+  "import.problem.noOrigin": "el evento no tiene origen",
+
+  "analysis.title": "Análisis",
+  "analysis.summary_one": "{count} evento tras los filtros actuales. Las horas están en UTC.",
+  "analysis.summary_other": "{count} eventos tras los filtros actuales. Las horas están en UTC.",
+  "analysis.close": "Cerrar el análisis",
+  "analysis.empty": "Ningún evento coincide con los filtros actuales.",
+  "analysis.chart": "{y} por {x}",
+  "analysis.binEvents_one": "{bin}: {count} evento",
+  "analysis.binEvents_other": "{bin}: {count} eventos",
+  "analysis.magnitude": "Magnitud",
+  "analysis.events": "Eventos",
+  "analysis.eventCount": "Número de eventos",
+  "analysis.magnitudeFrequency": "Magnitud–frecuencia",
+  "analysis.gutenbergRichter": "Gutenberg–Richter",
+  "analysis.gutenbergRichterPlot": "Gráfico de Gutenberg–Richter",
+  "analysis.completeness": "Magnitud de completitud {magnitude}",
+  "analysis.fit": "b = {b} ± {bUncertainty}, a = {a}, Mc = {mc} (máxima curvatura), a partir de {count} eventos",
+  "analysis.noFit": "Mc = {mc}. Un valor b necesita al menos {count} eventos iguales o superiores a Mc.",
+  "analysis.points": "Los puntos rellenos son N(≥M) y los huecos, N(M).",
+  "analysis.perHour": "Eventos por hora",
+  "analysis.perDay": "Eventos por día",
+  "analysis.hourAxis": "Hora (UTC)",
+  "analysis.dayAxis": "Día (UTC)",
+  "analysis.depthDistribution": "Distribución de profundidad",
+  "analysis.depthAxis": "Profundidad ({unit})",
+  "analysis.magTypes": "Tipos de magnitud",
+  "analysis.networks": "Redes participantes",
+
+  "alerts.title": "Alertas",
+  "alerts.description": "Se comprueban con cada nuevo lote de eventos en directo",
+  "alerts.close": "Cerrar las alertas",
+  "alerts.unsupported": "Este navegador no puede mostrar notificaciones; las alertas solo aparecen abajo.",
+  "alerts.granted": "Las notificaciones están activadas, incluso con esta pestaña en segundo plano.",
+  "alerts.denied":
+    "Las notificaciones están bloqueadas en la configuración del sitio del navegador; las alertas solo aparecen abajo.",
+  "alerts.enable": "Activar notificaciones",
+  "alerts.enableRule": "Activar {name}",
+  "alerts.removeRule": "Quitar {name}",
+  "alerts.defaultName": "Regla {number}",
+  "alerts.name": "Nombre",
+  "alerts.minMagnitude": "Magnitud mínima",
+  "alerts.maxDepth": "Profundidad máxima ({unit})",
+  "alerts.any": "Cualquiera",
+  "alerts.area": "Zona",
+  "alerts.anywhere": "En cualquier lugar",
+  "alerts.customCircle": "Círculo alrededor de un punto…",
+  "alerts.latitude": "Latitud",
+  "alerts.longitude": "Longitud",
+  "alerts.radius": "Radio ({unit})",
+  "alerts.pager": "Alerta PAGER",
+  "alerts.anyLevel": "Cualquiera o ninguna",
+  "alerts.orHigher": "o superior",
+  "alerts.tsunamiOnly": "Solo eventos con el indicador de tsunami",
+  "alerts.invalidMagnitude": "Introduce una magnitud válida",
+  "alerts.invalidDepth": "Introduce una profundidad válida",
+  "alerts.invalidPosition": "Introduce una latitud entre -90 y 90 y una longitud entre -180 y 180",
+  "alerts.invalidRadius": "Introduce un radio mayor que 0 {unit}",
+  "alerts.unreadable": "No se pudo leer el archivo",
+  "alerts.cancel": "Cancelar",
+  "alerts.add": "Añadir regla",
+  "alerts.new": "Nueva regla",
+  "alerts.import": "Importar",
+  "alerts.export": "Exportar",
+  "alerts.log": "Registro de alertas",
+  "alerts.clearLog": "Borrar",
+  "alerts.noAlerts": "Aún no hay alertas.",
+  "alerts.rule.maxDepth": "≤ {depth} de profundidad",
+  "alerts.rule.tsunami": "indicador de tsunami",
+  "alerts.rule.unknownRegion": "región desconocida",
+  "alerts.rule.every": "Todos los eventos",
+  "alerts.notification.many": "{count} sismos coinciden con tus reglas de alerta",
+  "alerts.notification.strongest": "El más fuerte: {event}",
+
+  "comparison.title": "Comparación de regiones",
+  "comparison.description":
+    "Regiones guardadas lado a lado, con los filtros actuales de magnitud, profundidad y tiempo",
+  "comparison.total": "Total de sismos",
+  "comparison.significant": "Magnitud 2.5+",
+  "comparison.strongest": "El más fuerte",
+  "comparison.meanMagnitude": "Magnitud media",
+  "comparison.meanDepth": "Profundidad media",
+
+  "section.chart": "Profundidad de los sismos a lo largo del perfil",
+  "section.distanceAxis": "Distancia a lo largo del perfil ({unit})",
+  "section.depthAxis": "Profundidad ({unit})",
+  "section.point": "{event}, a {depth} de profundidad, a {distance} del inicio",
+
+  "search.startDate": "Fecha de inicio (UTC)",
+  "search.endDate": "Fecha de fin (UTC)",
+  "search.minMagnitude": "Magnitud mínima",
+  "search.maxMagnitude": "Magnitud máxima",
+  "search.minDepth": "Profundidad mínima (km)",
+  "search.maxDepth": "Profundidad máxima (km)",
+  "search.any": "Cualquiera",
+  "search.orderBy": "Ordenar por",
+  "search.order.time": "Más recientes primero",
+  "search.order.time-asc": "Más antiguos primero",
+  "search.order.magnitude": "Más grandes primero",
+  "search.order.magnitude-asc": "Más pequeños primero",
+  "search.limit": "Resultados por página",
+  "search.allResults": "Todos (máx. {limit})",
+  "search.region": "Región",
+  "search.worldwide": "Todo el mundo",
+  "search.box": "Rectángulo envolvente",
+  "search.circle": "Radio alrededor de un punto",
+  "search.latitudeRange": "Rango de latitud",
+  "search.longitudeRange": "Rango de longitud",
+  "search.center": "Centro (lat, lng)",
+  "search.latitude": "Lat",
+  "search.longitude": "Lng",
+  "search.radius": "Radio (km)",
+  "search.radiusExample": "p. ej. 500",
+  "search.split":
+    "Dividir en intervalos de tiempo las búsquedas de más de {limit} eventos (solo al mostrar todos los resultados)",
+  "search.submit": "Buscar",
+  "search.error.startTime": "La fecha de inicio falta o no es válida",
+  "search.error.endTime": "La fecha de fin falta o no es válida",
+  "search.error.timeOrder": "La fecha de inicio debe ser anterior a la de fin",
+  "search.error.notNumber": "{field} debe ser un número",
+  "search.error.magnitudeOrder": "La magnitud mínima no debe superar la máxima",
+  "search.error.depthRange": "La profundidad debe estar entre {min} y {max}",
+  "search.error.depthOrder": "La profundidad mínima no debe superar la máxima",
+  "search.error.limit": "El límite debe ser un número entero entre 1 y {limit}",
+  "search.error.offset": "El desplazamiento debe ser un número entero de al menos 1",
+  "search.error.latitudeRange": "La latitud debe estar entre {min} y {max}",
+  "search.error.longitudeRange": "La longitud debe estar entre {min} y {max}",
+  "search.error.latitudeOrder": "La latitud mínima debe ser menor que la máxima",
+  "search.error.longitudeOrder": "La longitud mínima debe ser menor que la máxima",
+  "search.error.circle": "Una búsqueda por radio necesita latitud, longitud y radio",
+  "search.error.radiusRange": "El radio debe estar entre {min} y {max}",
+
+  "table.title": "Tabla de eventos",
+  "table.count_one": "{count} evento",
+  "table.count_other": "{count} eventos",
+  "table.matching": "{shown} de {total} eventos coinciden",
+  "table.close": "Cerrar la tabla de eventos",
+  "table.search": "Buscar eventos",
+  "table.searchPlaceholder": "Buscar lugar o título",
+  "table.columns": "Columnas visibles",
+  "table.empty": "Ningún evento coincide con la búsqueda.",
+  "table.column.time": "Hora",
+  "table.column.mag": "Magnitud",
+  "table.column.place": "Lugar",
+  "table.column.depth": "Profundidad",
+  "table.column.sig": "Relevancia",
+  "table.column.felt": "Sentido",
+  "table.column.alert": "PAGER",
+  "table.column.status": "Estado",
+  "table.column.net": "Red",
+  "table.column.gap": "Brecha",
+  "table.column.rms": "RMS",
+
+  "export.title_one": "Exportar {count} evento",
+  "export.title_other": "Exportar {count} eventos",
+  "export.records": "El archivo registra la fuente y los filtros: {details}",
+  "export.format": "Formato de exportación",
+  "export.format.csv": "CSV (hojas de cálculo)",
+  "export.format.geojson": "GeoJSON (SIG)",
+  "export.format.kml": "KML (Google Earth)",
+  "export.format.quakeml": "QuakeML 1.2",
+  "export.columns": "Columnas",
+  "export.download": "Descargar .{extension}",
+
+  "sequence.window_one": "Ventana de {distance}, {count} día",
+  "sequence.window_other": "Ventana de {distance}, {count} días",
+  "sequence.omori": "Decaimiento de Omori p = {p} (n ∝ t^-p, sin c)",
+  "sequence.noOmori": "Muy pocas réplicas para ajustar la ley de Omori",
+  "sequence.foreshock": "Sismo precursor",
+  "sequence.aftershock": "Réplica",
+  "sequence.more": "…y {count} más",
+  "sequence.chart": "Tasa de réplicas en el tiempo",
+  "sequence.daysAxis": "Días tras el sismo principal",
+  "sequence.rateAxis": "Réplicas por día",
+  "sequence.bin_one": "{count} réplica entre {from} y {to} días después",
+  "sequence.bin_other": "{count} réplicas entre {from} y {to} días después",
+  "sequence.noAftershocks": "No hay réplicas que representar.",
+
+  "playback.empty": "No hay eventos que reproducir con los filtros actuales.",
+  "playback.play": "Reproducir",
+  "playback.pause": "Pausar",
+  "playback.restart": "Volver al inicio",
+  "playback.speed": "Velocidad de reproducción",
+  "playback.trail": "Duración del rastro",
+  "playback.time": "Momento de la reproducción",
+  "playback.speed.10m": "10 min/s",
+  "playback.speed.1h": "1 hora/s",
+  "playback.speed.6h": "6 horas/s",
+  "playback.speed.1d": "1 día/s",
+  "playback.speed.1w": "1 semana/s",
+  "playback.trail.1h": "Rastro de 1 hora",
+  "playback.trail.6h": "Rastro de 6 horas",
+  "playback.trail.1d": "Rastro de 1 día",
+  "playback.trail.7d": "Rastro de 7 días",
+  "playback.trail.30d": "Rastro de 30 días",
+
+  "map.error": "Error del mapa",
+  "map.initFailed": "No se pudo iniciar el mapa",
+  "map.markersFailed": "Error al añadir los marcadores de sismos",
+  "autoRefresh.requestFailed": "La solicitud falló",
+  "presets.unreadable": "No se pudo leer el archivo",
+  "detail.mechanismLabel": "Mecanismo focal: rumbo {strike}°, buzamiento {dip}°, deslizamiento {rake}°",
+}
@@ -0,0 +1,660 @@
+import type { Messages } from "./en"
+
+export const hi: Messages = {
+  "app.tagline": "रीयल-टाइम भूकंपीय डेटा",
+  "app.title": "भूकंप विज़ुअलाइज़र",
+  "app.subtitle": "इंटरैक्टिव मानचित्रों और रीयल-टाइम डेटा के साथ दुनिया भर की भूकंपीय गतिविधि देखें",
+  "app.lastUpdated": "अंतिम अपडेट: {time}",
+
+  "mode.live": "लाइव",
+  "mode.historical": "ऐतिहासिक",
+
+  "toolbar.filters": "फ़िल्टर",
+  "toolbar.timeLapse": "टाइम-लैप्स",
+  "toolbar.import": "आयात",
+  "toolbar.analysis": "विश्लेषण",
+  "toolbar.table": "तालिका",
+  "toolbar.alerts": "अलर्ट",
+  "toolbar.settings": "सेटिंग्स",
+  "toolbar.compare": "तुलना",
+  "toolbar.presets": "प्रीसेट",
+  "toolbar.refresh": "रीफ़्रेश",
+  "toolbar.export": "निर्यात करें",
+
+  "feed.window": "फ़ीड की अवधि",
+  "feed.magnitude": "फ़ीड की तीव्रता श्रेणी",
+  "feedWindow.hour": "पिछला घंटा",
+  "feedWindow.day": "पिछला दिन",
+  "feedWindow.week": "पिछले 7 दिन",
+  "feedWindow.month": "पिछले 30 दिन",
+  "feedMagnitude.all": "सभी तीव्रताएँ",
+  "feedMagnitude.significant": "महत्वपूर्ण",
+
+  "autoRefresh.label": "स्वतः रीफ़्रेश",
+  "autoRefresh.off": "स्वतः रीफ़्रेश बंद",
+  "autoRefresh.1m": "हर मिनट",
+  "autoRefresh.5m": "हर 5 मिनट",
+  "autoRefresh.stream": "लाइव स्ट्रीम",
+  "autoRefresh.error": "स्वतः रीफ़्रेश: {error}",
+
+  "newEvents.markSeen": "नए भूकंपों को देखा हुआ चिह्नित करें",
+  "newEvents.count_one": "पिछली बार के बाद {count} नया",
+  "newEvents.count_other": "पिछली बार के बाद {count} नए",
+
+  "filters.minMagnitude": "न्यूनतम तीव्रता:",
+  "filters.depth": "गहराई:",
+  "filters.time": "समय अवधि",
+  "timeFilter.15m": "पिछले 15 मिनट",
+  "timeFilter.30m": "पिछले 30 मिनट",
+  "timeFilter.1h": "पिछला घंटा",
+  "timeFilter.6h": "पिछले 6 घंटे",
+  "timeFilter.12h": "पिछले 12 घंटे",
+  "timeFilter.24h": "पिछले 24 घंटे",
+  "timeFilter.3d": "पिछले 3 दिन",
+  "timeFilter.7d": "पिछले 7 दिन",
+  "timeFilter.14d": "पिछले 14 दिन",
+
+  "search.showing": "{total} मिलते भूकंपों में से {from}–{to} दिखाए जा रहे हैं",
+  "search.previous": "पिछला",
+  "search.next": "अगला",
+  "search.loadedChunks": "{chunks} समय अवधियों में {total} भूकंप लोड हुए",
+
+  "stats.total": "कुल भूकंप",
+  "stats.allMagnitudes": "सभी तीव्रताएँ",
+  "stats.magnitudeAtLeast": "तीव्रता {value}+",
+  "stats.inRegion": ", {region} में",
+  "stats.aftershocksHidden": ", आफ़्टरशॉक छिपे हुए",
+  "stats.significant": "महत्वपूर्ण भूकंप",
+  "stats.strongest": "सबसे तेज़ भूकंप",
+  "stats.maximumMagnitude": "अधिकतम तीव्रता",
+  "stats.average": "औसत तीव्रता",
+  "stats.meanMagnitude": "माध्य तीव्रता",
+
+  "map.title": "इंटरैक्टिव भूकंप मानचित्र",
+  "map.loading": "मानचित्र लोड हो रहा है...",
+  "map.description": "रंगीन मार्करों से भूकंपों के स्थान और तीव्रता देखें",
+  "map.drawSectionHint": "क्रॉस-सेक्शन रेखा के आरंभ और फिर अंत पर क्लिक करें",
+  "map.textView": "टेक्स्ट दृश्य",
+  "map.sectionWidth": "क्रॉस-सेक्शन की चौड़ाई",
+  "map.drawSection": "क्रॉस-सेक्शन बनाएँ",
+  "map.cancelDrawing": "बनाना रद्द करें",
+  "map.label": "भूकंप मानचित्र। नीचे की पट्टी में तीर कुंजियों से भूकंपों पर जाएँ, या टेक्स्ट दृश्य पर जाएँ।",
+  "map.clustered": "{count} भूकंप: समूहित दृश्य, विवरण के लिए ज़ूम इन करें",
+
+  "tooltip.title": "M{magnitude} भूकंप",
+  "tooltip.depth": "गहराई: {depth}",
+  "tooltip.details": "विवरण के लिए क्लिक करें",
+  "tooltip.cluster": "{count} भूकंप, सबसे बड़ा M{magnitude}",
+  "tooltip.lowQuality": "कम सटीक स्थान: {issues}",
+  "tooltip.catalog": "{catalog}: M{magnitude}",
+  "tooltip.catalogOffset": "लोड किए गए भूकंप से {distance} और {time} दूर",
+  "tooltip.catalogUnmatched": "लोड किए गए भूकंपों में नहीं",
+
+  "stale.unreachable": "लाइव फ़ीड तक नहीं पहुँचा जा सका।",
+  "stale.offline": "आप ऑफ़लाइन हैं।",
+  "stale.savedCopy": "इस डिवाइस पर सहेजा गया डेटा दिखाया जा रहा है, जो {time} से पुराना है।",
+  "stale.retry": "फिर से कोशिश करें",
+
+  "error.title": "भूकंप डेटा लोड करने में त्रुटि",
+  "error.loadFailed": "भूकंप डेटा लोड नहीं हो सका",
+  "error.tryLater": "{message}। कृपया बाद में फिर से कोशिश करें।",
+  "error.searchLimit": "{message}। खोज को सीमित करें, पेज का आकार तय करें या इसे समय अवधियों में बाँटें।",
+  "error.catalogOnly": "{error} केवल आयात किया गया कैटलॉग दिखाया जा रहा है।",
+  "error.split": "समय अवधियों में बाँटें",
+  "error.tryAgain": "फिर से कोशिश करें",
+
+  "section.title": "क्रॉस-सेक्शन A–B",
+  "section.summary": "{length} लंबी रेखा से {width} के भीतर {count} भूकंप",
+  "section.close": "क्रॉस-सेक्शन बंद करें",
+
+  "significant.title": "हाल के महत्वपूर्ण भूकंप",
+  "significant.description": "तीव्रता {value}+ के भूकंप",
+  "significant.none": "कोई भी महत्वपूर्ण भूकंप मौजूदा फ़िल्टर से मेल नहीं खाता",
+  "significant.fromHome": "घर से {distance} {bearing}",
+  "badge.new": "नया",
+  "badge.imported": "आयातित",
+  "magnitudeClass.major": "बड़ा",
+  "magnitudeClass.moderate": "मध्यम",
+  "magnitudeClass.light": "हल्का",
+  "magnitudeClass.minor": "छोटा",
+  "magnitudeClass.micro": "सूक्ष्म",
+  "sequence.aftershocks_one": "{count} आफ़्टरशॉक",
+  "sequence.aftershocks_other": "{count} आफ़्टरशॉक",
+  "sequence.foreshocks_one": ", {count} फ़ोरशॉक",
+  "sequence.foreshocks_other": ", {count} फ़ोरशॉक",
+
+  "navigator.instructions":
+    "मानचित्र के भूकंप {order} के क्रम में। अगले {direction} भूकंप के लिए दायाँ या नीचे का तीर, पिछले के लिए बायाँ या ऊपर का तीर, और किसी भी छोर के लिए Home और End।",
+  "navigator.later": "बाद वाले",
+  "navigator.larger": "बड़े",
+  "navigator.empty": "मानचित्र पर कोई भूकंप नहीं",
+  "navigator.position": "{total} में से {position}: {event}",
+  "navigator.start_one": "{count} भूकंप। यहाँ फ़ोकस करें और तीर कुंजियों से इस पर जाएँ।",
+  "navigator.start_other": "{count} भूकंप। यहाँ फ़ोकस करें और तीर कुंजियों से एक-एक करके इन पर जाएँ।",
+  "navigator.previous": "पिछला भूकंप",
+  "navigator.next": "अगला भूकंप",
+  "navigator.order": "भूकंपों का क्रम",
+  "navigator.roleDescription": "भूकंप नेविगेटर",
+  "order.time": "समय से",
+  "order.magnitude": "तीव्रता से",
+  "order.timeName": "समय",
+  "order.magnitudeName": "तीव्रता",
+
+  "textView.label": "मानचित्र का टेक्स्ट दृश्य",
+  "textView.empty": "मानचित्र पर कोई भूकंप नहीं।",
+  "textView.summaryTime_one": "मानचित्र पर {count} भूकंप, सबसे नया पहले। विवरण देखने के लिए कोई एक चुनें।",
+  "textView.summaryTime_other": "मानचित्र पर {count} भूकंप, सबसे नए पहले। विवरण देखने के लिए कोई एक चुनें।",
+  "textView.summaryMagnitude_one": "मानचित्र पर {count} भूकंप, सबसे बड़ा पहले। विवरण देखने के लिए कोई एक चुनें।",
+  "textView.summaryMagnitude_other": "मानचित्र पर {count} भूकंप, सबसे बड़े पहले। विवरण देखने के लिए कोई एक चुनें।",
+  "textView.more": "{remaining} में से {count} और दिखाएँ",
+
+  "describe.event": "तीव्रता {magnitude}, {place}, {depth} गहराई, {time}",
+  "describe.unknownPlace": "अज्ञात स्थान",
+  "announce.showingAll_one": "{count} भूकंप दिखाया जा रहा है",
+  "announce.showingAll_other": "सभी {count} भूकंप दिखाए जा रहे हैं",
+  "announce.showingSome": "{total} में से {shown} भूकंप दिखाए जा रहे हैं",
+  "announce.arrival": "नया भूकंप: {event}",
+  "announce.arrivals": "{count} नए भूकंप, सबसे बड़ा तीव्रता {magnitude}, {place}",
+
+  "settings.title": "सेटिंग्स",
+  "settings.description": "पूरे पेज और उसके निर्यात के लिए भाषा, समय और इकाइयाँ",
+  "settings.close": "सेटिंग्स बंद करें",
+  "settings.language": "भाषा",
+  "settings.timeZone": "समय क्षेत्र",
+  "settings.units": "दूरी और गहराई",
+  "settings.dateFormat": "तारीख़ का प्रारूप",
+  "settings.eventTimeNote":
+    "भूकंप का स्थानीय समय फ़ीड में दिए गए उस भूकंप के समय क्षेत्र से लिया जाता है; न होने पर देशांतर से अनुमान लगाया जाता है, जिसे ≈ से दिखाया जाता है।",
+  "timeZone.local": "स्थानीय समय (यह डिवाइस)",
+  "timeZone.utc": "UTC",
+  "timeZone.event": "भूकंप का स्थानीय समय",
+  "units.km": "किलोमीटर",
+  "units.mi": "मील",
+  "dateFormat.locale": "भाषा के अनुसार",
+  "dateFormat.iso": "ISO 8601 (2024-05-31)",
+  "dateFormat.dmy": "दिन/महीना/साल (31/05/2024)",
+  "dateFormat.mdy": "महीना/दिन/साल (05/31/2024)",
+
+  "quality.title": "डेटा गुणवत्ता",
+  "quality.description": "समीक्षा की स्थिति, रिपोर्ट करने वाला नेटवर्क और स्थान की अनिश्चितता",
+  "quality.lowQuality_one": "{count} भूकंप का स्थान कम सटीक है, इसे हल्के रंग और टूटी रेखा से दिखाया गया है।",
+  "quality.lowQuality_other": "{count} भूकंपों के स्थान कम सटीक हैं, इन्हें हल्के रंग और टूटी रेखा से दिखाया गया है।",
+  "quality.reviewedOnly": "केवल भूकंपविज्ञानी द्वारा समीक्षित भूकंप",
+  "quality.networks": "नेटवर्क",
+  "quality.types": "घटना के प्रकार",
+  "quality.maxGap": "अधिकतम दिगंशीय अंतराल",
+  "quality.maxRms": "अधिकतम RMS अवशेष",
+  "quality.any": "कोई भी",
+  "quality.gapValue": "{value}°",
+  "quality.rmsValue": "{value} से.",
+  "quality.reset": "रीसेट करें",
+  "quality.issue.gap": "बड़ा दिगंशीय अंतराल",
+  "quality.issue.rms": "उच्च RMS अवशेष",
+  "quality.issue.stations": "कम स्टेशन",
+  "revisions.title": "संशोधित भूकंप",
+  "revisions.clear": "साफ़ करें",
+  "revisions.empty":
+    "अभी कोई संशोधन नहीं। लाइव फ़ीड के हर रीफ़्रेश की तुलना इस डिवाइस पर देखे गए पिछले संस्करण से की जाती है।",
+  "revisions.magnitude": "M{previous} → M{current}",
+  "revisions.epicenter": "{distance} खिसका",
+  "revisions.depth": "गहराई {previous} → {current}",
+
+  "catalogs.title": "कैटलॉग तुलना",
+  "catalogs.description": "लोड किए गए भूकंपों का अन्य एजेंसियों के कैटलॉग से मिलान करें",
+  "catalogs.close": "कैटलॉग तुलना बंद करें",
+  "catalogs.tolerance": "एक ही भूकंप, यदि अंतर इससे कम हो",
+  "catalogs.toleranceValue": "{seconds} s और {distance}",
+  "catalogs.noEvents": "पहले कुछ भूकंप लोड करें; अन्य कैटलॉग से उसी समयावधि का डेटा माँगा जाता है।",
+  "catalogs.file": "स्थानीय फ़ाइल",
+  "catalogs.chooseFile": "तुलना के लिए कैटलॉग फ़ाइल चुनें",
+  "catalogs.error": "लोड नहीं हो सका: {error}",
+  "catalogs.summary": "{matched} मिलान · {unmatched} केवल इस कैटलॉग में · {missing} इसमें नहीं",
+  "catalogs.truncated_one": "केवल सबसे नया {count} भूकंप लौटाया गया।",
+  "catalogs.truncated_other": "केवल सबसे नए {count} भूकंप लौटाए गए।",
+  "catalogs.medians": "माध्यिका अंतर, {catalog} घटा लोड किए गए",
+  "catalogs.magnitude": "तीव्रता",
+  "catalogs.epicenter": "अधिकेंद्र",
+  "catalogs.depth": "गहराई",
+  "catalogs.originTime": "उत्पत्ति समय",
+  "catalogs.largest": "तीव्रता में सबसे बड़े अंतर",
+  "catalogs.match": "यहाँ M{primary}, {catalog} में M{other}",
+  "catalogs.offset": "{distance} दूर, {time}",
+
+  "presets.title": "प्रीसेट",
+  "presets.description": "नाम वाले वर्कस्पेस: फ़ीड, फ़िल्टर, क्षेत्र, मानचित्र दृश्य, ओवरले और रंग मोड",
+  "presets.close": "प्रीसेट बंद करें",
+  "presets.storage": "प्रीसेट कहाँ रखें",
+  "presets.storageLocal": "इस ब्राउज़र में",
+  "presets.storageServer": "सर्वर पर",
+  "presets.workspace": "वर्कस्पेस आईडी",
+  "presets.openWorkspace": "खोलें",
+  "presets.workspaceHint":
+    "यही प्रीसेट किसी अन्य ब्राउज़र में इस्तेमाल करने के लिए वहाँ यह आईडी डालें। जिसे भी यह आईडी पता है, वह इन्हें बदल सकता है।",
+  "presets.error": "प्रीसेट सिंक नहीं हो सके: {error}",
+  "presets.loading": "प्रीसेट लोड हो रहे हैं…",
+  "presets.empty": "अभी कोई प्रीसेट नहीं। मानचित्र और फ़िल्टर सेट करें, फिर उन्हें एक नाम से सहेजें।",
+  "presets.apply": "यह प्रीसेट लागू करें",
+  "presets.pinned": "लोड पर खुलता है",
+  "presets.saved": "सहेजा गया {time}",
+  "presets.pin": "पेज लोड होने पर यह प्रीसेट खोलें",
+  "presets.unpin": "पेज लोड होने पर यह प्रीसेट न खोलें",
+  "presets.update": "वर्तमान दृश्य से बदलें",
+  "presets.remove": "प्रीसेट हटाएँ",
+  "presets.namePlaceholder": "उदा. रिंग ऑफ़ फ़ायर M4.5+ सप्ताह",
+  "presets.save": "सहेजें",
+  "presets.full": "अधिकतम {count} प्रीसेट रखे जा सकते हैं।",
+  "presets.import": "आयात",
+  "presets.export": "निर्यात",
+
+  "legend.title": "{mode} पैमाना",
+  "legend.colorBy": "मार्करों का रंग इसके अनुसार",
+  "legend.byMode": "{mode} के अनुसार",
+  "legend.palette": "रंग पैलेट",
+  "legend.shapes": "आकृतियाँ",
+  "colorMode.magnitude": "तीव्रता",
+  "colorMode.depth": "गहराई",
+  "colorMode.age": "आयु",
+  "colorMode.boundary": "प्लेट सीमा",
+  "palette.default": "डिफ़ॉल्ट",
+  "palette.okabe-ito": "Okabe–Ito (वर्णांधता के लिए सुरक्षित)",
+  "palette.viridis": "Viridis (वर्णांधता के लिए सुरक्षित)",
+  "legend.magnitude.micro": "आमतौर पर महसूस नहीं होता",
+  "legend.magnitude.minor": "शायद ही कभी महसूस होता है",
+  "legend.magnitude.light": "अक्सर महसूस होता है",
+  "legend.magnitude.moderate": "नुकसानदायक",
+  "legend.magnitude.major": "गंभीर नुकसान",
+  "legend.depth.shallow": "उथला",
+  "legend.depth.intermediate": "मध्यवर्ती",
+  "legend.depth.deep": "गहरा",
+  "legend.depth.crustal": "भूपर्पटी में",
+  "legend.depth.upperMantle": "ऊपरी मेंटल",
+  "legend.depth.slab": "धँसती प्लेटों के भीतर",
+  "legend.depth.deepest": "प्लेटों की सबसे गहरी भूकंपीयता",
+  "legend.depthRange": "{from}–{to} {unit}",
+  "legend.depthFrom": "{from}+ {unit}",
+  "legend.age.hour": "पिछला घंटा",
+  "legend.age.day": "पिछला दिन",
+  "legend.age.week": "पिछला सप्ताह",
+  "legend.age.month": "पिछला महीना",
+  "legend.age.older": "पुराने",
+  "legend.age.hourRange": "<1 घंटा",
+  "legend.age.dayRange": "1–24 घंटे",
+  "legend.age.weekRange": "1–7 दिन",
+  "legend.age.monthRange": "7–30 दिन",
+  "legend.age.olderRange": "30+ दिन",
+  "legend.boundary.description": "घटना के सबसे निकट की सीमा",
+  "boundary.ridge": "प्रसारी कटक",
+  "boundary.trench": "सबडक्शन खाई",
+  "boundary.transform": "रूपांतरण भ्रंश",
+  "boundary.collision": "महाद्वीपीय टक्कर",
+
+  "basemap.street": "सड़क",
+  "basemap.satellite": "उपग्रह",
+  "basemap.terrain": "भू-भाग",
+  "basemap.dark": "गहरा",
+  "basemap.local": "स्थानीय टाइलें",
+  "basemap.none": "कोई आधार मानचित्र नहीं (तटरेखाएँ)",
+  "overlay.plates": "प्लेट सीमाएँ",
+  "overlay.faults": "प्रमुख भ्रंश",
+  "overlay.volcanoes": "ज्वालामुखी",
+  "overlay.fault.thrust": "थ्रस्ट भ्रंश",
+  "overlay.fault.normal": "सामान्य भ्रंश",
+  "overlay.fault.strike-slip": "स्ट्राइक-स्लिप भ्रंश",
+  "overlay.volcano.stratovolcano": "स्ट्रैटोज्वालामुखी",
+  "overlay.volcano.shield": "शील्ड ज्वालामुखी",
+  "overlay.volcano.caldera": "काल्डेरा",
+
+  "detail.label": "घटना का विवरण",
+  "detail.untitled": "घटना {id}",
+  "detail.close": "घटना का विवरण बंद करें",
+  "detail.status.automatic": "स्वचालित",
+  "detail.status.reviewed": "समीक्षित",
+  "detail.status.deleted": "हटाया गया",
+  "detail.status.unknown": "अज्ञात",
+  "detail.tsunami": "सुनामी संकेत",
+  "detail.significance": "महत्व {value}",
+  "detail.latitude": "अक्षांश",
+  "detail.longitude": "देशांतर",
+  "detail.depth": "गहराई",
+  "detail.stations": "स्टेशन",
+  "detail.gap": "दिगंशीय अंतराल",
+  "detail.rms": "RMS",
+  "detail.felt": "महसूस होने की रिपोर्टें",
+  "detail.maxCdi": "अधिकतम CDI",
+  "detail.maxMmi": "अधिकतम MMI",
+  "detail.fromHome": "घर से",
+  "detail.homeIntensity": "घर पर अनुमानित तीव्रता",
+  "detail.intensityMethod":
+    "Allen, Wald और Worden (2012) के तीव्रता पूर्वानुमान समीकरण से माध्यिका और एक-सिग्मा सीमा, घटना को औसत ज़मीन पर एक बिंदु स्रोत मानते हुए।",
+  "detail.intensityExtrapolated":
+    "यह तीव्रता या दूरी उस डेटा से बाहर है जिस पर समीकरण बनाया गया था, इसलिए यह बहिर्वेशन है।",
+  "detail.intensityObserved": "वास्तव में क्या देखा गया, यह जानने के लिए ShakeMap और महसूस होने की रिपोर्टें देखें।",
+  "detail.imported": "यह घटना एक आयात की गई फ़ाइल से है, इसलिए इसके लिए USGS उत्पाद नहीं हैं।",
+  "detail.loading": "USGS उत्पाद लोड हो रहे हैं…",
+  "detail.notFound": "यह घटना अब USGS सूची में नहीं है।",
+  "detail.loadFailed": "घटना का विवरण लोड नहीं हो सका",
+  "detail.origins": "उद्गम",
+  "detail.source": "स्रोत",
+  "detail.magnitude": "तीव्रता",
+  "detail.review": "समीक्षा",
+  "detail.preferred": "पसंदीदा",
+  "detail.magnitudes": "तीव्रता के अनुमान",
+  "detail.momentTensor": "मोमेंट टेंसर",
+  "detail.focalMechanism": "फ़ोकल तंत्र",
+  "detail.nodalPlane": "नोडल तल {number}",
+  "detail.faulting": "भ्रंशन",
+  "faulting.strike-slip": "स्ट्राइक-स्लिप",
+  "faulting.normal": "सामान्य",
+  "faulting.reverse": "उत्क्रम",
+  "faulting.oblique": "तिर्यक",
+  "detail.derivedMagnitude": "व्युत्पन्न तीव्रता",
+  "detail.doubleCouple": "डबल कपल",
+  "detail.mechanismNote": "स्ट्राइक / डिप / रेक; निचले गोलार्ध का प्रक्षेपण।",
+  "detail.shaking": "कंपन और प्रभाव",
+  "detail.shakemapMmi": "ShakeMap अधिकतम MMI",
+  "detail.maxPga": "अधिकतम PGA",
+  "detail.maxPgv": "अधिकतम PGV",
+  "detail.dyfiIntensity": "DYFI अधिकतम तीव्रता",
+  "detail.dyfiResponses": "DYFI प्रतिक्रियाएँ",
+  "detail.pagerAlert": "PAGER चेतावनी",
+  "detail.pagerNone": "कोई नहीं",
+  "detail.shakemapImage": "ShakeMap तीव्रता मानचित्र",
+  "detail.networks": "योगदान देने वाले नेटवर्क",
+  "detail.copied": "लिंक कॉपी हो गया",
+  "detail.copyPermalink": "स्थायी लिंक कॉपी करें",
+  "detail.eventPage": "USGS घटना पृष्ठ",
+
+  "home.title": "घर के पास",
+  "home.marker": "घर",
+  "home.picking": "घर रखने के लिए मानचित्र पर क्लिक करें",
+  "home.fromLocation": "{position} (आपका स्थान)",
+  "home.fromMap": "{position} (मानचित्र पर चुना गया)",
+  "home.prompt": "दूरी और अनुमानित कंपन देखने के लिए घर का स्थान चुनें",
+  "home.myLocation": "मेरा स्थान",
+  "home.pick": "मानचित्र पर चुनें",
+  "home.clear": "घर का स्थान हटाएँ",
+  "home.unsupported": "यह ब्राउज़र अपना स्थान साझा नहीं कर सकता; इसके बजाय मानचित्र पर घर चुनें",
+  "home.denied": "स्थान की अनुमति नहीं मिली; इसके बजाय मानचित्र पर घर चुनें",
+  "home.unavailable": "आपका स्थान निर्धारित नहीं किया जा सका",
+  "home.radius": "घर के आसपास की त्रिज्या",
+  "home.within": "{distance} के भीतर",
+  "home.sort": "आसपास की घटनाएँ क्रमबद्ध करें",
+  "home.sortDistance": "सबसे नज़दीकी पहले",
+  "home.sortRecent": "सबसे हाल के पहले",
+  "home.none": "{distance} के भीतर कोई घटना नहीं।",
+  "home.extrapolated": "समीकरण की अंशांकित सीमा से बाहर",
+  "home.more": "…और {count} अन्य",
+  "home.mmiNote":
+    "MMI उथले क्रस्टल भूकंपों के लिए Allen, Wald और Worden (2012) के तीव्रता पूर्वानुमान समीकरण से एक मोटा माध्य अनुमान है। यह घटना को एक बिंदु मानता है और स्थानीय मिट्टी, टूटन के आकार और दिशा को अनदेखा करता है, इसलिए वास्तविक कंपन आसानी से एक या दो तीव्रता इकाई अलग हो सकता है, गहरी या सबडक्शन घटनाओं में और भी अधिक। * उन घटनाओं को चिह्नित करता है जो M{minMagnitude}–{maxMagnitude} से बाहर या {maxDistance} से दूर हैं, जहाँ इसका बहिर्वेशन किया गया है। यह ShakeMap या आधिकारिक चेतावनियों का विकल्प नहीं है।",
+
+  "regions.title": "क्षेत्र",
+  "regions.prompt": "हर कार्ड और सूची को फ़िल्टर करने के लिए कोई क्षेत्र बनाएँ या चुनें",
+  "regions.tool.rectangle": "आयत",
+  "regions.tool.circle": "वृत्त",
+  "regions.tool.polygon": "बहुभुज",
+  "regions.hint.rectangle": "दो आमने-सामने के कोनों पर क्लिक करें",
+  "regions.hint.circle": "केंद्र पर, फिर किनारे के किसी बिंदु पर क्लिक करें",
+  "regions.hint.polygon": "हर शीर्ष पर क्लिक करें, फिर पहले पर दोबारा क्लिक करें या डबल-क्लिक करें",
+  "regions.named": "नामित क्षेत्र",
+  "regions.pickNamed": "कोई देश या भूकंपीय क्षेत्र चुनें",
+  "regions.loading": "क्षेत्र लोड हो रहे हैं...",
+  "regions.collection.country": "देश",
+  "regions.collection.seismic": "Flinn-Engdahl भूकंपीय क्षेत्र",
+  "regions.worldwide": "विश्वभर",
+  "regions.events_one": "{count} घटना",
+  "regions.events_other": "{count} घटनाएँ",
+  "regions.remove": "{name} हटाएँ",
+  "regions.name.rectangle": "आयत {number}",
+  "regions.name.circle": "वृत्त {number}",
+  "regions.name.polygon": "बहुभुज {number}",
+  "regions.name.named": "क्षेत्र {number}",
+  "regions.circle": "{position} के आसपास {radius}",
+  "regions.polygon_one": "{count} शीर्ष वाला बहुभुज",
+  "regions.polygon_other": "{count} शीर्षों वाला बहुभुज",
+
+  "sequence.title": "अनुक्रम",
+  "sequence.summary": "{sequences} अनुक्रम, जिनमें {aftershocks} आफ़्टरशॉक और {foreshocks} फ़ोरशॉक हैं",
+  "sequence.prompt": "स्थान-समय खिड़कियों से फ़ोरशॉक और आफ़्टरशॉक को उनके मुख्य भूकंप के साथ समूहित करें",
+  "sequence.grouping": "अनुक्रम समूहित हो रहे हैं",
+  "sequence.group": "अनुक्रम समूहित करें",
+  "sequence.windows": "डीक्लस्टरिंग खिड़कियाँ",
+  "sequence.scale": "खिड़की का पैमाना",
+  "sequence.hidden": "आँकड़ों से आफ़्टरशॉक छिपे हैं",
+  "sequence.hide": "आँकड़ों से आफ़्टरशॉक छिपाएँ",
+
+  "import.title": "कैटलॉग आयात करें",
+  "import.description":
+    "GeoJSON, USGS-शैली CSV या QuakeML फ़ाइल लोड करें। यह इसी ब्राउज़र में रहती है और बिना कनेक्शन के भी काम करती है।",
+  "import.unreadable": "फ़ाइल पढ़ी नहीं जा सकी",
+  "import.drop": "कैटलॉग फ़ाइल यहाँ छोड़ें, या",
+  "import.choose": "फ़ाइल चुनें",
+  "import.layer": "आयातित परत",
+  "import.liveFeed": "लाइव फ़ीड",
+  "import.searchResults": "खोज परिणाम",
+  "import.remove": "आयातित कैटलॉग हटाएँ",
+  "import.summary_one": "{count} घटना आयात की गई।",
+  "import.summary_other": "{count} घटनाएँ आयात की गईं।",
+  "import.skipped_one": "{count} प्रविष्टि छोड़ी गई।",
+  "import.skipped_other": "{count} प्रविष्टियाँ छोड़ी गईं।",
+  "import.outlined": "आयातित घटनाएँ मानचित्र पर काली रेखा से घिरी दिखती हैं।",
+  "import.more": "…और {count} अन्य",
+  "import.location.file": "फ़ाइल",
+  "import.location.response": "प्रतिक्रिया",
+  "import.location.feature": "फ़ीचर {index}",
+  "import.location.line": "पंक्ति {index}",
+  "import.location.event": "घटना {index}",
+  "import.problem.timeMissing": "समय अनुपस्थित है",
+  "import.problem.timeInvalid": "समय \"{value}\" मान्य तिथि नहीं है",
+  "import.problem.latitude": "अक्षांश -90 और 90 के बीच होना चाहिए",
+  "import.problem.longitude": "देशांतर -180 और 180 के बीच होना चाहिए",
+  "import.problem.depth": "गहराई \"{value}\" एक संख्या नहीं है",
+  "import.problem.magMissing": "परिमाण अनुपस्थित है",
+  "import.problem.magInvalid": "परिमाण एक संख्या नहीं है",
+  "import.problem.duplicate": "दोहराया गया घटना id {id}",
+  "import.problem.notPoint": "ज्यामिति Point होनी चाहिए",
+  "import.problem.invalidJson": "मान्य JSON नहीं है ({detail})",
+  "import.problem.notGeoJson": "GeoJSON FeatureCollection अपेक्षित था",
+  "import.problem.empty": "फ़ाइल खाली है",
+  "import.problem.columns": "शीर्षक में {columns} स्तंभ नहीं है",
+  "import.problem.invalidXml": "मान्य XML नहीं है ({detail})",
+  "import.problem.noEvents": "कोई QuakeML घटना नहीं मिली",
+  "import.problem.noOrigin": "घटना का कोई उद्गम नहीं है",
+
+  "analysis.title": "विश्लेषण",
+  "analysis.summary_one": "मौजूदा फ़िल्टर के बाद {count} घटना। समय UTC में हैं।",
+  "analysis.summary_other": "मौजूदा फ़िल्टर के बाद {count} घटनाएँ। समय UTC में हैं।",
+  "analysis.close": "विश्लेषण बंद करें",
+  "analysis.empty": "मौजूदा फ़िल्टर से कोई घटना मेल नहीं खाती।",
+  "analysis.chart": "{x} के अनुसार {y}",
+  "analysis.binEvents_one": "{bin}: {count} घटना",
+  "analysis.binEvents_other": "{bin}: {count} घटनाएँ",
+  "analysis.magnitude": "तीव्रता",
+  "analysis.events": "घटनाएँ",
+  "analysis.eventCount": "घटनाओं की संख्या",
+  "analysis.magnitudeFrequency": "तीव्रता–आवृत्ति",
+  "analysis.gutenbergRichter": "गुटेनबर्ग–रिक्टर",
+  "analysis.gutenbergRichterPlot": "गुटेनबर्ग–रिक्टर आलेख",
+  "analysis.completeness": "पूर्णता तीव्रता {magnitude}",
+  "analysis.fit": "b = {b} ± {bUncertainty}, a = {a}, Mc = {mc} (अधिकतम वक्रता), {count} घटनाओं से",
+  "analysis.noFit": "Mc = {mc}। b-मान के लिए Mc या उससे ऊपर कम से कम {count} घटनाएँ चाहिए।",
+  "analysis.points": "भरे बिंदु N(≥M) हैं, खोखले बिंदु N(M)।",
+  "analysis.perHour": "प्रति घंटा घटनाएँ",
+  "analysis.perDay": "प्रति दिन घटनाएँ",
+  "analysis.hourAxis": "घंटा (UTC)",
+  "analysis.dayAxis": "दिन (UTC)",
+  "analysis.depthDistribution": "गहराई वितरण",
+  "analysis.depthAxis": "गहराई ({unit})",
+  "analysis.magTypes": "तीव्रता के प्रकार",
+  "analysis.networks": "योगदान देने वाले नेटवर्क",
+
+  "alerts.title": "अलर्ट",
+  "alerts.description": "लाइव घटनाओं के हर नए समूह पर जाँचे जाते हैं",
+  "alerts.close": "अलर्ट बंद करें",
+  "alerts.unsupported": "यह ब्राउज़र सूचनाएँ नहीं दिखा सकता; अलर्ट केवल नीचे दिखते हैं।",
+  "alerts.granted": "सूचनाएँ चालू हैं, तब भी जब यह टैब पृष्ठभूमि में हो।",
+  "alerts.denied": "ब्राउज़र की साइट सेटिंग में सूचनाएँ अवरुद्ध हैं; अलर्ट केवल नीचे दिखते हैं।",
+  "alerts.enable": "सूचनाएँ चालू करें",
+  "alerts.enableRule": "{name} चालू करें",
+  "alerts.removeRule": "{name} हटाएँ",
+  "alerts.defaultName": "नियम {number}",
+  "alerts.name": "नाम",
+  "alerts.minMagnitude": "न्यूनतम तीव्रता",
+  "alerts.maxDepth": "अधिकतम गहराई ({unit})",
+  "alerts.any": "कोई भी",
+  "alerts.area": "क्षेत्र",
+  "alerts.anywhere": "कहीं भी",
+  "alerts.customCircle": "किसी बिंदु के आसपास वृत्त…",
+  "alerts.latitude": "अक्षांश",
+  "alerts.longitude": "देशांतर",
+  "alerts.radius": "त्रिज्या ({unit})",
+  "alerts.pager": "PAGER अलर्ट",
+  "alerts.anyLevel": "कोई भी या कोई नहीं",
+  "alerts.orHigher": "या उससे ऊपर",
+  "alerts.tsunamiOnly": "केवल सुनामी चिह्न वाली घटनाएँ",
+  "alerts.invalidMagnitude": "मान्य तीव्रता दर्ज करें",
+  "alerts.invalidDepth": "मान्य गहराई दर्ज करें",
+  "alerts.invalidPosition": "-90 और 90 के बीच अक्षांश और -180 और 180 के बीच देशांतर दर्ज करें",
+  "alerts.invalidRadius": "0 {unit} से अधिक त्रिज्या दर्ज करें",
+  "alerts.unreadable": "फ़ाइल पढ़ी नहीं जा सकी",
+  "alerts.cancel": "रद्द करें",
+  "alerts.add": "नियम जोड़ें",
+  "alerts.new": "नया नियम",
+  "alerts.import": "आयात करें",
+  "alerts.export": "निर्यात करें",
+  "alerts.log": "अलर्ट लॉग",
+  "alerts.clearLog": "साफ़ करें",
+  "alerts.noAlerts": "अभी तक कोई अलर्ट नहीं।",
+  "alerts.rule.maxDepth": "≤ {depth} गहराई",
+  "alerts.rule.tsunami": "सुनामी चिह्न",
+  "alerts.rule.unknownRegion": "अज्ञात क्षेत्र",
+  "alerts.rule.every": "हर घटना",
+  "alerts.notification.many": "{count} भूकंप आपके अलर्ट नियमों से मेल खाते हैं",
+  "alerts.notification.strongest": "सबसे तेज़: {event}",
+
+  "comparison.title": "क्षेत्र तुलना",
+  "comparison.description": "सहेजे गए क्षेत्र साथ-साथ, मौजूदा तीव्रता, गहराई और समय फ़िल्टर के साथ",
+  "comparison.total": "कुल भूकंप",
+  "comparison.significant": "तीव्रता 2.5+",
+  "comparison.strongest": "सबसे तेज़",
+  "comparison.meanMagnitude": "माध्य तीव्रता",
+  "comparison.meanDepth": "माध्य गहराई",
+
+  "section.chart": "खंड के साथ भूकंपों की गहराई",
+  "section.distanceAxis": "खंड के साथ दूरी ({unit})",
+  "section.depthAxis": "गहराई ({unit})",
+  "section.point": "{event}, {depth} गहराई, आरंभ से {distance}",
+
+  "search.startDate": "आरंभ तिथि (UTC)",
+  "search.endDate": "समाप्ति तिथि (UTC)",
+  "search.minMagnitude": "न्यूनतम तीव्रता",
+  "search.maxMagnitude": "अधिकतम तीव्रता",
+  "search.minDepth": "न्यूनतम गहराई (km)",
+  "search.maxDepth": "अधिकतम गहराई (km)",
+  "search.any": "कोई भी",
+  "search.orderBy": "क्रम",
+  "search.order.time": "सबसे नए पहले",
+  "search.order.time-asc": "सबसे पुराने पहले",
+  "search.order.magnitude": "सबसे बड़े पहले",
+  "search.order.magnitude-asc": "सबसे छोटे पहले",
+  "search.limit": "प्रति पृष्ठ परिणाम",
+  "search.allResults": "सभी (अधिकतम {limit})",
+  "search.region": "क्षेत्र",
+  "search.worldwide": "विश्वभर",
+  "search.box": "सीमा आयत",
+  "search.circle": "बिंदु के आसपास त्रिज्या",
+  "search.latitudeRange": "अक्षांश सीमा",
+  "search.longitudeRange": "देशांतर सीमा",
+  "search.center": "केंद्र (lat, lng)",
+  "search.latitude": "अक्षांश",
+  "search.longitude": "देशांतर",
+  "search.radius": "त्रिज्या (km)",
+  "search.radiusExample": "जैसे 500",
+  "search.split": "{limit} से अधिक घटनाओं वाली खोजों को समय अवधियों में बाँटें (केवल सभी परिणाम दिखाते समय)",
+  "search.submit": "खोजें",
+  "search.error.startTime": "आरंभ समय अनुपस्थित या अमान्य है",
+  "search.error.endTime": "अंत समय अनुपस्थित या अमान्य है",
+  "search.error.timeOrder": "आरंभ समय अंत समय से पहले होना चाहिए",
+  "search.error.notNumber": "{field} एक संख्या होनी चाहिए",
+  "search.error.magnitudeOrder": "न्यूनतम परिमाण अधिकतम परिमाण से अधिक नहीं होना चाहिए",
+  "search.error.depthRange": "गहराई {min} और {max} के बीच होनी चाहिए",
+  "search.error.depthOrder": "न्यूनतम गहराई अधिकतम गहराई से अधिक नहीं होनी चाहिए",
+  "search.error.limit": "सीमा 1 और {limit} के बीच एक पूर्ण संख्या होनी चाहिए",
+  "search.error.offset": "ऑफ़सेट कम से कम 1 की पूर्ण संख्या होनी चाहिए",
+  "search.error.latitudeRange": "अक्षांश {min} और {max} के बीच होना चाहिए",
+  "search.error.longitudeRange": "देशांतर {min} और {max} के बीच होना चाहिए",
+  "search.error.latitudeOrder": "न्यूनतम अक्षांश अधिकतम अक्षांश से कम होना चाहिए",
+  "search.error.longitudeOrder": "न्यूनतम देशांतर अधिकतम देशांतर से कम होना चाहिए",
+  "search.error.circle": "त्रिज्या खोज के लिए अक्षांश, देशांतर और त्रिज्या आवश्यक हैं",
+  "search.error.radiusRange": "त्रिज्या {min} और {max} के बीच होनी चाहिए",
+
+  "table.title": "घटना तालिका",
+  "table.count_one": "{count} घटना",
+  "table.count_other": "{count} घटनाएँ",
+  "table.matching": "{total} में से {shown} घटनाएँ मेल खाती हैं",
+  "table.close": "घटना तालिका बंद करें",
+  "table.search": "घटनाएँ खोजें",
+  "table.searchPlaceholder": "स्थान या शीर्षक खोजें",
+  "table.columns": "दिखने वाले कॉलम",
+  "table.empty": "खोज से कोई घटना मेल नहीं खाती।",
+  "table.column.time": "समय",
+  "table.column.mag": "तीव्रता",
+  "table.column.place": "स्थान",
+  "table.column.depth": "गहराई",
+  "table.column.sig": "महत्व",
+  "table.column.felt": "महसूस",
+  "table.column.alert": "PAGER",
+  "table.column.status": "स्थिति",
+  "table.column.net": "नेटवर्क",
+  "table.column.gap": "अंतराल",
+  "table.column.rms": "RMS",
+
+  "export.title_one": "{count} घटना निर्यात करें",
+  "export.title_other": "{count} घटनाएँ निर्यात करें",
+  "export.records": "फ़ाइल में स्रोत और फ़िल्टर दर्ज होते हैं: {details}",
+  "export.format": "निर्यात प्रारूप",
+  "export.format.csv": "CSV (स्प्रेडशीट)",
+  "export.format.geojson": "GeoJSON (GIS)",
+  "export.format.kml": "KML (Google Earth)",
+  "export.format.quakeml": "QuakeML 1.2",
+  "export.columns": "कॉलम",
+  "export.download": ".{extension} डाउनलोड करें",
+
+  "sequence.window_one": "खिड़की {distance}, {count} दिन",
+  "sequence.window_other": "खिड़की {distance}, {count} दिन",
+  "sequence.omori": "ओमोरी क्षय p = {p} (n ∝ t^-p, c छोड़ा गया)",
+  "sequence.noOmori": "ओमोरी नियम लागू करने के लिए बहुत कम आफ़्टरशॉक",
+  "sequence.foreshock": "फ़ोरशॉक",
+  "sequence.aftershock": "आफ़्टरशॉक",
+  "sequence.more": "…और {count} अन्य",
+  "sequence.chart": "समय के साथ आफ़्टरशॉक दर",
+  "sequence.daysAxis": "मुख्य भूकंप के बाद के दिन",
+  "sequence.rateAxis": "प्रति दिन आफ़्टरशॉक",
+  "sequence.bin_one": "{from}–{to} दिन बाद {count} आफ़्टरशॉक",
+  "sequence.bin_other": "{from}–{to} दिन बाद {count} आफ़्टरशॉक",
+  "sequence.noAftershocks": "आलेखित करने के लिए कोई आफ़्टरशॉक नहीं।",
+
+  "playback.empty": "मौजूदा फ़िल्टर के साथ चलाने के लिए कोई घटना नहीं।",
+  "playback.play": "चलाएँ",
+  "playback.pause": "रोकें",
+  "playback.restart": "शुरुआत पर जाएँ",
+  "playback.speed": "चलाने की गति",
+  "playback.trail": "निशान की अवधि",
+  "playback.time": "चलाने का समय",
+  "playback.speed.10m": "10 मिनट/से",
+  "playback.speed.1h": "1 घंटा/से",
+  "playback.speed.6h": "6 घंटे/से",
+  "playback.speed.1d": "1 दिन/से",
+  "playback.speed.1w": "1 सप्ताह/से",
+  "playback.trail.1h": "1 घंटे का निशान",
+  "playback.trail.6h": "6 घंटे का निशान",
+  "playback.trail.1d": "1 दिन का निशान",
+  "playback.trail.7d": "7 दिन का निशान",
+  "playback.trail.30d": "30 दिन का निशान",
+
+  "map.error": "मानचित्र त्रुटि",
+  "map.initFailed": "मानचित्र शुरू नहीं हो सका",
+  "map.markersFailed": "भूकंप चिह्न जोड़ने में त्रुटि",
+  "autoRefresh.requestFailed": "अनुरोध विफल रहा",
+  "presets.unreadable": "फ़ाइल पढ़ी नहीं जा सकी",
+  "detail.mechanismLabel": "फ़ोकल मैकेनिज़्म: स्ट्राइक {strike}°, डिप {dip}°, रेक {rake}°",
+}
@@ -0,0 +1,52 @@
+import type { Earthquake } from "@/lib/types"
+
+// The last successful response for each feed, kept in IndexedDB so the page has something to show
+// when it loads or refreshes without a connection. localStorage is too small for the larger feeds.
+
+const DB_NAME = "earthquake-visualizer"
+const DB_VERSION = 1
+const FEED_STORE = "feeds"
+
+export interface FeedSnapshot {
+  // toFeedId(feed)
+  feedId: string
+  earthquakes: Earthquake[]
+  savedAt: number
+}
+
+let database: Promise<IDBDatabase> | null = null
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => request.result.createObjectStore(FEED_STORE, { keyPath: "feedId" })
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    // Let a later call try again, e.g. after the user re-enables storage
+    database.catch(() => {
+      database = null
+    })
+  }
+  return database
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(FEED_STORE, mode).objectStore(FEED_STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function saveFeedSnapshot(feedId: string, earthquakes: Earthquake[], savedAt = Date.now()) {
+  const snapshot: FeedSnapshot = { feedId, earthquakes, savedAt }
+  await withStore("readwrite", (store) => store.put(snapshot))
+}
+
+export async function loadFeedSnapshot(feedId: string): Promise<FeedSnapshot | null> {
+  const snapshot = await withStore<FeedSnapshot | undefined>("readonly", (store) => store.get(feedId))
+  return snapshot ?? null
+}
@@ -0,0 +1,91 @@
+import { distanceToLineKm } from "@/lib/geo"
+
+export type BoundaryType = "ridge" | "trench" | "transform" | "collision"
+
+export interface BoundaryProperties {
+  name: string
+  type: BoundaryType
+  plates?: string
+}
+
+export type FaultType = "thrust" | "normal" | "strike-slip"
+
+export interface FaultProperties {
+  name: string
+  type: FaultType
+}
+
+export type VolcanoType = "stratovolcano" | "shield" | "caldera"
+
+export interface VolcanoProperties {
+  name: string
+  country: string
+  type: VolcanoType
+}
+
+export interface OverlayFeature<P> {
+  type: "Feature"
+  properties: P
+  geometry: { type: "LineString"; coordinates: [number, number][] } | { type: "Point"; coordinates: [number, number] }
+}
+
+export interface OverlayCollection<P> {
+  type: "FeatureCollection"
+  features: OverlayFeature<P>[]
+}
+
+// Each overlay's name in the layer control is the message overlay.<id>
+export const OVERLAYS = {
+  plates: { url: "/data/plate-boundaries.geojson" },
+  faults: { url: "/data/major-faults.geojson" },
+  volcanoes: { url: "/data/volcanoes.geojson" },
+} as const
+
+export type OverlayId = keyof typeof OVERLAYS
+
+export const OVERLAY_IDS = Object.keys(OVERLAYS) as OverlayId[]
+
+// What's switched on in the map's layer control; basemap is an id from getBasemaps()
+export interface MapLayers {
+  basemap: string
+  overlays: OverlayId[]
+}
+
+// Named by the message boundary.<type>
+export const BOUNDARY_STYLES: Record<BoundaryType, { color: string; dashArray?: string }> = {
+  ridge: { color: "#dc2626" },
+  trench: { color: "#2563eb", dashArray: "10 4" },
+  transform: { color: "#16a34a", dashArray: "2 6" },
+  collision: { color: "#9333ea", dashArray: "14 4 2 4" },
+}
+
+const requests = new Map<string, Promise<unknown>>()
+
+// Each bundled file is fetched at most once per page load
+export function loadOverlay<P>(id: OverlayId): Promise<OverlayCollection<P>> {
+  const { url } = OVERLAYS[id]
+  let request = requests.get(url)
+  if (!request) {
+    request = fetch(url).then((response) => {
+      if (!response.ok) throw new Error(`Failed to load ${url}: HTTP ${response.status}`)
+      return response.json()
+    })
+    request.catch(() => requests.delete(url))
+    requests.set(url, request)
+  }
+  return request as Promise<OverlayCollection<P>>
+}
+
+export function nearestBoundary(lat: number, lng: number, boundaries: OverlayCollection<BoundaryProperties>) {
+  let nearest: { boundary: BoundaryProperties; distanceKm: number } | null = null
+
+  for (const feature of boundaries.features) {
+    if (feature.geometry.type !== "LineString") continue
+    const distanceKm = distanceToLineKm(lat, lng, feature.geometry.coordinates)
+    if (!nearest || distanceKm < nearest.distanceKm) {
+      nearest = { boundary: feature.properties, distanceKm }
+    }
+  }
+
+  return nearest
+}
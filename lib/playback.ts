@@ -0,0 +1,69 @@
+import type { TranslationKey } from "@/lib/i18n"
+import type { Earthquake } from "@/lib/types"
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+// How much event time passes per second of playback
+export const PLAYBACK_SPEEDS: { value: string; label: TranslationKey; msPerSecond: number }[] = [
+  { value: "10m", label: "playback.speed.10m", msPerSecond: 10 * MINUTE },
+  { value: "1h", label: "playback.speed.1h", msPerSecond: HOUR },
+  { value: "6h", label: "playback.speed.6h", msPerSecond: 6 * HOUR },
+  { value: "1d", label: "playback.speed.1d", msPerSecond: DAY },
+  { value: "1w", label: "playback.speed.1w", msPerSecond: 7 * DAY },
+]
+
+// How long an event stays on the map after it occurs, fading out as it ages
+export const PLAYBACK_WINDOWS: { value: string; label: TranslationKey; ms: number }[] = [
+  { value: "1h", label: "playback.trail.1h", ms: HOUR },
+  { value: "6h", label: "playback.trail.6h", ms: 6 * HOUR },
+  { value: "1d", label: "playback.trail.1d", ms: DAY },
+  { value: "7d", label: "playback.trail.7d", ms: 7 * DAY },
+  { value: "30d", label: "playback.trail.30d", ms: 30 * DAY },
+]
+
+export const DEFAULT_PLAYBACK_SPEED = "1h"
+export const DEFAULT_PLAYBACK_WINDOW = "6h"
+
+// Frames are throttled so the map only re-diffs its markers a few times a second
+export const PLAYBACK_FRAME_MS = 100
+
+// Faded markers never go fully transparent so the trail stays readable
+const MIN_OPACITY = 0.15
+
+export function getTimeExtent(earthquakes: Earthquake[]): [number, number] | null {
+  if (earthquakes.length === 0) return null
+  let start = Infinity
+  let end = -Infinity
+  for (const earthquake of earthquakes) {
+    start = Math.min(start, earthquake.properties.time)
+    end = Math.max(end, earthquake.properties.time)
+  }
+  return [start, end]
+}
+
+// Event counts in equal-width bins over [start, end]; the last bin includes `end`
+export function getTimeHistogram(earthquakes: Earthquake[], [start, end]: [number, number], binCount: number) {
+  const counts = new Array<number>(binCount).fill(0)
+  const span = Math.max(end - start, 1)
+  for (const earthquake of earthquakes) {
+    const index = Math.floor(((earthquake.properties.time - start) / span) * binCount)
+    if (index >= 0 && index <= binCount) counts[Math.min(index, binCount - 1)] += 1
+  }
+  return counts
+}
+
+// Events that have occurred by `time` and are still within the trailing window
+export function getEventsAt(earthquakes: Earthquake[], time: number, windowMs: number) {
+  return earthquakes.filter((earthquake) => {
+    const age = time - earthquake.properties.time
+    return age >= 0 && age <= windowMs
+  })
+}
+
+// Linear fade over the window, rounded to tenths so markers are only redrawn when the step changes
+export function getPlaybackOpacity(age: number, windowMs: number) {
+  const fraction = Math.min(Math.max(age / windowMs, 0), 1)
+  return Math.round(Math.max(1 - fraction, MIN_OPACITY) * 10) / 10
+}
@@ -0,0 +1,156 @@
+import { LOCALES, type Locale } from "@/lib/i18n"
+import type { Earthquake } from "@/lib/types"
+
+export const TIME_ZONE_MODES = ["local", "utc", "event"] as const
+export type TimeZoneMode = (typeof TIME_ZONE_MODES)[number]
+
+export const DISTANCE_UNITS = ["km", "mi"] as const
+export type DistanceUnit = (typeof DISTANCE_UNITS)[number]
+
+export const DATE_FORMATS = ["locale", "iso", "dmy", "mdy"] as const
+export type DateFormat = (typeof DATE_FORMATS)[number]
+
+export interface Preferences {
+  locale: Locale
+  timeZone: TimeZoneMode
+  // Used for depths as well as distances
+  distanceUnit: DistanceUnit
+  dateFormat: DateFormat
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  locale: "en",
+  timeZone: "local",
+  distanceUnit: "km",
+  dateFormat: "locale",
+}
+
+export const KM_PER_MILE = 1.609344
+
+const STORAGE_KEY = "earthquake-visualizer:preferences"
+
+const pick = <T extends string>(options: readonly T[], value: unknown, fallback: T) =>
+  options.find((option) => option === value) ?? fallback
+
+export function loadPreferences(): Preferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as Partial<Preferences> | null
+    // First visit: follow the browser's language when there's a catalog for it
+    const browserLocale = navigator.language.split("-")[0]
+    return {
+      locale: pick(LOCALES, stored?.locale ?? browserLocale, DEFAULT_PREFERENCES.locale),
+      timeZone: pick(TIME_ZONE_MODES, stored?.timeZone, DEFAULT_PREFERENCES.timeZone),
+      distanceUnit: pick(DISTANCE_UNITS, stored?.distanceUnit, DEFAULT_PREFERENCES.distanceUnit),
+      dateFormat: pick(DATE_FORMATS, stored?.dateFormat, DEFAULT_PREFERENCES.dateFormat),
+    }
+  } catch {
+    return DEFAULT_PREFERENCES
+  }
+}
+
+export function storePreferences(preferences: Preferences) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences))
+}
+
+interface UtcOffset {
+  minutes: number
+  // Estimated from the longitude because the feed gave no time zone for the event
+  approximate: boolean
+}
+
+// USGS gives the epicenter's offset in minutes as `tz`, though most recent events leave it empty; the
+// fallback is the nautical time zone, 15° of longitude per hour
+function getUtcOffset(time: number, mode: TimeZoneMode, earthquake?: Earthquake): UtcOffset {
+  if (mode === "utc") return { minutes: 0, approximate: false }
+  if (mode === "event" && earthquake) {
+    const { tz } = earthquake.properties
+    if (tz !== null) return { minutes: tz, approximate: false }
+    return { minutes: Math.round(earthquake.geometry.coordinates[0] / 15) * 60, approximate: true }
+  }
+  return { minutes: -new Date(time).getTimezoneOffset(), approximate: false }
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0")
+
+// "+05:30" or "-08:00"
+const formatOffsetDigits = (minutes: number) =>
+  `${minutes >= 0 ? "+" : "-"}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`
+
+// "UTC", "UTC+05:30" or "≈UTC-08:00"
+function formatOffset({ minutes, approximate }: UtcOffset) {
+  const label = minutes === 0 ? "UTC" : `UTC${formatOffsetDigits(minutes)}`
+  return approximate ? `≈${label}` : label
+}
+
+// The wall-clock time at the offset, read back in UTC; localeFormat is used for the "locale" format
+function formatWallClock(
+  time: number,
+  offsetMinutes: number,
+  dateFormat: DateFormat,
+  localeFormat: Intl.DateTimeFormat,
+) {
+  const shifted = new Date(time + offsetMinutes * 60 * 1000)
+  if (dateFormat === "locale") return localeFormat.format(shifted)
+  const year = pad(shifted.getUTCFullYear(), 4)
+  const month = pad(shifted.getUTCMonth() + 1)
+  const day = pad(shifted.getUTCDate())
+  const clock = `${pad(shifted.getUTCHours())}:${pad(shifted.getUTCMinutes())}:${pad(shifted.getUTCSeconds())}`
+  if (dateFormat === "dmy") return `${day}/${month}/${year} ${clock}`
+  if (dateFormat === "mdy") return `${month}/${day}/${year} ${clock}`
+  return `${year}-${month}-${day} ${clock}`
+}
+
+// An ISO 8601 timestamp at the chosen zone's offset, for files that other programs read back
+export function toIsoTime(time: number, timeZone: TimeZoneMode, earthquake?: Earthquake) {
+  const { minutes } = getUtcOffset(time, timeZone, earthquake)
+  if (minutes === 0) return new Date(time).toISOString()
+  // Drop the trailing "Z" of the shifted clock for the real offset
+  return `${new Date(time + minutes * 60 * 1000).toISOString().slice(0, -1)}${formatOffsetDigits(minutes)}`
+}
+
+export interface Formatters {
+  // An event's origin time in the chosen zone and format, followed by its UTC offset
+  eventTime: (earthquake: Earthquake) => string
+  // Any other moment, e.g. the last update; event-local time falls back to the device's zone
+  time: (time: number) => string
+  // Depths and distances given in km, converted to the chosen unit, e.g. "12.5 km" or "7.8 mi"
+  length: (km: number, digits?: number) => string
+  // Just the converted number, for ranges that put the unit once at the end
+  lengthValue: (km: number, digits?: number) => string
+  lengthUnit: DistanceUnit
+  number: (value: number, digits?: number) => string
+}
+
+export function createFormatters(preferences: Preferences): Formatters {
+  const numberFormats = new Map<number, Intl.NumberFormat>()
+  const number = (value: number, digits = 0) => {
+    let format = numberFormats.get(digits)
+    if (!format) {
+      format = new Intl.NumberFormat(preferences.locale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits,
+      })
+      numberFormats.set(digits, format)
+    }
+    return format.format(value)
+  }
+  const toUnit = (km: number) => (preferences.distanceUnit === "mi" ? km / KM_PER_MILE : km)
+  const localeFormat = new Intl.DateTimeFormat(preferences.locale, {
+    dateStyle: "medium",
+    timeStyle: "medium",
+    timeZone: "UTC",
+  })
+  const formatTime = (time: number, earthquake?: Earthquake) => {
+    const offset = getUtcOffset(time, preferences.timeZone, earthquake)
+    return `${formatWallClock(time, offset.minutes, preferences.dateFormat, localeFormat)} ${formatOffset(offset)}`
+  }
+
+  return {
+    eventTime: (earthquake) => formatTime(earthquake.properties.time, earthquake),
+    time: (time) => formatTime(time),
+    length: (km, digits = 0) => `${number(toUnit(km), digits)} ${preferences.distanceUnit}`,
+    lengthValue: (km, digits = 0) => number(toUnit(km), digits),
+    lengthUnit: preferences.distanceUnit,
+    number,
+  }
+}
@@ -0,0 +1,61 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises"
+import { dirname, join } from "node:path"
+import { EMPTY_PRESETS, type PresetCollection, parsePresetCollection } from "@/lib/presets"
+
+// Server-side presets: one JSON file holding every workspace's collection. Meant for a single server, such as a
+// classroom deployment; serverless hosts without a persistent disk should stick to browser storage.
+const getStorePath = () => process.env.PRESETS_FILE || join(process.cwd(), ".data", "presets.json")
+
+type Store = Record<string, PresetCollection>
+
+// Anyone can open a workspace, so the store is bounded by the number of them as well as by MAX_PRESETS each
+export const MAX_WORKSPACES = 1000
+
+export class PresetStoreFullError extends Error {
+  constructor() {
+    super(`The preset store already holds ${MAX_WORKSPACES} workspaces`)
+    this.name = "PresetStoreFullError"
+  }
+}
+
+async function readStore(): Promise<Store> {
+  let text: string
+  try {
+    text = await readFile(getStorePath(), "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {}
+    throw error
+  }
+  return JSON.parse(text) as Store
+}
+
+// Writes go one at a time so two saves can't interleave a read and a write
+let queue: Promise<unknown> = Promise.resolve()
+
+export async function getWorkspacePresets(workspaceId: string): Promise<PresetCollection> {
+  const stored = (await readStore())[workspaceId]
+  if (!stored) return EMPTY_PRESETS
+  try {
+    return parsePresetCollection(stored)
+  } catch {
+    return EMPTY_PRESETS
+  }
+}
+
+export function setWorkspacePresets(workspaceId: string, collection: PresetCollection) {
+  const write = queue.then(async () => {
+    const store = await readStore()
+    if (collection.presets.length === 0) delete store[workspaceId]
+    else if (!(workspaceId in store) && Object.keys(store).length >= MAX_WORKSPACES) throw new PresetStoreFullError()
+    else store[workspaceId] = collection
+
+    // Written beside the store and renamed over it, so a crash never leaves half a file
+    const path = getStorePath()
+    await mkdir(dirname(path), { recursive: true })
+    await writeFile(`${path}.tmp`, JSON.stringify(store))
+    await rename(`${path}.tmp`, path)
+    return collection
+  })
+  queue = write.catch(() => undefined)
+  return write
+}
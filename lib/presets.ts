@@ -0,0 +1,142 @@
+import { type MapLayers, OVERLAY_IDS } from "@/lib/overlays"
+import { decodeRegionShape } from "@/lib/regions"
+
+// A named workspace to come back to, such as "Ring of Fire M4.5+ week"
+export interface Preset {
+  id: string
+  name: string
+  // The view as shared-link parameters (see toViewParams) without the open event: the feed or search, every
+  // filter, the color mode, the region and the map view
+  view: string
+  // The saved regions at the time, so the region the view filters by keeps its name on another device
+  regions: { key: string; name: string }[]
+  // null leaves the basemap and overlays as they are
+  layers: MapLayers | null
+  savedAt: number
+}
+
+export interface PresetCollection {
+  presets: Preset[]
+  // Applied on load when the page is opened without a link of its own
+  defaultId: string | null
+}
+
+export const EMPTY_PRESETS: PresetCollection = { presets: [], defaultId: null }
+
+// Keeps a workspace file, and what the server stores per workspace, to a sensible size
+export const MAX_PRESETS = 100
+
+// Where the list is kept: this browser's local storage, or the server's JSON store under a workspace id
+export type PresetStorage = "local" | "server"
+
+// Workspace ids are random and only ever compared, never interpreted
+export const WORKSPACE_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/
+
+function parseLayers(value: unknown): MapLayers | null {
+  if (typeof value !== "object" || value === null) return null
+  const { basemap, overlays } = value as Record<string, unknown>
+  if (typeof basemap !== "string" || !Array.isArray(overlays)) return null
+  return { basemap, overlays: OVERLAY_IDS.filter((id) => overlays.includes(id)) }
+}
+
+function parsePreset(value: unknown, index: number): Preset {
+  const fail = (message: string): never => {
+    throw new Error(`Preset ${index + 1}: ${message}`)
+  }
+  if (typeof value !== "object" || value === null) return fail("not an object")
+  const preset = value as Record<string, unknown>
+
+  const name = typeof preset.name === "string" && preset.name.trim() ? preset.name.trim() : fail("name is missing")
+  if (typeof preset.view !== "string") fail("view is missing")
+  const regions = Array.isArray(preset.regions) ? preset.regions : []
+  // Anything else in the view is left to parseViewState, which ignores what it doesn't understand
+  const view = new URLSearchParams(preset.view as string)
+  view.delete("event")
+
+  return {
+    id: typeof preset.id === "string" && preset.id ? preset.id : crypto.randomUUID(),
+    name,
+    view: view.toString(),
+    regions: regions.flatMap((region) => {
+      const { key, name } = (region ?? {}) as Record<string, unknown>
+      return typeof key === "string" && typeof name === "string" && decodeRegionShape(key) ? [{ key, name }] : []
+    }),
+    layers: parseLayers(preset.layers),
+    savedAt: typeof preset.savedAt === "number" ? preset.savedAt : Date.now(),
+  }
+}
+
+// Also reads a bare list of presets, or a single one
+export function parsePresetCollection(data: unknown): PresetCollection {
+  const wrapped = typeof data === "object" && data !== null && !Array.isArray(data) && "presets" in data
+  const items = wrapped ? (data as { presets: unknown }).presets : Array.isArray(data) ? data : [data]
+  if (!Array.isArray(items)) throw new Error("Expected a list of presets")
+  if (items.length > MAX_PRESETS) throw new Error(`At most ${MAX_PRESETS} presets can be kept`)
+
+  const presets = items.map(parsePreset)
+  const defaultId = wrapped ? (data as { defaultId?: unknown }).defaultId : null
+  return {
+    presets,
+    defaultId: presets.some((preset) => preset.id === defaultId) ? (defaultId as string) : null,
+  }
+}
+
+export function parsePresetFile(text: string): PresetCollection {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+  return parsePresetCollection(data)
+}
+
+export function exportPresets(collection: PresetCollection) {
+  return JSON.stringify({ version: 1, ...collection }, null, 2)
+}
+
+// Imported presets replace those with the same id and are added after the rest; a pinned default comes along
+// only when nothing is pinned yet
+export function mergePresets(current: PresetCollection, imported: PresetCollection): PresetCollection {
+  const importedIds = new Set(imported.presets.map((preset) => preset.id))
+  const presets = [...current.presets.filter((preset) => !importedIds.has(preset.id)), ...imported.presets]
+  if (presets.length > MAX_PRESETS) throw new Error(`At most ${MAX_PRESETS} presets can be kept`)
+  return { presets, defaultId: current.defaultId ?? imported.defaultId }
+}
+
+const PRESETS_STORAGE_KEY = "earthquake-visualizer:presets"
+const STORAGE_CHOICE_KEY = "earthquake-visualizer:preset-storage"
+const WORKSPACE_STORAGE_KEY = "earthquake-visualizer:workspace-id"
+
+export function loadPresets(): PresetCollection {
+  try {
+    return parsePresetCollection(JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) ?? "[]"))
+  } catch {
+    return EMPTY_PRESETS
+  }
+}
+
+export function storePresets(collection: PresetCollection) {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(collection))
+}
+
+export function loadPresetStorage(): PresetStorage {
+  return localStorage.getItem(STORAGE_CHOICE_KEY) === "server" ? "server" : "local"
+}
+
+export function storePresetStorage(storage: PresetStorage) {
+  localStorage.setItem(STORAGE_CHOICE_KEY, storage)
+}
+
+// Created on first use; entering the same id in another browser opens the same server-side presets
+export function loadWorkspaceId() {
+  const stored = localStorage.getItem(WORKSPACE_STORAGE_KEY)
+  if (stored && WORKSPACE_ID_PATTERN.test(stored)) return stored
+  const id = crypto.randomUUID()
+  localStorage.setItem(WORKSPACE_STORAGE_KEY, id)
+  return id
+}
+
+export function storeWorkspaceId(id: string) {
+  localStorage.setItem(WORKSPACE_STORAGE_KEY, id)
+}
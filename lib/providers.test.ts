@@ -0,0 +1,95 @@
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { describe, expect, it } from "vitest"
+import { parseCatalog } from "@/lib/catalog-import"
+import { DEFAULT_MATCH_TOLERANCE, matchCatalogs } from "@/lib/catalog-matching"
+import { CATALOG_PROVIDERS, getProvider } from "@/lib/providers"
+
+const readFixture = (name: string) => readFileSync(join(process.cwd(), "fixtures", "catalogs", name), "utf8")
+
+const parseFixture = (id: string) => {
+  const provider = getProvider(id)!
+  return provider.parse(readFixture(provider.fixture))
+}
+
+describe("catalog providers", () => {
+  it.each([
+    ["usgs", 6],
+    ["emsc", 6],
+    ["geofon", 4],
+    ["ingv", 3],
+    ["file", 3],
+  ])("parses the %s fixture", (id, count) => {
+    const { earthquakes, issues } = parseFixture(id)
+    expect(issues).toEqual([])
+    expect(earthquakes).toHaveLength(count)
+    for (const { properties, geometry } of earthquakes) {
+      expect(Number.isFinite(properties.time)).toBe(true)
+      expect(Number.isFinite(properties.mag)).toBe(true)
+      expect(geometry.coordinates.every(Number.isFinite)).toBe(true)
+    }
+  })
+
+  it("has a fixture for every provider", () => {
+    for (const provider of CATALOG_PROVIDERS) expect(() => readFixture(provider.fixture)).not.toThrow()
+  })
+
+  it("reads EMSC depths as positive and keeps its magnitude type", () => {
+    const tarapaca = parseFixture("emsc").earthquakes.find((earthquake) => earthquake.id.endsWith("0000113"))!
+    expect(tarapaca.geometry.coordinates).toEqual([-69.18, -20.36, 105])
+    expect(tarapaca.properties.mag).toBe(5.1)
+    expect(tarapaca.properties.magType.toLowerCase()).toBe("mw")
+  })
+
+  it("builds FDSN query URLs from the window", () => {
+    const url = new URL(
+      getProvider("geofon")!.getUrl!({
+        startTime: Date.UTC(2024, 3, 2, 23),
+        endTime: Date.UTC(2024, 3, 3, 12),
+        minMagnitude: 3,
+      }),
+    )
+    expect(url.origin + url.pathname).toBe("https://geofon.gfz.de/fdsnws/event/1/query")
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      format: "text",
+      starttime: "2024-04-02T23:00:00",
+      endtime: "2024-04-03T12:00:00",
+      minmagnitude: "3",
+    })
+  })
+})
+
+describe("matchCatalogs", () => {
+  const usgs = parseFixture("usgs").earthquakes
+
+  // The fixtures describe the same few earthquakes as each agency reported them
+  it.each([
+    ["emsc", 5],
+    ["geofon", 4],
+    ["ingv", 3],
+  ])("matches the %s fixture against USGS", (id, matched) => {
+    const other = parseFixture(id).earthquakes
+    const { matches, unmatched, missing } = matchCatalogs(usgs, other, DEFAULT_MATCH_TOLERANCE)
+    expect(matches).toHaveLength(matched)
+    expect(unmatched).toHaveLength(other.length - matched)
+    expect(missing).toBe(usgs.length - matched)
+    for (const match of matches) {
+      expect(Math.abs(match.timeDifferenceS)).toBeLessThanOrEqual(DEFAULT_MATCH_TOLERANCE.seconds)
+      expect(match.distanceKm).toBeLessThanOrEqual(DEFAULT_MATCH_TOLERANCE.km)
+    }
+  })
+
+  it("matches an imported file against USGS", () => {
+    const { earthquakes } = parseCatalog("file.csv", readFixture("file.csv"))
+    expect(matchCatalogs(usgs, earthquakes, DEFAULT_MATCH_TOLERANCE).matches).toHaveLength(3)
+  })
+
+  it("pairs each event at most once, closest first", () => {
+    const [event] = usgs
+    const near = { ...event, id: "near", properties: { ...event.properties, time: event.properties.time + 2000 } }
+    const far = { ...event, id: "far", properties: { ...event.properties, time: event.properties.time + 10000 } }
+    const { matches, unmatched } = matchCatalogs([event], [far, near], DEFAULT_MATCH_TOLERANCE)
+    expect(matches.map((match) => match.other.id)).toEqual(["near"])
+    expect(unmatched.map((other) => other.id)).toEqual(["far"])
+  })
+})
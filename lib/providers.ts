@@ -0,0 +1,130 @@
+import { type ImportedCatalog, parseCatalog, parseFdsnTextCatalog, parseGeoJsonCatalog } from "@/lib/catalog-import"
+import type { Translate, TranslationKey } from "@/lib/i18n"
+import { getUsgsBaseUrl, normalizeEarthquakeData } from "@/lib/usgs"
+
+// The window every remote provider is asked for
+export interface CatalogQuery {
+  startTime: number
+  endTime: number
+  minMagnitude: number
+}
+
+export type ParsedCatalog = Omit<ImportedCatalog, "name" | "format">
+
+// A source of events in its own format, turned into the same normalized Earthquake records as the USGS feed.
+// Only the id reaches the API route, which looks the provider up here, so clients never pick the upstream URL.
+export interface CatalogProvider {
+  id: string
+  label: string
+  // Shown in place of the label in the app, for providers that aren't named after an agency
+  labelKey?: TranslationKey
+  // Outline of the provider's events on the map and its swatch in the comparison card
+  color: string
+  // null for the local-file provider, whose text is read and parsed in the browser rather than fetched
+  getUrl: ((query: CatalogQuery) => string) | null
+  parse: (body: string) => ParsedCatalog
+  // A sample response in fixtures/catalogs, served in place of the network when CATALOG_FIXTURES=1
+  fixture: string
+}
+
+// Each provider returns at most this many events, newest first
+export const CATALOG_EVENT_LIMIT = 5000
+
+// FDSN services read times without a zone as UTC, and not all of them accept milliseconds
+const toFdsnTime = (time: number) => new Date(time).toISOString().slice(0, 19)
+
+function toFdsnParams({ startTime, endTime, minMagnitude }: CatalogQuery, format: string) {
+  return new URLSearchParams({
+    format,
+    starttime: toFdsnTime(startTime),
+    endtime: toFdsnTime(endTime),
+    minmagnitude: String(minMagnitude),
+    orderby: "time",
+    limit: String(CATALOG_EVENT_LIMIT),
+  })
+}
+
+// Comparisons follow the loaded data, and the longest feed covers 30 days
+export const MAX_CATALOG_SPAN_MS = 31 * 24 * 60 * 60 * 1000
+
+// How the app's own API is asked for a window
+export function toCatalogParams({ startTime, endTime, minMagnitude }: CatalogQuery) {
+  return new URLSearchParams({
+    starttime: new Date(startTime).toISOString(),
+    endtime: new Date(endTime).toISOString(),
+    minmagnitude: String(minMagnitude),
+  })
+}
+
+export function parseCatalogParams(params: URLSearchParams): { query: CatalogQuery | null; error: string | null } {
+  const startTime = Date.parse(params.get("starttime") ?? "")
+  const endTime = Date.parse(params.get("endtime") ?? "")
+  const minMagnitude = Number(params.get("minmagnitude") ?? 0)
+  if (Number.isNaN(startTime) || Number.isNaN(endTime)) return { query: null, error: "Start and end time are required" }
+  if (startTime >= endTime) return { query: null, error: "Start time must be before end time" }
+  if (endTime - startTime > MAX_CATALOG_SPAN_MS) return { query: null, error: "The window can be at most 31 days" }
+  if (!Number.isFinite(minMagnitude)) return { query: null, error: "minmagnitude must be a number" }
+  return { query: { startTime, endTime, minMagnitude }, error: null }
+}
+
+// Any FDSN event service that offers the standard text format; baseUrl ends in /fdsnws/event/1
+export function createFdsnProvider(id: string, label: string, baseUrl: string, color: string): CatalogProvider {
+  return {
+    id,
+    label,
+    color,
+    getUrl: (query) => `${baseUrl}/query?${toFdsnParams(query, "text")}`,
+    parse: (body) => parseFdsnTextCatalog(body, id),
+    fixture: `${id}.txt`,
+  }
+}
+
+const usgsProvider: CatalogProvider = {
+  id: "usgs",
+  label: "USGS ComCat",
+  color: "#2563eb",
+  getUrl: (query) => `${getUsgsBaseUrl()}/fdsnws/event/1/query?${toFdsnParams(query, "geojson")}`,
+  parse: (body) => {
+    try {
+      return { earthquakes: normalizeEarthquakeData(JSON.parse(body), "").features, issues: [] }
+    } catch (error) {
+      const problem = { key: "import.problem.invalidJson", params: { detail: (error as Error).message } } as const
+      return { earthquakes: [], issues: [{ location: { key: "import.location.response" }, problems: [problem] }] }
+    }
+  },
+  fixture: "usgs.geojson",
+}
+
+// EMSC answers its FDSN service's "json" format with GeoJSON under its own property names
+const emscProvider: CatalogProvider = {
+  id: "emsc",
+  label: "EMSC",
+  color: "#ea580c",
+  getUrl: (query) => `https://www.seismicportal.eu/fdsnws/event/1/query?${toFdsnParams(query, "json")}`,
+  parse: (body) => parseGeoJsonCatalog(body, "emsc"),
+  fixture: "emsc.json",
+}
+
+// Any format the Import button reads, told apart by its content
+const fileProvider: CatalogProvider = {
+  id: "file",
+  label: "Local file",
+  labelKey: "catalogs.file",
+  color: "#0f172a",
+  getUrl: null,
+  parse: (body) => parseCatalog("catalog", body),
+  fixture: "file.csv",
+}
+
+export const CATALOG_PROVIDERS: CatalogProvider[] = [
+  usgsProvider,
+  emscProvider,
+  createFdsnProvider("geofon", "GFZ GEOFON", "https://geofon.gfz.de/fdsnws/event/1", "#059669"),
+  createFdsnProvider("ingv", "INGV", "https://webservices.ingv.it/fdsnws/event/1", "#c026d3"),
+  fileProvider,
+]
+
+export const getProvider = (id: string) => CATALOG_PROVIDERS.find((provider) => provider.id === id)
+
+export const getProviderLabel = (provider: CatalogProvider, t: Translate) =>
+  provider.labelKey ? t(provider.labelKey) : provider.label
@@ -0,0 +1,205 @@
+import { haversineKm } from "@/lib/geo"
+import type { Earthquake } from "@/lib/types"
+
+export interface QualityFilter {
+  // Only events a seismologist has reviewed, rather than automatic solutions
+  reviewedOnly: boolean
+  // Contributing network codes and USGS event types to keep; empty keeps all of them
+  networks: string[]
+  types: string[]
+  // Upper limits on the azimuthal gap in degrees and the travel-time residual RMS in seconds
+  maxGap: number | null
+  maxRms: number | null
+}
+
+export const DEFAULT_QUALITY_FILTER: QualityFilter = {
+  reviewedOnly: false,
+  networks: [],
+  types: [],
+  maxGap: null,
+  maxRms: null,
+}
+
+export const MAX_GAP_OPTIONS = [90, 180, 270]
+export const MAX_RMS_OPTIONS = [0.5, 1, 2]
+
+export const isQualityFilterActive = (filter: QualityFilter) =>
+  filter.reviewedOnly ||
+  filter.networks.length > 0 ||
+  filter.types.length > 0 ||
+  filter.maxGap !== null ||
+  filter.maxRms !== null
+
+// Events without a reported gap pass that limit, since nothing says the location is poor
+export function filterByQuality(earthquakes: Earthquake[], filter: QualityFilter) {
+  if (!isQualityFilterActive(filter)) return earthquakes
+  const networks = new Set(filter.networks)
+  const types = new Set(filter.types)
+  return earthquakes.filter(({ properties }) => {
+    if (filter.reviewedOnly && properties.status !== "reviewed") return false
+    if (networks.size > 0 && !networks.has(properties.net)) return false
+    if (types.size > 0 && !types.has(properties.type)) return false
+    if (filter.maxGap !== null && properties.gap !== null && properties.gap > filter.maxGap) return false
+    if (filter.maxRms !== null && properties.rms > filter.maxRms) return false
+    return true
+  })
+}
+
+// For the header of exported files, which stays in English
+export function describeQualityFilter(filter: QualityFilter) {
+  const lines: string[] = []
+  if (filter.reviewedOnly) lines.push("Reviewed events only")
+  if (filter.networks.length > 0) lines.push(`Networks ${filter.networks.join(", ")}`)
+  if (filter.types.length > 0) lines.push(`Event types ${filter.types.join(", ")}`)
+  if (filter.maxGap !== null) lines.push(`Azimuthal gap up to ${filter.maxGap}°`)
+  if (filter.maxRms !== null) lines.push(`RMS residual up to ${filter.maxRms} s`)
+  return lines
+}
+
+export interface ValueCount {
+  value: string
+  count: number
+}
+
+// The values of a property across the loaded events, most common first, for the filter choices
+export function countValues(earthquakes: Earthquake[], key: "net" | "type"): ValueCount[] {
+  const counts = new Map<string, number>()
+  for (const earthquake of earthquakes) {
+    const value = earthquake.properties[key]
+    if (value) counts.set(value, (counts.get(value) ?? 0) + 1)
+  }
+  return [...counts]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+// A location is poorly constrained when the stations leave a wide gap in azimuth, the arrivals fit it
+// badly, or too few stations were used; these are the usual rules of thumb for regional networks
+const LOW_QUALITY_GAP = 180
+const LOW_QUALITY_RMS = 1
+const LOW_QUALITY_STATIONS = 5
+
+export type QualityIssue = "gap" | "rms" | "stations"
+
+export function getQualityIssues(earthquake: Earthquake): QualityIssue[] {
+  const { gap, rms, nst } = earthquake.properties
+  const issues: QualityIssue[] = []
+  if (gap !== null && gap > LOW_QUALITY_GAP) issues.push("gap")
+  if (rms > LOW_QUALITY_RMS) issues.push("rms")
+  if (nst !== null && nst < LOW_QUALITY_STATIONS) issues.push("stations")
+  return issues
+}
+
+export const isLowQuality = (earthquake: Earthquake) => getQualityIssues(earthquake).length > 0
+
+// What's kept of each event to spot revisions on the next refresh
+export interface EventVersion {
+  mag: number
+  magType: string
+  lat: number
+  lng: number
+  depth: number
+  updated: number
+}
+
+export type RevisionChange = "magnitude" | "epicenter" | "depth"
+
+export interface EventRevision {
+  eventId: string
+  place: string
+  previous: EventVersion
+  current: EventVersion
+  changes: RevisionChange[]
+  // How far the epicenter moved
+  shiftKm: number
+  detectedAt: number
+}
+
+// Newest first; older revisions are dropped
+export const MAX_REVISIONS = 200
+
+// Smaller differences are rounding between products rather than a new solution
+const MIN_MAGNITUDE_CHANGE = 0.05
+const MIN_LOCATION_CHANGE_KM = 1
+
+const toEventVersion = ({ properties, geometry }: Earthquake): EventVersion => ({
+  mag: properties.mag,
+  magType: properties.magType,
+  lat: geometry.coordinates[1],
+  lng: geometry.coordinates[0],
+  depth: geometry.coordinates[2],
+  updated: properties.updated,
+})
+
+// Compares each event with its last known version. Only a newer `updated` timestamp counts, and only
+// magnitude or location changes are reported. The versions returned cover just these events, so events
+// that left the feed are forgotten.
+export function findRevisions(known: Map<string, EventVersion>, earthquakes: Earthquake[], now: number) {
+  const revisions: EventRevision[] = []
+  const versions = new Map<string, EventVersion>()
+  for (const earthquake of earthquakes) {
+    const previous = known.get(earthquake.id)
+    // An older copy, e.g. the offline snapshot, never replaces what was already seen
+    if (previous && earthquake.properties.updated <= previous.updated) {
+      versions.set(earthquake.id, previous)
+      continue
+    }
+    const current = toEventVersion(earthquake)
+    versions.set(earthquake.id, current)
+    if (!previous) continue
+
+    const shiftKm = haversineKm(previous.lat, previous.lng, current.lat, current.lng)
+    const changes: RevisionChange[] = []
+    if (Math.abs(current.mag - previous.mag) >= MIN_MAGNITUDE_CHANGE || current.magType !== previous.magType) {
+      changes.push("magnitude")
+    }
+    if (shiftKm >= MIN_LOCATION_CHANGE_KM) changes.push("epicenter")
+    if (Math.abs(current.depth - previous.depth) >= MIN_LOCATION_CHANGE_KM) changes.push("depth")
+    if (changes.length === 0) continue
+
+    revisions.push({
+      eventId: earthquake.id,
+      place: earthquake.properties.place,
+      previous,
+      current,
+      changes,
+      shiftKm,
+      detectedAt: now,
+    })
+  }
+  return { revisions, versions }
+}
+
+const VERSIONS_STORAGE_KEY = "earthquake-visualizer:event-versions"
+const REVISIONS_STORAGE_KEY = "earthquake-visualizer:revisions"
+
+export function loadEventVersions() {
+  try {
+    const entries = JSON.parse(localStorage.getItem(VERSIONS_STORAGE_KEY) ?? "[]") as [string, EventVersion][]
+    return new Map(Array.isArray(entries) ? entries : [])
+  } catch {
+    return new Map<string, EventVersion>()
+  }
+}
+
+export function storeEventVersions(versions: Map<string, EventVersion>) {
+  try {
+    localStorage.setItem(VERSIONS_STORAGE_KEY, JSON.stringify([...versions]))
+  } catch (err) {
+    // The month-long feeds can run past the storage quota; revisions are then only found within this visit
+    console.error("Error storing event versions:", err)
+  }
+}
+
+export function loadRevisions(): EventRevision[] {
+  try {
+    const revisions = JSON.parse(localStorage.getItem(REVISIONS_STORAGE_KEY) ?? "[]") as EventRevision[]
+    return Array.isArray(revisions) ? revisions.filter((revision) => typeof revision?.eventId === "string") : []
+  } catch {
+    return []
+  }
+}
+
+export function storeRevisions(revisions: EventRevision[]) {
+  localStorage.setItem(REVISIONS_STORAGE_KEY, JSON.stringify(revisions))
+}
@@ -0,0 +1,190 @@
+import { formatLat, formatLng, haversineKm } from "@/lib/geo"
+import type { Translate } from "@/lib/i18n"
+import type { Formatters } from "@/lib/preferences"
+import type { Earthquake } from "@/lib/types"
+
+export const NAMED_REGION_COLLECTIONS = {
+  country: { url: "/data/countries-110m.geojson" },
+  seismic: { url: "/data/seismic-regions.geojson" },
+} as const
+
+export type NamedRegionCollection = keyof typeof NAMED_REGION_COLLECTIONS
+
+// Shapes that can be tested directly; vertices are [lat, lng] as in Leaflet
+export type RegionGeometry =
+  | { kind: "rectangle"; south: number; west: number; north: number; east: number }
+  | { kind: "circle"; lat: number; lng: number; radiusKm: number }
+  // Rings combine with the even-odd rule, so holes and multi-part countries need no special casing
+  | { kind: "polygon"; rings: [number, number][][] }
+
+// What a region is defined by: drawn geometry, or a reference into one of the bundled collections
+export type RegionShape = RegionGeometry | { kind: "named"; collection: NamedRegionCollection; name: string }
+
+export interface SavedRegion {
+  // encodeRegionShape(shape), so the same area is never saved twice
+  key: string
+  name: string
+  shape: RegionShape
+}
+
+interface NamedRegionFeature {
+  properties: { name: string }
+  geometry:
+    | { type: "Polygon"; coordinates: [number, number][][] }
+    | { type: "MultiPolygon"; coordinates: [number, number][][][] }
+}
+
+const requests = new Map<NamedRegionCollection, Promise<NamedRegionFeature[]>>()
+
+export function loadNamedRegions(collection: NamedRegionCollection) {
+  let request = requests.get(collection)
+  if (!request) {
+    const { url } = NAMED_REGION_COLLECTIONS[collection]
+    request = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Failed to load ${url}: HTTP ${response.status}`)
+        return response.json()
+      })
+      .then((data: { features: NamedRegionFeature[] }) =>
+        [...data.features].sort((a, b) => a.properties.name.localeCompare(b.properties.name)),
+      )
+    request.catch(() => requests.delete(collection))
+    requests.set(collection, request)
+  }
+  return request
+}
+
+export async function resolveRegion(shape: RegionShape): Promise<RegionGeometry | null> {
+  if (shape.kind !== "named") return shape
+
+  const features = await loadNamedRegions(shape.collection)
+  const feature = features.find((candidate) => candidate.properties.name === shape.name)
+  if (!feature) return null
+
+  const polygons = feature.geometry.type === "Polygon" ? [feature.geometry.coordinates] : feature.geometry.coordinates
+  return {
+    kind: "polygon",
+    rings: polygons.flat().map((ring) => ring.map(([lng, lat]): [number, number] => [lat, lng])),
+  }
+}
+
+function ringContains(ring: [number, number][], lat: number, lng: number) {
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [latI, lngI] = ring[i]
+    const [latJ, lngJ] = ring[j]
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function containsUnwrapped(geometry: RegionGeometry, lat: number, lng: number) {
+  switch (geometry.kind) {
+    case "rectangle":
+      return lat >= geometry.south && lat <= geometry.north && lng >= geometry.west && lng <= geometry.east
+    case "polygon":
+      return geometry.rings.reduce((inside, ring) => (ringContains(ring, lat, lng) ? !inside : inside), false)
+    case "circle":
+      return haversineKm(lat, lng, geometry.lat, geometry.lng) <= geometry.radiusKm
+  }
+}
+
+// Shapes drawn after panning across the antimeridian have longitudes beyond ±180, so test the copies either side too
+export function regionContains(geometry: RegionGeometry, lat: number, lng: number) {
+  if (geometry.kind === "circle") return containsUnwrapped(geometry, lat, lng)
+  return [lng, lng - 360, lng + 360].some((candidate) => containsUnwrapped(geometry, lat, candidate))
+}
+
+export function filterByRegion(earthquakes: Earthquake[], geometry: RegionGeometry) {
+  return earthquakes.filter((earthquake) => {
+    const [lng, lat] = earthquake.geometry.coordinates
+    return regionContains(geometry, lat, lng)
+  })
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000
+
+// Compact text form used as the region's key and in shared links
+export function encodeRegionShape(shape: RegionShape) {
+  switch (shape.kind) {
+    case "named":
+      return `${shape.collection}:${shape.name}`
+    case "rectangle":
+      return `rect:${[shape.south, shape.west, shape.north, shape.east].map(round).join(",")}`
+    case "circle":
+      return `circle:${[shape.lat, shape.lng, shape.radiusKm].map(round).join(",")}`
+    case "polygon":
+      return `poly:${shape.rings[0].map(([lat, lng]) => `${round(lat)},${round(lng)}`).join(";")}`
+  }
+}
+
+export function decodeRegionShape(value: string): RegionShape | null {
+  const separator = value.indexOf(":")
+  if (separator === -1) return null
+  const kind = value.slice(0, separator)
+  const body = value.slice(separator + 1)
+  const numbers = (text: string) => {
+    const parsed = text.split(",").map(Number)
+    return parsed.every(Number.isFinite) ? parsed : null
+  }
+
+  if (kind === "country" || kind === "seismic") return body ? { kind: "named", collection: kind, name: body } : null
+
+  if (kind === "rect") {
+    const values = numbers(body)
+    if (!values || values.length !== 4) return null
+    const [south, west, north, east] = values
+    return south < north && west < east ? { kind: "rectangle", south, west, north, east } : null
+  }
+
+  if (kind === "circle") {
+    const values = numbers(body)
+    if (!values || values.length !== 3 || values[2] <= 0) return null
+    const [lat, lng, radiusKm] = values
+    return { kind: "circle", lat, lng, radiusKm }
+  }
+
+  if (kind === "poly") {
+    const ring = body.split(";").map(numbers)
+    if (ring.length < 3 || ring.some((vertex) => !vertex || vertex.length !== 2)) return null
+    return { kind: "polygon", rings: [ring as [number, number][]] }
+  }
+
+  return null
+}
+
+export function describeRegionShape(shape: RegionShape, t: Translate, format: Formatters) {
+  switch (shape.kind) {
+    case "named":
+      return shape.name
+    case "rectangle":
+      return `${formatLat(shape.south)}–${formatLat(shape.north)}, ${formatLng(shape.west)}–${formatLng(shape.east)}`
+    case "circle":
+      return t("regions.circle", {
+        radius: format.length(shape.radiusKm),
+        position: `${formatLat(shape.lat)} ${formatLng(shape.lng)}`,
+      })
+    case "polygon":
+      return t("regions.polygon", { count: shape.rings[0].length })
+  }
+}
+
+const STORAGE_KEY = "earthquake-visualizer:regions"
+
+export function loadSavedRegions(): SavedRegion[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]") as { name: string; key: string }[]
+    return raw.flatMap(({ name, key }) => {
+      const shape = decodeRegionShape(key)
+      return shape ? [{ key, name, shape }] : []
+    })
+  } catch {
+    return []
+  }
+}
+
+export function storeSavedRegions(regions: SavedRegion[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(regions.map(({ key, name }) => ({ key, name }))))
+}
@@ -0,0 +1,83 @@
+export type CacheStatus = "HIT" | "STALE" | "MISS"
+
+interface CacheEntry<T> {
+  value: T
+  storedAt: number
+  // Past this it can no longer be served, even stale
+  expiresAt: number
+}
+
+interface CacheOptions {
+  // How long an entry is served without contacting the loader
+  ttlMs: number
+  // How long past the TTL an entry may still be served while it refreshes in the background
+  staleMs: number
+}
+
+// Searches and event details can be requested with endless distinct keys, so the cache is bounded too. Maps keep
+// insertion order, and entries are moved to the end when used, so the least recently used come first.
+const MAX_ENTRIES = 500
+
+const entries = new Map<string, CacheEntry<unknown>>()
+const inFlight = new Map<string, Promise<unknown>>()
+
+function store(key: string, entry: CacheEntry<unknown>) {
+  const now = Date.now()
+  entries.delete(key)
+  for (const [other, { expiresAt }] of entries) {
+    if (expiresAt < now) entries.delete(other)
+  }
+  entries.set(key, entry)
+  for (const other of entries.keys()) {
+    if (entries.size <= MAX_ENTRIES) break
+    entries.delete(other)
+  }
+}
+
+function load<T>(key: string, loader: () => Promise<T>, { ttlMs, staleMs }: CacheOptions): Promise<T> {
+  const pending = inFlight.get(key) as Promise<T> | undefined
+  if (pending) return pending
+
+  const promise = loader()
+    .then((value) => {
+      const storedAt = Date.now()
+      store(key, { value, storedAt, expiresAt: storedAt + ttlMs + staleMs })
+      return value
+    })
+    .finally(() => {
+      inFlight.delete(key)
+    })
+
+  inFlight.set(key, promise)
+  return promise
+}
+
+export async function cached<T>(
+  key: string,
+  loader: () => Promise<T>,
+  options: CacheOptions,
+): Promise<{ value: T; status: CacheStatus; storedAt: number }> {
+  const { ttlMs, staleMs } = options
+  const entry = entries.get(key) as CacheEntry<T> | undefined
+  const age = entry ? Date.now() - entry.storedAt : Infinity
+
+  if (entry) {
+    entries.delete(key)
+    if (age <= ttlMs + staleMs) entries.set(key, entry)
+  }
+
+  if (entry && age <= ttlMs) {
+    return { value: entry.value, status: "HIT", storedAt: entry.storedAt }
+  }
+
+  if (entry && age <= ttlMs + staleMs) {
+    // Serve the stale copy now and refresh for the next caller
+    load(key, loader, options).catch((error) => {
+      console.error(`Background refresh failed for ${key}:`, error)
+    })
+    return { value: entry.value, status: "STALE", storedAt: entry.storedAt }
+  }
+
+  const value = await load(key, loader, options)
+  return { value, status: "MISS", storedAt: entries.get(key)?.storedAt ?? Date.now() }
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest"
+import {
+  MIN_EVENTS_FOR_B_VALUE,
+  fitGutenbergRichter,
+  getBreakdown,
+  getCompletenessMagnitude,
+  getDepthHistogram,
+  getEventRate,
+  getMagnitudeHistogram,
+  getRateBucket,
+} from "@/lib/stats"
+import type { Earthquake } from "@/lib/types"
+
+const HOUR = 60 * 60 * 1000
+const DAY = 24 * HOUR
+const START = Date.UTC(2024, 0, 1)
+
+let nextId = 0
+
+function earthquake({ mag = 2, time = START, depth = 10, magType = "ml", net = "us" } = {}): Earthquake {
+  const id = `test${nextId++}`
+  return {
+    id,
+    properties: {
+      mag,
+      place: "Test",
+      time,
+      updated: time,
+      tz: null,
+      url: "",
+      detail: "",
+      felt: null,
+      cdi: null,
+      mmi: null,
+      alert: null,
+      status: "reviewed",
+      tsunami: 0,
+      sig: 0,
+      net,
+      code: id,
+      ids: `,${id},`,
+      sources: `,${net},`,
+      types: "",
+      nst: null,
+      dmin: null,
+      rms: 0,
+      gap: null,
+      magType,
+      type: "earthquake",
+      title: `M ${mag} - Test`,
+    },
+    geometry: { type: "Point", coordinates: [0, 0, depth] },
+  }
+}
+
+// Expands [magnitude, count] pairs into that many events
+const catalog = (counts: [number, number][]) =>
+  counts.flatMap(([mag, count]) => Array.from({ length: count }, () => earthquake({ mag })))
+
+// Gutenberg–Richter with b = 1 from M2.0, ten times fewer events per magnitude unit, and a catalog that
+// thins out below M2.0 the way a network's detection threshold makes it
+const GR_COUNTS: [number, number][] = [
+  ...[1.5, 1.6, 1.7, 1.8, 1.9].map((mag, index): [number, number] => [mag, 30 * (index + 1)]),
+  ...Array.from({ length: 21 }, (_, index): [number, number] => [
+    Math.round((2 + index * 0.1) * 10) / 10,
+    Math.round(1000 * 10 ** (-index * 0.1) * (1 - 10 ** -0.1)),
+  ]),
+]
+
+describe("getMagnitudeHistogram", () => {
+  it("bins to a tenth and fills gaps", () => {
+    const bins = getMagnitudeHistogram(catalog([[1.04, 1], [1.12, 2], [1.4, 1]]))
+    expect(bins).toEqual([
+      { magnitude: 1, count: 1, cumulative: 4 },
+      { magnitude: 1.1, count: 2, cumulative: 3 },
+      { magnitude: 1.2, count: 0, cumulative: 1 },
+      { magnitude: 1.3, count: 0, cumulative: 1 },
+      { magnitude: 1.4, count: 1, cumulative: 1 },
+    ])
+  })
+
+  it("is empty without events", () => {
+    expect(getMagnitudeHistogram([])).toEqual([])
+  })
+})
+
+describe("getCompletenessMagnitude", () => {
+  it("picks the most populated bin", () => {
+    expect(getCompletenessMagnitude(getMagnitudeHistogram(catalog(GR_COUNTS)))).toBe(2)
+  })
+
+  it("is null without bins", () => {
+    expect(getCompletenessMagnitude([])).toBeNull()
+  })
+})
+
+describe("fitGutenbergRichter", () => {
+  it("recovers the b-value of a Gutenberg–Richter catalog", () => {
+    const earthquakes = catalog(GR_COUNTS)
+    const fit = fitGutenbergRichter(earthquakes, 2)
+    const above = GR_COUNTS.filter(([mag]) => mag >= 2).reduce((sum, [, count]) => sum + count, 0)
+
+    expect(fit).not.toBeNull()
+    expect(fit!.count).toBe(above)
+    expect(fit!.bValue).toBeCloseTo(1, 1)
+    expect(fit!.bUncertainty).toBeGreaterThan(0)
+    expect(fit!.bUncertainty).toBeLessThan(0.05)
+    expect(fit!.aValue).toBeCloseTo(Math.log10(above) + fit!.bValue * 2, 10)
+  })
+
+  it("uses the half-bin correction", () => {
+    // Every event in the completeness bin: the mean sits half a bin above its lower edge
+    const fit = fitGutenbergRichter(catalog([[3, MIN_EVENTS_FOR_B_VALUE]]), 3)
+    expect(fit!.bValue).toBeCloseTo(Math.LOG10E / 0.05, 6)
+  })
+
+  it("needs enough events above completeness", () => {
+    const earthquakes = catalog([
+      [1, 100],
+      [2, MIN_EVENTS_FOR_B_VALUE - 1],
+    ])
+    expect(fitGutenbergRichter(earthquakes, 2)).toBeNull()
+    expect(fitGutenbergRichter(earthquakes, 1)).not.toBeNull()
+  })
+})
+
+describe("getEventRate", () => {
+  it("counts per UTC hour, including empty hours", () => {
+    const earthquakes = [START + 5 * 60 * 1000, START + 50 * 60 * 1000, START + 3 * HOUR].map((time) =>
+      earthquake({ time }),
+    )
+    expect(getEventRate(earthquakes, "hour")).toEqual([
+      { start: START, count: 2 },
+      { start: START + HOUR, count: 0 },
+      { start: START + 2 * HOUR, count: 0 },
+      { start: START + 3 * HOUR, count: 1 },
+    ])
+  })
+
+  it("counts per UTC day", () => {
+    const earthquakes = [START + HOUR, START + DAY + HOUR].map((time) => earthquake({ time }))
+    expect(getEventRate(earthquakes, "day")).toEqual([
+      { start: START, count: 1 },
+      { start: START + DAY, count: 1 },
+    ])
+  })
+
+  it("switches to days beyond three days of data", () => {
+    expect(getRateBucket([earthquake({ time: START }), earthquake({ time: START + 3 * DAY })])).toBe("hour")
+    expect(getRateBucket([earthquake({ time: START }), earthquake({ time: START + 3 * DAY + 1 })])).toBe("day")
+  })
+})
+
+describe("getDepthHistogram", () => {
+  it("bins depths from the surface, with events above sea level in the first bin", () => {
+    const earthquakes = [-1, 0, 9.9, 10, 35].map((depth) => earthquake({ depth }))
+    expect(getDepthHistogram(earthquakes)).toEqual([
+      { depth: 0, count: 3 },
+      { depth: 10, count: 1 },
+      { depth: 20, count: 0 },
+      { depth: 30, count: 1 },
+    ])
+  })
+})
+
+describe("getBreakdown", () => {
+  it("counts case-insensitively, largest first", () => {
+    const earthquakes = [
+      earthquake({ magType: "ml" }),
+      earthquake({ magType: "Mw" }),
+      earthquake({ magType: "mw" }),
+      earthquake({ magType: "" }),
+    ]
+    expect(getBreakdown(earthquakes, "magType")).toEqual([
+      { label: "mw", count: 2 },
+      { label: "ml", count: 1 },
+      { label: "unknown", count: 1 },
+    ])
+  })
+})
@@ -0,0 +1,168 @@
+import { getTimeExtent } from "@/lib/playback"
+import type { Earthquake } from "@/lib/types"
+
+// Threshold for the "Significant Events" card and list
+export const SIGNIFICANT_MAGNITUDE = 2.5
+
+export interface EarthquakeSummary {
+  total: number
+  significant: number
+  // null when there are no events
+  strongest: Earthquake | null
+  averageMagnitude: number | null
+  averageDepth: number | null
+}
+
+export function summarizeEarthquakes(earthquakes: Earthquake[]): EarthquakeSummary {
+  let strongest: Earthquake | null = null
+  let significant = 0
+  let magnitudeSum = 0
+  let depthSum = 0
+
+  for (const earthquake of earthquakes) {
+    if (!strongest || earthquake.properties.mag > strongest.properties.mag) strongest = earthquake
+    if (earthquake.properties.mag >= SIGNIFICANT_MAGNITUDE) significant += 1
+    magnitudeSum += earthquake.properties.mag
+    depthSum += earthquake.geometry.coordinates[2]
+  }
+
+  const total = earthquakes.length
+  return {
+    total,
+    significant,
+    strongest,
+    averageMagnitude: total > 0 ? magnitudeSum / total : null,
+    averageDepth: total > 0 ? depthSum / total : null,
+  }
+}
+
+// Magnitudes are binned to a tenth, the precision most catalogs report
+export const MAGNITUDE_BIN_WIDTH = 0.1
+
+// The b-value estimate is too noisy to be worth showing below this many events above completeness
+export const MIN_EVENTS_FOR_B_VALUE = 30
+
+export interface MagnitudeBin {
+  // Bin centre
+  magnitude: number
+  count: number
+  // Events at or above this bin, N(≥M) in the Gutenberg–Richter relation
+  cumulative: number
+}
+
+const toBinIndex = (magnitude: number) => Math.round(magnitude / MAGNITUDE_BIN_WIDTH)
+
+// Every bin from the smallest to the largest magnitude, including empty ones, so plots have no gaps
+export function getMagnitudeHistogram(earthquakes: Earthquake[]): MagnitudeBin[] {
+  if (earthquakes.length === 0) return []
+  const counts = new Map<number, number>()
+  for (const earthquake of earthquakes) {
+    const index = toBinIndex(earthquake.properties.mag)
+    counts.set(index, (counts.get(index) ?? 0) + 1)
+  }
+
+  const indexes = [...counts.keys()]
+  const first = Math.min(...indexes)
+  const last = Math.max(...indexes)
+  const bins: MagnitudeBin[] = []
+  let cumulative = earthquakes.length
+  for (let index = first; index <= last; index++) {
+    const count = counts.get(index) ?? 0
+    // Rounded again so 0.1 steps don't accumulate float error in the labels
+    bins.push({ magnitude: Math.round(index * MAGNITUDE_BIN_WIDTH * 10) / 10, count, cumulative })
+    cumulative -= count
+  }
+  return bins
+}
+
+// Maximum-curvature method (Wiemer & Wyss 2000): the most populated bin of the non-cumulative
+// distribution. It tends to underestimate completeness by 0.1–0.2 for gradually curved catalogs.
+export function getCompletenessMagnitude(bins: MagnitudeBin[]) {
+  if (bins.length === 0) return null
+  return bins.reduce((best, bin) => (bin.count > best.count ? bin : best)).magnitude
+}
+
+export interface GutenbergRichterFit {
+  completeness: number
+  bValue: number
+  // One standard deviation (Shi & Bolt 1982)
+  bUncertainty: number
+  // log10 N(≥M) = a - b·M
+  aValue: number
+  // Events at or above completeness used in the fit
+  count: number
+}
+
+// Aki–Utsu maximum-likelihood b-value for events at or above the completeness magnitude
+export function fitGutenbergRichter(earthquakes: Earthquake[], completeness: number): GutenbergRichterFit | null {
+  const magnitudes = earthquakes
+    .map((earthquake) => toBinIndex(earthquake.properties.mag) * MAGNITUDE_BIN_WIDTH)
+    .filter((magnitude) => magnitude >= completeness - MAGNITUDE_BIN_WIDTH / 10)
+  const count = magnitudes.length
+  if (count < MIN_EVENTS_FOR_B_VALUE) return null
+
+  const mean = magnitudes.reduce((sum, magnitude) => sum + magnitude, 0) / count
+  // Binned magnitudes need the half-bin correction (Utsu 1965)
+  const excess = mean - (completeness - MAGNITUDE_BIN_WIDTH / 2)
+  if (excess <= 0) return null
+
+  const bValue = Math.LOG10E / excess
+  const variance = magnitudes.reduce((sum, magnitude) => sum + (magnitude - mean) ** 2, 0) / (count * (count - 1))
+  return {
+    completeness,
+    bValue,
+    bUncertainty: 2.3 * bValue ** 2 * Math.sqrt(variance),
+    aValue: Math.log10(count) + bValue * completeness,
+    count,
+  }
+}
+
+export type RateBucket = "hour" | "day"
+
+const BUCKET_MS: Record<RateBucket, number> = { hour: 60 * 60 * 1000, day: 24 * 60 * 60 * 1000 }
+
+// Hourly buckets for up to three days of data, daily beyond that
+export function getRateBucket(earthquakes: Earthquake[]): RateBucket {
+  const extent = getTimeExtent(earthquakes)
+  return extent && extent[1] - extent[0] > 3 * BUCKET_MS.day ? "day" : "hour"
+}
+
+// Event counts per UTC hour or day, including empty buckets between the first and last event
+export function getEventRate(earthquakes: Earthquake[], bucket: RateBucket) {
+  if (earthquakes.length === 0) return []
+  const size = BUCKET_MS[bucket]
+  const counts = new Map<number, number>()
+  for (const earthquake of earthquakes) {
+    const start = Math.floor(earthquake.properties.time / size) * size
+    counts.set(start, (counts.get(start) ?? 0) + 1)
+  }
+
+  const starts = [...counts.keys()]
+  const rate: { start: number; count: number }[] = []
+  for (let start = Math.min(...starts); start <= Math.max(...starts); start += size) {
+    rate.push({ start, count: counts.get(start) ?? 0 })
+  }
+  return rate
+}
+
+// Counts in depth bins starting at the surface; events above sea level go in the first bin
+export function getDepthHistogram(earthquakes: Earthquake[], binKm = 10) {
+  if (earthquakes.length === 0) return []
+  const depths = earthquakes.map((earthquake) => Math.max(earthquake.geometry.coordinates[2], 0))
+  const deepest = depths.reduce((max, depth) => Math.max(max, depth), 0)
+  const counts = new Array<number>(Math.floor(deepest / binKm) + 1).fill(0)
+  for (const depth of depths) counts[Math.floor(depth / binKm)] += 1
+  return counts.map((count, index) => ({ depth: index * binKm, count }))
+}
+
+// Event counts by a catalog attribute such as magType or net, largest first
+export function getBreakdown(earthquakes: Earthquake[], key: "magType" | "net") {
+  const counts = new Map<string, number>()
+  for (const earthquake of earthquakes) {
+    const label = earthquake.properties[key]?.toLowerCase() || "unknown"
+    counts.set(label, (counts.get(label) ?? 0) + 1)
+  }
+  return [...counts]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+}
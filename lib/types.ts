@@ -0,0 +1,165 @@
+export interface Earthquake {
+  id: string
+  properties: {
+    mag: number
+    place: string
+    time: number
+    updated: number
+    tz: number | null
+    url: string
+    detail: string
+    felt: number | null
+    cdi: number | null
+    mmi: number | null
+    alert: string | null
+    status: string
+    tsunami: number
+    sig: number
+    net: string
+    code: string
+    ids: string
+    sources: string
+    types: string
+    nst: number | null
+    dmin: number | null
+    rms: number
+    gap: number | null
+    magType: string
+    type: string
+    title: string
+  }
+  geometry: {
+    type: string
+    coordinates: [number, number, number] // [longitude, latitude, depth]
+  }
+}
+
+export interface EarthquakeData {
+  type: string
+  metadata: {
+    generated: number
+    url: string
+    title: string
+    status: number
+    api: string
+    count: number
+  }
+  features: Earthquake[]
+}
+
+export interface SearchResponse {
+  data: EarthquakeData
+  // Events matching the search, across all pages
+  total: number
+  offset: number
+  limit: number | null
+  // Number of time ranges the search was split into
+  chunks: number
+}
+
+export interface OriginSummary {
+  source: string
+  // USGS lists the authoritative product of each type first
+  preferred: boolean
+  reviewStatus: string
+  time: number | null
+  latitude: number | null
+  longitude: number | null
+  depth: number | null
+  magnitude: number | null
+  magType: string
+  stations: number | null
+  gap: number | null
+  rms: number | null
+  updated: number
+}
+
+export interface MagnitudeEstimate {
+  source: string
+  value: number
+  magType: string
+  // Product the estimate came from, e.g. "origin" or "moment-tensor"
+  product: string
+}
+
+export interface NodalPlane {
+  strike: number
+  dip: number
+  rake: number
+}
+
+export interface MechanismSummary {
+  kind: "moment-tensor" | "focal-mechanism"
+  source: string
+  nodalPlanes: NodalPlane[]
+  magnitude: number | null
+  magType: string
+  // Newton-metres
+  scalarMoment: number | null
+  percentDoubleCouple: number | null
+}
+
+export interface ShakeMapSummary {
+  source: string
+  maxMmi: number | null
+  // Peak ground acceleration in %g and velocity in cm/s
+  maxPga: number | null
+  maxPgv: number | null
+  status: string
+  imageUrl: string | null
+}
+
+export interface DyfiSummary {
+  source: string
+  maxMmi: number | null
+  responses: number | null
+}
+
+export interface PagerSummary {
+  source: string
+  alertLevel: string | null
+  maxMmi: number | null
+}
+
+// What /api/earthquakes/[id] extracts from the USGS detail GeoJSON
+export interface EventDetail {
+  earthquake: Earthquake
+  origins: OriginSummary[]
+  magnitudes: MagnitudeEstimate[]
+  mechanism: MechanismSummary | null
+  shakemap: ShakeMapSummary | null
+  dyfi: DyfiSummary | null
+  pager: PagerSummary | null
+  // Network codes that contributed any product, preferred network first
+  networks: string[]
+}
+
+// What /api/catalogs/[provider] returns for one provider's events in the requested window
+export interface CatalogResponse {
+  provider: string
+  // The upstream URL, or the fixture file when fixtures are served
+  source: string
+  earthquakes: Earthquake[]
+  // Records in the response that couldn't be turned into events
+  skipped: number
+  // The provider had more events than it was allowed to return
+  truncated: boolean
+}
+
+// Payload of the "update" events sent by /api/earthquakes/stream; the first one is a full snapshot
+export interface StreamUpdate {
+  generated: number
+  features: Earthquake[]
+}
+
+export type ApiErrorCode = "INVALID_REQUEST" | "UPSTREAM_ERROR" | "SEARCH_LIMIT_EXCEEDED" | "NOT_FOUND" | "STORAGE_ERROR"
+
+// Body returned by the API routes when a request cannot be served
+export interface ApiErrorBody {
+  error: string
+  code?: ApiErrorCode
+  upstreamStatus?: number
+  // Matching events, for SEARCH_LIMIT_EXCEEDED
+  count?: number
+  details?: string[]
+}
@@ -0,0 +1,149 @@
+import { COLOR_MODES, type ColorMode, MAX_DEPTH_KM } from "@/lib/color-scales"
+import { type HistoricalSearch, parseSearchParams, toSearchParams } from "@/lib/fdsn"
+import { DEFAULT_FEED, type FeedSelection, parseFeedId, toFeedId } from "@/lib/feeds"
+import { DEFAULT_QUALITY_FILTER, type QualityFilter } from "@/lib/quality"
+import { decodeRegionShape } from "@/lib/regions"
+
+export type DataMode = "live" | "historical"
+
+export interface MapView {
+  lat: number
+  lng: number
+  zoom: number
+}
+
+// Everything a shared link restores
+export interface ViewState {
+  mode: DataMode
+  feed: FeedSelection
+  // Only set in historical mode
+  search: HistoricalSearch | null
+  minMagnitude: number
+  depthRange: [number, number]
+  timeFilter: string
+  showFilters: boolean
+  colorMode: ColorMode
+  quality: QualityFilter
+  eventId: string | null
+  // Key of the region filtering the view (see encodeRegionShape), null for worldwide
+  region: string | null
+  // null until the user moves the map, so links without a view use the default one
+  mapView: MapView | null
+}
+
+export const DEFAULT_MAP_VIEW: MapView = { lat: 20, lng: 0, zoom: 2 }
+
+export const DEFAULT_VIEW_STATE: ViewState = {
+  mode: "live",
+  feed: DEFAULT_FEED,
+  search: null,
+  minMagnitude: 0,
+  depthRange: [0, MAX_DEPTH_KM],
+  timeFilter: "all",
+  showFilters: false,
+  colorMode: "magnitude",
+  quality: DEFAULT_QUALITY_FILTER,
+  eventId: null,
+  region: null,
+  mapView: null,
+}
+
+// What Next.js passes to a page as searchParams
+export type RawSearchParams = Record<string, string | string[] | undefined>
+
+export function toUrlSearchParams(raw: RawSearchParams) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(raw)) {
+    if (typeof value === "string") params.set(key, value)
+    else if (Array.isArray(value) && value.length > 0) params.set(key, value[0])
+  }
+  return params
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+// Enough precision to land on the same street at high zoom without bloating the URL
+export const roundMapView = ({ lat, lng, zoom }: MapView): MapView => ({
+  lat: Math.round(lat * 1e4) / 1e4,
+  lng: Math.round(lng * 1e4) / 1e4,
+  zoom: Math.round(zoom),
+})
+
+function parseMapView(value: string | null): MapView | null {
+  if (!value) return null
+  const [lat, lng, zoom] = value.split(",").map(Number)
+  if (![lat, lng, zoom].every(Number.isFinite)) return null
+  return roundMapView({ lat: clamp(lat, -90, 90), lng: clamp(lng, -180, 180), zoom: clamp(zoom, 1, 20) })
+}
+
+function parseDepthRange(value: string | null): [number, number] {
+  const [min, max] = (value ?? "").split("-").map(Number)
+  if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) return DEFAULT_VIEW_STATE.depthRange
+  return [clamp(min, 0, MAX_DEPTH_KM), clamp(max, 0, MAX_DEPTH_KM)]
+}
+
+const parseList = (value: string | null) => (value ? value.split(",").filter(Boolean) : [])
+
+function parseLimit(value: string | null) {
+  const limit = Number(value)
+  return value && Number.isFinite(limit) && limit > 0 ? limit : null
+}
+
+function parseQualityFilter(params: URLSearchParams): QualityFilter {
+  return {
+    reviewedOnly: params.get("reviewed") === "1",
+    networks: parseList(params.get("net")),
+    types: parseList(params.get("evtype")),
+    maxGap: parseLimit(params.get("maxgap")),
+    maxRms: parseLimit(params.get("maxrms")),
+  }
+}
+
+// Unknown or malformed values fall back to the defaults rather than failing the page
+export function parseViewState(params: URLSearchParams): ViewState {
+  const mode: DataMode = params.get("mode") === "historical" ? "historical" : "live"
+  const minMagnitude = Number(params.get("minmag"))
+  const colorMode = params.get("color") as ColorMode
+
+  return {
+    mode,
+    feed: parseFeedId(params.get("feed")) ?? DEFAULT_FEED,
+    // Historical searches use the FDSN parameter names, exactly as the search API does
+    search: mode === "historical" && params.has("starttime") ? parseSearchParams(params).search : null,
+    minMagnitude: Number.isFinite(minMagnitude) ? clamp(minMagnitude, 0, 8) : 0,
+    depthRange: parseDepthRange(params.get("depth")),
+    timeFilter: params.get("time") || "all",
+    showFilters: params.get("filters") === "1",
+    colorMode: COLOR_MODES.includes(colorMode) ? colorMode : DEFAULT_VIEW_STATE.colorMode,
+    quality: parseQualityFilter(params),
+    eventId: params.get("event") || null,
+    region: decodeRegionShape(params.get("region") ?? "") ? params.get("region") : null,
+    mapView: parseMapView(params.get("map")),
+  }
+}
+
+// Defaults are left out so links stay short
+export function toViewParams(state: ViewState) {
+  const params = state.mode === "historical" && state.search ? toSearchParams(state.search) : new URLSearchParams()
+
+  if (state.mode === "historical") params.set("mode", "historical")
+  if (state.mode === "live" && toFeedId(state.feed) !== toFeedId(DEFAULT_FEED)) params.set("feed", toFeedId(state.feed))
+  if (state.minMagnitude > 0) params.set("minmag", String(state.minMagnitude))
+  if (state.depthRange[0] > 0 || state.depthRange[1] < MAX_DEPTH_KM) params.set("depth", state.depthRange.join("-"))
+  if (state.mode === "live" && state.timeFilter !== "all") params.set("time", state.timeFilter)
+  if (state.showFilters) params.set("filters", "1")
+  if (state.colorMode !== DEFAULT_VIEW_STATE.colorMode) params.set("color", state.colorMode)
+  if (state.quality.reviewedOnly) params.set("reviewed", "1")
+  if (state.quality.networks.length > 0) params.set("net", state.quality.networks.join(","))
+  if (state.quality.types.length > 0) params.set("evtype", state.quality.types.join(","))
+  if (state.quality.maxGap !== null) params.set("maxgap", String(state.quality.maxGap))
+  if (state.quality.maxRms !== null) params.set("maxrms", String(state.quality.maxRms))
+  if (state.eventId) params.set("event", state.eventId)
+  if (state.region) params.set("region", state.region)
+  if (state.mapView) {
+    const { lat, lng, zoom } = roundMapView(state.mapView)
+    params.set("map", `${lat},${lng},${zoom}`)
+  }
+
+  return params
+}
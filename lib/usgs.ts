@@ -0,0 +1,377 @@
+import { type FeedSelection, toFeedId } from "@/lib/feeds"
+import { cached } from "@/lib/server-cache"
+import type {
+  DyfiSummary,
+  Earthquake,
+  EarthquakeData,
+  EventDetail,
+  MagnitudeEstimate,
+  MechanismSummary,
+  NodalPlane,
+  OriginSummary,
+  PagerSummary,
+  ShakeMapSummary,
+} from "@/lib/types"
+
+export const DEFAULT_USGS_BASE_URL = "https://earthquake.usgs.gov"
+
+// USGS_BASE_URL lets tests and local setups point the server at a fixture server
+export function getUsgsBaseUrl() {
+  return (process.env.USGS_BASE_URL || DEFAULT_USGS_BASE_URL).replace(/\/+$/, "")
+}
+
+export function getFeedUrl(feed = "all_day") {
+  return `${getUsgsBaseUrl()}/earthquakes/feed/v1.0/summary/${feed}.geojson`
+}
+
+// USGS event ids are a network code followed by an alphanumeric event code
+export const EVENT_ID_PATTERN = /^[a-z0-9]{2,}$/i
+
+export function getDetailUrl(id: string) {
+  return `${getUsgsBaseUrl()}/earthquakes/feed/v1.0/detail/${id}.geojson`
+}
+
+export function getFdsnUrl(method: "query" | "count", params: URLSearchParams) {
+  return `${getUsgsBaseUrl()}/fdsnws/event/1/${method}?${params}`
+}
+
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message)
+    this.name = "UpstreamError"
+  }
+}
+
+type RawRecord = Record<string, unknown>
+
+const asRecord = (value: unknown): RawRecord =>
+  value && typeof value === "object" ? (value as RawRecord) : {}
+
+const asNumber = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null
+
+const asString = (value: unknown) => (typeof value === "string" ? value : "")
+
+// Product properties are all strings, even the numeric ones
+const asNumeric = (value: unknown): number | null =>
+  typeof value === "string" && value.trim() !== "" ? asNumber(Number(value)) : asNumber(value)
+
+export function normalizeEarthquake(raw: unknown): Earthquake | null {
+  const feature = asRecord(raw)
+  const props = asRecord(feature.properties)
+  const geometry = asRecord(feature.geometry)
+  const coordinates = Array.isArray(geometry.coordinates) ? geometry.coordinates : []
+
+  const id = asString(feature.id)
+  const mag = asNumber(props.mag)
+  const time = asNumber(props.time)
+  const lng = asNumber(coordinates[0])
+  const lat = asNumber(coordinates[1])
+
+  // Events without a location, time or magnitude can't be plotted or ranked
+  if (!id || mag === null || time === null || lng === null || lat === null) return null
+
+  return {
+    id,
+    properties: {
+      mag,
+      place: asString(props.place) || "Unknown location",
+      time,
+      updated: asNumber(props.updated) ?? time,
+      tz: asNumber(props.tz),
+      url: asString(props.url),
+      detail: asString(props.detail),
+      felt: asNumber(props.felt),
+      cdi: asNumber(props.cdi),
+      mmi: asNumber(props.mmi),
+      alert: asString(props.alert) || null,
+      status: asString(props.status),
+      tsunami: asNumber(props.tsunami) ?? 0,
+      sig: asNumber(props.sig) ?? 0,
+      net: asString(props.net),
+      code: asString(props.code),
+      ids: asString(props.ids),
+      sources: asString(props.sources),
+      types: asString(props.types),
+      nst: asNumber(props.nst),
+      dmin: asNumber(props.dmin),
+      rms: asNumber(props.rms) ?? 0,
+      gap: asNumber(props.gap),
+      magType: asString(props.magType),
+      type: asString(props.type) || "earthquake",
+      title: asString(props.title) || `M ${mag.toFixed(1)} - ${asString(props.place)}`,
+    },
+    geometry: {
+      type: "Point",
+      coordinates: [lng, lat, asNumber(coordinates[2]) ?? 0],
+    },
+  }
+}
+
+export function normalizeEarthquakeData(raw: unknown, sourceUrl: string): EarthquakeData {
+  const collection = asRecord(raw)
+  const metadata = asRecord(collection.metadata)
+
+  if (!Array.isArray(collection.features)) {
+    throw new UpstreamError("USGS response was not a GeoJSON FeatureCollection")
+  }
+
+  const features = collection.features
+    .map(normalizeEarthquake)
+    .filter((earthquake): earthquake is Earthquake => earthquake !== null)
+
+  return {
+    type: "FeatureCollection",
+    metadata: {
+      generated: asNumber(metadata.generated) ?? Date.now(),
+      url: asString(metadata.url) || sourceUrl,
+      title: asString(metadata.title),
+      status: asNumber(metadata.status) ?? 200,
+      api: asString(metadata.api),
+      count: features.length,
+    },
+    features,
+  }
+}
+
+interface RawProduct {
+  source: string
+  status: string
+  updateTime: number
+  properties: Record<string, string>
+  contents: Record<string, { url?: string }>
+}
+
+function readProducts(props: RawRecord, type: string): RawProduct[] {
+  const products = asRecord(props.products)[type]
+  if (!Array.isArray(products)) return []
+  return products
+    .map((raw) => {
+      const product = asRecord(raw)
+      return {
+        source: asString(product.source),
+        status: asString(product.status),
+        updateTime: asNumber(product.updateTime) ?? 0,
+        properties: asRecord(product.properties) as Record<string, string>,
+        contents: asRecord(product.contents) as Record<string, { url?: string }>,
+      }
+    })
+    .filter((product) => product.status !== "DELETE")
+}
+
+function readNodalPlanes(properties: Record<string, string>): NodalPlane[] {
+  return [1, 2].flatMap((index) => {
+    const strike = asNumeric(properties[`nodal-plane-${index}-strike`])
+    const dip = asNumeric(properties[`nodal-plane-${index}-dip`])
+    // Some contributors publish the rake as "slip"
+    const rake = asNumeric(properties[`nodal-plane-${index}-rake`] ?? properties[`nodal-plane-${index}-slip`])
+    return strike === null || dip === null || rake === null ? [] : [{ strike, dip, rake }]
+  })
+}
+
+function readMechanism(props: RawRecord): MechanismSummary | null {
+  for (const kind of ["moment-tensor", "focal-mechanism"] as const) {
+    const product = readProducts(props, kind).find((candidate) => readNodalPlanes(candidate.properties).length > 0)
+    if (!product) continue
+    const { properties } = product
+    const percent = asNumeric(properties["percent-double-couple"])
+    return {
+      kind,
+      source: product.source,
+      nodalPlanes: readNodalPlanes(properties),
+      magnitude: asNumeric(properties["derived-magnitude"]),
+      magType: properties["derived-magnitude-type"] ?? "",
+      scalarMoment: asNumeric(properties["scalar-moment"]),
+      // Published as a fraction
+      percentDoubleCouple: percent === null ? null : Math.round(percent * 100),
+    }
+  }
+  return null
+}
+
+export function normalizeEventDetail(raw: unknown): EventDetail {
+  const earthquake = normalizeEarthquake(raw)
+  if (!earthquake) throw new UpstreamError("USGS returned an event without a location, time or magnitude")
+  const props = asRecord(asRecord(raw).properties)
+
+  const origins: OriginSummary[] = readProducts(props, "origin").map((product, index) => {
+    const { properties } = product
+    const time = Date.parse(properties.eventtime ?? "")
+    return {
+      source: product.source,
+      preferred: index === 0,
+      reviewStatus: properties["review-status"] ?? "",
+      time: Number.isNaN(time) ? null : time,
+      latitude: asNumeric(properties.latitude),
+      longitude: asNumeric(properties.longitude),
+      depth: asNumeric(properties.depth),
+      magnitude: asNumeric(properties.magnitude),
+      magType: properties["magnitude-type"] ?? "",
+      stations: asNumeric(properties["num-stations-used"]),
+      gap: asNumeric(properties["azimuthal-gap"]),
+      rms: asNumeric(properties["standard-error"]),
+      updated: product.updateTime,
+    }
+  })
+
+  const magnitudes: MagnitudeEstimate[] = [
+    ...origins.flatMap((origin) =>
+      origin.magnitude === null
+        ? []
+        : [{ source: origin.source, value: origin.magnitude, magType: origin.magType, product: "origin" }],
+    ),
+    ...readProducts(props, "moment-tensor").flatMap((product) => {
+      const value = asNumeric(product.properties["derived-magnitude"])
+      return value === null
+        ? []
+        : [
+            {
+              source: product.source,
+              value,
+              magType: product.properties["derived-magnitude-type"] ?? "",
+              product: "moment-tensor",
+            },
+          ]
+    }),
+  ]
+
+  const [shakemapProduct] = readProducts(props, "shakemap")
+  const shakemap: ShakeMapSummary | null = shakemapProduct
+    ? {
+        source: shakemapProduct.source,
+        maxMmi: asNumeric(shakemapProduct.properties.maxmmi),
+        maxPga: asNumeric(shakemapProduct.properties.maxpga),
+        maxPgv: asNumeric(shakemapProduct.properties.maxpgv),
+        status: shakemapProduct.properties["map-status"] ?? "",
+        imageUrl: shakemapProduct.contents["download/intensity.jpg"]?.url ?? null,
+      }
+    : null
+
+  const [dyfiProduct] = readProducts(props, "dyfi")
+  const dyfi: DyfiSummary | null = dyfiProduct
+    ? {
+        source: dyfiProduct.source,
+        maxMmi: asNumeric(dyfiProduct.properties.maxmmi),
+        responses: asNumeric(dyfiProduct.properties["num-responses"]),
+      }
+    : null
+
+  const [pagerProduct] = readProducts(props, "losspager")
+  const pager: PagerSummary | null = pagerProduct
+    ? {
+        source: pagerProduct.source,
+        alertLevel: pagerProduct.properties.alertlevel || null,
+        maxMmi: asNumeric(pagerProduct.properties.maxmmi),
+      }
+    : null
+
+  // "sources" is a comma-wrapped list such as ",us,ak,"
+  const networks = [earthquake.properties.net, ...earthquake.properties.sources.split(",")]
+    .map((network) => network.trim().toLowerCase())
+    .filter((network, index, all) => network && all.indexOf(network) === index)
+
+  return {
+    earthquake,
+    origins,
+    magnitudes,
+    mechanism: readMechanism(props),
+    shakemap,
+    dyfi,
+    pager,
+    networks,
+  }
+}
+
+async function request(url: string) {
+  try {
+    return await fetch(url, { cache: "no-store", headers: { Accept: "application/geo+json, application/json" } })
+  } catch (error) {
+    throw new UpstreamError(`Could not reach USGS: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+// FDSN services explain rejected queries in a plain-text body
+async function describeFailure(response: Response) {
+  const text = response.status >= 400 && response.status < 500 ? await response.text().catch(() => "") : ""
+  const detail = text
+    .split("\n")
+    .map((line) => line.trim())
+    .find((line) => line && !line.startsWith("Error"))
+  return detail ? `USGS rejected the request: ${detail}` : `USGS responded with HTTP ${response.status}`
+}
+
+export async function fetchUsgsGeoJson(url: string): Promise<EarthquakeData> {
+  const response = await request(url)
+
+  if (!response.ok) {
+    throw new UpstreamError(await describeFailure(response), response.status)
+  }
+
+  let json: unknown
+  try {
+    json = await response.json()
+  } catch {
+    throw new UpstreamError("USGS returned malformed JSON", response.status)
+  }
+
+  return normalizeEarthquakeData(json, url)
+}
+
+export async function fetchUsgsCount(url: string): Promise<number> {
+  const response = await request(url)
+
+  if (!response.ok) {
+    throw new UpstreamError(await describeFailure(response), response.status)
+  }
+
+  const body = asRecord(await response.json().catch(() => null))
+  const count = asNumber(body.count)
+  if (count === null) {
+    throw new UpstreamError("USGS returned an unreadable event count", response.status)
+  }
+  return count
+}
+
+export async function fetchEventDetail(id: string): Promise<EventDetail> {
+  const url = getDetailUrl(id)
+  const response = await request(url)
+
+  if (!response.ok) {
+    // USGS answers 409 Conflict for events that have since been deleted
+    throw new UpstreamError(
+      response.status === 404 || response.status === 409
+        ? `USGS has no event with id "${id}"`
+        : await describeFailure(response),
+      response.status,
+    )
+  }
+
+  let json: unknown
+  try {
+    json = await response.json()
+  } catch {
+    throw new UpstreamError("USGS returned malformed JSON", response.status)
+  }
+
+  return normalizeEventDetail(json)
+}
+
+// USGS regenerates the summary feeds roughly once a minute
+export const FEED_TTL_MS = 60 * 1000
+export const FEED_STALE_MS = 5 * 60 * 1000
+
+// Shared by the JSON and streaming routes so every client reuses one upstream fetch
+export function getFeed(feed: FeedSelection) {
+  const url = getFeedUrl(toFeedId(feed))
+  return cached(url, () => fetchUsgsGeoJson(url), { ttlMs: FEED_TTL_MS, staleMs: FEED_STALE_MS })
+}
+
+// Products such as ShakeMap and PAGER keep being revised for hours after an event
+export const DETAIL_TTL_MS = 5 * 60 * 1000
+
+export function getEventDetail(id: string) {
+  return cached(`detail:${id}`, () => fetchEventDetail(id), { ttlMs: DETAIL_TTL_MS, staleMs: DETAIL_TTL_MS })
+}
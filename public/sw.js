@@ -0,0 +1,129 @@
+// Service worker for offline use. The last feed response itself lives in IndexedDB (lib/offline-cache.ts);
+// this caches what's needed to open the page and draw the map without a connection:
+// - pages: network first, falling back to the last copy
+// - Next.js build assets: cache first, since their names change with every build
+// - bundled GeoJSON and icons: served from cache while refreshing in the background
+// - basemap tiles: cache first, keeping only the most recently fetched ones
+// API requests are never cached here.
+
+const VERSION = "v2"
+const SHELL_CACHE = `shell-${VERSION}`
+const TILE_CACHE = `tiles-${VERSION}`
+const MAX_TILES = 1500
+const SHELL_URLS = ["/", "/manifest.webmanifest", "/icon.svg"]
+
+// z/x/y or z/y/x, optionally with a retina suffix and an extension
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?(\.\w+)?$/
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => keys.filter((key) => key !== SHELL_CACHE && key !== TILE_CACHE))
+      .then((stale) => Promise.all(stale.map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+async function networkFirst(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  // The query string only carries view state, so each page is kept once under its path rather than once per view
+  const { pathname } = new URL(request.url)
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(pathname, response.clone())
+    return response
+  } catch (error) {
+    // Any page falls back to the app shell
+    const cached = (await cache.match(pathname)) ?? (await cache.match("/"))
+    if (cached) return cached
+    throw error
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName)
+  const cached = await cache.match(request)
+  if (cached) return cached
+  const response = await fetch(request)
+  if (response.ok) {
+    await cache.put(request, response.clone())
+    if (cacheName === TILE_CACHE) trimTiles()
+  }
+  return response
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(SHELL_CACHE)
+  const cached = await cache.match(request)
+  const refresh = fetch(request).then((response) => {
+    if (response.ok) cache.put(request, response.clone())
+    return response
+  })
+  if (cached) {
+    refresh.catch(() => {})
+    return cached
+  }
+  return refresh
+}
+
+let trimming = false
+
+// Keys come back in insertion order, so the oldest tiles are dropped first
+async function trimTiles() {
+  if (trimming) return
+  trimming = true
+  try {
+    const cache = await caches.open(TILE_CACHE)
+    const keys = await cache.keys()
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - MAX_TILES)).map((key) => cache.delete(key)))
+  } finally {
+    trimming = false
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  if (request.method !== "GET") return
+  const url = new URL(request.url)
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith("/api/")) return
+    if (request.mode === "navigate") {
+      event.respondWith(networkFirst(request))
+    } else if (url.pathname.startsWith("/_next/static/")) {
+      event.respondWith(cacheFirst(request, SHELL_CACHE))
+    } else if (url.pathname.startsWith("/data/") || SHELL_URLS.includes(url.pathname)) {
+      event.respondWith(staleWhileRevalidate(request))
+    }
+    return
+  }
+
+  if (request.destination === "image" && TILE_PATH.test(url.pathname)) {
+    event.respondWith(cacheFirst(request, TILE_CACHE))
+  }
+})
+
+// Alert notifications shown through the worker (lib/alerts.ts): an open page is focused and asked to show the
+// event, otherwise the event's link opens in a new one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close()
+  const eventId = event.notification.data?.eventId
+  if (!eventId) return
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then(([client]) => {
+      if (!client) return self.clients.openWindow(`/?event=${encodeURIComponent(eventId)}`)
+      client.postMessage({ type: "open-event", eventId })
+      return client.focus()
+    }),
+  )
+})